@@ -5,12 +5,28 @@ import connectDB from './config/database';
 import { connectRedis } from './config/redis';
 import { verifyEmailConnection } from './config/email';
 import { routes } from './routes';
+import { seedDefaultRoles } from './services/permission.service';
+import { applyAuditRetention } from './services/audit.service';
 import { sendErrorResponse } from './utils/errors';
+import { rateLimit } from './middleware/rateLimit.middleware';
+import { RATE_LIMITS } from './config/rateLimits';
 
 const app: Application = express();
 
-// Trust proxy to get correct IP address
-app.set('trust proxy', true);
+/**
+ * Proxies in front of the app whose X-Forwarded-For entries are trusted, so req.ip is the client address
+ * TRUST_PROXY is a hop count (default 1) or a comma-separated list of proxy addresses/subnets. Trusting every
+ * hop would let clients pick their own IP and get round the per-IP rate limits and login lockouts.
+ */
+const getTrustProxy = (): number | string[] => {
+  const value = (process.env.TRUST_PROXY || '1').trim();
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10);
+  }
+  return value.split(',').map((proxy) => proxy.trim()).filter(Boolean);
+};
+
+app.set('trust proxy', getTrustProxy());
 
 // Middleware
 app.use(cors());
@@ -26,6 +42,9 @@ app.get('/health', (req: Request, res: Response) => {
   });
 });
 
+// Per-IP limit on all API routes; stricter limits are set on individual routes
+app.use('/api', rateLimit(RATE_LIMITS.global));
+
 // API Routes
 routes.forEach((route) => {
   app.use(route.path, route.router);
@@ -48,6 +67,11 @@ app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
 const initializeConnections = async (): Promise<void> => {
   try {
     await connectDB();
+    await seedDefaultRoles();
+    // A retention problem shouldn't keep the API from starting
+    await applyAuditRetention().catch((error) => {
+      console.error('❌ Error applying audit log retention:', error);
+    });
     await connectRedis();
     await verifyEmailConnection();
   } catch (error) {
@@ -0,0 +1,239 @@
+/**
+ * Offline list of the most common passwords from public breach corpora
+ * Compared case-insensitively. Point COMMON_PASSWORDS_FILE at a larger newline-separated list to extend it.
+ */
+export const COMMON_PASSWORDS: string[] = [
+  '123456',
+  'password',
+  '12345678',
+  'qwerty',
+  '123456789',
+  '12345',
+  '1234',
+  '111111',
+  '1234567',
+  'dragon',
+  '123123',
+  'baseball',
+  'abc123',
+  'football',
+  'monkey',
+  'letmein',
+  'shadow',
+  'master',
+  '696969',
+  'mustang',
+  '666666',
+  'qwertyuiop',
+  '123321',
+  '1234567890',
+  'superman',
+  '654321',
+  '1qaz2wsx',
+  '7777777',
+  'qazwsx',
+  'jordan',
+  'jennifer',
+  '123qwe',
+  '121212',
+  'killer',
+  'trustno1',
+  'hunter',
+  'harley',
+  'zxcvbnm',
+  'asdfgh',
+  'buster',
+  'batman',
+  'soccer',
+  'tigger',
+  'charlie',
+  'sunshine',
+  'iloveyou',
+  'ranger',
+  'hockey',
+  'computer',
+  'starwars',
+  'pepper',
+  'klaster',
+  '112233',
+  'zxcvbn',
+  'freedom',
+  'princess',
+  'maggie',
+  'pass',
+  'ginger',
+  '11111111',
+  '131313',
+  'love',
+  'cheese',
+  '159753',
+  'summer',
+  'chelsea',
+  'dallas',
+  'matrix',
+  'yankees',
+  '6969',
+  'corvette',
+  'austin',
+  'access',
+  'thunder',
+  'merlin',
+  'secret',
+  'diamond',
+  'hello',
+  'hammer',
+  '1234qwer',
+  'silver',
+  'gfhjkm',
+  'internet',
+  'samantha',
+  'golfer',
+  'scooter',
+  'test',
+  'orange',
+  'cookie',
+  'q1w2e3r4t5',
+  'maverick',
+  'sparky',
+  'phoenix',
+  'mickey',
+  'bigdog',
+  'snoopy',
+  'guitar',
+  'whatever',
+  'chicken',
+  'camaro',
+  'mercedes',
+  'peanut',
+  'ferrari',
+  'falcon',
+  'cowboy',
+  'welcome',
+  'samsung',
+  'steelers',
+  'smokey',
+  'dakota',
+  'arsenal',
+  'boomer',
+  'eagles',
+  'tigers',
+  'marina',
+  'nascar',
+  'booboo',
+  'gateway',
+  'yellow',
+  'porsche',
+  'monster',
+  'spider',
+  'diablo',
+  'hannah',
+  'bulldog',
+  'junior',
+  'london',
+  'purple',
+  'compaq',
+  'lakers',
+  'iceman',
+  'qwer1234',
+  'cowboys',
+  'money',
+  'banana',
+  'ncc1701',
+  'boston',
+  'tennis',
+  'q1w2e3r4',
+  'coffee',
+  'scooby',
+  '123654',
+  'nikita',
+  'yamaha',
+  'mother',
+  'barney',
+  'brandy',
+  'chester',
+  'oliver',
+  'player',
+  'forever',
+  'rangers',
+  'midnight',
+  'rabbit',
+  'redsox',
+  'michael',
+  'jessica',
+  'ashley',
+  'daniel',
+  'andrew',
+  'joshua',
+  'thomas',
+  'robert',
+  'jordan23',
+  'password1',
+  'password12',
+  'password123',
+  'passw0rd',
+  'p@ssw0rd',
+  'p@ssword',
+  'admin',
+  'admin123',
+  'administrator',
+  'root',
+  'toor',
+  'changeme',
+  'default',
+  'guest',
+  'qwerty123',
+  'qwerty1',
+  '1q2w3e4r',
+  '1q2w3e4r5t',
+  '1q2w3e',
+  'zaq12wsx',
+  'aa123456',
+  'abcd1234',
+  'abcdef',
+  'abcdefg',
+  'a123456',
+  '123abc',
+  '000000',
+  '00000000',
+  '987654321',
+  '9876543210',
+  '11223344',
+  '121212121',
+  '5201314',
+  '888888',
+  '88888888',
+  '999999',
+  '123456a',
+  'iloveyou1',
+  'welcome1',
+  'welcome123',
+  'letmein1',
+  'monkey1',
+  'dragon1',
+  'sunshine1',
+  'football1',
+  'baseball1',
+  'princess1',
+  'superman1',
+  'trustno11',
+  'master1',
+  'hello123',
+  'login',
+  'qazwsxedc',
+  'asdf1234',
+  'asdfasdf',
+  'asdfghjkl',
+  'zxcvbnm1',
+  '654321a',
+  'blink182',
+  'pokemon',
+  'naruto',
+  'liverpool',
+  'manchester',
+  'chocolate',
+  'butterfly',
+  'flower',
+  'angel',
+  'lovely',
+  'babygirl',
+];
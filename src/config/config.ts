@@ -25,4 +25,19 @@ export const config = {
   reservationViewId: process.env.ZOHO_RESERVATION_VIEW_ID,
   orgId: process.env.ZOHO_ORG_ID,
 },
+
+ // Microsoft Entra ID (Azure AD) single sign-on - SSO_ISSUER can point at any OIDC provider, e.g. a local mock
+ sso: {
+  enabled: process.env.SSO_ENABLED === 'true',
+  issuer: process.env.SSO_ISSUER || `https://login.microsoftonline.com/${process.env.MS_TENANT_ID}/v2.0`,
+  clientId: process.env.SSO_CLIENT_ID || process.env.MS_CLIENT_ID,
+  clientSecret: process.env.SSO_CLIENT_SECRET || process.env.MS_CLIENT_SECRET,
+  redirectUri: process.env.SSO_REDIRECT_URI || 'http://localhost:3000/api/auth/sso/callback',
+  scope: process.env.SSO_SCOPE || 'openid profile email',
+  successRedirect: process.env.SSO_SUCCESS_REDIRECT || `${process.env.APP_URL || 'http://localhost:3000'}/sso/callback`,
+  autoProvision: process.env.SSO_AUTO_PROVISION === 'true',
+  defaultRole: process.env.SSO_DEFAULT_ROLE,
+  groupRoleMap: process.env.SSO_GROUP_ROLE_MAP, // groupId=role pairs, comma-separated, in priority order
+  enforcedDomains: process.env.SSO_ENFORCED_DOMAINS, // Comma-separated email domains that can only use SSO
+},
 };
\ No newline at end of file
@@ -6,7 +6,23 @@ const emailSecure = process.env.EMAIL_SECURE === 'true';
 const emailUser = process.env.EMAIL_USER || '';
 const emailPass = process.env.EMAIL_PASS || '';
 const emailFrom = process.env.EMAIL_FROM || emailUser;
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+}
+
+export interface EmailDeliveryResult {
+  messageId: string;
+  accepted: string[];
+  rejected: string[];
+  response: string;
+}
+
 // Create transporter
+// Servers that don't offer AUTH (e.g. a local SMTP sink) are used without logging in
 export const transporter = nodemailer.createTransport({
   host: emailHost,
   port: emailPort,
@@ -29,29 +45,26 @@ export const verifyEmailConnection = async (): Promise<boolean> => {
   }
 };
 
-// Send email function
-export const sendEmail = async (
-  to: string,
-  subject: string,
-  html: string,
-  text?: string
-): Promise<void> => {
-  try {
-    const mailOptions = {
-      from: emailFrom,
-      to,
-      subject,
-      html,
-      text: text || html.replace(/<[^>]*>/g, ''), // Strip HTML for text version
-    };
-
-    const info = await transporter.sendMail(mailOptions);
-    console.log('📧 Email sent:', info.messageId);
-  } catch (error) {
-    console.error('❌ Error sending email:', error);
-    throw new Error('Failed to send email');
-  }
+/**
+ * Hand a message to the SMTP server
+ * Used by the email outbox worker; everything else queues mail with sendEmail from the outbox service
+ * SMTP errors are thrown as-is so the worker can tell temporary failures from rejected recipients
+ */
+export const deliverEmail = async (message: EmailMessage): Promise<EmailDeliveryResult> => {
+  const info = await transporter.sendMail({
+    from: emailFrom,
+    to: message.to,
+    subject: message.subject,
+    html: message.html,
+    text: message.text || message.html.replace(/<[^>]*>/g, ''), // Strip HTML for text version
+  });
+
+  return {
+    messageId: info.messageId,
+    accepted: (info.accepted || []).map(String),
+    rejected: (info.rejected || []).map(String),
+    response: info.response,
+  };
 };
 
 export default transporter;
-
@@ -1,8 +1,10 @@
 import jwt, { SignOptions } from 'jsonwebtoken';
-import { JwtPayload } from '../types';
+import { JwtPayload, RefreshTokenPayload, PurposeTokenPayload, TokenPurpose } from '../types';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-this-in-production';
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '24h';
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
+const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'your-super-secret-refresh-key-change-this-in-production';
+const JWT_REFRESH_EXPIRES_IN = process.env.JWT_REFRESH_EXPIRES_IN || '7d';
 
 export const generateToken = (payload: JwtPayload): string => {
   const options: SignOptions = {
@@ -26,3 +28,82 @@ export const verifyToken = (token: string): JwtPayload => {
   }
 };
 
+/**
+ * Generate a refresh token
+ * Signed with a separate secret so it can never be used as an access token
+ */
+export const generateRefreshToken = (payload: RefreshTokenPayload): string => {
+  const options: SignOptions = {
+    expiresIn: JWT_REFRESH_EXPIRES_IN as any,
+  };
+  return jwt.sign(payload, JWT_REFRESH_SECRET, options);
+};
+
+export const verifyRefreshToken = (token: string): RefreshTokenPayload => {
+  try {
+    const decoded = jwt.verify(token, JWT_REFRESH_SECRET) as RefreshTokenPayload;
+    return decoded;
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new Error('Token expired');
+    }
+    if (error instanceof jwt.JsonWebTokenError) {
+      throw new Error('Invalid token');
+    }
+    throw error;
+  }
+};
+
+/**
+ * Generate a purpose-scoped token (e.g. password reset)
+ * These tokens are rejected by the authenticate middleware
+ */
+export const generatePurposeToken = (
+  payload: PurposeTokenPayload,
+  expiresInMinutes: number
+): string => {
+  const options: SignOptions = {
+    expiresIn: expiresInMinutes * 60,
+  };
+  return jwt.sign(payload, JWT_SECRET, options);
+};
+
+/**
+ * Verify a purpose-scoped token and ensure it was issued for the expected purpose
+ */
+export const verifyPurposeToken = (
+  token: string,
+  purpose: TokenPurpose
+): PurposeTokenPayload => {
+  const decoded = verifyToken(token) as unknown as PurposeTokenPayload;
+  if (decoded.purpose !== purpose || !decoded.jti) {
+    throw new Error('Invalid token');
+  }
+  return decoded;
+};
+
+/**
+ * Generate an access token for an impersonation session
+ * Lives exactly as long as the session; there is no refresh token
+ */
+export const generateImpersonationToken = (
+  payload: JwtPayload,
+  expiresInSeconds: number
+): string => {
+  const options: SignOptions = {
+    expiresIn: expiresInSeconds,
+  };
+  return jwt.sign(payload, JWT_SECRET, options);
+};
+
+/**
+ * Get remaining lifetime of a signed token in seconds
+ * Used to align Redis key expiry with the token's own expiry
+ */
+export const getTokenTtlSeconds = (token: string): number => {
+  const decoded = jwt.decode(token) as { exp?: number } | null;
+  if (!decoded?.exp) {
+    return 0;
+  }
+  return Math.max(0, decoded.exp - Math.floor(Date.now() / 1000));
+};
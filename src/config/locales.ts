@@ -0,0 +1,29 @@
+/**
+ * Languages users can receive emails in
+ */
+export const LOCALES = ['en', 'ar'] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+/**
+ * Check if a value is a supported locale
+ */
+export const isLocale = (value: unknown): value is Locale => {
+  return LOCALES.includes(value as Locale);
+};
+
+/**
+ * Locale for users who haven't chosen one (EMAIL_DEFAULT_LOCALE, falling back to English)
+ */
+export const DEFAULT_LOCALE: Locale = isLocale(process.env.EMAIL_DEFAULT_LOCALE)
+  ? process.env.EMAIL_DEFAULT_LOCALE
+  : 'en';
+
+/**
+ * Text direction and Intl locale used to format dates and numbers
+ * Arabic keeps Latin digits so codes and amounts read the same as in the dashboard
+ */
+export const LOCALE_SETTINGS: Record<Locale, { dir: 'ltr' | 'rtl'; intl: string }> = {
+  en: { dir: 'ltr', intl: 'en-GB' },
+  ar: { dir: 'rtl', intl: 'ar-u-nu-latn' },
+};
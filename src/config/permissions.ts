@@ -0,0 +1,112 @@
+/**
+ * All permissions known to the system
+ * Format: <resource>:<action>
+ */
+export const PERMISSIONS = [
+  'finance-reserve:read',
+  'finance-reserve:sync',
+  'expense-paidout:read',
+  'expense-paidout:sync',
+  'procurement:read',
+  'procurement:sync',
+  'sales-collection:read',
+  'sales-collection:sync',
+  'revenue-reservation:read',
+  'revenue-reservation:sync',
+  'instagram-insights:read',
+  'instagram-insights:sync',
+  'google-reviews:read',
+  'google-reviews:sync',
+  'entities:read',
+  'users:read',
+  'users:manage',
+  'roles:manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Admin role always has every permission and cannot be edited
+ */
+export const ADMIN_ROLE = 'admin';
+
+/**
+ * Role assigned to new users when none is given
+ */
+export const DEFAULT_USER_ROLE = 'user';
+
+/**
+ * Role reported for requests authenticated with an API key
+ * Reserved - API keys carry their own permissions instead of a Role document
+ */
+export const SERVICE_ACCOUNT_ROLE = 'service-account';
+
+const READ_PERMISSIONS: Permission[] = PERMISSIONS.filter((permission) =>
+  permission.endsWith(':read') && permission !== 'users:read'
+);
+
+/**
+ * Roles seeded on startup if they don't exist yet
+ * After seeding, the role-to-permission matrix is managed through /api/roles
+ */
+export const DEFAULT_ROLES: { name: string; description: string; permissions: Permission[] }[] = [
+  {
+    name: ADMIN_ROLE,
+    description: 'Full access to all data, syncs and user management',
+    permissions: [...PERMISSIONS],
+  },
+  {
+    name: DEFAULT_USER_ROLE,
+    description: 'Read access to all dashboards',
+    permissions: READ_PERMISSIONS,
+  },
+  {
+    name: 'executive',
+    description: 'Read access to all dashboards',
+    permissions: READ_PERMISSIONS,
+  },
+  {
+    name: 'finance',
+    description: 'Liquidity, expenses and procurement',
+    permissions: [
+      'finance-reserve:read',
+      'finance-reserve:sync',
+      'expense-paidout:read',
+      'expense-paidout:sync',
+      'procurement:read',
+      'entities:read',
+    ],
+  },
+  {
+    name: 'sales',
+    description: 'Sales collections and revenue reservations',
+    permissions: [
+      'sales-collection:read',
+      'sales-collection:sync',
+      'revenue-reservation:read',
+      'revenue-reservation:sync',
+      'entities:read',
+    ],
+  },
+  {
+    name: 'procurement',
+    description: 'Purchase orders and expense payouts',
+    permissions: [
+      'procurement:read',
+      'procurement:sync',
+      'expense-paidout:read',
+      'entities:read',
+    ],
+  },
+  {
+    name: 'marketing',
+    description: 'Instagram insights and Google reviews',
+    permissions: [
+      'instagram-insights:read',
+      'instagram-insights:sync',
+      'google-reviews:read',
+      'google-reviews:sync',
+      'entities:read',
+    ],
+  },
+];
@@ -0,0 +1,62 @@
+/**
+ * What a rate limit counter is keyed by
+ * A rule keyed by several kinds keeps a separate counter for each; the request is rejected if any is exceeded
+ */
+export type RateLimitKey = 'ip' | 'user' | 'api-key' | 'email';
+
+export interface RateLimitRule {
+  name: string;
+  limit: number; // Requests allowed per window
+  windowSeconds: number;
+  keyBy: RateLimitKey[];
+}
+
+/**
+ * Set RATE_LIMIT_ENABLED=false to turn off all limits (e.g. for load tests)
+ */
+export const RATE_LIMIT_ENABLED = process.env.RATE_LIMIT_ENABLED !== 'false';
+
+/**
+ * Build a rule, applying an optional RATE_LIMIT_<NAME>=<limit>/<windowSeconds> override
+ * e.g. RATE_LIMIT_EMAIL_SEND=3/900
+ */
+const defineRule = (
+  name: string,
+  limit: number,
+  windowSeconds: number,
+  keyBy: RateLimitKey[]
+): RateLimitRule => {
+  const override = process.env[`RATE_LIMIT_${name.toUpperCase().replace(/-/g, '_')}`];
+  if (override) {
+    const [overrideLimit, overrideWindow] = override.split('/').map((value) => parseInt(value, 10));
+    if (overrideLimit > 0) limit = overrideLimit;
+    if (overrideWindow > 0) windowSeconds = overrideWindow;
+  }
+
+  return { name, limit, windowSeconds, keyBy };
+};
+
+/**
+ * Rate limit rules, applied per route
+ */
+export const RATE_LIMITS = {
+  // Every /api request, per client IP
+  global: defineRule('global', 300, 60, ['ip']),
+  // Routes that send an email to an address from the request body
+  emailSend: defineRule('email-send', 5, 15 * 60, ['ip', 'email']),
+  // Routes that check an emailed code
+  otpVerify: defineRule('otp-verify', 10, 15 * 60, ['ip', 'email']),
+  // Credential endpoints (login, registration, password reset, 2FA)
+  auth: defineRule('auth', 20, 15 * 60, ['ip']),
+  // Dashboard data endpoints
+  data: defineRule('data', 120, 60, ['user', 'api-key']),
+  // Manual sync triggers
+  sync: defineRule('sync', 10, 60 * 60, ['user', 'api-key']),
+} satisfies Record<string, RateLimitRule>;
+
+/**
+ * Find a rule by its name
+ */
+export const getRateLimitRule = (name: string): RateLimitRule | undefined => {
+  return Object.values(RATE_LIMITS).find((rule) => rule.name === name);
+};
@@ -0,0 +1,197 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import User from '../models/user.model';
+import { AppError, sendErrorResponse } from '../utils/errors';
+import {
+  getLoginHistory,
+  getActiveUserStats,
+  getNeverLoggedInQuery,
+  getDormantQuery,
+} from '../services/loginActivity.service';
+import { getFailedLoginHotspots } from '../services/rateLimit.service';
+
+const DORMANT_ACCOUNT_DAYS = parseInt(process.env.DORMANT_ACCOUNT_DAYS || '90', 10);
+
+// Fields returned by the account activity reports
+const ACTIVITY_USER_FIELDS = 'username email firstName lastName role status lastLoginAt lastSeenAt createdAt';
+
+/**
+ * Read page and limit query parameters
+ */
+const getPagination = (req: AuthRequest) => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 50;
+  return { page, limit, skip: (page - 1) * limit };
+};
+
+/**
+ * Get a page of users matching an activity report query
+ */
+const findUsersPage = async (query: Record<string, unknown>, req: AuthRequest, sort: Record<string, 1 | -1>) => {
+  const { page, limit, skip } = getPagination(req);
+
+  const [users, total] = await Promise.all([
+    User.find(query).select(ACTIVITY_USER_FIELDS).sort(sort).skip(skip).limit(limit),
+    User.countDocuments(query),
+  ]);
+
+  const totalPages = Math.ceil(total / limit);
+  return {
+    users,
+    pagination: {
+      total,
+      page,
+      limit,
+      totalPages,
+      hasNextPage: page < totalPages,
+      hasPrevPage: page > 1,
+    },
+  };
+};
+
+/**
+ * Get the current user's recent login attempts
+ */
+export const getMyLoginHistory = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const history = await getLoginHistory(req.user?.userId as string);
+    if (!history) {
+      throw new AppError('User not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Login history retrieved successfully',
+      data: {
+        loginHistory: history,
+        count: history.length,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Get a user's recent login attempts
+ */
+export const getUserLoginHistory = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const history = await getLoginHistory(req.params.id);
+    if (!history) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Login history retrieved successfully',
+      data: {
+        loginHistory: history,
+        count: history.length,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Get daily, weekly and monthly active users with a per-day series (?days=, default 30)
+ */
+export const getActiveUsers = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const days = parseInt(req.query.days as string) || 30;
+
+    res.status(200).json({
+      success: true,
+      message: 'Active users retrieved successfully',
+      data: await getActiveUserStats(days),
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Get accounts that have never logged in, oldest first
+ */
+export const getNeverLoggedInUsers = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const result = await findUsersPage(getNeverLoggedInQuery(), req, { createdAt: 1 });
+
+    res.status(200).json({
+      success: true,
+      message: 'Never-logged-in accounts retrieved successfully',
+      data: result,
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Get accounts not seen for ?days= days (default DORMANT_ACCOUNT_DAYS), least recently seen first
+ */
+export const getDormantUsers = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const days = parseInt(req.query.days as string) || DORMANT_ACCOUNT_DAYS;
+    const result = await findUsersPage(getDormantQuery(days), req, { lastSeenAt: 1, lastLoginAt: 1 });
+
+    res.status(200).json({
+      success: true,
+      message: 'Dormant accounts retrieved successfully',
+      data: {
+        days,
+        ...result,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Get the IPs with the most failed logins over the last ?hours= hours (default 24)
+ */
+export const getFailedLoginReport = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const hours = parseInt(req.query.hours as string) || 24;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const hotspots = await getFailedLoginHotspots(hours, limit);
+
+    res.status(200).json({
+      success: true,
+      message: 'Failed login hotspots retrieved successfully',
+      data: {
+        hours,
+        hotspots,
+        count: hotspots.length,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
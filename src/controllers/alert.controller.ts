@@ -0,0 +1,299 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import AlertRule, { IAlertRule } from '../models/alertRule.model';
+import AlertEvaluation, { IAlertEvaluation } from '../models/alertEvaluation.model';
+import User from '../models/user.model';
+import { ADMIN_ROLE } from '../config/permissions';
+import { AppError, sendErrorResponse } from '../utils/errors';
+import {
+  assertCanWatch,
+  pickRuleCondition,
+  getRuleDataset,
+  evaluateAlertRule,
+} from '../services/alert.service';
+
+const MAX_ALERT_RULES_PER_USER = parseInt(process.env.MAX_ALERT_RULES_PER_USER || '50', 10);
+
+/**
+ * Format an alert rule for API responses
+ */
+const formatRule = (rule: IAlertRule) => ({
+  id: rule._id,
+  owner: rule.owner,
+  name: rule.name,
+  type: rule.type,
+  dataset: getRuleDataset(rule),
+  condition: rule.condition,
+  channels: rule.channels,
+  enabled: rule.enabled,
+  cooldownMinutes: rule.cooldownMinutes,
+  lastEvaluatedAt: rule.lastEvaluatedAt,
+  lastTriggeredAt: rule.lastTriggeredAt,
+  createdAt: rule.createdAt,
+  updatedAt: rule.updatedAt,
+});
+
+/**
+ * Format an evaluation for API responses
+ */
+const formatEvaluation = (evaluation: IAlertEvaluation) => ({
+  id: evaluation._id,
+  rule: evaluation.rule,
+  ruleName: evaluation.ruleName,
+  type: evaluation.type,
+  source: evaluation.source,
+  status: evaluation.status,
+  summary: evaluation.summary,
+  value: evaluation.value,
+  matches: evaluation.matches,
+  deliveredVia: evaluation.deliveredVia,
+  deliveryErrors: evaluation.deliveryErrors,
+  error: evaluation.error,
+  createdAt: evaluation.createdAt,
+});
+
+/**
+ * Find a rule the caller may manage: their own, or any rule for admins
+ */
+const findAccessibleRule = async (req: AuthRequest): Promise<IAlertRule> => {
+  const rule = await AlertRule.findById(req.params.id);
+  if (!rule || (req.user?.role !== ADMIN_ROLE && rule.owner.toString() !== req.user?.userId)) {
+    throw new AppError('Alert rule not found', 404);
+  }
+  return rule;
+};
+
+/**
+ * Get the caller's alert rules
+ * Admins can pass ?all=true to see every user's rules
+ */
+export const getAlertRules = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const query: Record<string, any> = {};
+    if (!(req.user?.role === ADMIN_ROLE && req.query.all === 'true')) {
+      query.owner = req.user?.userId;
+    }
+
+    const rules = await AlertRule.find(query).sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      message: 'Alert rules retrieved successfully',
+      data: {
+        rules: rules.map(formatRule),
+        count: rules.length,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Get one alert rule
+ */
+export const getAlertRule = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const rule = await findAccessibleRule(req);
+
+    res.status(200).json({
+      success: true,
+      message: 'Alert rule retrieved successfully',
+      data: {
+        rule: formatRule(rule),
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Create an alert rule for the caller
+ * The caller must be able to read the data the rule watches
+ */
+export const createAlertRule = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?.userId as string;
+    const { name, type, condition, channels, enabled, cooldownMinutes } = req.body;
+
+    if ((await AlertRule.countDocuments({ owner: userId })) >= MAX_ALERT_RULES_PER_USER) {
+      throw new AppError(`You can have at most ${MAX_ALERT_RULES_PER_USER} alert rules`, 400);
+    }
+
+    const rule = new AlertRule({
+      owner: userId,
+      name,
+      type,
+      condition: pickRuleCondition(type, condition),
+      channels,
+      enabled,
+      cooldownMinutes,
+    });
+    await assertCanWatch(userId, req.user?.role as string, rule);
+    await rule.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Alert rule created successfully',
+      data: {
+        rule: formatRule(rule),
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Update an alert rule
+ * type and condition are replaced together; the rule owner must still be able to read the watched data
+ */
+export const updateAlertRule = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const rule = await findAccessibleRule(req);
+    const { name, type, condition, channels, enabled, cooldownMinutes } = req.body;
+
+    if (name !== undefined) rule.name = name;
+    if (channels !== undefined) rule.channels = channels;
+    if (enabled !== undefined) rule.enabled = enabled;
+    if (cooldownMinutes !== undefined) rule.cooldownMinutes = cooldownMinutes;
+
+    if (type !== undefined) {
+      rule.type = type;
+      rule.condition = pickRuleCondition(type, condition);
+
+      // Checked against the owner, who may not be the admin making the change
+      const owner = await User.findById(rule.owner).select('role');
+      if (!owner) {
+        throw new AppError('Alert rule owner not found', 400);
+      }
+      await assertCanWatch(rule.owner.toString(), owner.role, rule);
+    }
+
+    await rule.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Alert rule updated successfully',
+      data: {
+        rule: formatRule(rule),
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Delete an alert rule
+ * Its evaluation history is kept until it expires
+ */
+export const deleteAlertRule = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const rule = await findAccessibleRule(req);
+    await rule.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      message: 'Alert rule deleted successfully',
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Evaluate an alert rule now against the latest data
+ * Deduplication and cooldown apply as for evaluations after a sync
+ */
+export const evaluateAlertRuleNow = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const rule = await findAccessibleRule(req);
+
+    const evaluation = await evaluateAlertRule(rule, 'manual');
+    if (!evaluation) {
+      throw new AppError('Alert rules of inactive users are not evaluated', 400);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: `Alert rule evaluated: ${evaluation.status}`,
+      data: {
+        evaluation: formatEvaluation(evaluation),
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Get the evaluation history of the caller's rules, newest first
+ * Filter with ?ruleId= and ?status= (e.g. status=triggered for the alerts that were sent);
+ * admins can pass ?all=true to see every user's history
+ */
+export const getAlertEvaluations = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const skip = (page - 1) * limit;
+
+    const query: Record<string, any> = {};
+    if (!(req.user?.role === ADMIN_ROLE && req.query.all === 'true')) {
+      query.owner = req.user?.userId;
+    }
+    if (req.query.ruleId) {
+      query.rule = req.query.ruleId;
+    }
+    if (req.query.status) {
+      query.status = { $in: (req.query.status as string).split(',') };
+    }
+
+    const [evaluations, total] = await Promise.all([
+      AlertEvaluation.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit),
+      AlertEvaluation.countDocuments(query),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    res.status(200).json({
+      success: true,
+      message: 'Alert history retrieved successfully',
+      data: {
+        evaluations: evaluations.map(formatEvaluation),
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+        },
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
@@ -0,0 +1,201 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import { AuthRequest } from '../types';
+import ApiKey, { IApiKey } from '../models/apiKey.model';
+import Entity from '../models/entities.model';
+import { sendErrorResponse } from '../utils/errors';
+import { generateApiKeyCredentials } from '../services/apiKey.service';
+
+/**
+ * Format API key for API responses (never includes the key hash)
+ */
+const formatApiKey = (apiKey: IApiKey) => ({
+  id: apiKey._id,
+  name: apiKey.name,
+  description: apiKey.description,
+  prefix: apiKey.prefix,
+  permissions: apiKey.permissions,
+  allowedEntities: apiKey.allowedEntities,
+  status: apiKey.revokedAt ? 'revoked' : apiKey.isActive() ? 'active' : 'expired',
+  expiresAt: apiKey.expiresAt,
+  lastUsedAt: apiKey.lastUsedAt,
+  lastUsedIp: apiKey.lastUsedIp,
+  createdBy: apiKey.createdBy,
+  rotatedAt: apiKey.rotatedAt,
+  revokedAt: apiKey.revokedAt,
+  createdAt: apiKey.createdAt,
+});
+
+/**
+ * Get all API keys
+ */
+export const getApiKeys = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const includeRevoked = req.query.includeRevoked === 'true';
+
+    const query: Record<string, any> = {};
+    if (!includeRevoked) {
+      query.revokedAt = { $exists: false };
+    }
+
+    const apiKeys = await ApiKey.find(query)
+      .populate('createdBy', 'username email')
+      .sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      message: 'API keys retrieved successfully',
+      data: {
+        apiKeys: apiKeys.map(formatApiKey),
+        count: apiKeys.length,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Create an API key
+ * The plaintext key is only returned in this response
+ */
+export const createApiKey = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { name, description, permissions, entityIds = [], expiresAt } = req.body;
+
+    const uniqueEntityIds = [...new Set<string>(entityIds)];
+    const entityCount = await Entity.countDocuments({ _id: { $in: uniqueEntityIds } });
+    if (entityCount !== uniqueEntityIds.length) {
+      res.status(400).json({
+        success: false,
+        message: 'One or more entities do not exist',
+      });
+      return;
+    }
+
+    const { key, prefix, keyHash } = generateApiKeyCredentials();
+
+    const apiKey = await ApiKey.create({
+      name,
+      description,
+      prefix,
+      keyHash,
+      permissions: [...new Set<string>(permissions)],
+      allowedEntities: uniqueEntityIds,
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+      createdBy: req.user?.userId,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'API key created. Copy the key now - it will not be shown again.',
+      data: {
+        apiKey: formatApiKey(apiKey),
+        key,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Rotate an API key - issues a new key with the same settings
+ * The previous key stops working immediately
+ */
+export const rotateApiKey = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { expiresAt } = req.body;
+
+    const apiKey = await ApiKey.findById(id);
+    if (!apiKey) {
+      res.status(404).json({
+        success: false,
+        message: 'API key not found',
+      });
+      return;
+    }
+
+    if (apiKey.revokedAt) {
+      res.status(400).json({
+        success: false,
+        message: 'Revoked API keys cannot be rotated',
+      });
+      return;
+    }
+
+    const { key, prefix, keyHash } = generateApiKeyCredentials();
+
+    apiKey.prefix = prefix;
+    apiKey.keyHash = keyHash;
+    apiKey.rotatedAt = new Date();
+    if (expiresAt !== undefined) {
+      apiKey.expiresAt = expiresAt ? new Date(expiresAt) : undefined;
+    }
+    await apiKey.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'API key rotated. Copy the new key now - it will not be shown again.',
+      data: {
+        apiKey: formatApiKey(apiKey),
+        key,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Revoke an API key
+ */
+export const revokeApiKey = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const apiKey = await ApiKey.findById(id);
+    if (!apiKey) {
+      res.status(404).json({
+        success: false,
+        message: 'API key not found',
+      });
+      return;
+    }
+
+    if (apiKey.revokedAt) {
+      res.status(400).json({
+        success: false,
+        message: 'API key has already been revoked',
+      });
+      return;
+    }
+
+    apiKey.revokedAt = new Date();
+    apiKey.revokedBy = new mongoose.Types.ObjectId(req.user?.userId as string);
+    await apiKey.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'API key revoked successfully',
+      data: {
+        apiKey: formatApiKey(apiKey),
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
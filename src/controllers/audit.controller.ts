@@ -0,0 +1,136 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import AuditEvent, { IAuditEvent } from '../models/auditEvent.model';
+import { sendErrorResponse } from '../utils/errors';
+import { toCsvRow } from '../utils/csv';
+import { notifyExportFinished } from '../services/notification.service';
+
+const AUDIT_CSV_COLUMNS: (keyof IAuditEvent)[] = [
+  'createdAt',
+  'action',
+  'outcome',
+  'actorType',
+  'actorId',
+  'actorLabel',
+  'targetType',
+  'targetId',
+  'targetLabel',
+  'ipAddress',
+  'userAgent',
+  'reason',
+  'changes',
+  'metadata',
+];
+
+/**
+ * Build the MongoDB query for the audit event filters
+ * `action` accepts a comma-separated list; a trailing `*` matches a prefix (e.g. `auth.*`)
+ */
+const buildAuditQuery = (req: AuthRequest): Record<string, any> => {
+  const { action, outcome, actorType, actorId, targetType, targetId, ipAddress, from, to } =
+    req.query as Record<string, string | undefined>;
+
+  const query: Record<string, any> = {};
+
+  if (action) {
+    const actions = action.split(',').map((value) => value.trim()).filter(Boolean);
+    query.$or = actions.map((value) =>
+      value.endsWith('*')
+        ? { action: { $regex: `^${value.slice(0, -1).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}` } }
+        : { action: value }
+    );
+  }
+  if (outcome) query.outcome = outcome;
+  if (actorType) query.actorType = actorType;
+  if (actorId) query.actorId = actorId;
+  if (targetType) query.targetType = targetType;
+  if (targetId) query.targetId = targetId;
+  if (ipAddress) query.ipAddress = ipAddress;
+
+  if (from || to) {
+    query.createdAt = {};
+    if (from) query.createdAt.$gte = new Date(from);
+    if (to) query.createdAt.$lte = new Date(to);
+  }
+
+  return query;
+};
+
+/**
+ * Get audit events, newest first
+ */
+export const getAuditEvents = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const skip = (page - 1) * limit;
+
+    const query = buildAuditQuery(req);
+
+    const [events, total] = await Promise.all([
+      AuditEvent.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit).lean(),
+      AuditEvent.countDocuments(query),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    res.status(200).json({
+      success: true,
+      message: 'Audit events retrieved successfully',
+      data: {
+        events,
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+        },
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Export audit events matching the filters as CSV
+ * Rows are streamed from a cursor so large exports don't have to fit in memory
+ */
+export const exportAuditEvents = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  const filename = `audit-events-${new Date().toISOString().slice(0, 10)}.csv`;
+  let rows = 0;
+
+  try {
+    const cursor = AuditEvent.find(buildAuditQuery(req)).sort({ createdAt: -1 }).lean().cursor();
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.write(toCsvRow(AUDIT_CSV_COLUMNS));
+
+    for await (const event of cursor) {
+      const row = event as unknown as Record<string, unknown>;
+      res.write(toCsvRow(AUDIT_CSV_COLUMNS.map((column) => row[column])));
+      rows++;
+    }
+
+    res.end();
+    await notifyExportFinished(req, 'Audit log', { filename, rows });
+  } catch (error) {
+    // Once streaming has started the status can't change - just cut the response short
+    if (res.headersSent) {
+      console.error('❌ Error exporting audit events:', error);
+      res.end();
+      await notifyExportFinished(req, 'Audit log', { filename, rows, error: error as Error });
+      return;
+    }
+    sendErrorResponse(res, error as Error);
+  }
+};
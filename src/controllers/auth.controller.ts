@@ -1,12 +1,50 @@
 import { Response } from 'express';
-import { AuthRequest, RegisterRequest, LoginRequest } from '../types';
+import { AuthRequest, IUser, RegisterRequest, LoginRequest, LoginMethod } from '../types';
 import User from '../models/user.model';
 import { hashPassword, comparePassword } from '../utils/password';
-import { generateToken } from '../config/jwt';
-import { sendErrorResponse } from '../utils/errors';
-import { generateOTP, storeOTP, verifyOTP, getOTPExpiryMinutes } from '../services/otp.service';
-import { sendEmail } from '../config/email';
-import { getEmailVerificationOTPTemplate } from '../utils/emailTemplates';
+import { AppError, sendErrorResponse } from '../utils/errors';
+import { DEFAULT_USER_ROLE } from '../config/permissions';
+import {
+  issueTokenPair,
+  consumeRefreshToken,
+  revokeTokenFamily,
+  revokeAllUserTokens,
+  issuePurposeToken,
+} from '../services/token.service';
+import {
+  buildLoginResponse,
+  assertPasswordNotExpired,
+  isLoginCodeAllowedForRole,
+  createLoginLockoutError,
+  recordLoginLockout,
+} from '../services/auth.service';
+import { createSession, extendSession } from '../services/session.service';
+import { getClientInfo } from '../utils/request';
+import { recordAuditEvent, auditUser } from '../services/audit.service';
+import { assertCanLogin } from '../services/accountStatus.service';
+import { assertPasswordAllowed } from '../services/passwordPolicy.service';
+import { recordLoginSuccess, recordLoginAttemptFailure } from '../services/loginActivity.service';
+import { isTwoFactorRequiredForRole } from '../services/twoFactor.service';
+import { endImpersonation } from '../services/impersonation.service';
+import {
+  assertPasswordLoginAllowed,
+  createSsoAuthorizationUrl,
+  completeSsoAuthorization,
+  resolveSsoUser,
+  storeSsoLoginResult,
+  consumeSsoLoginResult,
+  getSsoRedirectUrl,
+  SsoIdentity,
+} from '../services/sso.service';
+import {
+  generateOTP,
+  storeOTP,
+  verifyOTP,
+  getOTPFailureMessage,
+  getOTPExpiryMinutes,
+} from '../services/otp.service';
+import { sendTemplatedEmail } from '../services/emailTemplate.service';
+import { DEFAULT_LOCALE } from '../config/locales';
 import {
   checkLoginLockout,
   incrementFailedAttempt,
@@ -14,14 +52,192 @@ import {
   getRemainingAttempts,
 } from '../services/rateLimit.service';
 
-const LOGIN_LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '10', 10);
+const TWO_FACTOR_CHALLENGE_EXPIRY_MINUTES = parseInt(process.env.TWO_FACTOR_CHALLENGE_EXPIRY_MINUTES || '5', 10);
+const TWO_FACTOR_SETUP_EXPIRY_MINUTES = parseInt(process.env.TWO_FACTOR_SETUP_EXPIRY_MINUTES || '15', 10);
+const ALLOW_OPEN_REGISTRATION = process.env.ALLOW_OPEN_REGISTRATION === 'true';
+
+/**
+ * Record a failed login attempt in the audit log and, for known accounts, the login history
+ * Unknown emails are recorded by address only
+ */
+const recordLoginFailure = async (
+  req: AuthRequest,
+  email: string,
+  reason: string,
+  user?: IUser | null,
+  method?: LoginMethod
+): Promise<void> => {
+  await recordAuditEvent(req, {
+    action: 'auth.login',
+    outcome: 'failure',
+    target: user ? auditUser(user) : { type: 'user', label: email },
+    reason,
+  });
+
+  if (user) {
+    await recordLoginAttemptFailure(user._id, getClientInfo(req), reason, method);
+  }
+};
+
+/**
+ * Respond to a request from a locked-out email and IP
+ */
+const sendLockoutResponse = (res: Response, retryAfter?: number): void => {
+  sendErrorResponse(res, createLoginLockoutError(retryAfter));
+};
+
+/**
+ * Count a failed login attempt and respond with the remaining attempts, or the lockout once none remain
+ */
+const sendFailedLoginResponse = async (
+  req: AuthRequest,
+  res: Response,
+  email: string,
+  clientIp: string,
+  message: string
+): Promise<void> => {
+  const attemptInfo = await incrementFailedAttempt(email, clientIp);
+
+  // Check if locked out after incrementing
+  if (attemptInfo.locked) {
+    if (attemptInfo.lockout) {
+      await recordLoginLockout(req, email, attemptInfo.lockout);
+      sendLockoutResponse(res, attemptInfo.lockout.retryAfter);
+      return;
+    }
+
+    const lockoutCheck = await checkLoginLockout(email, clientIp);
+    sendLockoutResponse(res, lockoutCheck?.retryAfter);
+    return;
+  }
+
+  res.status(401).json({
+    success: false,
+    message,
+    remainingAttempts: attemptInfo.remaining,
+  });
+};
+
+/**
+ * Work out the login result once the first factor (password, emailed code or SSO) has been verified
+ * Users with 2FA get a challenge token and users who still have to enroll get a setup token;
+ * everyone else receives tokens
+ */
+const resolveLogin = async (
+  req: AuthRequest,
+  user: IUser,
+  method: LoginMethod
+): Promise<{ message: string; data: Record<string, unknown> }> => {
+  // Suspended, deactivated and deleted accounts (and unverified emails, if required) can't log in
+  try {
+    assertCanLogin(user);
+  } catch (error) {
+    const status = user.status || 'active';
+    await recordLoginFailure(
+      req,
+      user.email,
+      status === 'active' ? 'email-not-verified' : `account-${status}`,
+      user,
+      method
+    );
+    throw error;
+  }
+
+  // Second step: the client exchanges the challenge token and a TOTP code at /api/auth/2fa/verify
+  if (user.twoFactor?.enabled) {
+    // Wrong codes count towards the login lockout, so a locked account gets no new challenge (e.g. through SSO)
+    const lockoutCheck = await checkLoginLockout(user.email, getClientInfo(req).ipAddress);
+    if (lockoutCheck?.locked) {
+      await recordLoginFailure(req, user.email, 'locked-out', user, method);
+      throw createLoginLockoutError(lockoutCheck.retryAfter);
+    }
+
+    const challengeToken = await issuePurposeToken(
+      { userId: user._id.toString(), email: user.email, purpose: '2fa-challenge' },
+      TWO_FACTOR_CHALLENGE_EXPIRY_MINUTES
+    );
+
+    return {
+      message: 'Two-factor authentication required',
+      data: {
+        twoFactorRequired: true,
+        challengeToken,
+        expiresIn: TWO_FACTOR_CHALLENGE_EXPIRY_MINUTES * 60,
+      },
+    };
+  }
+
+  // Roles with mandatory 2FA must enroll before receiving API tokens
+  if (await isTwoFactorRequiredForRole(user.role)) {
+    const setupToken = await issuePurposeToken(
+      { userId: user._id.toString(), email: user.email, purpose: '2fa-setup' },
+      TWO_FACTOR_SETUP_EXPIRY_MINUTES
+    );
+
+    return {
+      message: 'Two-factor authentication must be set up before you can log in',
+      data: {
+        twoFactorSetupRequired: true,
+        setupToken,
+        expiresIn: TWO_FACTOR_SETUP_EXPIRY_MINUTES * 60,
+      },
+    };
+  }
+
+  // Expired passwords must be reset before tokens are issued
+  if (method === 'password') {
+    await assertPasswordNotExpired(user);
+  }
+
+  await recordAuditEvent(req, {
+    action: 'auth.login',
+    actor: auditUser(user),
+    target: auditUser(user),
+    metadata: { method },
+  });
+
+  return {
+    message: 'Login successful',
+    data: await buildLoginResponse(user, getClientInfo(req), method),
+  };
+};
+
+/**
+ * Finish a login and respond with the result of resolveLogin
+ */
+const completeLogin = async (
+  req: AuthRequest,
+  res: Response,
+  user: IUser,
+  method: LoginMethod
+): Promise<void> => {
+  const { message, data } = await resolveLogin(req, user, method);
+
+  res.status(200).json({
+    success: true,
+    message,
+    data,
+  });
+};
 
 export const register = async (
   req: AuthRequest,
   res: Response
 ): Promise<void> => {
   try {
-    const { username, email, password, role = 'user' }: RegisterRequest = req.body;
+    // New accounts come from admin invitations unless open registration is enabled
+    if (!ALLOW_OPEN_REGISTRATION) {
+      res.status(403).json({
+        success: false,
+        message: 'Open registration is disabled. Please ask an administrator for an invitation.',
+      });
+      return;
+    }
+
+    const { username, email, password }: RegisterRequest = req.body;
+
+    // SSO-only domains get their accounts from the identity provider
+    assertPasswordLoginAllowed(email);
 
     // Check if user already exists by email
     const existingUserByEmail = await User.findOne({ email });
@@ -43,36 +259,45 @@ export const register = async (
       return;
     }
 
+    await assertPasswordAllowed(password);
+
     // Hash password
     const hashedPassword = await hashPassword(password);
 
-    // Create user with only username, email, password, and role
+    // Self-registered users always get the default role; other roles are granted by invitation
     const user = await User.create({
       username,
       email,
       password: hashedPassword,
-      role,
+      passwordChangedAt: new Date(),
+      role: DEFAULT_USER_ROLE,
     });
 
-    // Generate JWT token
-    const token = generateToken({
+    // Generate access and refresh tokens
+    const { token, refreshToken, familyId, refreshExpiresAt } = await issueTokenPair({
       userId: user._id.toString(),
       email: user.email,
       role: user.role,
     });
+    await createSession(user, familyId, refreshExpiresAt, getClientInfo(req));
+    await recordLoginSuccess(user, getClientInfo(req), 'registration');
+
+    await recordAuditEvent(req, {
+      action: 'auth.register',
+      actor: auditUser(user),
+      target: auditUser(user),
+    });
 
     // Send email verification OTP
     try {
       const otp = generateOTP();
-      const expiryMinutes = getOTPExpiryMinutes();
+      const { expiresIn } = await storeOTP('email-verification', email, otp);
       
-      await storeOTP('email-verification', email, otp);
-      
-      const emailHtml = getEmailVerificationOTPTemplate(otp, expiryMinutes);
-      await sendEmail(
+      await sendTemplatedEmail(
         email,
-        'Verify Your Email Address',
-        emailHtml
+        'email-verification-otp',
+        { otp, expiryMinutes: expiresIn },
+        user.locale || DEFAULT_LOCALE
       );
     } catch (emailError) {
       console.error('Failed to send verification email:', emailError);
@@ -91,6 +316,7 @@ export const register = async (
           emailVerified: user.emailVerified,
         },
         token,
+        refreshToken,
       },
     });
   } catch (error) {
@@ -104,20 +330,17 @@ export const login = async (
 ): Promise<void> => {
   try {
     const { email, password }: LoginRequest = req.body;
-    
+
+    assertPasswordLoginAllowed(email);
+
     // Get client IP address
-    const clientIp = req.ip || req.socket.remoteAddress || 'unknown';
+    const clientIp = getClientInfo(req).ipAddress;
 
     // Check if user is locked out
     const lockoutCheck = await checkLoginLockout(email, clientIp);
     if (lockoutCheck?.locked) {
-      const retryAfterMinutes = Math.ceil((lockoutCheck.retryAfter || 0) / 60);
-      res.status(429).json({
-        success: false,
-        message: `Too many failed login attempts. Please try again after ${retryAfterMinutes} minute(s).`,
-        lockout: true,
-        retryAfter: lockoutCheck.retryAfter,
-      });
+      await recordLoginFailure(req, email, 'locked-out');
+      sendLockoutResponse(res, lockoutCheck.retryAfter);
       return;
     }
 
@@ -127,26 +350,8 @@ export const login = async (
     // Increment failed attempt if user doesn't exist or password is wrong
     // This prevents email enumeration attacks
     if (!user) {
-      const attemptInfo = await incrementFailedAttempt(email, clientIp);
-      
-      // Check if locked out after incrementing
-      if (attemptInfo.locked) {
-        const lockoutCheck = await checkLoginLockout(email, clientIp);
-        const retryAfterMinutes = Math.ceil((lockoutCheck?.retryAfter || LOGIN_LOCKOUT_MINUTES * 60) / 60);
-        res.status(429).json({
-          success: false,
-          message: `Too many failed login attempts. Please try again after ${retryAfterMinutes} minute(s).`,
-          lockout: true,
-          retryAfter: lockoutCheck?.retryAfter || LOGIN_LOCKOUT_MINUTES * 60,
-        });
-        return;
-      }
-
-      res.status(401).json({
-        success: false,
-        message: 'Invalid email or password',
-        remainingAttempts: attemptInfo.remaining,
-      });
+      await recordLoginFailure(req, email, 'unknown-email');
+      await sendFailedLoginResponse(req, res, email, clientIp, 'Invalid email or password');
       return;
     }
 
@@ -154,61 +359,248 @@ export const login = async (
     const isPasswordValid = await comparePassword(password, user.password);
     
     if (!isPasswordValid) {
-      const attemptInfo = await incrementFailedAttempt(email, clientIp);
-      
-      // Check if locked out after incrementing
-      if (attemptInfo.locked) {
-        const lockoutCheck = await checkLoginLockout(email, clientIp);
-        const retryAfterMinutes = Math.ceil((lockoutCheck?.retryAfter || LOGIN_LOCKOUT_MINUTES * 60) / 60);
-        res.status(429).json({
-          success: false,
-          message: `Too many failed login attempts. Please try again after ${retryAfterMinutes} minute(s).`,
-          lockout: true,
-          retryAfter: lockoutCheck?.retryAfter || LOGIN_LOCKOUT_MINUTES * 60,
+      await recordLoginFailure(req, email, 'invalid-password', user, 'password');
+      await sendFailedLoginResponse(req, res, email, clientIp, 'Invalid email or password');
+      return;
+    }
+
+    // Password verified - reset failed attempts
+    await resetLoginAttempts(email, clientIp);
+
+    await completeLogin(req, res, user, 'password');
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Request a login code - sends a one-time code to the email address
+ * The response is the same whether or not a code was sent, so it can't be used to discover accounts
+ */
+export const requestLoginCode = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { email } = req.body;
+    const clientIp = getClientInfo(req).ipAddress;
+
+    assertPasswordLoginAllowed(email);
+
+    const lockoutCheck = await checkLoginLockout(email, clientIp);
+    if (lockoutCheck?.locked) {
+      sendLockoutResponse(res, lockoutCheck.retryAfter);
+      return;
+    }
+
+    const user = await User.findOne({ email });
+    const canUseLoginCode =
+      !!user && (user.status || 'active') === 'active' && (await isLoginCodeAllowedForRole(user.role));
+
+    if (user && canUseLoginCode) {
+      try {
+        const otp = generateOTP();
+        const { expiresIn } = await storeOTP('login-code', email, otp);
+
+        await sendTemplatedEmail(
+          email,
+          'login-code',
+          { otp, expiryMinutes: expiresIn },
+          user.locale || DEFAULT_LOCALE
+        );
+
+        await recordAuditEvent(req, {
+          action: 'auth.login-code-request',
+          target: auditUser(user),
         });
-        return;
+      } catch (error) {
+        // A code sent within the resend cooldown is still valid - don't reveal that the account exists
+        if (!(error instanceof AppError && error.statusCode === 429)) {
+          throw error;
+        }
       }
+    } else {
+      await recordAuditEvent(req, {
+        action: 'auth.login-code-request',
+        outcome: 'failure',
+        target: user ? auditUser(user) : { type: 'user', label: email },
+        reason: user ? 'login-code-not-allowed' : 'unknown-email',
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'If this account can sign in with a code, one has been sent to your email.',
+      data: {
+        expiresIn: getOTPExpiryMinutes(),
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Log in with an emailed code - issues the same tokens as login
+ * Wrong codes count towards the same lockout as wrong passwords
+ */
+export const verifyLoginCode = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { email, code } = req.body;
+    const clientIp = getClientInfo(req).ipAddress;
+
+    assertPasswordLoginAllowed(email);
+
+    const lockoutCheck = await checkLoginLockout(email, clientIp);
+    if (lockoutCheck?.locked) {
+      await recordLoginFailure(req, email, 'locked-out');
+      sendLockoutResponse(res, lockoutCheck.retryAfter);
+      return;
+    }
+
+    const result = await verifyOTP('login-code', email, code);
+    if (!result.valid) {
+      await recordLoginFailure(req, email, 'invalid-login-code');
+      await sendFailedLoginResponse(req, res, email, clientIp, getOTPFailureMessage(result));
+      return;
+    }
 
+    await resetLoginAttempts(email, clientIp);
+
+    // The role may have been changed since the code was sent
+    const user = await User.findOne({ email });
+    if (!user || !(await isLoginCodeAllowedForRole(user.role))) {
+      await recordLoginFailure(req, email, 'login-code-not-allowed', user, 'login-code');
       res.status(401).json({
         success: false,
-        message: 'Invalid email or password',
-        remainingAttempts: attemptInfo.remaining,
+        message: 'Invalid email or code',
       });
       return;
     }
 
-    // Login successful - reset failed attempts
-    await resetLoginAttempts(email, clientIp);
+    await completeLogin(req, res, user, 'login-code');
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
 
-    // Generate JWT token
-    const token = generateToken({
-      userId: user._id.toString(),
-      email: user.email,
-      role: user.role,
+/**
+ * Start a single sign-on login - redirects the browser to the identity provider
+ */
+export const startSsoLogin = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const authorizationUrl = await createSsoAuthorizationUrl({
+      returnTo: req.query.returnTo as string | undefined,
+      loginHint: req.query.loginHint as string | undefined,
     });
 
+    res.redirect(302, authorizationUrl);
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Identity provider callback - validates the login and redirects to the frontend
+ * The frontend receives a short-lived one-time code (or an error) and exchanges it at /api/auth/sso/exchange
+ */
+export const handleSsoCallback = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  let identity: SsoIdentity | undefined;
+  let userResolved = false;
+
+  try {
+    const { code, state, error, error_description: errorDescription } = req.query as Record<string, string | undefined>;
+
+    if (error) {
+      throw new AppError(errorDescription || error, 401);
+    }
+    if (!code || !state) {
+      throw new AppError('Missing authorization code or state', 400);
+    }
+
+    const authorization = await completeSsoAuthorization(code, state);
+    identity = authorization.identity;
+
+    const { user, provisioned, roleChange } = await resolveSsoUser(identity);
+    userResolved = true;
+
+    if (provisioned) {
+      await recordAuditEvent(req, {
+        action: 'auth.register',
+        actor: auditUser(user),
+        target: auditUser(user),
+        metadata: { method: 'sso' },
+      });
+    }
+
+    if (roleChange) {
+      await recordAuditEvent(req, {
+        action: 'user.role-change',
+        actor: { type: 'system', label: 'sso-group-mapping' },
+        target: auditUser(user),
+        changes: [{ field: 'role', from: roleChange.from, to: roleChange.to }],
+      });
+    }
+
+    const result = await resolveLogin(req, user, 'sso');
+    const resultCode = await storeSsoLoginResult(result);
+
+    res.redirect(302, getSsoRedirectUrl({ code: resultCode, returnTo: authorization.returnTo }));
+  } catch (error) {
+    const message = error instanceof AppError ? error.message : 'Single sign-on failed';
+    if (!(error instanceof AppError)) {
+      console.error('❌ SSO callback error:', error);
+    }
+
+    // Failures once the account is known (e.g. a suspended account) are recorded by resolveLogin
+    if (!userResolved) {
+      await recordAuditEvent(req, {
+        action: 'auth.login',
+        outcome: 'failure',
+        target: identity ? { type: 'user', label: identity.email } : undefined,
+        reason: 'sso-failed',
+        metadata: { method: 'sso', error: message },
+      });
+    }
+
+    res.redirect(302, getSsoRedirectUrl({ error: message }));
+  }
+};
+
+/**
+ * Exchange the one-time code from the SSO callback for the login result
+ * Responds exactly like /api/auth/login (tokens, or a 2FA challenge or setup token)
+ */
+export const exchangeSsoCode = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const result = (await consumeSsoLoginResult(req.body.code)) as
+      | { message: string; data: Record<string, unknown> }
+      | null;
+
+    if (!result) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid or expired sign-in code',
+      });
+      return;
+    }
+
     res.status(200).json({
       success: true,
-      message: 'Login successful',
-      data: {
-        user: {
-          id: user._id,
-          username: user.username,
-          email: user.email,
-          role: user.role,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          age: user.age,
-          gender: user.gender,
-          phoneNumber: user.phoneNumber,
-          address: user.address,
-          city: user.city,
-          state: user.state,
-          zip: user.zip,
-          country: user.country,
-        },
-        token,
-      },
+      message: result.message,
+      data: result.data,
     });
   } catch (error) {
     sendErrorResponse(res, error as Error);
@@ -226,12 +618,19 @@ export const verifyEmail = async (
     const { email, otp } = req.body;
 
     // Verify OTP
-    const isValid = await verifyOTP('email-verification', email, otp);
-
-    if (!isValid) {
+    const result = await verifyOTP('email-verification', email, otp);
+
+    if (!result.valid) {
+      await recordAuditEvent(req, {
+        action: 'auth.email-verify',
+        outcome: 'failure',
+        target: { type: 'user', label: email },
+        reason: 'invalid-otp',
+      });
       res.status(400).json({
         success: false,
-        message: 'Invalid or expired OTP',
+        message: getOTPFailureMessage(result),
+        remainingAttempts: result.remainingAttempts,
       });
       return;
     }
@@ -251,6 +650,11 @@ export const verifyEmail = async (
     user.emailVerifiedAt = new Date();
     await user.save();
 
+    await recordAuditEvent(req, {
+      action: 'auth.email-verify',
+      target: auditUser(user),
+    });
+
     res.status(200).json({
       success: true,
       message: 'Email verified successfully',
@@ -298,25 +702,84 @@ export const resendVerificationEmail = async (
 
     // Generate new OTP
     const otp = generateOTP();
-    const expiryMinutes = getOTPExpiryMinutes();
 
-    // Store OTP
-    await storeOTP('email-verification', email, otp);
+    // Store OTP (rejected with 429 during the resend cooldown)
+    const otpInfo = await storeOTP('email-verification', email, otp);
 
     // Send email
-    const emailHtml = getEmailVerificationOTPTemplate(otp, expiryMinutes);
-    await sendEmail(
+    await sendTemplatedEmail(
       email,
-      'Verify Your Email Address',
-      emailHtml
+      'email-verification-otp',
+      { otp, expiryMinutes: otpInfo.expiresIn },
+      user.locale || DEFAULT_LOCALE
     );
 
+    await recordAuditEvent(req, {
+      action: 'auth.email-verification-resend',
+      target: auditUser(user),
+    });
+
     res.status(200).json({
       success: true,
       message: 'Verification email sent successfully',
       data: {
-        email: email, // For testing, remove in production
-        expiresIn: expiryMinutes,
+        ...(process.env.NODE_ENV !== 'production' && { email }), // Echoed for testing outside production
+        ...otpInfo,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+
+/**
+ * Exchange a refresh token for a new access/refresh token pair
+ * The presented refresh token is rotated and can no longer be used
+ */
+export const refreshToken = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { refreshToken: presentedToken } = req.body;
+
+    const decoded = await consumeRefreshToken(presentedToken);
+
+    // Reload user so the new access token reflects current email and role
+    const user = await User.findById(decoded.userId);
+    if (!user || user.status === 'deleted') {
+      await revokeTokenFamily(decoded.familyId);
+      res.status(401).json({
+        success: false,
+        message: 'User no longer exists',
+      });
+      return;
+    }
+
+    try {
+      assertCanLogin(user);
+    } catch (error) {
+      await revokeTokenFamily(decoded.familyId);
+      throw error;
+    }
+
+    const tokens = await issueTokenPair(
+      {
+        userId: user._id.toString(),
+        email: user.email,
+        role: user.role,
+      },
+      { familyId: decoded.familyId, jti: decoded.nextJti }
+    );
+    await extendSession(decoded.familyId, tokens.refreshExpiresAt);
+
+    res.status(200).json({
+      success: true,
+      message: 'Token refreshed successfully',
+      data: {
+        token: tokens.token,
+        refreshToken: tokens.refreshToken,
       },
     });
   } catch (error) {
@@ -324,3 +787,56 @@ export const resendVerificationEmail = async (
   }
 };
 
+/**
+ * Logout - revoke the current session, or all sessions of the user
+ */
+export const logout = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { allSessions = false } = req.body;
+
+    // An impersonation token ends its impersonation session and never touches the user's own sessions
+    const impersonation = req.user?.impersonation;
+    if (impersonation) {
+      const session = await endImpersonation(impersonation.sessionId, impersonation.actorId);
+      if (session) {
+        await recordAuditEvent(req, {
+          action: 'impersonation.end',
+          target: { type: 'user', id: session.subjectId },
+          reason: 'ended',
+          metadata: {
+            impersonationId: session._id.toString(),
+            actorId: session.actorId.toString(),
+          },
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Impersonation session ended',
+      });
+      return;
+    }
+
+    if (allSessions && req.user?.userId) {
+      await revokeAllUserTokens(req.user.userId);
+    } else if (req.user?.familyId) {
+      await revokeTokenFamily(req.user.familyId);
+    }
+
+    await recordAuditEvent(req, {
+      action: 'auth.logout',
+      target: { type: 'user', id: req.user?.userId, label: req.user?.email },
+      metadata: { allSessions },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: allSessions ? 'Logged out from all sessions' : 'Logged out successfully',
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
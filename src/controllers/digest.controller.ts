@@ -0,0 +1,162 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import User from '../models/user.model';
+import { AppError, sendErrorResponse } from '../utils/errors';
+import { recordAuditEvent, auditUser, diffSnapshots } from '../services/audit.service';
+import {
+  getDigestSettings,
+  updateDigestSettings,
+  listDigestSubscriptions,
+  unsubscribeDigest,
+  sendDigestNow,
+  DigestSettingsUpdate,
+} from '../services/kpiDigest.service';
+
+/**
+ * Pick the digest settings present in a request body
+ */
+const getSettingsUpdate = (body: Record<string, any>): DigestSettingsUpdate => {
+  const update: DigestSettingsUpdate = {};
+  if (body.enabled !== undefined) update.enabled = body.enabled;
+  if (body.sections !== undefined) update.sections = body.sections;
+  if (body.sendTime !== undefined) update.sendTime = body.sendTime;
+  return update;
+};
+
+/**
+ * Get the current user's daily KPI digest settings
+ */
+export const getMyDigest = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    res.status(200).json({
+      success: true,
+      message: 'Digest settings retrieved successfully',
+      data: await getDigestSettings(req.user?.userId as string),
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Subscribe to the daily KPI digest or change its sections and send time
+ */
+export const updateMyDigest = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?.userId as string;
+    const settings = await updateDigestSettings(userId, getSettingsUpdate(req.body), userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Digest settings updated successfully',
+      data: settings,
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Unsubscribe with the token from a digest email (no login needed)
+ */
+export const unsubscribeFromDigest = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!(await unsubscribeDigest(req.body.token))) {
+      throw new AppError('Invalid unsubscribe link', 400);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'You have been unsubscribed from the daily KPI digest',
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Get all digest subscriptions - Admin only
+ */
+export const getDigestSubscriptions = async (
+  _req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const subscriptions = await listDigestSubscriptions();
+
+    res.status(200).json({
+      success: true,
+      message: 'Digest subscriptions retrieved successfully',
+      data: {
+        subscriptions,
+        count: subscriptions.length,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Subscribe a user to the digest or change their settings - Admin only
+ */
+export const updateUserDigest = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = await User.findById(req.params.userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const before = await getDigestSettings(user._id.toString());
+    const settings = await updateDigestSettings(user._id.toString(), getSettingsUpdate(req.body), req.user?.userId);
+
+    const { enabled, sections, sendTime } = settings;
+    await recordAuditEvent(req, {
+      action: 'digest.update',
+      target: auditUser(user),
+      changes: diffSnapshots(
+        { enabled: before.enabled, sections: before.sections, sendTime: before.sendTime },
+        { enabled, sections, sendTime }
+      ),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Digest settings updated successfully',
+      data: settings,
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Send a user's digest now with the latest figures - Admin only
+ */
+export const sendUserDigest = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    await sendDigestNow(req.params.userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Digest queued for delivery',
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
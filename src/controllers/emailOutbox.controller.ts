@@ -0,0 +1,144 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import EmailOutbox, { IEmailOutbox } from '../models/emailOutbox.model';
+import { sendErrorResponse } from '../utils/errors';
+import { resendEmail, getEmailOutboxCounts } from '../services/emailOutbox.service';
+import { recordAuditEvent } from '../services/audit.service';
+
+/**
+ * Format an outbox message for API responses
+ * Bodies are never returned - they contain sign-in codes and password links
+ */
+const formatMessage = (message: IEmailOutbox) => ({
+  id: message._id,
+  to: message.to,
+  subject: message.subject,
+  status: message.status,
+  attempts: message.attempts,
+  nextAttemptAt: message.status === 'queued' ? message.nextAttemptAt : undefined,
+  lastError: message.lastError,
+  messageId: message.messageId,
+  smtpResponse: message.smtpResponse,
+  sentAt: message.sentAt,
+  failedAt: message.failedAt,
+  bouncedAt: message.bouncedAt,
+  resendCount: message.resendCount,
+  createdAt: message.createdAt,
+});
+
+/**
+ * Get outbox messages, newest first, with counts by status
+ * Filter with ?status= and ?to= (recipient address, partial match)
+ */
+export const getEmailOutbox = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const skip = (page - 1) * limit;
+
+    const status = req.query.status as string | undefined;
+    const to = req.query.to as string | undefined;
+
+    const query: Record<string, any> = {};
+    if (status) {
+      query.status = status;
+    }
+    if (to) {
+      query.to = { $regex: to.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' };
+    }
+
+    const [messages, total, counts] = await Promise.all([
+      EmailOutbox.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit),
+      EmailOutbox.countDocuments(query),
+      getEmailOutboxCounts(),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    res.status(200).json({
+      success: true,
+      message: 'Email outbox retrieved successfully',
+      data: {
+        messages: messages.map(formatMessage),
+        counts,
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+        },
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Get one outbox message
+ */
+export const getEmailOutboxMessage = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const message = await EmailOutbox.findById(req.params.id);
+    if (!message) {
+      res.status(404).json({
+        success: false,
+        message: 'Email not found',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Email retrieved successfully',
+      data: {
+        message: formatMessage(message),
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Queue a sent, failed or bounced message to be delivered again
+ */
+export const resendEmailOutboxMessage = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const message = await resendEmail(req.params.id);
+    if (!message) {
+      res.status(404).json({
+        success: false,
+        message: 'Email not found',
+      });
+      return;
+    }
+
+    await recordAuditEvent(req, {
+      action: 'email.resend',
+      target: { type: 'email', id: message._id, label: message.to },
+      metadata: { subject: message.subject, resendCount: message.resendCount },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Email queued for delivery',
+      data: {
+        message: formatMessage(message),
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
@@ -0,0 +1,73 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import { sendErrorResponse } from '../utils/errors';
+import { DEFAULT_LOCALE, Locale } from '../config/locales';
+import {
+  listEmailTemplates,
+  renderEmailTemplate,
+  getEmailTemplateSample,
+} from '../services/emailTemplate.service';
+
+/**
+ * Get the available email templates and the locales each one has
+ */
+export const getEmailTemplates = async (
+  _req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    res.status(200).json({
+      success: true,
+      message: 'Email templates retrieved successfully',
+      data: {
+        defaultLocale: DEFAULT_LOCALE,
+        templates: await listEmailTemplates(),
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Render a template with its sample data, as it would be sent
+ * GET uses the sample as-is; POST merges `data` from the body over it
+ * ?format=html or ?format=text returns the body itself so it can be opened in a browser
+ */
+export const previewEmailTemplate = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { name } = req.params;
+    const locale = (req.body?.locale || req.query.locale || DEFAULT_LOCALE) as Locale;
+    const format = (req.query.format as string) || 'json';
+
+    const sample = await getEmailTemplateSample(name);
+    const email = await renderEmailTemplate(name, { ...sample, ...req.body?.data }, locale);
+
+    if (format === 'html') {
+      res.status(200).type('html').send(email.html);
+      return;
+    }
+    if (format === 'text') {
+      res.status(200).type('text').send(email.text);
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Email template rendered successfully',
+      data: {
+        template: email.template,
+        requestedLocale: locale,
+        locale: email.locale, // Differs from the requested locale when the template has no variant for it
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
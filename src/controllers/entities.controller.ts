@@ -3,6 +3,7 @@ import mongoose from 'mongoose';
 import { AuthRequest } from '../types';
 import Entity from '../models/entities.model';
 import { sendErrorResponse } from '../utils/errors';
+import { applyEntityScope, assertEntityAllowed } from '../utils/dataScope';
 
 /**
  * Get all entities
@@ -25,6 +26,8 @@ export const getEntities = async (
       }
     }
 
+    applyEntityScope(query, '_id', req.dataScope);
+
     const entities = await Entity.find(query).sort({ entityCode: 1 });
 
     res.status(200).json({
@@ -55,6 +58,8 @@ export const getEntityById = async (
       return;
     }
 
+    assertEntityAllowed(req.dataScope, id);
+
     const entity = await Entity.findById(id);
 
     if (!entity) {
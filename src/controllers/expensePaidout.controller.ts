@@ -3,7 +3,10 @@ import mongoose from 'mongoose';
 import { AuthRequest } from '../types';
 import FinanceExpensePaidout from '../models/finance-expense-paidout.model';
 import { syncExpensePaidoutData } from '../services/expense-paidout-sync.service';
+import { evaluateAlertRulesInBackground } from '../services/alert.service';
 import { sendErrorResponse } from '../utils/errors';
+import { applyEntityScope } from '../utils/dataScope';
+import { getExpenseSummaryData } from '../services/kpi.service';
 
 /**
  * Trigger manual sync of expense paidout data
@@ -22,6 +25,8 @@ export const syncExpensePaidout = async (
     const result = await syncExpensePaidoutData(syncDays);
 
     if (result.success) {
+      evaluateAlertRulesInBackground('expense-paidout');
+
       res.status(200).json({
         success: true,
         message: 'Expense paidout data synced successfully',
@@ -102,6 +107,8 @@ export const getExpensePaidoutData = async (
       }
     }
 
+    applyEntityScope(query, 'entity', req.dataScope);
+
     // Execute query with pagination
     const [records, total] = await Promise.all([
       FinanceExpensePaidout.find(query)
@@ -151,118 +158,15 @@ export const getExpenseSummary = async (
 ): Promise<void> => {
   try {
     const entityId = req.query.entityId as string | undefined;
-    const today = new Date();
-    
-    // Current month start (first day of current month, 00:00:00 UTC)
-    const currentMonthStart = new Date(today.getFullYear(), today.getMonth(), 1);
-    currentMonthStart.setUTCHours(0, 0, 0, 0);
-
-    // Current month end (today, end of day UTC)
-    const currentMonthEnd = new Date(today);
-    currentMonthEnd.setUTCHours(23, 59, 59, 999);
-    currentMonthEnd.setUTCMilliseconds(999);
-
-    // Previous month start (first day of previous month, 00:00:00 UTC)
-    const previousMonthStart = new Date(today.getFullYear(), today.getMonth() - 1, 1);
-    previousMonthStart.setUTCHours(0, 0, 0, 0);
-
-    // Previous month end (last day of previous month, 23:59:59 UTC)
-    const previousMonthEnd = new Date(today.getFullYear(), today.getMonth(), 0);
-    previousMonthEnd.setUTCHours(23, 59, 59, 999);
-    previousMonthEnd.setUTCMilliseconds(999);
 
     const match: any = {};
     if (entityId) match.entity = entityId;
-
-    // Helper to aggregate expenses for a date range
-    const aggregateExpenses = async (from: Date, to: Date) => {
-      const res = await FinanceExpensePaidout.aggregate([
-        {
-          $match: {
-            ...match,
-            date: { $gte: from, $lte: to },
-          },
-        },
-        {
-          $group: {
-            _id: null,
-            opsExpenses: { $sum: '$Ops_Expenses' },
-            landExpenses: { $sum: '$Land_Expenses' },
-            constructionExpenses: { $sum: '$Construction_Expenses' },
-            cashExpenses: { $sum: '$cash_expense' },
-            totalPayout: {
-              $sum: {
-                $add: [
-                  '$Ops_Expenses',
-                  '$Land_Expenses',
-                  '$Construction_Expenses',
-                  '$cash_expense',
-                ],
-              },
-            },
-          },
-        },
-      ]);
-
-      return res[0] || {
-        opsExpenses: 0,
-        landExpenses: 0,
-        constructionExpenses: 0,
-        cashExpenses: 0,
-        totalPayout: 0,
-      };
-    };
-
-    const [currentMonthData, previousMonthData] = await Promise.all([
-      aggregateExpenses(currentMonthStart, currentMonthEnd),
-      aggregateExpenses(previousMonthStart, previousMonthEnd),
-    ]);
-
-    // Calculate percentage change
-    const changeAmount = currentMonthData.totalPayout - previousMonthData.totalPayout;
-    let percentageChange = 0;
-    if (previousMonthData.totalPayout === 0) {
-      percentageChange = currentMonthData.totalPayout > 0 ? 100 : 0;
-    } else {
-      percentageChange = (changeAmount / previousMonthData.totalPayout) * 100;
-    }
-
-    const percentageFormatted = percentageChange >= 0
-      ? `+${percentageChange.toFixed(1)}%`
-      : `${percentageChange.toFixed(1)}%`;
-
-    // Format month strings
-    const currentMonth = currentMonthStart.getMonth() + 1;
-    const previousMonth = previousMonthStart.getMonth() + 1;
-    const currentMonthStr = `${currentMonthStart.getFullYear()}-${currentMonth < 10 ? '0' : ''}${currentMonth}`;
-    const previousMonthStr = `${previousMonthStart.getFullYear()}-${previousMonth < 10 ? '0' : ''}${previousMonth}`;
+    applyEntityScope(match, 'entity', req.dataScope);
 
     res.status(200).json({
       success: true,
       message: 'Expense summary retrieved successfully',
-      data: {
-        currentMonth: {
-          month: currentMonthStr,
-          totalPayout: currentMonthData.totalPayout,
-          opsExpenses: currentMonthData.opsExpenses,
-          landExpenses: currentMonthData.landExpenses,
-          constructionExpenses: currentMonthData.constructionExpenses,
-          cashExpenses: currentMonthData.cashExpenses,
-        },
-        previousMonth: {
-          month: previousMonthStr,
-          totalPayout: previousMonthData.totalPayout,
-          opsExpenses: previousMonthData.opsExpenses,
-          landExpenses: previousMonthData.landExpenses,
-          constructionExpenses: previousMonthData.constructionExpenses,
-          cashExpenses: previousMonthData.cashExpenses,
-        },
-        change: {
-          amount: changeAmount,
-          percentage: percentageChange,
-          percentageFormatted,
-        },
-      },
+      data: await getExpenseSummaryData(match),
     });
   } catch (error) {
     sendErrorResponse(res, error as Error);
@@ -284,6 +188,7 @@ export const getExpenseCategorySummary = async (
 
     const match: any = {};
     if (entityId) match.entity = entityId;
+    applyEntityScope(match, 'entity', req.dataScope);
 
     // Apply date range filter if provided
     if (startDate && endDate) {
@@ -443,6 +348,8 @@ export const getExpensePaidoutDetail = async (
       }
     }
 
+    applyEntityScope(match, 'entity', req.dataScope);
+
     // Build aggregation pipeline
     const pipeline: any[] = [
       { $match: match },
@@ -4,8 +4,11 @@ import { AuthRequest } from '../types';
 import FinanceReserveBank from '../models/finance-reserve-bank.model';
 import Entity from '../models/entities.model';
 import { syncFinanceReserveData } from '../services/financeReserveSync.service';
+import { evaluateAlertRulesInBackground } from '../services/alert.service';
 import { sendErrorResponse } from '../utils/errors';
 import { getYesterdayDate, getDayBeforeYesterdayDate } from '../utils/dateUtils';
+import { applyEntityScope, assertEntityAllowed } from '../utils/dataScope';
+import { getReserveTotalsForDate, getLiquiditySummaryData } from '../services/kpi.service';
 
 /**
  * Trigger manual sync of finance reserve data
@@ -27,6 +30,8 @@ export const syncFinanceReserve = async (
     const result = await syncFinanceReserveData(date);
 
     if (result.success) {
+      evaluateAlertRulesInBackground('finance-reserve');
+
       res.status(200).json({
         success: true,
         message: 'Finance reserve data synced successfully',
@@ -95,6 +100,8 @@ export const getFinanceReserveData = async (
       if (toDate) query.date.$lte = toDate;
     }
 
+    applyEntityScope(query, 'entity', req.dataScope);
+
     // Execute query with pagination
     const [records, total] = await Promise.all([
       FinanceReserveBank.find(query)
@@ -138,11 +145,12 @@ export const getFinanceReserveData = async (
  * Get all entities
  */
 export const getEntities = async (
-  _req: AuthRequest,
+  req: AuthRequest,
   res: Response
 ): Promise<void> => {
   try {
-    const entities = await Entity.find().sort({ entityCode: 1 });
+    const query = applyEntityScope({}, '_id', req.dataScope);
+    const entities = await Entity.find(query).sort({ entityCode: 1 });
 
     res.status(200).json({
       success: true,
@@ -167,6 +175,8 @@ export const getEntityById = async (
   try {
     const { id } = req.params;
 
+    assertEntityAllowed(req.dataScope, id);
+
     const entity = await Entity.findById(id);
 
     if (!entity) {
@@ -194,7 +204,7 @@ export const getEntityById = async (
  * Returns yesterday's liquidity, day before yesterday's liquidity, and percentage change
  */
 export const getLiquidityData = async (
-  _req: AuthRequest,
+  req: AuthRequest,
   res: Response
 ): Promise<void> => {
   try {
@@ -202,19 +212,10 @@ export const getLiquidityData = async (
     const yesterday = getYesterdayDate(); // e.g., 2026-01-18
     const dayBeforeYesterday = getDayBeforeYesterdayDate(); // e.g., 2026-01-17
 
-    // Fetch aggregate data (entity = null) for both dates
-    // Aggregate data represents total liquidity across all entities
+    // Fetch total liquidity across all entities the user can see for both dates
     const [yesterdayData, previousData] = await Promise.all([
-      FinanceReserveBank.findOne({
-        entity: null,
-        date: yesterday,
-        dataSource: 'MSD Bank Group Summary sync',
-      }),
-      FinanceReserveBank.findOne({
-        entity: null,
-        date: dayBeforeYesterday,
-        dataSource: 'MSD Bank Group Summary sync',
-      }),
+      getReserveTotalsForDate(yesterday, req.dataScope),
+      getReserveTotalsForDate(dayBeforeYesterday, req.dataScope),
     ]);
 
     // Calculate liquidity (TotalReserve)
@@ -264,73 +265,10 @@ export const getLiquiditySummary = async (
   res: Response
 ): Promise<void> => {
   try {
-    // Get dates in yyyy-mm-dd format
-    const yesterday = getYesterdayDate();
-    const dayBeforeYesterday = getDayBeforeYesterdayDate();
-
-    // Fetch aggregate data (entity = null) for both dates
-    // Aggregate data represents total liquidity across all entities
-    const [yesterdayData, previousDayData] = await Promise.all([
-      FinanceReserveBank.findOne({
-        entity: null,
-        date: yesterday,
-        dataSource: 'MSD Bank Group Summary sync',
-      }),
-      FinanceReserveBank.findOne({
-        entity: null,
-        date: dayBeforeYesterday,
-        dataSource: 'MSD Bank Group Summary sync',
-      }),
-    ]);
-
-    // Extract values or default to 0
-    const yesterdayTotal = yesterdayData?.TotalReserve || 0;
-    const yesterdayEscrow = yesterdayData?.EscrowReserve || 0;
-    const yesterdayNonEscrow = yesterdayData?.NonEscrowReserve || 0;
-    const yesterdayOther = yesterdayData?.OtherReserve || 0;
-
-    const previousDayTotal = previousDayData?.TotalReserve || 0;
-    const previousDayEscrow = previousDayData?.EscrowReserve || 0;
-    const previousDayNonEscrow = previousDayData?.NonEscrowReserve || 0;
-    const previousDayOther = previousDayData?.OtherReserve || 0;
-
-    // Calculate percentage change
-    let percentageChange = 0;
-    if (previousDayTotal === 0) {
-      percentageChange = yesterdayTotal > 0 ? 100 : 0;
-    } else {
-      percentageChange = ((yesterdayTotal - previousDayTotal) / previousDayTotal) * 100;
-    }
-
-    const changeAmount = yesterdayTotal - previousDayTotal;
-    const percentageFormatted = percentageChange >= 0
-      ? `+${percentageChange.toFixed(1)}%`
-      : `${percentageChange.toFixed(1)}%`;
-
     res.status(200).json({
       success: true,
       message: 'Liquidity summary retrieved successfully',
-      data: {
-        yesterday: {
-          date: yesterday,
-          totalReserve: yesterdayTotal,
-          escrowReserve: yesterdayEscrow,
-          nonEscrowReserve: yesterdayNonEscrow,
-          otherReserve: yesterdayOther,
-        },
-        previousDay: {
-          date: dayBeforeYesterday,
-          totalReserve: previousDayTotal,
-          escrowReserve: previousDayEscrow,
-          nonEscrowReserve: previousDayNonEscrow,
-          otherReserve: previousDayOther,
-        },
-        change: {
-          amount: changeAmount,
-          percentage: percentageChange,
-          percentageFormatted: percentageFormatted,
-        },
-      },
+      data: await getLiquiditySummaryData(req.dataScope),
     });
   } catch (error) {
     sendErrorResponse(res, error as Error);
@@ -388,6 +326,10 @@ export const getLiquidityDetail = async (
       }
     }
 
+    // Entity-scoped users never see the aggregate record (entity = null)
+    applyEntityScope(match, 'entity', req.dataScope);
+    const restricted = !!req.dataScope?.restricted;
+
     // Build aggregation pipeline
     const pipeline: any[] = [
       { $match: match },
@@ -457,6 +399,19 @@ export const getLiquidityDetail = async (
               ],
             },
           },
+          // Sum entity-specific records for entity-scoped users (no aggregate record)
+          sumEscrowEntities: {
+            $sum: { $cond: [{ $ne: ['$entity', null] }, '$EscrowReserve', 0] },
+          },
+          sumNonEscrowEntities: {
+            $sum: { $cond: [{ $ne: ['$entity', null] }, '$NonEscrowReserve', 0] },
+          },
+          sumOtherEntities: {
+            $sum: { $cond: [{ $ne: ['$entity', null] }, '$OtherReserve', 0] },
+          },
+          sumTotalEntities: {
+            $sum: { $cond: [{ $ne: ['$entity', null] }, '$TotalReserve', 0] },
+          },
         },
       },
       {
@@ -468,17 +423,18 @@ export const getLiquidityDetail = async (
       {
         $addFields: {
           // Use aggregate record for summary totals, fallback to 0 if not exists
+          // (entity-scoped users fall back to the sum of their entities)
           escrowReserve: {
-            $ifNull: ['$aggregate.EscrowReserve', 0],
+            $ifNull: ['$aggregate.EscrowReserve', restricted ? '$sumEscrowEntities' : 0],
           },
           nonEscrowReserve: {
-            $ifNull: ['$aggregate.NonEscrowReserve', 0],
+            $ifNull: ['$aggregate.NonEscrowReserve', restricted ? '$sumNonEscrowEntities' : 0],
           },
           otherReserve: {
-            $ifNull: ['$aggregate.OtherReserve', 0],
+            $ifNull: ['$aggregate.OtherReserve', restricted ? '$sumOtherEntities' : 0],
           },
           totalReserve: {
-            $ifNull: ['$aggregate.TotalReserve', 0],
+            $ifNull: ['$aggregate.TotalReserve', restricted ? '$sumTotalEntities' : 0],
           },
         },
       },
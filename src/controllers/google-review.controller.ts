@@ -2,6 +2,7 @@ import { Response } from 'express';
 import { AuthRequest } from '../types';
 import GoogleReview from '../models/google-review.model';
 import { fetchAndStoreGoogleReviews } from '../services/google-review-sync.service';
+import { evaluateAlertRulesInBackground } from '../services/alert.service';
 import { sendErrorResponse, AppError } from '../utils/errors';
 
 /**
@@ -15,6 +16,7 @@ export const syncGoogleReviews = async (
     console.log('🔄 Manual Google Reviews sync triggered by user');
 
     await fetchAndStoreGoogleReviews();
+    evaluateAlertRulesInBackground('google-reviews');
 
     res.status(200).json({
       success: true,
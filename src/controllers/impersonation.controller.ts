@@ -0,0 +1,178 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import ImpersonationSession, { IImpersonationSession } from '../models/impersonationSession.model';
+import User from '../models/user.model';
+import { AppError, sendErrorResponse } from '../utils/errors';
+import { getClientInfo } from '../utils/request';
+import { startImpersonation, endImpersonation } from '../services/impersonation.service';
+import { recordAuditEvent, auditUser } from '../services/audit.service';
+
+/**
+ * Format an impersonation session for API responses
+ */
+const formatSession = (session: IImpersonationSession) => ({
+  id: session._id,
+  actor: session.actorId,
+  subject: session.subjectId,
+  reason: session.reason,
+  allowMutations: session.allowMutations,
+  status: session.endedAt ? session.endReason : session.isActive() ? 'active' : 'expired',
+  ipAddress: session.ipAddress,
+  expiresAt: session.expiresAt,
+  endedAt: session.endedAt,
+  endedBy: session.endedBy,
+  createdAt: session.createdAt,
+});
+
+/**
+ * Get impersonation sessions, newest first
+ * Filter with ?active=true, ?userId= (subject) and ?actorId=
+ */
+export const getImpersonationSessions = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { active, userId, actorId } = req.query;
+    const limit = parseInt((req.query.limit as string) || '50', 10);
+
+    const query: Record<string, any> = {};
+    if (active === 'true') {
+      query.endedAt = { $exists: false };
+      query.expiresAt = { $gt: new Date() };
+    }
+    if (userId) {
+      query.subjectId = userId;
+    }
+    if (actorId) {
+      query.actorId = actorId;
+    }
+
+    const sessions = await ImpersonationSession.find(query)
+      .populate('actorId', 'username email')
+      .populate('subjectId', 'username email role')
+      .sort({ createdAt: -1 })
+      .limit(limit);
+
+    res.status(200).json({
+      success: true,
+      message: 'Impersonation sessions retrieved successfully',
+      data: {
+        sessions: sessions.map(formatSession),
+        count: sessions.length,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Start impersonating a user
+ * The returned token authenticates as the user; keep the admin's own token to end the session
+ */
+export const startImpersonationSession = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { userId, reason, durationMinutes, allowMutations } = req.body;
+
+    const [actor, subject] = await Promise.all([
+      User.findById(req.user?.userId),
+      User.findById(userId),
+    ]);
+    if (!actor) {
+      throw new AppError('User not found', 404);
+    }
+    if (!subject) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
+    }
+
+    const { session, token } = await startImpersonation(
+      actor,
+      subject,
+      { reason, durationMinutes, allowMutations },
+      getClientInfo(req)
+    );
+
+    await recordAuditEvent(req, {
+      action: 'impersonation.start',
+      target: auditUser(subject),
+      reason,
+      metadata: {
+        impersonationId: session._id.toString(),
+        allowMutations: session.allowMutations,
+        expiresAt: session.expiresAt,
+      },
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `Impersonating ${subject.email}`,
+      data: {
+        token,
+        expiresIn: Math.round((session.expiresAt.getTime() - Date.now()) / 1000),
+        session: formatSession(session),
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * End an impersonation session
+ * Sessions ended by another admin are recorded as revoked
+ */
+export const endImpersonationSession = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const existing = await ImpersonationSession.findById(req.params.id);
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        message: 'Impersonation session not found',
+      });
+      return;
+    }
+
+    const endedBy = req.user?.userId as string;
+    const endReason = existing.actorId.toString() === endedBy ? 'ended' : 'revoked';
+
+    const session = await endImpersonation(existing._id.toString(), endedBy, endReason);
+    if (!session) {
+      res.status(400).json({
+        success: false,
+        message: 'Impersonation session has already ended',
+      });
+      return;
+    }
+
+    await recordAuditEvent(req, {
+      action: 'impersonation.end',
+      target: { type: 'user', id: session.subjectId },
+      reason: endReason,
+      metadata: {
+        impersonationId: session._id.toString(),
+        actorId: session.actorId.toString(),
+      },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Impersonation session ended',
+      data: {
+        session: formatSession(session),
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
@@ -3,7 +3,10 @@ import mongoose from 'mongoose';
 import { AuthRequest } from '../types';
 import InstagramInsights from '../models/instagram-insights.model';
 import { syncInstagramData } from '../services/instagram-sync.service';
+import { evaluateAlertRulesInBackground } from '../services/alert.service';
 import { sendErrorResponse, AppError } from '../utils/errors';
+import { getInstagramStatsData } from '../services/kpi.service';
+import { applyEntityScope } from '../utils/dataScope';
 
 /**
  * Manual trigger for Instagram data sync (Admin only)
@@ -16,6 +19,7 @@ export const syncInstagramInsights = async (
     console.log('🔄 Manual Instagram sync triggered by user');
 
     await syncInstagramData();
+    evaluateAlertRulesInBackground('instagram-insights');
 
     res.status(200).json({
       success: true,
@@ -55,6 +59,7 @@ export const getInstagramInsights = async (
         match.entity = new mongoose.Types.ObjectId(entityId);
       }
     }
+    applyEntityScope(match, 'entity', req.dataScope);
 
     // Date range filter
     if (startDate || endDate) {
@@ -124,83 +129,18 @@ export const getInstagramDashboardStats = async (
     };
 
     // Apply entity filter only if provided and valid
-    // If entityId is empty or invalid, show aggregate data (all entities)
+    // If entityId is empty or invalid, show aggregate data (all allowed entities)
     if (entityId && typeof entityId === 'string' && entityId.trim() !== '') {
       if (mongoose.Types.ObjectId.isValid(entityId)) {
         baseMatch.entity = new mongoose.Types.ObjectId(entityId);
       }
       // If entityId is provided but invalid, we'll query without entity filter (aggregate)
     }
+    applyEntityScope(baseMatch, 'entity', req.dataScope);
 
-    // Get latest record for Instagram (for total followers)
-    const latest = await InstagramInsights.findOne(baseMatch)
-      .sort({ date: -1, updatedAt: -1 });
-
-    // Calculate yesterday's date range
-    const today = new Date();
-    today.setUTCHours(0, 0, 0, 0);
-    today.setUTCMilliseconds(0);
-
-    const yesterday = new Date(today);
-    yesterday.setUTCDate(today.getUTCDate() - 1);
-    yesterday.setUTCHours(0, 0, 0, 0);
-    yesterday.setUTCMilliseconds(0);
-
-    const yesterdayEnd = new Date(yesterday);
-    yesterdayEnd.setUTCHours(23, 59, 59, 999);
-    yesterdayEnd.setUTCMilliseconds(999);
-
-    // Get yesterday's record
-    const yesterdayMatch = {
-      ...baseMatch,
-      date: {
-        $gte: yesterday,
-        $lte: yesterdayEnd,
-      },
-    };
-    const yesterdayRecord = await InstagramInsights.findOne(yesterdayMatch);
-
-    // Calculate Month-To-Date range
-    const now = new Date();
-    const monthStart = new Date(
-      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1, 0, 0, 0, 0)
-    );
-
-    // Sum all newFollowers from month start to now (including today)
-    const monthToDateMatch = {
-      ...baseMatch,
-      date: {
-        $gte: monthStart,
-        $lte: now,
-      },
-    };
-
-    const monthToDateResult = await InstagramInsights.aggregate([
-      {
-        $match: monthToDateMatch,
-      },
-      {
-        $group: {
-          _id: null,
-          totalNewFollowers: { $sum: '$newFollowers' },
-        },
-      },
-    ]);
-
-    const monthToDate = monthToDateResult[0]?.totalNewFollowers || 0;
-
-    // Return formatted response
     res.status(200).json({
       success: true,
-      data: {
-        totalFollowers: latest?.totalFollower || 0,
-        yesterday: {
-          newFollowers: yesterdayRecord?.newFollowers || 0,
-          newReach: yesterdayRecord?.newReach || 0,
-        },
-        monthToDate,
-        lastSync: latest?.lastSyncDateTime || null,
-      },
+      data: await getInstagramStatsData(baseMatch),
     });
   } catch (error) {
     sendErrorResponse(res, error as Error);
@@ -229,6 +169,7 @@ export const getInstagramTrends = async (
     if (entityId && mongoose.Types.ObjectId.isValid(entityId)) {
       match.entity = new mongoose.Types.ObjectId(entityId);
     }
+    applyEntityScope(match, 'entity', req.dataScope);
 
     const trends = await InstagramInsights.find(match)
       .sort({ date: 1 })
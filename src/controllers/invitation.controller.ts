@@ -0,0 +1,445 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import { AuthRequest } from '../types';
+import Invitation, { IInvitation } from '../models/invitation.model';
+import User from '../models/user.model';
+import Entity from '../models/entities.model';
+import { hashPassword } from '../utils/password';
+import { sendErrorResponse } from '../utils/errors';
+import { generateSecureToken, hashToken } from '../utils/crypto';
+import { sendTemplatedEmail } from '../services/emailTemplate.service';
+import { ADMIN_ROLE, Permission } from '../config/permissions';
+import { getRolePermissions, roleHasPermissions } from '../services/permission.service';
+import { getUserDataScope } from '../services/dataScope.service';
+import { isEntityAllowed } from '../utils/dataScope';
+import { issueTokenPair, issuePurposeToken } from '../services/token.service';
+import { isTwoFactorRequiredForRole } from '../services/twoFactor.service';
+import { createSession } from '../services/session.service';
+import { getClientInfo } from '../utils/request';
+import { assertPasswordAllowed } from '../services/passwordPolicy.service';
+import { assertPasswordLoginAllowed } from '../services/sso.service';
+import { recordLoginSuccess } from '../services/loginActivity.service';
+
+const INVITATION_EXPIRY_HOURS = parseInt(process.env.INVITATION_EXPIRY_HOURS || '72', 10);
+const TWO_FACTOR_SETUP_EXPIRY_MINUTES = parseInt(process.env.TWO_FACTOR_SETUP_EXPIRY_MINUTES || '15', 10);
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+/**
+ * Assign a fresh token and expiry to an invitation and email the link
+ * Any previously sent link stops working
+ */
+const sendInvitation = async (invitation: IInvitation): Promise<boolean> => {
+  const token = generateSecureToken();
+
+  invitation.tokenHash = hashToken(token);
+  invitation.expiresAt = new Date(Date.now() + INVITATION_EXPIRY_HOURS * 60 * 60 * 1000);
+  invitation.sentCount += 1;
+  invitation.lastSentAt = new Date();
+  await invitation.save();
+
+  try {
+    const inviteUrl = `${APP_URL}/accept-invitation?token=${encodeURIComponent(token)}`;
+    await sendTemplatedEmail(invitation.email, 'invitation', {
+      inviteUrl,
+      token,
+      role: invitation.role,
+      expiryHours: INVITATION_EXPIRY_HOURS,
+    });
+    return true;
+  } catch (emailError) {
+    console.error('Failed to send invitation email:', emailError);
+    // Don't fail the request - the invitation can be resent
+    return false;
+  }
+};
+
+/**
+ * Format invitation for API responses (never includes the token hash)
+ */
+const formatInvitation = (invitation: IInvitation) => ({
+  id: invitation._id,
+  email: invitation.email,
+  role: invitation.role,
+  allowedEntities: invitation.allowedEntities,
+  status: invitation.status === 'pending' && invitation.isExpired() ? 'expired' : invitation.status,
+  expiresAt: invitation.expiresAt,
+  invitedBy: invitation.invitedBy,
+  sentCount: invitation.sentCount,
+  lastSentAt: invitation.lastSentAt,
+  acceptedAt: invitation.acceptedAt,
+  revokedAt: invitation.revokedAt,
+  createdAt: invitation.createdAt,
+});
+
+/**
+ * Create an invitation and email it to the invitee
+ * The role and entities can't give the invitee more access than the inviter has
+ */
+export const createInvitation = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { email, role, entityIds = [] } = req.body;
+
+    // Only admins can invite other admins
+    if (role === ADMIN_ROLE && req.user?.role !== ADMIN_ROLE) {
+      res.status(403).json({
+        success: false,
+        message: 'Only admins can invite users with the admin role',
+      });
+      return;
+    }
+
+    // Nobody can invite into a role that can do more than their own
+    const rolePermissions = await getRolePermissions(role);
+    if (!(await roleHasPermissions(req.user?.role as string, rolePermissions as Permission[]))) {
+      res.status(403).json({
+        success: false,
+        message: 'You can only invite users into roles whose permissions you have',
+      });
+      return;
+    }
+
+    const existingUser = await User.findOne({ email });
+    if (existingUser) {
+      res.status(400).json({
+        success: false,
+        message: 'User with this email already exists',
+      });
+      return;
+    }
+
+    const pendingInvitation = await Invitation.findOne({
+      email,
+      status: 'pending',
+      expiresAt: { $gt: new Date() },
+    });
+    if (pendingInvitation) {
+      res.status(400).json({
+        success: false,
+        message: 'A pending invitation already exists for this email. Resend it instead.',
+      });
+      return;
+    }
+
+    // Restricted inviters can only grant entities they can access, and grant all of theirs by default
+    const inviterScope = await getUserDataScope(req.user?.userId as string);
+    let uniqueEntityIds = [...new Set<string>(entityIds)];
+    if (inviterScope.restricted) {
+      if (!uniqueEntityIds.every((entityId) => isEntityAllowed(inviterScope, entityId))) {
+        res.status(403).json({
+          success: false,
+          message: 'You can only grant access to entities you can access',
+        });
+        return;
+      }
+      if (uniqueEntityIds.length === 0) {
+        uniqueEntityIds = inviterScope.entityIds.map((entityId) => entityId.toString());
+      }
+    }
+
+    const entityCount = await Entity.countDocuments({ _id: { $in: uniqueEntityIds } });
+    if (entityCount !== uniqueEntityIds.length) {
+      res.status(400).json({
+        success: false,
+        message: 'One or more entities do not exist',
+      });
+      return;
+    }
+
+    const invitation = new Invitation({
+      email,
+      role,
+      allowedEntities: uniqueEntityIds,
+      invitedBy: req.user?.userId,
+    });
+
+    const emailSent = await sendInvitation(invitation);
+
+    res.status(201).json({
+      success: true,
+      message: emailSent
+        ? 'Invitation sent successfully'
+        : 'Invitation created, but the email could not be sent. Please resend it.',
+      data: {
+        invitation: formatInvitation(invitation),
+        emailSent,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Get invitations with pagination and status filter
+ */
+export const getInvitations = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+
+    const status = req.query.status as string;
+    const email = req.query.email as string;
+
+    const query: Record<string, any> = {};
+
+    // 'expired' is derived from pending invitations past their expiry
+    if (status === 'expired') {
+      query.status = 'pending';
+      query.expiresAt = { $lte: new Date() };
+    } else if (status === 'pending') {
+      query.status = 'pending';
+      query.expiresAt = { $gt: new Date() };
+    } else if (status === 'accepted' || status === 'revoked') {
+      query.status = status;
+    }
+
+    if (email) {
+      query.email = { $regex: email, $options: 'i' };
+    }
+
+    const [invitations, total] = await Promise.all([
+      Invitation.find(query)
+        .populate('invitedBy', 'username email')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit),
+      Invitation.countDocuments(query),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    res.status(200).json({
+      success: true,
+      message: 'Invitations retrieved successfully',
+      data: {
+        invitations: invitations.map(formatInvitation),
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+        },
+        filters: {
+          status: status || null,
+          email: email || null,
+        },
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Resend an invitation with a new link and expiry
+ */
+export const resendInvitation = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const invitation = await Invitation.findById(id);
+    if (!invitation) {
+      res.status(404).json({
+        success: false,
+        message: 'Invitation not found',
+      });
+      return;
+    }
+
+    if (invitation.status !== 'pending') {
+      res.status(400).json({
+        success: false,
+        message: `Invitation has already been ${invitation.status}`,
+      });
+      return;
+    }
+
+    const emailSent = await sendInvitation(invitation);
+
+    if (!emailSent) {
+      res.status(502).json({
+        success: false,
+        message: 'Failed to send invitation email',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Invitation resent successfully',
+      data: {
+        invitation: formatInvitation(invitation),
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Revoke a pending invitation
+ */
+export const revokeInvitation = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const invitation = await Invitation.findById(id);
+    if (!invitation) {
+      res.status(404).json({
+        success: false,
+        message: 'Invitation not found',
+      });
+      return;
+    }
+
+    if (invitation.status !== 'pending') {
+      res.status(400).json({
+        success: false,
+        message: `Invitation has already been ${invitation.status}`,
+      });
+      return;
+    }
+
+    invitation.status = 'revoked';
+    invitation.revokedAt = new Date();
+    invitation.revokedBy = new mongoose.Types.ObjectId(req.user?.userId as string);
+    await invitation.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Invitation revoked successfully',
+      data: {
+        invitation: formatInvitation(invitation),
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Accept an invitation - the invitee chooses a username and password
+ * Creates the account with the invited role and entities and logs the user in
+ */
+export const acceptInvitation = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { token, username, password, firstName, lastName } = req.body;
+
+    const invitation = await Invitation.findOne({ tokenHash: hashToken(token) });
+
+    if (!invitation || invitation.status !== 'pending' || invitation.isExpired()) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid or expired invitation',
+      });
+      return;
+    }
+
+    // Invitations for SSO-only domains are accepted by signing in with SSO
+    assertPasswordLoginAllowed(invitation.email);
+
+    const existingUserByEmail = await User.findOne({ email: invitation.email });
+    if (existingUserByEmail) {
+      res.status(400).json({
+        success: false,
+        message: 'User with this email already exists',
+      });
+      return;
+    }
+
+    const existingUserByUsername = await User.findOne({ username });
+    if (existingUserByUsername) {
+      res.status(400).json({
+        success: false,
+        message: 'Username already taken',
+      });
+      return;
+    }
+
+    await assertPasswordAllowed(password);
+
+    const hashedPassword = await hashPassword(password);
+
+    // The invitation link proves ownership of the email address
+    const user = await User.create({
+      username,
+      email: invitation.email,
+      password: hashedPassword,
+      passwordChangedAt: new Date(),
+      firstName,
+      lastName,
+      role: invitation.role,
+      allowedEntities: invitation.allowedEntities,
+      emailVerified: true,
+      emailVerifiedAt: new Date(),
+    });
+
+    invitation.status = 'accepted';
+    invitation.acceptedAt = new Date();
+    invitation.acceptedUser = user._id;
+    await invitation.save();
+
+    // Roles with mandatory 2FA enroll before receiving API tokens, same as login
+    if (await isTwoFactorRequiredForRole(user.role)) {
+      const setupToken = await issuePurposeToken(
+        { userId: user._id.toString(), email: user.email, purpose: '2fa-setup' },
+        TWO_FACTOR_SETUP_EXPIRY_MINUTES
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Invitation accepted. Set up two-factor authentication to log in.',
+        data: {
+          twoFactorSetupRequired: true,
+          setupToken,
+          expiresIn: TWO_FACTOR_SETUP_EXPIRY_MINUTES * 60,
+        },
+      });
+      return;
+    }
+
+    const { token: accessToken, refreshToken, familyId, refreshExpiresAt } = await issueTokenPair({
+      userId: user._id.toString(),
+      email: user.email,
+      role: user.role,
+    });
+    await createSession(user, familyId, refreshExpiresAt, getClientInfo(req));
+    await recordLoginSuccess(user, getClientInfo(req), 'invitation');
+
+    res.status(201).json({
+      success: true,
+      message: 'Invitation accepted. Your account has been created.',
+      data: {
+        user: {
+          id: user._id,
+          username: user.username,
+          email: user.email,
+          role: user.role,
+          emailVerified: user.emailVerified,
+        },
+        token: accessToken,
+        refreshToken,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
@@ -0,0 +1,70 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import User from '../models/user.model';
+import { sendErrorResponse } from '../utils/errors';
+import { getLoginLockouts, unlockLogin } from '../services/rateLimit.service';
+import { recordAuditEvent, auditUser } from '../services/audit.service';
+
+/**
+ * Get current login lockouts, most recent first
+ * Filter with ?email= and ?scope= (ip or account)
+ */
+export const getLockouts = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const email = req.query.email as string | undefined;
+    const scope = req.query.scope as string | undefined;
+
+    const lockouts = (await getLoginLockouts(email)).filter(
+      (lockout) => !scope || lockout.scope === scope
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Lockouts retrieved successfully',
+      data: {
+        lockouts,
+        count: lockouts.length,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Unlock an email - lifts its lockouts and clears its failed attempts and lockout level
+ */
+export const unlockAccount = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { email, reason } = req.body;
+
+    const lifted = await unlockLogin(email);
+    const user = await User.findOne({ email });
+
+    await recordAuditEvent(req, {
+      action: 'auth.unlock',
+      target: user ? auditUser(user) : { type: 'user', label: email },
+      reason,
+      metadata: {
+        lifted: lifted.map(({ scope, ipAddress, level }) => ({ scope, ipAddress, level })),
+      },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: lifted.length > 0 ? `Unlocked ${email}` : `${email} was not locked out; failed attempts cleared`,
+      data: {
+        lifted,
+        count: lifted.length,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
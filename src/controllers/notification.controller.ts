@@ -0,0 +1,275 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import Notification, { INotification } from '../models/notification.model';
+import { AppError, sendErrorResponse } from '../utils/errors';
+import { getTokenTtlSeconds } from '../config/jwt';
+import { isTokenFamilyActive } from '../services/token.service';
+import { isAccountBlocked } from '../services/accountStatus.service';
+import { getActiveImpersonation } from '../services/impersonation.service';
+import {
+  getUnreadCount,
+  markNotificationsRead,
+  subscribeToNotifications,
+  countNotificationStreams,
+} from '../services/notification.service';
+
+// Comments keep proxies from closing idle streams; the session and unread count are re-checked at the same time
+const STREAM_HEARTBEAT_MS = 25 * 1000;
+const MAX_STREAMS_PER_USER = 5;
+
+/**
+ * Format a notification for API responses and stream events
+ */
+const formatNotification = (notification: INotification) => ({
+  id: notification._id,
+  category: notification.category,
+  title: notification.title,
+  message: notification.message,
+  link: notification.link,
+  data: notification.data,
+  read: !!notification.readAt,
+  readAt: notification.readAt,
+  createdAt: notification.createdAt,
+});
+
+/**
+ * Check that the session a stream was opened with is still live
+ * Streams outlast the request's authentication, so logouts, revocations and blocks are picked up here
+ */
+const isStreamSessionActive = async (req: AuthRequest): Promise<boolean> => {
+  const user = req.user;
+  if (!user || (await isAccountBlocked(user.userId))) {
+    return false;
+  }
+
+  if (user.impersonation) {
+    return !(await isAccountBlocked(user.impersonation.actorId)) &&
+      !!(await getActiveImpersonation(user.impersonation.sessionId));
+  }
+  return !!user.familyId && (await isTokenFamilyActive(user.familyId));
+};
+
+/**
+ * Get the current user's notifications, newest first
+ * Filter with ?unread=true and ?category=
+ */
+export const getNotifications = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?.userId as string;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+
+    const query: Record<string, any> = { user: userId };
+    if (req.query.unread === 'true') {
+      query.readAt = null;
+    }
+    if (req.query.category) {
+      query.category = req.query.category;
+    }
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      Notification.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit),
+      Notification.countDocuments(query),
+      getUnreadCount(userId),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    res.status(200).json({
+      success: true,
+      message: 'Notifications retrieved successfully',
+      data: {
+        notifications: notifications.map(formatNotification),
+        unreadCount,
+        pagination: {
+          total,
+          page,
+          limit,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1,
+        },
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Mark one of the current user's notifications read
+ */
+export const markNotificationRead = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?.userId as string;
+    const notification = await Notification.findOne({ _id: req.params.id, user: userId });
+    if (!notification) {
+      throw new AppError('Notification not found', 404);
+    }
+
+    if (!notification.readAt) {
+      await markNotificationsRead(userId, { _id: notification._id });
+      notification.readAt = new Date();
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Notification marked as read',
+      data: {
+        notification: formatNotification(notification),
+        unreadCount: await getUnreadCount(userId),
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Mark all of the current user's notifications read, optionally only one category
+ */
+export const markAllNotificationsRead = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?.userId as string;
+    const { category } = req.body;
+
+    const marked = await markNotificationsRead(userId, category ? { category } : {});
+
+    res.status(200).json({
+      success: true,
+      message: `${marked} notification(s) marked as read`,
+      data: {
+        marked,
+        unreadCount: await getUnreadCount(userId),
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Stream the current user's notifications as Server-Sent Events
+ * Sends `unread` ({ count }) on connect and whenever the count changes, and `notification` for each new one.
+ * The stream ends with an `end` event ({ reason: 'expired' | 'revoked' }) when the access token expires or the
+ * session ends; the client should refresh its token and reconnect.
+ */
+export const streamNotifications = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?.userId as string;
+    if (countNotificationStreams(userId) >= MAX_STREAMS_PER_USER) {
+      throw new AppError('Too many open notification streams', 429);
+    }
+
+    const authorization = req.headers.authorization || '';
+    const ttlMs = getTokenTtlSeconds(authorization.substring(7)) * 1000;
+    if (ttlMs <= 0) {
+      throw new AppError('Notification streams need a Bearer access token', 401);
+    }
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Stop nginx buffering the stream
+    });
+    res.flushHeaders();
+
+    const send = (event: string, data: unknown) => {
+      if (!res.writableEnded) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    };
+
+    let unreadCount = -1;
+    const refreshUnreadCount = async () => {
+      const count = await getUnreadCount(userId);
+      if (count !== unreadCount) {
+        unreadCount = count;
+        send('unread', { count });
+      }
+    };
+    const refresh = () => {
+      refreshUnreadCount().catch((error) => {
+        console.error('❌ Error counting unread notifications:', error);
+      });
+    };
+
+    const end = (reason: 'expired' | 'revoked') => {
+      send('end', { reason });
+      res.end();
+    };
+
+    const unsubscribe = subscribeToNotifications(userId, (event) => {
+      if (event.type === 'closing') {
+        res.end();
+        return;
+      }
+      if (event.type === 'read') {
+        refresh();
+        return;
+      }
+
+      // Don't push to a session that ended since the last heartbeat
+      isStreamSessionActive(req)
+        .then((active) => {
+          if (!active) {
+            end('revoked');
+            return;
+          }
+          send('notification', formatNotification(event.notification));
+          refresh();
+        })
+        .catch((error) => {
+          console.error('❌ Error checking notification stream session:', error);
+        });
+    });
+
+    const expiry = setTimeout(() => end('expired'), ttlMs);
+    const heartbeat = setInterval(() => {
+      isStreamSessionActive(req)
+        .then((active) => {
+          if (!active) {
+            end('revoked');
+            return;
+          }
+          if (!res.writableEnded) {
+            res.write(': keep-alive\n\n');
+          }
+          refresh();
+        })
+        .catch((error) => {
+          console.error('❌ Error checking notification stream session:', error);
+        });
+    }, STREAM_HEARTBEAT_MS);
+
+    res.on('close', () => {
+      clearTimeout(expiry);
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+
+    await refreshUnreadCount();
+  } catch (error) {
+    // Once the stream has started the status can't change - just end it
+    if (res.headersSent) {
+      console.error('❌ Error streaming notifications:', error);
+      res.end();
+      return;
+    }
+    sendErrorResponse(res, error as Error);
+  }
+};
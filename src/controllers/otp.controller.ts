@@ -1,9 +1,18 @@
 import { Response } from 'express';
 import { AuthRequest } from '../types';
-import { generateOTP, storeOTP, verifyOTP, getOTPExpiryMinutes, OTPType } from '../services/otp.service';
-import { sendEmail } from '../config/email';
-import { getGenericOTPTemplate } from '../utils/emailTemplates';
+import {
+  generateOTP,
+  storeOTP,
+  verifyOTP,
+  getOTPFailureMessage,
+  OTPType,
+} from '../services/otp.service';
+import { sendTemplatedEmail } from '../services/emailTemplate.service';
 import { sendErrorResponse } from '../utils/errors';
+import { recordAuditEvent } from '../services/audit.service';
+
+// Types anyone can request and verify here; the others belong to accounts
+const GENERIC_OTP_TYPES: OTPType[] = ['generic'];
 
 /**
  * Generate OTP for any purpose
@@ -15,39 +24,42 @@ export const generateOTPForPurpose = async (
   try {
     const { email, type = 'generic', purpose = 'verification' } = req.body;
 
-    // Validate OTP type
-    const validTypes: OTPType[] = ['password-reset', 'email-verification', 'generic'];
-    if (!validTypes.includes(type as OTPType)) {
+    // Only generic codes - password reset and email verification codes are issued and checked by their own flows
+    if (!GENERIC_OTP_TYPES.includes(type as OTPType)) {
       res.status(400).json({
         success: false,
-        message: 'Invalid OTP type. Must be: password-reset, email-verification, or generic',
+        message: 'Invalid OTP type. Must be: generic',
       });
       return;
     }
 
     // Generate OTP
     const otp = generateOTP();
-    const expiryMinutes = getOTPExpiryMinutes();
 
-    // Store OTP in Redis
-    await storeOTP(type as OTPType, email, otp);
+    // Store OTP in Redis (rejected with 429 during the resend cooldown)
+    const otpInfo = await storeOTP(type as OTPType, email, otp);
 
     // Send email with OTP
-    const emailHtml = getGenericOTPTemplate(otp, purpose, expiryMinutes);
-    await sendEmail(
-      email,
-      `OTP for ${purpose}`,
-      emailHtml
-    );
+    await sendTemplatedEmail(email, 'generic-otp', {
+      otp,
+      purpose,
+      expiryMinutes: otpInfo.expiresIn,
+    });
+
+    await recordAuditEvent(req, {
+      action: 'otp.send',
+      target: { type: 'email', label: email },
+      metadata: { type, purpose },
+    });
 
     res.status(200).json({
       success: true,
       message: 'OTP generated and sent successfully',
       data: {
-        email: email, // For testing, remove in production
+        ...(process.env.NODE_ENV !== 'production' && { email }), // Echoed for testing outside production
         type,
         purpose,
-        expiresIn: expiryMinutes,
+        ...otpInfo,
       },
     });
   } catch (error) {
@@ -65,23 +77,31 @@ export const verifyOTPForPurpose = async (
   try {
     const { email, otp, type = 'generic' } = req.body;
 
-    // Validate OTP type
-    const validTypes: OTPType[] = ['password-reset', 'email-verification', 'generic'];
-    if (!validTypes.includes(type as OTPType)) {
+    // Only generic codes - password reset and email verification codes are issued and checked by their own flows
+    if (!GENERIC_OTP_TYPES.includes(type as OTPType)) {
       res.status(400).json({
         success: false,
-        message: 'Invalid OTP type. Must be: password-reset, email-verification, or generic',
+        message: 'Invalid OTP type. Must be: generic',
       });
       return;
     }
 
     // Verify OTP
-    const isValid = await verifyOTP(type as OTPType, email, otp);
+    const result = await verifyOTP(type as OTPType, email, otp);
+
+    await recordAuditEvent(req, {
+      action: 'otp.verify',
+      outcome: result.valid ? 'success' : 'failure',
+      target: { type: 'email', label: email },
+      reason: result.valid ? undefined : 'invalid-otp',
+      metadata: { type },
+    });
 
-    if (!isValid) {
+    if (!result.valid) {
       res.status(400).json({
         success: false,
-        message: 'Invalid or expired OTP',
+        message: getOTPFailureMessage(result),
+        remainingAttempts: result.remainingAttempts,
       });
       return;
     }
@@ -1,15 +1,26 @@
 import { Response } from 'express';
 import { AuthRequest } from '../types';
 import User from '../models/user.model';
-import { hashPassword } from '../utils/password';
-import { sendErrorResponse } from '../utils/errors';
-import { generateOTP, storeOTP, verifyOTP, getOTPExpiryMinutes } from '../services/otp.service';
-import { sendEmail } from '../config/email';
-import { getPasswordResetOTPTemplate } from '../utils/emailTemplates';
-import { generateToken, verifyToken } from '../config/jwt';
+import { assertPasswordAllowed, applyNewPassword } from '../services/passwordPolicy.service';
+import { AppError, sendErrorResponse } from '../utils/errors';
+import {
+  generateOTP,
+  storeOTP,
+  verifyOTP,
+  getOTPFailureMessage,
+  getOTPExpiryMinutes,
+} from '../services/otp.service';
+import { sendTemplatedEmail } from '../services/emailTemplate.service';
+import { DEFAULT_LOCALE } from '../config/locales';
+import { verifyPurposeToken } from '../config/jwt';
+import { revokeAllUserTokens, markPurposeTokenUsed } from '../services/token.service';
+import { issuePasswordResetToken } from '../services/auth.service';
+import { recordAuditEvent, auditUser } from '../services/audit.service';
+import { assertPasswordLoginAllowed } from '../services/sso.service';
 
 /**
  * Forgot Password - Send OTP to user's email
+ * The response is the same whether or not an OTP was sent, so it can't be used to discover accounts
  */
 export const forgotPassword = async (
   req: AuthRequest,
@@ -18,39 +29,52 @@ export const forgotPassword = async (
   try {
     const { email } = req.body;
 
+    // SSO-only accounts reset their password with the identity provider
+    assertPasswordLoginAllowed(email);
+
     // Find user by email
     const user = await User.findOne({ email });
-    
-    if (!user) {
-      // Don't reveal if user exists or not (security best practice)
-      res.status(200).json({
-        success: true,
-        message: 'If an account exists with this email, a password reset OTP has been sent.',
+
+    if (user) {
+      try {
+        // Generate OTP
+        const otp = generateOTP();
+
+        // Store OTP in Redis (rejected with 429 during the resend cooldown)
+        const otpInfo = await storeOTP('password-reset', email, otp);
+
+        // Send email with OTP
+        await sendTemplatedEmail(
+          email,
+          'password-reset-otp',
+          { otp, expiryMinutes: otpInfo.expiresIn },
+          user.locale || DEFAULT_LOCALE
+        );
+
+        await recordAuditEvent(req, {
+          action: 'password.reset-request',
+          target: auditUser(user),
+        });
+      } catch (error) {
+        // An OTP sent within the resend cooldown is still valid - don't reveal that the account exists
+        if (!(error instanceof AppError && error.statusCode === 429)) {
+          throw error;
+        }
+      }
+    } else {
+      await recordAuditEvent(req, {
+        action: 'password.reset-request',
+        outcome: 'failure',
+        target: { type: 'user', label: email },
+        reason: 'unknown-email',
       });
-      return;
     }
 
-    // Generate OTP
-    const otp = generateOTP();
-    const expiryMinutes = getOTPExpiryMinutes();
-
-    // Store OTP in Redis
-    await storeOTP('password-reset', email, otp);
-
-    // Send email with OTP
-    const emailHtml = getPasswordResetOTPTemplate(otp, expiryMinutes);
-    await sendEmail(
-      email,
-      'Password Reset Request',
-      emailHtml
-    );
-
     res.status(200).json({
       success: true,
-      message: 'Password reset OTP has been sent to your email.',
+      message: 'If an account exists with this email, a password reset OTP has been sent.',
       data: {
-        email: email, // For testing, remove in production
-        expiresIn: expiryMinutes,
+        expiresIn: getOTPExpiryMinutes(),
       },
     });
   } catch (error) {
@@ -70,12 +94,19 @@ export const verifyResetOTP = async (
     const { email, otp } = req.body;
 
     // Verify OTP
-    const isValid = await verifyOTP('password-reset', email, otp);
-
-    if (!isValid) {
+    const result = await verifyOTP('password-reset', email, otp);
+
+    if (!result.valid) {
+      await recordAuditEvent(req, {
+        action: 'password.reset-otp-verify',
+        outcome: 'failure',
+        target: { type: 'user', label: email },
+        reason: 'invalid-otp',
+      });
       res.status(400).json({
         success: false,
-        message: 'Invalid or expired OTP',
+        message: getOTPFailureMessage(result),
+        remainingAttempts: result.remainingAttempts,
       });
       return;
     }
@@ -90,11 +121,12 @@ export const verifyResetOTP = async (
       return;
     }
 
-    // Generate temporary token for password reset (expires in 15 minutes)
-    const resetToken = generateToken({
-      userId: user._id.toString(),
-      email: user.email,
-      role: user.role,
+    // Generate single-use token that can only be used to reset the password
+    const { resetToken, expiresIn } = await issuePasswordResetToken(user);
+
+    await recordAuditEvent(req, {
+      action: 'password.reset-otp-verify',
+      target: auditUser(user),
     });
 
     res.status(200).json({
@@ -102,7 +134,7 @@ export const verifyResetOTP = async (
       message: 'OTP verified successfully',
       data: {
         resetToken,
-        expiresIn: 15, // minutes
+        expiresIn, // minutes
       },
     });
   } catch (error) {
@@ -120,11 +152,17 @@ export const resetPassword = async (
   try {
     const { email, newPassword, resetToken } = req.body;
 
-    // Verify reset token
+    // Verify reset token (only password-reset tokens are accepted)
     let decoded;
     try {
-      decoded = verifyToken(resetToken);
+      decoded = verifyPurposeToken(resetToken, 'password-reset');
     } catch (error) {
+      await recordAuditEvent(req, {
+        action: 'password.reset',
+        outcome: 'failure',
+        target: { type: 'user', label: email },
+        reason: 'invalid-token',
+      });
       res.status(401).json({
         success: false,
         message: 'Invalid or expired reset token',
@@ -134,6 +172,12 @@ export const resetPassword = async (
 
     // Verify email matches token
     if (decoded.email !== email) {
+      await recordAuditEvent(req, {
+        action: 'password.reset',
+        outcome: 'failure',
+        target: { type: 'user', id: decoded.userId, label: email },
+        reason: 'email-mismatch',
+      });
       res.status(400).json({
         success: false,
         message: 'Email does not match reset token',
@@ -142,7 +186,7 @@ export const resetPassword = async (
     }
 
     // Find user
-    const user = await User.findById(decoded.userId);
+    const user = await User.findById(decoded.userId).select('+password +passwordHistory');
     if (!user) {
       res.status(404).json({
         success: false,
@@ -151,13 +195,49 @@ export const resetPassword = async (
       return;
     }
 
-    // Hash new password
-    const hashedPassword = await hashPassword(newPassword);
+    // Check the policy before consuming the token so the user can retry with another password
+    try {
+      await assertPasswordAllowed(newPassword, user);
+    } catch (error) {
+      await recordAuditEvent(req, {
+        action: 'password.reset',
+        outcome: 'failure',
+        target: auditUser(user),
+        reason: 'policy-violation',
+      });
+      throw error;
+    }
+
+    // Consume the one-time-use marker so the token cannot be replayed
+    const tokenUnused = await markPurposeTokenUsed(decoded);
+    if (!tokenUnused) {
+      await recordAuditEvent(req, {
+        action: 'password.reset',
+        outcome: 'failure',
+        target: auditUser(user),
+        reason: 'token-already-used',
+      });
+      res.status(401).json({
+        success: false,
+        message: 'Reset token has already been used',
+      });
+      return;
+    }
 
-    // Update password
-    user.password = hashedPassword;
+    // Update password (the previous hash moves into the password history)
+    await applyNewPassword(user, newPassword);
     await user.save();
 
+    // Log out every existing session after a password change
+    await revokeAllUserTokens(user._id.toString());
+
+    await recordAuditEvent(req, {
+      action: 'password.reset',
+      actor: auditUser(user),
+      target: auditUser(user),
+      changes: [{ field: 'password' }],
+    });
+
     res.status(200).json({
       success: true,
       message: 'Password reset successfully',
@@ -2,7 +2,10 @@ import { Response } from 'express';
 import { AuthRequest } from '../types';
 import ProcurementPurchaseOrder from '../models/procurement-purchase-order.model';
 import { syncProcurementData } from '../services/procurement-sync.service';
+import { evaluateAlertRulesInBackground } from '../services/alert.service';
 import { sendErrorResponse } from '../utils/errors';
+import { applyEntityScope, isEntityAllowed } from '../utils/dataScope';
+import { getProcurementSummaryData } from '../services/kpi.service';
 import mongoose from 'mongoose';
 
 /**
@@ -18,6 +21,8 @@ export const syncProcurement = async (
     const result = await syncProcurementData();
 
     if (result.success) {
+      evaluateAlertRulesInBackground('procurement');
+
       res.status(200).json({
         success: true,
         message: 'Procurement purchase order data synced successfully',
@@ -106,6 +111,8 @@ export const getProcurementOrders = async (
       }
     }
 
+    applyEntityScope(query, 'entityId', req.dataScope);
+
     if (minAmount || maxAmount) {
       query.totalAmount = {};
       if (minAmount) {
@@ -173,7 +180,8 @@ export const getProcurementOrderById = async (
       purchId: purchId.toUpperCase(),
     }).populate('entityId', 'entityCode entityName');
 
-    if (!order) {
+    // Orders outside the user's entity scope are reported as not found
+    if (!order || !isEntityAllowed(req.dataScope, order.entityId?._id)) {
       res.status(404).json({
         success: false,
         message: 'Purchase order not found',
@@ -211,7 +219,8 @@ export const getProcurementSummary = async (
     const result = await ProcurementPurchaseOrder.getProcurementSummary(
       dataAreaId || null,
       start,
-      end
+      end,
+      req.dataScope?.restricted ? req.dataScope.entityIds : null
     );
 
     const summary = result[0] || {
@@ -257,23 +266,8 @@ export const getProcurementCardData = async (
     const entityId = req.query.entityId as string | undefined;
     const dataAreaId = req.query.dataAreaId as string | undefined;
 
-    // Get current month range
-    const today = new Date();
-    const currentMonthStart = new Date(today.getFullYear(), today.getMonth(), 1);
-    currentMonthStart.setHours(0, 0, 0, 0);
-    const currentMonthEnd = new Date(today.getFullYear(), today.getMonth() + 1, 0);
-    currentMonthEnd.setHours(23, 59, 59, 999);
-
-    // Get previous month range
-    const previousMonthStart = new Date(today.getFullYear(), today.getMonth() - 1, 1);
-    previousMonthStart.setHours(0, 0, 0, 0);
-    const previousMonthEnd = new Date(today.getFullYear(), today.getMonth(), 0);
-    previousMonthEnd.setHours(23, 59, 59, 999);
-
     // Build match query
-    const matchQuery: any = {
-      approvalStatus: { $ne: 'Draft' }, // Exclude drafts
-    };
+    const matchQuery: any = {};
 
     if (entityId) {
       matchQuery.entityId = entityId;
@@ -283,80 +277,12 @@ export const getProcurementCardData = async (
       matchQuery.dataAreaId = dataAreaId.toUpperCase();
     }
 
-    // Query procurement orders for both months
-    const [currentMonthData, previousMonthData] = await Promise.all([
-      ProcurementPurchaseOrder.aggregate([
-        {
-          $match: {
-            ...matchQuery,
-            createdTimestamp: { $gte: currentMonthStart, $lte: currentMonthEnd },
-          },
-        },
-        {
-          $group: {
-            _id: null,
-            total: { $sum: '$totalAmount' },
-          },
-        },
-      ]),
-      ProcurementPurchaseOrder.aggregate([
-        {
-          $match: {
-            ...matchQuery,
-            createdTimestamp: { $gte: previousMonthStart, $lte: previousMonthEnd },
-          },
-        },
-        {
-          $group: {
-            _id: null,
-            total: { $sum: '$totalAmount' },
-          },
-        },
-      ]),
-    ]);
-
-    // Calculate totals
-    const currentMonthTotal = currentMonthData[0]?.total || 0;
-    const previousMonthTotal = previousMonthData[0]?.total || 0;
-
-    // Calculate absolute change
-    const changeAmount = currentMonthTotal - previousMonthTotal;
-
-    // Calculate percentage change
-    let percentageChange = 0;
-    if (previousMonthTotal === 0) {
-      percentageChange = currentMonthTotal > 0 ? 100 : 0;
-    } else {
-      percentageChange = (changeAmount / previousMonthTotal) * 100;
-    }
-
-    // Format month identifiers
-    const currentMonthStr = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}`;
-    const previousMonthDate = new Date(today.getFullYear(), today.getMonth() - 1, 1);
-    const previousMonthStr = `${previousMonthDate.getFullYear()}-${String(previousMonthDate.getMonth() + 1).padStart(2, '0')}`;
-
-    const percentageFormatted = percentageChange >= 0
-      ? `+${percentageChange.toFixed(1)}%`
-      : `${percentageChange.toFixed(1)}%`;
+    applyEntityScope(matchQuery, 'entityId', req.dataScope);
 
     res.status(200).json({
       success: true,
       message: 'Procurement card data retrieved successfully',
-      data: {
-        currentMonth: {
-          month: currentMonthStr,
-          totalProcurement: currentMonthTotal,
-        },
-        previousMonth: {
-          month: previousMonthStr,
-          totalProcurement: previousMonthTotal,
-        },
-        change: {
-          amount: changeAmount,
-          percentage: percentageChange,
-          percentageFormatted: percentageFormatted,
-        },
-      },
+      data: await getProcurementSummaryData(matchQuery), // Drafts are excluded
     });
   } catch (error) {
     sendErrorResponse(res, error as Error);
@@ -434,6 +360,8 @@ export const getProcurementDetail = async (
       }
     }
 
+    applyEntityScope(match, 'entityId', req.dataScope);
+
     // Build aggregation pipeline
     const pipeline: any[] = [
       { $match: match },
@@ -0,0 +1,291 @@
+import { Response } from 'express';
+import { AuthRequest, IUser } from '../types';
+import User from '../models/user.model';
+import { comparePassword } from '../utils/password';
+import { AppError, sendErrorResponse } from '../utils/errors';
+import { generateOTP, storeOTP, verifyOTP, getOTPFailureMessage } from '../services/otp.service';
+import { sendTemplatedEmail } from '../services/emailTemplate.service';
+import { DEFAULT_LOCALE } from '../config/locales';
+import { getRolePermissions } from '../services/permission.service';
+import { revokeOtherSessions } from '../services/session.service';
+import { assertPasswordAllowed, applyNewPassword } from '../services/passwordPolicy.service';
+
+/**
+ * Fields users may change on their own profile
+ * Email, password and role each have their own flow
+ */
+const PROFILE_FIELDS = [
+  'username',
+  'firstName',
+  'lastName',
+  'age',
+  'phoneNumber',
+  'address',
+  'city',
+  'state',
+  'zip',
+  'country',
+  'gender',
+  'locale',
+] as const;
+
+/**
+ * Get OTP identifier for an email change - binds the code to both the user and the new address
+ */
+const getEmailChangeIdentifier = (userId: string, newEmail: string): string => {
+  return `${userId}:${newEmail}`;
+};
+
+/**
+ * Format the current user's profile for API responses
+ */
+const formatProfile = async (user: IUser) => ({
+  id: user._id,
+  username: user.username,
+  email: user.email,
+  emailVerified: user.emailVerified,
+  role: user.role,
+  permissions: await getRolePermissions(user.role),
+  allowedEntities: user.allowedEntities,
+  twoFactorEnabled: user.twoFactor?.enabled || false,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  age: user.age,
+  gender: user.gender,
+  phoneNumber: user.phoneNumber,
+  address: user.address,
+  city: user.city,
+  state: user.state,
+  zip: user.zip,
+  country: user.country,
+  locale: user.locale || DEFAULT_LOCALE,
+  createdAt: user.createdAt,
+});
+
+/**
+ * Get the current user's profile
+ */
+export const getMyProfile = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = await User.findById(req.user?.userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Profile retrieved successfully',
+      data: {
+        user: await formatProfile(user),
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Update the current user's profile fields
+ */
+export const updateMyProfile = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = await User.findById(req.user?.userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const { username } = req.body;
+
+    // Check if username is being changed and already exists
+    if (username && username !== user.username) {
+      const existingUser = await User.findOne({ username });
+      if (existingUser) {
+        res.status(400).json({
+          success: false,
+          message: 'Username already taken',
+        });
+        return;
+      }
+    }
+
+    for (const field of PROFILE_FIELDS) {
+      if (req.body[field] !== undefined) {
+        user.set(field, req.body[field]);
+      }
+    }
+
+    await user.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Profile updated successfully',
+      data: {
+        user: await formatProfile(user),
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Change the current user's password (requires the current password)
+ * Other sessions are logged out; the current one stays signed in
+ */
+export const changeMyPassword = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    const user = await User.findById(req.user?.userId).select('+password +passwordHistory');
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const isPasswordValid = await comparePassword(currentPassword, user.password);
+    if (!isPasswordValid) {
+      throw new AppError('Current password is incorrect', 401);
+    }
+
+    // Reuse of the current password is reported as a policy violation
+    await assertPasswordAllowed(newPassword, user);
+    await applyNewPassword(user, newPassword);
+    await user.save();
+
+    await revokeOtherSessions(user._id.toString(), req.user?.familyId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Password changed successfully. Other sessions have been logged out.',
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Start an email change - sends an OTP to the new address (requires the current password)
+ */
+export const requestEmailChange = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { newEmail, password } = req.body;
+
+    const user = await User.findById(req.user?.userId).select('+password');
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const isPasswordValid = await comparePassword(password, user.password);
+    if (!isPasswordValid) {
+      throw new AppError('Current password is incorrect', 401);
+    }
+
+    if (newEmail === user.email) {
+      throw new AppError('New email must be different from the current email', 400);
+    }
+
+    const existingUser = await User.findOne({ email: newEmail });
+    if (existingUser) {
+      throw new AppError('Email already in use', 400);
+    }
+
+    const otp = generateOTP();
+    const otpInfo = await storeOTP(
+      'email-change',
+      getEmailChangeIdentifier(user._id.toString(), newEmail),
+      otp
+    );
+
+    await sendTemplatedEmail(
+      newEmail,
+      'email-change-otp',
+      { otp, expiryMinutes: otpInfo.expiresIn },
+      user.locale || DEFAULT_LOCALE
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'A verification code has been sent to your new email address.',
+      data: otpInfo,
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Confirm an email change with the OTP sent to the new address
+ */
+export const confirmEmailChange = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { newEmail, otp } = req.body;
+
+    const user = await User.findById(req.user?.userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const result = await verifyOTP(
+      'email-change',
+      getEmailChangeIdentifier(user._id.toString(), newEmail),
+      otp
+    );
+    if (!result.valid) {
+      throw new AppError(getOTPFailureMessage(result), 400, {
+        remainingAttempts: result.remainingAttempts,
+      });
+    }
+
+    // The address may have been taken since the code was sent
+    const existingUser = await User.findOne({ email: newEmail });
+    if (existingUser) {
+      throw new AppError('Email already in use', 400);
+    }
+
+    const previousEmail = user.email;
+
+    user.email = newEmail;
+    user.emailVerified = true;
+    user.emailVerifiedAt = new Date();
+    await user.save();
+
+    // Access tokens carry the email, so other sessions must sign in again
+    await revokeOtherSessions(user._id.toString(), req.user?.familyId);
+
+    try {
+      await sendTemplatedEmail(
+        previousEmail,
+        'email-changed',
+        { newEmail },
+        user.locale || DEFAULT_LOCALE
+      );
+    } catch (emailError) {
+      console.error('Failed to send email change notification:', emailError);
+      // Don't fail the change if the notification can't be sent
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Email changed successfully',
+      data: {
+        user: await formatProfile(user),
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
@@ -0,0 +1,60 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import { sendErrorResponse } from '../utils/errors';
+import { RATE_LIMITS, RATE_LIMIT_ENABLED } from '../config/rateLimits';
+import { getRateLimitCounters, clearRateLimitCounters } from '../services/rateLimit.service';
+
+/**
+ * Get the configured rate limit rules and the current counters
+ * Filter counters with ?rule= and ?identifier= (an IP, user ID, API key ID or email)
+ */
+export const getRateLimits = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const rule = req.query.rule as string | undefined;
+    const identifier = req.query.identifier as string | undefined;
+
+    const counters = await getRateLimitCounters(rule, identifier);
+
+    res.status(200).json({
+      success: true,
+      message: 'Rate limits retrieved successfully',
+      data: {
+        enabled: RATE_LIMIT_ENABLED,
+        rules: Object.values(RATE_LIMITS),
+        counters,
+        count: counters.length,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Clear rate limit counters, e.g. to unblock a client
+ * Without filters every counter is cleared
+ */
+export const clearRateLimits = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const rule = req.query.rule as string | undefined;
+    const identifier = req.query.identifier as string | undefined;
+
+    const cleared = await clearRateLimitCounters(rule, identifier);
+
+    res.status(200).json({
+      success: true,
+      message: `Cleared ${cleared} rate limit counter(s)`,
+      data: {
+        cleared,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
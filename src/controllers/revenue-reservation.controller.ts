@@ -3,7 +3,10 @@ import mongoose, { PipelineStage } from 'mongoose';
 import { AuthRequest } from '../types';
 import RevenueReservation from '../models/revenue-reservation.model';
 import { syncRevenueReservationData } from '../services/revenue-reservation.service';
+import { evaluateAlertRulesInBackground } from '../services/alert.service';
 import { sendErrorResponse } from '../utils/errors';
+import { applyProjectScope } from '../utils/dataScope';
+import { getReservationSummaryData } from '../services/kpi.service';
 
 /**
  * Trigger manual sync of revenue reservation data
@@ -21,6 +24,8 @@ export const syncRevenueReservation = async (
     const result = await syncRevenueReservationData(fromDate, toDate);
 
     if (result.success) {
+      evaluateAlertRulesInBackground('revenue-reservation');
+
       res.status(200).json({
         success: true,
         message: 'Revenue reservation data synced successfully',
@@ -118,6 +123,8 @@ export const getRevenueReservationData = async (
       match.dataSource = dataSource;
     }
 
+    applyProjectScope(match, 'projectId', req.dataScope);
+
     // Build aggregation pipeline
     const pipeline: any[] = [
       { $match: match },
@@ -223,24 +230,6 @@ export const getRevenueReservationSummary = async (
 
     // If no date filters provided, calculate yesterday vs previous day for card
     if (!startDate && !endDate) {
-      // Calculate yesterday and previous day dates (UTC, start of day)
-      const today = new Date();
-      const yesterday = new Date(today);
-      yesterday.setUTCDate(today.getUTCDate() - 1);
-      yesterday.setUTCHours(0, 0, 0, 0);
-
-      const previousDay = new Date(yesterday);
-      previousDay.setUTCDate(yesterday.getUTCDate() - 1);
-      previousDay.setUTCHours(0, 0, 0, 0);
-
-      const yesterdayEnd = new Date(yesterday);
-      yesterdayEnd.setUTCHours(23, 59, 59, 999);
-      yesterdayEnd.setUTCMilliseconds(999);
-
-      const previousDayEnd = new Date(previousDay);
-      previousDayEnd.setUTCHours(23, 59, 59, 999);
-      previousDayEnd.setUTCMilliseconds(999);
-
       // Build base match query (excluding date)
       const baseMatch: any = {};
 
@@ -260,185 +249,12 @@ export const getRevenueReservationSummary = async (
         baseMatch.salesDirectorName = { $regex: new RegExp(salesDirectorName, 'i') };
       }
 
-      // Query yesterday's data
-      const yesterdayMatch = {
-        ...baseMatch,
-        date: {
-          $gte: yesterday,
-          $lte: yesterdayEnd,
-        },
-      };
-
-      // Query previous day's data
-      const previousDayMatch = {
-        ...baseMatch,
-        date: {
-          $gte: previousDay,
-          $lte: previousDayEnd,
-        },
-      };
-
-      // Get data for both days in parallel
-      const [yesterdaySummary, previousDaySummary] = await Promise.all([
-        RevenueReservation.aggregate([
-          { $match: yesterdayMatch },
-          {
-            $group: {
-              _id: null,
-              reservedAmount: { $sum: '$reservedAmount' },
-              cancelledAmount: { $sum: '$cancelledAmount' },
-              reservedUnits: { $sum: '$reservedUnits' },
-              cancelledUnits: { $sum: '$cancelledUnits' },
-            },
-          },
-        ]),
-        RevenueReservation.aggregate([
-          { $match: previousDayMatch },
-          {
-            $group: {
-              _id: null,
-              reservedAmount: { $sum: '$reservedAmount' },
-              cancelledAmount: { $sum: '$cancelledAmount' },
-              reservedUnits: { $sum: '$reservedUnits' },
-              cancelledUnits: { $sum: '$cancelledUnits' },
-            },
-          },
-        ]),
-      ]);
-
-      const yesterdayData = yesterdaySummary[0] || {
-        reservedAmount: 0,
-        cancelledAmount: 0,
-        reservedUnits: 0,
-        cancelledUnits: 0,
-      };
-
-      const previousDayData = previousDaySummary[0] || {
-        reservedAmount: 0,
-        cancelledAmount: 0,
-        reservedUnits: 0,
-        cancelledUnits: 0,
-      };
-
-      const yesterdayNetAmount = yesterdayData.reservedAmount - yesterdayData.cancelledAmount;
-      const previousDayNetAmount = previousDayData.reservedAmount - previousDayData.cancelledAmount;
-
-      // Calculate percentage change
-      const changeAmount = yesterdayNetAmount - previousDayNetAmount;
-      let percentageChange = 0;
-      if (previousDayNetAmount === 0) {
-        percentageChange = yesterdayNetAmount > 0 ? 100 : 0;
-      } else {
-        percentageChange = (changeAmount / previousDayNetAmount) * 100;
-      }
-
-      const percentageFormatted = percentageChange >= 0
-        ? `+${percentageChange.toFixed(1)}%`
-        : `${percentageChange.toFixed(1)}%`;
-
-      // Calculate additional metrics for gauge
-      // Total Revenue: All-time total netReservedAmount
-      const totalRevenueResult = await RevenueReservation.aggregate([
-        {
-          $match: baseMatch,
-        },
-        {
-          $group: {
-            _id: null,
-            totalNetReservedAmount: {
-              $sum: { $subtract: ['$reservedAmount', '$cancelledAmount'] },
-            },
-          },
-        },
-      ]);
-      const totalRevenue = totalRevenueResult[0]?.totalNetReservedAmount || 0;
-
-      // Month to Date: Current month total
-      const currentMonthStart = new Date(today.getFullYear(), today.getMonth(), 1);
-      currentMonthStart.setUTCHours(0, 0, 0, 0);
-      const currentMonthEnd = new Date(today);
-      currentMonthEnd.setUTCHours(23, 59, 59, 999);
-      currentMonthEnd.setUTCMilliseconds(999);
-
-      const monthToDateResult = await RevenueReservation.aggregate([
-        {
-          $match: {
-            ...baseMatch,
-            date: {
-              $gte: currentMonthStart,
-              $lte: currentMonthEnd,
-            },
-          },
-        },
-        {
-          $group: {
-            _id: null,
-            totalNetReservedAmount: {
-              $sum: { $subtract: ['$reservedAmount', '$cancelledAmount'] },
-            },
-          },
-        },
-      ]);
-      const monthToDate = monthToDateResult[0]?.totalNetReservedAmount || 0;
-
-      // Year to Date: January 1, 2026 to today
-      const yearStart = new Date(2026, 0, 1); // January 1, 2026
-      yearStart.setUTCHours(0, 0, 0, 0);
-
-      const yearToDateResult = await RevenueReservation.aggregate([
-        {
-          $match: {
-            ...baseMatch,
-            date: {
-              $gte: yearStart,
-              $lte: currentMonthEnd,
-            },
-          },
-        },
-        {
-          $group: {
-            _id: null,
-            totalNetReservedAmount: {
-              $sum: { $subtract: ['$reservedAmount', '$cancelledAmount'] },
-            },
-          },
-        },
-      ]);
-      const yearToDate = yearToDateResult[0]?.totalNetReservedAmount || 0;
-
-      // Target amount: 1 Billion AED
-      const targetAmount = 1000000000;
+      applyProjectScope(baseMatch, 'projectId', req.dataScope);
 
       res.status(200).json({
         success: true,
         message: 'Revenue reservation summary retrieved successfully',
-        data: {
-          yesterday: {
-            date: yesterday.toISOString().split('T')[0],
-            netReservedAmount: yesterdayNetAmount,
-            reservedAmount: yesterdayData.reservedAmount,
-            cancelledAmount: yesterdayData.cancelledAmount,
-            reservedUnits: yesterdayData.reservedUnits,
-            cancelledUnits: yesterdayData.cancelledUnits,
-          },
-          previousDay: {
-            date: previousDay.toISOString().split('T')[0],
-            netReservedAmount: previousDayNetAmount,
-            reservedAmount: previousDayData.reservedAmount,
-            cancelledAmount: previousDayData.cancelledAmount,
-            reservedUnits: previousDayData.reservedUnits,
-            cancelledUnits: previousDayData.cancelledUnits,
-          },
-          change: {
-            amount: changeAmount,
-            percentage: percentageChange,
-            percentageFormatted,
-          },
-          totalRevenue,
-          monthToDate,
-          yearToDate,
-          targetAmount,
-        },
+        data: await getReservationSummaryData(baseMatch),
       });
       return;
     }
@@ -474,6 +290,8 @@ export const getRevenueReservationSummary = async (
       match.salesDirectorName = { $regex: new RegExp(salesDirectorName, 'i') };
     }
 
+    applyProjectScope(match, 'projectId', req.dataScope);
+
     const summary = await RevenueReservation.aggregate([
       { $match: match },
       {
@@ -567,6 +385,8 @@ export const getRevenueReservationByManager = async (
       }
     }
 
+    applyProjectScope(match, 'projectId', req.dataScope);
+
     const pipeline = [
       { $match: match },
       {
@@ -650,6 +470,8 @@ export const getRevenueReservationByDirector = async (
       }
     }
 
+    applyProjectScope(match, 'projectId', req.dataScope);
+
     const pipeline = [
       { $match: match },
       {
@@ -738,6 +560,8 @@ export const getRevenueReservationByProject = async (
       match.salesManagerName = { $regex: new RegExp(salesManagerName, 'i') };
     }
 
+    applyProjectScope(match, 'projectId', req.dataScope);
+
     const pipeline = [
       { $match: match },
       {
@@ -883,6 +707,8 @@ export const getRevenueReservationDetail = async (
       }
     }
 
+    applyProjectScope(match, 'projectId', req.dataScope);
+
     // Build aggregation pipeline
     const pipeline: any[] = [
       { $match: match },
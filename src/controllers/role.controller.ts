@@ -0,0 +1,237 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import Role, { IRole } from '../models/role.model';
+import User from '../models/user.model';
+import { ADMIN_ROLE, PERMISSIONS, Permission } from '../config/permissions';
+import { invalidateRoleCache, roleHasPermissions } from '../services/permission.service';
+import { sendErrorResponse } from '../utils/errors';
+
+/**
+ * Check if the caller may grant these permissions through a role
+ * Admins can grant any; everyone else only permissions their own role has
+ */
+const canGrantPermissions = async (req: AuthRequest, permissions: string[]): Promise<boolean> => {
+  return roleHasPermissions(req.user?.role as string, permissions as Permission[]);
+};
+
+/**
+ * Check if the caller may change or delete a role
+ * Only admins can change the admin role or their own role, and nobody can change a role that can do more than theirs
+ */
+const canManageRole = async (req: AuthRequest, role: IRole): Promise<boolean> => {
+  if (req.user?.role === ADMIN_ROLE) {
+    return true;
+  }
+  if (role.name === ADMIN_ROLE || role.name === req.user?.role) {
+    return false;
+  }
+  return canGrantPermissions(req, role.permissions);
+};
+
+/**
+ * Get all roles with their permissions
+ */
+export const getRoles = async (
+  _req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const roles = await Role.find().sort({ name: 1 });
+
+    res.status(200).json({
+      success: true,
+      message: 'Roles retrieved successfully',
+      data: {
+        roles,
+        count: roles.length,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Get all available permissions
+ */
+export const getPermissions = async (
+  _req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  res.status(200).json({
+    success: true,
+    message: 'Permissions retrieved successfully',
+    data: {
+      permissions: PERMISSIONS,
+    },
+  });
+};
+
+/**
+ * Create a new role
+ */
+export const createRole = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { name, description, permissions, requireTwoFactor = false, allowLoginCode = false } = req.body;
+
+    if (!(await canGrantPermissions(req, permissions))) {
+      res.status(403).json({
+        success: false,
+        message: 'You can only grant permissions your own role has',
+      });
+      return;
+    }
+
+    const existingRole = await Role.findOne({ name });
+    if (existingRole) {
+      res.status(400).json({
+        success: false,
+        message: 'Role with this name already exists',
+      });
+      return;
+    }
+
+    const role = await Role.create({
+      name,
+      description,
+      permissions: [...new Set<string>(permissions)],
+      requireTwoFactor,
+      allowLoginCode,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Role created successfully',
+      data: {
+        role,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Update a role's description, permissions and 2FA requirement
+ */
+export const updateRole = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { name } = req.params;
+    const { description, permissions, requireTwoFactor, allowLoginCode } = req.body;
+
+    // Admin permissions are fixed, but the login methods can still be configured for admins
+    if (name === ADMIN_ROLE && (description !== undefined || permissions !== undefined)) {
+      res.status(400).json({
+        success: false,
+        message: 'The admin role always has all permissions and cannot be modified',
+      });
+      return;
+    }
+
+    const role = await Role.findOne({ name });
+    if (!role) {
+      res.status(404).json({
+        success: false,
+        message: 'Role not found',
+      });
+      return;
+    }
+
+    if (!(await canManageRole(req, role))) {
+      res.status(403).json({
+        success: false,
+        message: 'You cannot change this role',
+      });
+      return;
+    }
+
+    if (permissions !== undefined && !(await canGrantPermissions(req, permissions))) {
+      res.status(403).json({
+        success: false,
+        message: 'You can only grant permissions your own role has',
+      });
+      return;
+    }
+
+    if (description !== undefined) role.description = description;
+    if (permissions !== undefined) role.permissions = [...new Set<string>(permissions)];
+    if (requireTwoFactor !== undefined) role.requireTwoFactor = requireTwoFactor;
+    if (allowLoginCode !== undefined) role.allowLoginCode = allowLoginCode;
+
+    await role.save();
+    await invalidateRoleCache(role.name);
+
+    res.status(200).json({
+      success: true,
+      message: 'Role updated successfully',
+      data: {
+        role,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Delete a custom role
+ * System roles and roles still assigned to users cannot be deleted
+ */
+export const deleteRole = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { name } = req.params;
+
+    const role = await Role.findOne({ name });
+    if (!role) {
+      res.status(404).json({
+        success: false,
+        message: 'Role not found',
+      });
+      return;
+    }
+
+    if (role.isSystem) {
+      res.status(400).json({
+        success: false,
+        message: 'System roles cannot be deleted',
+      });
+      return;
+    }
+
+    if (!(await canManageRole(req, role))) {
+      res.status(403).json({
+        success: false,
+        message: 'You cannot delete this role',
+      });
+      return;
+    }
+
+    const assignedUsers = await User.countDocuments({ role: name });
+    if (assignedUsers > 0) {
+      res.status(400).json({
+        success: false,
+        message: `Role is assigned to ${assignedUsers} user(s). Reassign them before deleting the role.`,
+      });
+      return;
+    }
+
+    await Role.deleteOne({ _id: role._id });
+    await invalidateRoleCache(name);
+
+    res.status(200).json({
+      success: true,
+      message: 'Role deleted successfully',
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
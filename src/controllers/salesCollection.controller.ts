@@ -3,7 +3,10 @@ import mongoose from 'mongoose';
 import { AuthRequest } from '../types';
 import SalesCollection from '../models/sales-collection.model';
 import { syncSalesCollectionData } from '../services/sales-collection.service';
+import { evaluateAlertRulesInBackground } from '../services/alert.service';
 import { sendErrorResponse } from '../utils/errors';
+import { applyProjectScope, assertEntityAllowed } from '../utils/dataScope';
+import { getSalesCollectionSummaryData } from '../services/kpi.service';
 
 /**
  * Trigger manual sync of sales collection data
@@ -21,6 +24,8 @@ export const syncSalesCollection = async (
     const result = await syncSalesCollectionData(fromDate, toDate);
 
     if (result.success) {
+      evaluateAlertRulesInBackground('sales-collection');
+
       res.status(200).json({
         success: true,
         message: 'Sales collection data synced successfully',
@@ -93,6 +98,12 @@ export const getSalesCollectionData = async (
       }
     }
 
+    // Restrict to projects of the user's allowed entities
+    if (match.entity) {
+      assertEntityAllowed(req.dataScope, match.entity);
+    }
+    applyProjectScope(match, 'project', req.dataScope);
+
     // Date range filter
     if (startDate || endDate) {
       match.date = {};
@@ -236,137 +247,11 @@ export const getSalesCollectionSummary = async (
 ): Promise<void> => {
   try {
     const projectId = req.query.projectId as string | undefined;
-    const today = new Date();
-    today.setUTCHours(0, 0, 0, 0);
-
-    // Yesterday
-    const yesterday = new Date(today);
-    yesterday.setUTCDate(today.getUTCDate() - 1);
-    yesterday.setUTCHours(0, 0, 0, 0);
-
-    const yesterdayEnd = new Date(yesterday);
-    yesterdayEnd.setUTCHours(23, 59, 59, 999);
-    yesterdayEnd.setUTCMilliseconds(999);
-
-    // Day before yesterday
-    const dayBeforeYesterday = new Date(yesterday);
-    dayBeforeYesterday.setUTCDate(yesterday.getUTCDate() - 1);
-    dayBeforeYesterday.setUTCHours(0, 0, 0, 0);
-
-    const dayBeforeYesterdayEnd = new Date(dayBeforeYesterday);
-    dayBeforeYesterdayEnd.setUTCHours(23, 59, 59, 999);
-    dayBeforeYesterdayEnd.setUTCMilliseconds(999);
-
-    // Helper to get collection data for a specific date
-    // First try to get Grand Summary, if not available, sum regular records
-    const getCollectionForDate = async (targetDate: Date, targetDateEnd: Date) => {
-      // Try to get Grand Summary record first
-      const grandSummaryMatch: any = {
-        specialType: 'Grand Summary',
-        date: {
-          $gte: targetDate,
-          $lte: targetDateEnd,
-        },
-      };
-
-      if (projectId && mongoose.Types.ObjectId.isValid(projectId)) {
-        // If project filter is provided, we can't use Grand Summary (it's aggregate)
-        // Fall through to regular records aggregation
-      } else {
-        const grandSummary = await SalesCollection.findOne(grandSummaryMatch);
-        if (grandSummary) {
-          return {
-            escrowCollection: grandSummary.escrowCollection || 0,
-            nonEscrowCollection: grandSummary.nonEscrowCollection || 0,
-            totalCollection: (grandSummary.escrowCollection || 0) + (grandSummary.nonEscrowCollection || 0),
-          };
-        }
-      }
-
-      // Fallback: aggregate regular records (exclude special types)
-      const regularMatch: any = {
-        $or: [
-          { specialType: { $exists: false } },
-          { specialType: null },
-          { specialType: { $nin: ['Grand Summary', 'No Value'] } },
-        ],
-        date: {
-          $gte: targetDate,
-          $lte: targetDateEnd,
-        },
-      };
-
-      if (projectId && mongoose.Types.ObjectId.isValid(projectId)) {
-        regularMatch.project = new mongoose.Types.ObjectId(projectId);
-      }
-
-      const result = await SalesCollection.aggregate([
-        {
-          $match: regularMatch,
-        },
-        {
-          $group: {
-            _id: null,
-            escrowCollection: { $sum: '$escrowCollection' },
-            nonEscrowCollection: { $sum: '$nonEscrowCollection' },
-            totalCollection: {
-              $sum: { $add: ['$escrowCollection', '$nonEscrowCollection'] },
-            },
-          },
-        },
-      ]);
-
-      return result[0] || {
-        escrowCollection: 0,
-        nonEscrowCollection: 0,
-        totalCollection: 0,
-      };
-    };
-
-    // Get data for both days in parallel
-    const [yesterdayData, previousDayData] = await Promise.all([
-      getCollectionForDate(yesterday, yesterdayEnd),
-      getCollectionForDate(dayBeforeYesterday, dayBeforeYesterdayEnd),
-    ]);
-
-    const yesterdayTotal = yesterdayData.totalCollection;
-    const previousDayTotal = previousDayData.totalCollection;
-
-    // Calculate percentage change
-    let percentageChange = 0;
-    if (previousDayTotal === 0) {
-      percentageChange = yesterdayTotal > 0 ? 100 : 0;
-    } else {
-      percentageChange = ((yesterdayTotal - previousDayTotal) / previousDayTotal) * 100;
-    }
-
-    const changeAmount = yesterdayTotal - previousDayTotal;
-    const percentageFormatted = percentageChange >= 0
-      ? `+${percentageChange.toFixed(1)}%`
-      : `${percentageChange.toFixed(1)}%`;
 
     res.status(200).json({
       success: true,
       message: 'Sales collection summary retrieved successfully',
-      data: {
-        yesterday: {
-          date: yesterday.toISOString().split('T')[0],
-          totalCollection: yesterdayTotal,
-          escrowCollection: yesterdayData.escrowCollection,
-          nonEscrowCollection: yesterdayData.nonEscrowCollection,
-        },
-        previousDay: {
-          date: dayBeforeYesterday.toISOString().split('T')[0],
-          totalCollection: previousDayTotal,
-          escrowCollection: previousDayData.escrowCollection,
-          nonEscrowCollection: previousDayData.nonEscrowCollection,
-        },
-        change: {
-          amount: changeAmount,
-          percentage: percentageChange,
-          percentageFormatted: percentageFormatted,
-        },
-      },
+      data: await getSalesCollectionSummaryData(req.dataScope, projectId),
     });
   } catch (error) {
     sendErrorResponse(res, error as Error);
@@ -420,6 +305,9 @@ export const getSalesCollectionDetail = async (
       return;
     }
 
+    // Entity-scoped users only see their projects (Grand Summary is excluded)
+    applyProjectScope(match, 'project', req.dataScope);
+
     // Date range filter
     if (startDate || endDate) {
       match.date = {};
@@ -733,16 +621,22 @@ export const getSalesCollectionChartData = async (
     const start = new Date(`${startDate}T00:00:00.000Z`);
     const end = new Date(`${endDate}T23:59:59.999Z`);
 
+    const match = applyProjectScope(
+      {
+        date: { $gte: start, $lte: end },
+        $or: [
+          { specialType: { $exists: false } },
+          { specialType: null },
+          { specialType: { $nin: ['Grand Summary', 'No Value'] } },
+        ],
+      },
+      'project',
+      req.dataScope
+    );
+
     const result = await SalesCollection.aggregate([
       {
-        $match: {
-          date: { $gte: start, $lte: end },
-          $or: [
-            { specialType: { $exists: false } },
-            { specialType: null },
-            { specialType: { $nin: ['Grand Summary', 'No Value'] } },
-          ],
-        },
+        $match: match,
       },
       {
         $group: {
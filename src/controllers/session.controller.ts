@@ -0,0 +1,176 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import User from '../models/user.model';
+import { ISession } from '../models/session.model';
+import { AppError, sendErrorResponse } from '../utils/errors';
+import { revokeAllUserTokens } from '../services/token.service';
+import {
+  getActiveSessions,
+  revokeSession,
+  revokeOtherSessions,
+} from '../services/session.service';
+
+/**
+ * Format session for API responses
+ */
+const formatSession = (session: ISession, currentFamilyId?: string) => ({
+  id: session._id,
+  ipAddress: session.ipAddress,
+  userAgent: session.userAgent,
+  createdAt: session.createdAt,
+  lastSeenAt: session.lastSeenAt,
+  expiresAt: session.expiresAt,
+  current: session.familyId === currentFamilyId,
+});
+
+/**
+ * Get the current user's active sessions
+ */
+export const getMySessions = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const sessions = await getActiveSessions(req.user?.userId as string);
+
+    res.status(200).json({
+      success: true,
+      message: 'Sessions retrieved successfully',
+      data: {
+        sessions: sessions.map((session) => formatSession(session, req.user?.familyId)),
+        count: sessions.length,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Revoke one of the current user's sessions
+ */
+export const revokeMySession = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { sessionId } = req.params;
+
+    const revoked = await revokeSession(req.user?.userId as string, sessionId);
+    if (!revoked) {
+      throw new AppError('Session not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Session revoked successfully',
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Revoke all of the current user's sessions except the one making the request
+ */
+export const revokeMyOtherSessions = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const revokedCount = await revokeOtherSessions(
+      req.user?.userId as string,
+      req.user?.familyId
+    );
+
+    res.status(200).json({
+      success: true,
+      message: `Revoked ${revokedCount} other session(s)`,
+      data: {
+        revokedCount,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Get a user's active sessions (admin)
+ */
+export const getUserSessions = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const user = await User.findById(id);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const sessions = await getActiveSessions(id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Sessions retrieved successfully',
+      data: {
+        sessions: sessions.map((session) => formatSession(session, req.user?.familyId)),
+        count: sessions.length,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Revoke one of a user's sessions (admin)
+ */
+export const revokeUserSession = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, sessionId } = req.params;
+
+    const revoked = await revokeSession(id, sessionId);
+    if (!revoked) {
+      throw new AppError('Session not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Session revoked successfully',
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Revoke all of a user's sessions (admin)
+ */
+export const revokeAllUserSessions = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const user = await User.findById(id);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    await revokeAllUserTokens(id);
+
+    res.status(200).json({
+      success: true,
+      message: 'All sessions revoked successfully',
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
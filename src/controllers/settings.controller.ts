@@ -0,0 +1,137 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import { sendErrorResponse } from '../utils/errors';
+import {
+  PasswordPolicy,
+  getPasswordPolicy,
+  updatePasswordPolicy,
+  resetPasswordPolicy,
+} from '../services/passwordPolicy.service';
+import { getAuditRetentionDays, updateAuditRetention } from '../services/audit.service';
+
+/**
+ * Password policy fields admins may override
+ */
+const PASSWORD_POLICY_FIELDS: (keyof PasswordPolicy)[] = [
+  'minLength',
+  'requireUppercase',
+  'requireLowercase',
+  'requireNumber',
+  'requireSymbol',
+  'maxAgeDays',
+  'historyCount',
+  'blockCommonPasswords',
+];
+
+/**
+ * Get the effective password policy
+ */
+export const getPasswordPolicySettings = async (
+  _req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    res.status(200).json({
+      success: true,
+      message: 'Password policy retrieved successfully',
+      data: {
+        policy: await getPasswordPolicy(),
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Override password policy fields (omitted fields keep their current value)
+ * Applies to passwords set from now on; existing passwords are only affected through maxAgeDays
+ */
+export const updatePasswordPolicySettings = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const overrides: Partial<PasswordPolicy> = {};
+    for (const field of PASSWORD_POLICY_FIELDS) {
+      if (req.body[field] !== undefined) {
+        (overrides as Record<string, unknown>)[field] = req.body[field];
+      }
+    }
+
+    const policy = await updatePasswordPolicy(overrides, req.user?.userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Password policy updated successfully',
+      data: {
+        policy,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Remove admin overrides and fall back to the environment defaults
+ */
+export const resetPasswordPolicySettings = async (
+  _req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    res.status(200).json({
+      success: true,
+      message: 'Password policy reset to defaults',
+      data: {
+        policy: await resetPasswordPolicy(),
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Get how many days audit events are kept
+ */
+export const getAuditRetentionSettings = async (
+  _req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    res.status(200).json({
+      success: true,
+      message: 'Audit log retention retrieved successfully',
+      data: {
+        days: await getAuditRetentionDays(),
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Change how many days audit events are kept
+ * Shortening the retention removes older events at MongoDB's next TTL pass
+ */
+export const updateAuditRetentionSettings = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const days = await updateAuditRetention(req.body.days, req.user?.userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Audit log retention updated successfully',
+      data: {
+        days,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
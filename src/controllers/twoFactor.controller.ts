@@ -0,0 +1,438 @@
+import { Response } from 'express';
+import { AuthRequest, PurposeTokenPayload, TokenPurpose } from '../types';
+import User from '../models/user.model';
+import { comparePassword } from '../utils/password';
+import { AppError, sendErrorResponse } from '../utils/errors';
+import { verifyPurposeToken, getTokenTtlSeconds } from '../config/jwt';
+import {
+  isPurposeTokenActive,
+  markPurposeTokenUsed,
+  revokeAllUserTokens,
+} from '../services/token.service';
+import {
+  buildLoginResponse,
+  assertPasswordNotExpired,
+  issuePasswordResetToken,
+  createLoginLockoutError,
+  recordLoginLockout,
+} from '../services/auth.service';
+import {
+  checkLoginLockout,
+  incrementFailedAttempt,
+  resetLoginAttempts,
+} from '../services/rateLimit.service';
+import { isPasswordExpired } from '../services/passwordPolicy.service';
+import { getClientInfo } from '../utils/request';
+import { recordAuditEvent, auditUser } from '../services/audit.service';
+import { assertCanLogin } from '../services/accountStatus.service';
+import { recordLoginAttemptFailure } from '../services/loginActivity.service';
+import {
+  isTwoFactorRequiredForRole,
+  startTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  verifySecondFactor,
+  regenerateRecoveryCodes,
+  getRemainingRecoveryCodes,
+  disableTwoFactor,
+  recordChallengeFailure,
+} from '../services/twoFactor.service';
+
+/**
+ * Verify a login-step token (2FA challenge or setup) that has not been used yet
+ */
+const verifyLoginStepToken = async (
+  token: string,
+  purpose: TokenPurpose
+): Promise<PurposeTokenPayload> => {
+  let payload: PurposeTokenPayload;
+  try {
+    payload = verifyPurposeToken(token, purpose);
+  } catch (error) {
+    throw new AppError('Invalid or expired token. Please log in again.', 401);
+  }
+
+  if (!(await isPurposeTokenActive(payload))) {
+    throw new AppError('Token has already been used or expired. Please log in again.', 401);
+  }
+
+  return payload;
+};
+
+/**
+ * Count a failed code against a login-step token
+ * The token is invalidated once the attempts are used up
+ */
+const recordFailedCode = async (
+  payload: PurposeTokenPayload,
+  token: string
+): Promise<number> => {
+  const remainingAttempts = await recordChallengeFailure(payload.jti, getTokenTtlSeconds(token));
+  if (remainingAttempts === 0) {
+    await markPurposeTokenUsed(payload);
+  }
+  return remainingAttempts;
+};
+
+/**
+ * Complete a two-step login with a TOTP code or a recovery code
+ * Wrong codes count towards the same lockout as wrong passwords, as well as the challenge's own attempts
+ */
+export const verifyTwoFactorLogin = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    const payload = await verifyLoginStepToken(challengeToken, '2fa-challenge');
+    const clientIp = getClientInfo(req).ipAddress;
+
+    const lockoutCheck = await checkLoginLockout(payload.email, clientIp);
+    if (lockoutCheck?.locked) {
+      await markPurposeTokenUsed(payload);
+      throw createLoginLockoutError(lockoutCheck.retryAfter);
+    }
+
+    const isValid = await verifySecondFactor(payload.userId, { code, recoveryCode });
+    if (!isValid) {
+      await recordAuditEvent(req, {
+        action: 'auth.login',
+        outcome: 'failure',
+        target: { type: 'user', id: payload.userId, label: payload.email },
+        reason: 'invalid-2fa-code',
+      });
+      await recordLoginAttemptFailure(
+        payload.userId,
+        getClientInfo(req),
+        'invalid-2fa-code',
+        recoveryCode ? 'recovery-code' : '2fa'
+      );
+
+      const attemptInfo = await incrementFailedAttempt(payload.email, clientIp);
+      if (attemptInfo.locked) {
+        await markPurposeTokenUsed(payload);
+        if (attemptInfo.lockout) {
+          await recordLoginLockout(req, payload.email, attemptInfo.lockout);
+        }
+        throw createLoginLockoutError(attemptInfo.lockout?.retryAfter);
+      }
+
+      const remainingAttempts = await recordFailedCode(payload, challengeToken);
+      res.status(401).json({
+        success: false,
+        message: remainingAttempts > 0
+          ? 'Invalid two-factor code'
+          : 'Too many invalid codes. Please log in again.',
+        remainingAttempts,
+      });
+      return;
+    }
+
+    // Guard against the same challenge being completed twice concurrently
+    if (!(await markPurposeTokenUsed(payload))) {
+      throw new AppError('Token has already been used or expired. Please log in again.', 401);
+    }
+
+    const user = await User.findById(payload.userId);
+    if (!user) {
+      throw new AppError('User no longer exists', 401);
+    }
+    assertCanLogin(user);
+    await assertPasswordNotExpired(user);
+    await resetLoginAttempts(payload.email, clientIp);
+
+    await recordAuditEvent(req, {
+      action: 'auth.login',
+      actor: auditUser(user),
+      target: auditUser(user),
+      metadata: { method: recoveryCode ? 'recovery-code' : '2fa' },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Login successful',
+      data: await buildLoginResponse(user, getClientInfo(req), recoveryCode ? 'recovery-code' : '2fa'),
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Start mandatory 2FA enrollment during login (with the setup token from login)
+ */
+export const startTwoFactorSetup = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { setupToken } = req.body;
+
+    const payload = await verifyLoginStepToken(setupToken, '2fa-setup');
+    const enrollment = await startTwoFactorEnrollment(payload.userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Scan the QR code with your authenticator app, then confirm with a code',
+      data: enrollment,
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Confirm mandatory 2FA enrollment during login and finish logging in
+ */
+export const confirmTwoFactorSetup = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { setupToken, code } = req.body;
+
+    const payload = await verifyLoginStepToken(setupToken, '2fa-setup');
+
+    let recoveryCodes: string[];
+    try {
+      recoveryCodes = await confirmTwoFactorEnrollment(payload.userId, code);
+    } catch (error) {
+      if (error instanceof AppError && error.message === 'Invalid verification code') {
+        const remainingAttempts = await recordFailedCode(payload, setupToken);
+        res.status(400).json({
+          success: false,
+          message: remainingAttempts > 0
+            ? 'Invalid verification code'
+            : 'Too many invalid codes. Please log in again.',
+          remainingAttempts,
+        });
+        return;
+      }
+      throw error;
+    }
+
+    // Guard against the same setup token being completed twice concurrently
+    if (!(await markPurposeTokenUsed(payload))) {
+      throw new AppError('Token has already been used or expired. Please log in again.', 401);
+    }
+
+    const user = await User.findById(payload.userId);
+    if (!user) {
+      throw new AppError('User no longer exists', 401);
+    }
+    assertCanLogin(user);
+
+    // 2FA is already enabled at this point, so the recovery codes must not be lost with the error
+    if (await isPasswordExpired(user)) {
+      const { resetToken, expiresIn } = await issuePasswordResetToken(user);
+      res.status(403).json({
+        success: false,
+        message: 'Two-factor authentication enabled, but your password has expired. Please choose a new password.',
+        data: {
+          passwordExpired: true,
+          resetToken,
+          expiresIn,
+          recoveryCodes,
+        },
+      });
+      return;
+    }
+
+    await recordAuditEvent(req, {
+      action: 'auth.login',
+      actor: auditUser(user),
+      target: auditUser(user),
+      metadata: { method: '2fa-setup' },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe.',
+      data: {
+        ...(await buildLoginResponse(user, getClientInfo(req), '2fa')),
+        recoveryCodes,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Get the current user's 2FA status
+ */
+export const getTwoFactorStatus = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = await User.findById(req.user?.userId);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const [required, remainingRecoveryCodes] = await Promise.all([
+      isTwoFactorRequiredForRole(user.role),
+      getRemainingRecoveryCodes(user._id.toString()),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor status retrieved successfully',
+      data: {
+        enabled: user.twoFactor?.enabled || false,
+        enabledAt: user.twoFactor?.enabledAt,
+        required,
+        remainingRecoveryCodes,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Start 2FA enrollment for the current user
+ */
+export const enrollTwoFactor = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const enrollment = await startTwoFactorEnrollment(req.user?.userId as string);
+
+    res.status(200).json({
+      success: true,
+      message: 'Scan the QR code with your authenticator app, then confirm with a code',
+      data: enrollment,
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Confirm 2FA enrollment for the current user
+ */
+export const confirmTwoFactor = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { code } = req.body;
+
+    const recoveryCodes = await confirmTwoFactorEnrollment(req.user?.userId as string, code);
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe.',
+      data: {
+        recoveryCodes,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Disable 2FA for the current user (requires password and a second factor)
+ */
+export const disableOwnTwoFactor = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { password, code, recoveryCode } = req.body;
+
+    const user = await User.findById(req.user?.userId).select('+password');
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    if (!user.twoFactor?.enabled) {
+      throw new AppError('Two-factor authentication is not enabled', 400);
+    }
+
+    if (await isTwoFactorRequiredForRole(user.role)) {
+      throw new AppError('Two-factor authentication is mandatory for your role', 403);
+    }
+
+    const isPasswordValid = await comparePassword(password, user.password);
+    if (!isPasswordValid) {
+      throw new AppError('Current password is incorrect', 401);
+    }
+
+    const isValid = await verifySecondFactor(user._id.toString(), { code, recoveryCode });
+    if (!isValid) {
+      throw new AppError('Invalid two-factor code', 401);
+    }
+
+    await disableTwoFactor(user._id.toString());
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication disabled',
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Replace the current user's recovery codes (requires a TOTP code)
+ */
+export const regenerateOwnRecoveryCodes = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { code } = req.body;
+    const userId = req.user?.userId as string;
+
+    const isValid = await verifySecondFactor(userId, { code });
+    if (!isValid) {
+      throw new AppError('Invalid two-factor code', 401);
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Recovery codes regenerated. Previous codes no longer work.',
+      data: {
+        recoveryCodes,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Reset a user's 2FA (admin) - e.g. after a lost device
+ * The user's sessions are revoked; they enroll again on next login if their role requires it
+ */
+export const resetUserTwoFactor = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const user = await User.findById(id);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    await disableTwoFactor(user._id.toString());
+    await revokeAllUserTokens(user._id.toString());
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication reset successfully',
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
@@ -1,8 +1,231 @@
 import { Response } from 'express';
-import { AuthRequest } from '../types';
+import mongoose from 'mongoose';
+import { AuthRequest, IUser, AccountStatus, AuditAction } from '../types';
 import User from '../models/user.model';
-import { hashPassword } from '../utils/password';
+import Entity from '../models/entities.model';
 import { sendErrorResponse } from '../utils/errors';
+import { toCsvRow } from '../utils/csv';
+import { isEntityAllowed } from '../utils/dataScope';
+import { revokeAllUserTokens } from '../services/token.service';
+import {
+  changeAccountStatus,
+  purgeUser,
+  getRestoreWindowDays,
+} from '../services/accountStatus.service';
+import { ADMIN_ROLE } from '../config/permissions';
+import {
+  parseUserImport,
+  validateUserImportRows,
+  commitUserImport,
+  UserImportRow,
+} from '../services/userImport.service';
+import { assertPasswordAllowed, applyNewPassword } from '../services/passwordPolicy.service';
+import {
+  recordAuditEvent,
+  auditUser,
+  snapshotFields,
+  diffSnapshots,
+} from '../services/audit.service';
+import { notifyExportFinished } from '../services/notification.service';
+import { getUserDataScope } from '../services/dataScope.service';
+
+/**
+ * User fields compared for the audit log when a user is updated
+ */
+const AUDITED_USER_FIELDS = [
+  'username',
+  'email',
+  'firstName',
+  'lastName',
+  'age',
+  'phoneNumber',
+  'address',
+  'city',
+  'state',
+  'zip',
+  'country',
+  'gender',
+  'locale',
+  'password',
+] as const;
+
+/**
+ * Columns of the user CSV export, in order
+ */
+const USER_EXPORT_COLUMNS = [
+  '_id',
+  'username',
+  'email',
+  'firstName',
+  'lastName',
+  'role',
+  'entityCodes',
+  'status',
+  'emailVerified',
+  'twoFactorEnabled',
+  'lastLoginAt',
+  'lastSeenAt',
+  'createdAt',
+];
+
+/**
+ * Check if the current user may change another account's status or entity access
+ * Nobody can change their own, and only admins can change an admin's
+ */
+const canManageAccount = (req: AuthRequest, user: IUser): boolean => {
+  if (user._id.toString() === req.user?.userId) {
+    return false;
+  }
+  return user.role !== ADMIN_ROLE || req.user?.role === ADMIN_ROLE;
+};
+
+/**
+ * Format account status fields for API responses
+ */
+const formatAccountStatus = (user: IUser) => ({
+  id: user._id,
+  username: user.username,
+  email: user.email,
+  status: user.status,
+  statusReason: user.statusReason,
+  statusChangedAt: user.statusChangedAt,
+  statusChangedBy: user.statusChangedBy,
+  deletedAt: user.deletedAt,
+  purgeAfter: user.purgeAfter,
+});
+
+/**
+ * Build the MongoDB query for the user list filters, along with the normalized filters
+ * Shared by the user list and the CSV export
+ */
+const buildUserListQuery = (
+  req: AuthRequest
+): { query: Record<string, any>; filters: Record<string, unknown> } => {
+  // Search parameter
+  const search = req.query.search as string;
+
+  // Filter parameters
+  const role = req.query.role as string;
+  const emailVerified = req.query.emailVerified as string;
+  const gender = req.query.gender as string;
+  const city = req.query.city as string;
+  const state = req.query.state as string;
+  const country = req.query.country as string;
+  const status = req.query.status as string;
+
+  // Activity filters
+  const lastLoginFrom = req.query.lastLoginFrom as string;
+  const lastLoginTo = req.query.lastLoginTo as string;
+  const lastSeenFrom = req.query.lastSeenFrom as string;
+  const lastSeenTo = req.query.lastSeenTo as string;
+  const neverLoggedIn = req.query.neverLoggedIn as string;
+  const inactiveDays = parseInt(req.query.inactiveDays as string) || undefined;
+
+  // Build query
+  const query: Record<string, any> = {};
+  const conditions: Record<string, any>[] = [];
+
+  // Search filter (searches in username, email, firstName, lastName)
+  if (search) {
+    query.$or = [
+      { username: { $regex: search, $options: 'i' } },
+      { email: { $regex: search, $options: 'i' } },
+      { firstName: { $regex: search, $options: 'i' } },
+      { lastName: { $regex: search, $options: 'i' } },
+    ];
+  }
+
+  // Role filter
+  if (role) {
+    query.role = role.toLowerCase();
+  }
+
+  // Email verified filter
+  if (emailVerified !== undefined) {
+    query.emailVerified = emailVerified === 'true';
+  }
+
+  // Gender filter
+  if (gender && ['male', 'female', 'other'].includes(gender)) {
+    query.gender = gender;
+  }
+
+  // City filter
+  if (city) {
+    query.city = { $regex: city, $options: 'i' };
+  }
+
+  // State filter
+  if (state) {
+    query.state = { $regex: state, $options: 'i' };
+  }
+
+  // Country filter
+  if (country) {
+    query.country = { $regex: country, $options: 'i' };
+  }
+
+  // Last login range
+  if (lastLoginFrom || lastLoginTo) {
+    query.lastLoginAt = {
+      ...(lastLoginFrom && { $gte: new Date(lastLoginFrom) }),
+      ...(lastLoginTo && { $lte: new Date(lastLoginTo) }),
+    };
+  }
+
+  // Last seen range
+  if (lastSeenFrom || lastSeenTo) {
+    query.lastSeenAt = {
+      ...(lastSeenFrom && { $gte: new Date(lastSeenFrom) }),
+      ...(lastSeenTo && { $lte: new Date(lastSeenTo) }),
+    };
+  }
+
+  // Never logged in filter (overrides the last login range)
+  if (neverLoggedIn !== undefined) {
+    query.lastLoginAt = { $exists: neverLoggedIn !== 'true' };
+  }
+
+  // Inactive filter - not seen in the last N days, including users never seen
+  if (inactiveDays) {
+    const cutoff = new Date(Date.now() - inactiveDays * 24 * 60 * 60 * 1000);
+    conditions.push({
+      $or: [{ lastSeenAt: { $lt: cutoff } }, { lastSeenAt: { $exists: false } }],
+    });
+  }
+
+  // The search and inactive filters both use $or
+  if (conditions.length > 0) {
+    query.$and = conditions;
+  }
+
+  // Status filter (soft-deleted users are hidden unless asked for)
+  if (status && ['active', 'suspended', 'deactivated', 'deleted'].includes(status)) {
+    query.status = status === 'active' ? { $in: ['active', null] } : status;
+  } else {
+    query.status = { $ne: 'deleted' };
+  }
+
+  // Echoed back by the user list
+  const filters = {
+    search: search || null,
+    role: role || null,
+    emailVerified: emailVerified !== undefined ? emailVerified === 'true' : null,
+    gender: gender || null,
+    city: city || null,
+    state: state || null,
+    country: country || null,
+    status: status || null,
+    lastLoginFrom: lastLoginFrom || null,
+    lastLoginTo: lastLoginTo || null,
+    lastSeenFrom: lastSeenFrom || null,
+    lastSeenTo: lastSeenTo || null,
+    neverLoggedIn: neverLoggedIn !== undefined ? neverLoggedIn === 'true' : null,
+    inactiveDays: inactiveDays || null,
+  };
+
+  return { query, filters };
+};
 
 export const getAllUsers = async (
   req: AuthRequest,
@@ -19,59 +242,7 @@ export const getAllUsers = async (
     const sortOrder = (req.query.sortOrder as string) === 'asc' ? 1 : -1;
     const sort: Record<string, 1 | -1> = { [sortBy]: sortOrder };
 
-    // Search parameter
-    const search = req.query.search as string;
-
-    // Filter parameters
-    const role = req.query.role as string;
-    const emailVerified = req.query.emailVerified as string;
-    const gender = req.query.gender as string;
-    const city = req.query.city as string;
-    const state = req.query.state as string;
-    const country = req.query.country as string;
-
-    // Build query
-    const query: Record<string, any> = {};
-
-    // Search filter (searches in username, email, firstName, lastName)
-    if (search) {
-      query.$or = [
-        { username: { $regex: search, $options: 'i' } },
-        { email: { $regex: search, $options: 'i' } },
-        { firstName: { $regex: search, $options: 'i' } },
-        { lastName: { $regex: search, $options: 'i' } },
-      ];
-    }
-
-    // Role filter
-    if (role && (role === 'admin' || role === 'user')) {
-      query.role = role;
-    }
-
-    // Email verified filter
-    if (emailVerified !== undefined) {
-      query.emailVerified = emailVerified === 'true';
-    }
-
-    // Gender filter
-    if (gender && ['male', 'female', 'other'].includes(gender)) {
-      query.gender = gender;
-    }
-
-    // City filter
-    if (city) {
-      query.city = { $regex: city, $options: 'i' };
-    }
-
-    // State filter
-    if (state) {
-      query.state = { $regex: state, $options: 'i' };
-    }
-
-    // Country filter
-    if (country) {
-      query.country = { $regex: country, $options: 'i' };
-    }
+    const { query, filters } = buildUserListQuery(req);
 
     // Execute query with pagination and sorting
     const [users, total] = await Promise.all([
@@ -98,15 +269,7 @@ export const getAllUsers = async (
           hasNextPage: page < totalPages,
           hasPrevPage: page > 1,
         },
-        filters: {
-          search: search || null,
-          role: role || null,
-          emailVerified: emailVerified !== undefined ? emailVerified === 'true' : null,
-          gender: gender || null,
-          city: city || null,
-          state: state || null,
-          country: country || null,
-        },
+        filters,
         sort: {
           sortBy,
           sortOrder: sortOrder === 1 ? 'asc' : 'desc',
@@ -118,6 +281,114 @@ export const getAllUsers = async (
   }
 };
 
+/**
+ * Export users matching the user list filters as CSV (never includes passwords or secrets)
+ * Rows are streamed from a cursor; entity scopes are written as entity codes, the same as the import accepts
+ */
+export const exportUsers = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  const filename = `users-${new Date().toISOString().slice(0, 10)}.csv`;
+  let rows = 0;
+
+  try {
+    const entities = await Entity.find().select('entityCode').lean();
+    const entityCodes = new Map(entities.map((entity) => [entity._id.toString(), entity.entityCode]));
+
+    const cursor = User.find(buildUserListQuery(req).query)
+      .select('username email firstName lastName role allowedEntities status emailVerified twoFactor.enabled lastLoginAt lastSeenAt createdAt')
+      .sort({ createdAt: 1 })
+      .lean()
+      .cursor();
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.write(toCsvRow(USER_EXPORT_COLUMNS));
+
+    for await (const user of cursor) {
+      const row: Record<string, unknown> = {
+        ...user,
+        status: user.status || 'active',
+        twoFactorEnabled: user.twoFactor?.enabled === true,
+        entityCodes: (user.allowedEntities || [])
+          .map((id) => entityCodes.get(id.toString()))
+          .filter(Boolean)
+          .join(';'),
+      };
+      res.write(toCsvRow(USER_EXPORT_COLUMNS.map((column) => row[column])));
+      rows++;
+    }
+
+    res.end();
+    await notifyExportFinished(req, 'User', { filename, rows });
+  } catch (error) {
+    // Once streaming has started the status can't change - just cut the response short
+    if (res.headersSent) {
+      console.error('❌ Error exporting users:', error);
+      res.end();
+      await notifyExportFinished(req, 'User', { filename, rows, error: error as Error });
+      return;
+    }
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Import users from CSV or JSON
+ * Dry runs (the default) only validate; pass ?dryRun=false to create the users once every row is valid,
+ * and ?sendInvitations=true to email each new user a link to set their password
+ */
+export const importUsers = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const dryRun = req.query.dryRun !== 'false';
+    const sendInvitations = req.query.sendInvitations === 'true';
+
+    const rows = await validateUserImportRows(parseUserImport(req.body));
+    const invalid = rows.filter((row) => row.status === 'invalid').length;
+    const formatRows = (results: UserImportRow[]) =>
+      results.map(({ errors, ...row }) => ({ ...row, ...(errors.length > 0 && { errors }) }));
+
+    if (dryRun || invalid > 0) {
+      res.status(dryRun ? 200 : 400).json({
+        success: dryRun,
+        message: invalid > 0
+          ? `${invalid} of ${rows.length} row(s) are invalid${dryRun ? '' : '; no users were created'}`
+          : `All ${rows.length} row(s) are valid. Import again with dryRun=false to create the users.`,
+        data: {
+          dryRun,
+          total: rows.length,
+          valid: rows.length - invalid,
+          invalid,
+          rows: formatRows(rows),
+        },
+      });
+      return;
+    }
+
+    const results = await commitUserImport(req, rows, sendInvitations);
+    const created = results.filter((row) => row.status === 'created').length;
+
+    res.status(201).json({
+      success: true,
+      message: `Created ${created} of ${results.length} user(s)`,
+      data: {
+        dryRun,
+        total: results.length,
+        created,
+        failed: results.length - created,
+        invitationsSent: results.filter((row) => row.invitationSent).length,
+        rows: formatRows(results),
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
 export const getUserById = async (
   req: AuthRequest,
   res: Response
@@ -164,7 +435,7 @@ export const updateUser = async (
   try {
     const { id } = req.params;
     const userId = req.user?.userId;
-    const { username, firstName, lastName, age, phoneNumber, address, city, state, zip, country, gender, email, password, role } = req.body;
+    const { username, firstName, lastName, age, phoneNumber, address, city, state, zip, country, gender, locale, email, password } = req.body;
 
     // If user is not admin, they can only update their own data
     if (req.user?.role !== 'admin' && id !== userId) {
@@ -175,16 +446,16 @@ export const updateUser = async (
       return;
     }
 
-    // Regular users cannot change their role
-    if (req.user?.role !== 'admin' && role && role !== req.user?.role) {
+    // Regular users change their password and email through /api/users/me
+    if (req.user?.role !== 'admin' && (password || email)) {
       res.status(403).json({
         success: false,
-        message: 'You cannot change your role',
+        message: 'Use /api/users/me/password or /api/users/me/email to change your password or email',
       });
       return;
     }
 
-    const user = await User.findById(id);
+    const user = await User.findById(id).select('+password +passwordHistory');
 
     if (!user) {
       res.status(404).json({
@@ -194,6 +465,8 @@ export const updateUser = async (
       return;
     }
 
+    const before = snapshotFields(user, AUDITED_USER_FIELDS);
+
     // Check if username is being changed and already exists
     if (username && username !== user.username) {
       const existingUser = await User.findOne({ username });
@@ -231,15 +504,25 @@ export const updateUser = async (
     if (zip !== undefined) user.zip = zip;
     if (country !== undefined) user.country = country;
     if (gender !== undefined) user.gender = gender;
+    if (locale !== undefined) user.locale = locale;
+    // An admin-set password ends all of the user's sessions
     if (password) {
-      user.password = await hashPassword(password);
-    }
-    if (role && req.user?.role === 'admin') {
-      user.role = role;
+      await assertPasswordAllowed(password, user);
+      await applyNewPassword(user, password);
     }
 
     await user.save();
 
+    if (password) {
+      await revokeAllUserTokens(user._id.toString());
+    }
+
+    await recordAuditEvent(req, {
+      action: 'user.update',
+      target: auditUser(user),
+      changes: diffSnapshots(before, snapshotFields(user, AUDITED_USER_FIELDS)),
+    });
+
     res.status(200).json({
       success: true,
       message: 'User updated successfully',
@@ -258,6 +541,7 @@ export const updateUser = async (
           zip: user.zip,
           country: user.country,
           gender: user.gender,
+          locale: user.locale,
           role: user.role,
         },
       },
@@ -284,14 +568,349 @@ export const deleteUser = async (
       return;
     }
 
-    await User.findByIdAndDelete(id);
+    if (user.status === 'deleted') {
+      res.status(400).json({
+        success: false,
+        message: 'User is already deleted',
+      });
+      return;
+    }
+
+    if (!canManageAccount(req, user)) {
+      res.status(403).json({
+        success: false,
+        message: 'You cannot change the status of this account',
+      });
+      return;
+    }
+
+    const previousStatus = user.status || 'active';
+
+    // Soft delete - the account can be restored until purgeAfter
+    await changeAccountStatus(user, 'deleted', req.user?.userId, req.body?.reason);
+
+    await recordAuditEvent(req, {
+      action: 'user.delete',
+      target: auditUser(user),
+      changes: [{ field: 'status', from: previousStatus, to: 'deleted' }],
+      reason: req.body?.reason,
+    });
 
     res.status(200).json({
       success: true,
-      message: 'User deleted successfully',
+      message: `User deleted successfully. The account can be restored within ${getRestoreWindowDays()} days.`,
+      data: {
+        user: formatAccountStatus(user),
+      },
     });
   } catch (error) {
     sendErrorResponse(res, error as Error);
   }
 };
 
+/**
+ * Set the entities a user is allowed to see
+ * An empty list gives access to all entities
+ */
+export const updateUserEntities = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { entityIds } = req.body as { entityIds: string[] };
+
+    const user = await User.findById(id);
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
+    }
+
+    if (!canManageAccount(req, user)) {
+      res.status(403).json({
+        success: false,
+        message: 'You cannot change the entity access of this account',
+      });
+      return;
+    }
+
+    const uniqueIds = [...new Set(entityIds)];
+
+    // Restricted callers can only grant entities they can access themselves, and never all entities
+    const callerScope = await getUserDataScope(req.user?.userId as string);
+    if (
+      callerScope.restricted &&
+      (uniqueIds.length === 0 || !uniqueIds.every((entityId) => isEntityAllowed(callerScope, entityId)))
+    ) {
+      res.status(403).json({
+        success: false,
+        message: 'You can only grant access to entities you can access',
+      });
+      return;
+    }
+
+    const entities = await Entity.find({ _id: { $in: uniqueIds } }).select('entityCode entityName');
+
+    if (entities.length !== uniqueIds.length) {
+      res.status(400).json({
+        success: false,
+        message: 'One or more entities do not exist',
+      });
+      return;
+    }
+
+    const before = snapshotFields(user, ['allowedEntities']);
+
+    user.allowedEntities = entities.map((entity) => entity._id as mongoose.Types.ObjectId);
+    await user.save();
+
+    await recordAuditEvent(req, {
+      action: 'user.entities-change',
+      target: auditUser(user),
+      changes: diffSnapshots(before, snapshotFields(user, ['allowedEntities'])),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'User entity access updated successfully',
+      data: {
+        userId: user._id,
+        allowedEntities: entities,
+        restricted: entities.length > 0,
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Change an account's status from one of the allowed states
+ * Shared by the suspend, deactivate, reactivate and restore endpoints
+ */
+const transitionAccountStatus = async (
+  req: AuthRequest,
+  res: Response,
+  from: AccountStatus[],
+  to: AccountStatus,
+  action: AuditAction,
+  successMessage: string
+): Promise<void> => {
+  const { id } = req.params;
+  const { reason } = req.body;
+
+  const user = await User.findById(id);
+  if (!user) {
+    res.status(404).json({
+      success: false,
+      message: 'User not found',
+    });
+    return;
+  }
+
+  if (!canManageAccount(req, user)) {
+    res.status(403).json({
+      success: false,
+      message: 'You cannot change the status of this account',
+    });
+    return;
+  }
+
+  const currentStatus = user.status || 'active';
+  if (!from.includes(currentStatus)) {
+    res.status(400).json({
+      success: false,
+      message: `Cannot change account status from ${currentStatus} to ${to}`,
+    });
+    return;
+  }
+
+  if (currentStatus === 'deleted' && user.purgeAfter && user.purgeAfter.getTime() <= Date.now()) {
+    res.status(400).json({
+      success: false,
+      message: 'The restore window for this account has passed',
+    });
+    return;
+  }
+
+  await changeAccountStatus(user, to, req.user?.userId, reason);
+
+  await recordAuditEvent(req, {
+    action,
+    target: auditUser(user),
+    changes: [{ field: 'status', from: currentStatus, to }],
+    reason,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: successMessage,
+    data: {
+      user: formatAccountStatus(user),
+    },
+  });
+};
+
+/**
+ * Suspend a user - temporarily blocks login and revokes all sessions
+ */
+export const suspendUser = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    await transitionAccountStatus(req, res, ['active', 'deactivated'], 'suspended', 'user.suspend', 'User suspended successfully');
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Deactivate a user - e.g. when they leave the company
+ */
+export const deactivateUser = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    await transitionAccountStatus(req, res, ['active', 'suspended'], 'deactivated', 'user.deactivate', 'User deactivated successfully');
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Reactivate a suspended or deactivated user
+ */
+export const reactivateUser = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    await transitionAccountStatus(req, res, ['suspended', 'deactivated'], 'active', 'user.reactivate', 'User reactivated successfully');
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Restore a soft-deleted user within the restore window
+ */
+export const restoreUser = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    await transitionAccountStatus(req, res, ['deleted'], 'active', 'user.restore', 'User restored successfully');
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Permanently delete a soft-deleted user without waiting for the restore window
+ */
+export const purgeDeletedUser = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const user = await User.findById(id);
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
+    }
+
+    if (user.status !== 'deleted') {
+      res.status(400).json({
+        success: false,
+        message: 'Only deleted users can be permanently purged',
+      });
+      return;
+    }
+
+    await purgeUser(id);
+
+    await recordAuditEvent(req, {
+      action: 'user.purge',
+      target: auditUser(user),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'User permanently deleted',
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
+
+/**
+ * Change a user's role - Admin only
+ * Existing tokens carry the old role, so all of the user's sessions are ended
+ */
+export const updateUserRole = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { role } = req.body;
+
+    // Prevents admins from locking themselves out
+    if (id === req.user?.userId) {
+      res.status(400).json({
+        success: false,
+        message: 'You cannot change your own role',
+      });
+      return;
+    }
+
+    const user = await User.findById(id);
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
+    }
+
+    if (user.role !== role) {
+      const previousRole = user.role;
+
+      user.role = role;
+      await user.save();
+      await revokeAllUserTokens(user._id.toString());
+
+      await recordAuditEvent(req, {
+        action: 'user.role-change',
+        target: auditUser(user),
+        changes: [{ field: 'role', from: previousRole, to: role }],
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'User role updated successfully',
+      data: {
+        user: {
+          id: user._id,
+          username: user.username,
+          email: user.email,
+          role: user.role,
+        },
+      },
+    });
+  } catch (error) {
+    sendErrorResponse(res, error as Error);
+  }
+};
@@ -1,5 +1,11 @@
 import app, { initializeConnections } from './app';
-import { startSyncScheduler, stopSyncScheduler } from './services/scheduler.service';
+import {
+  startSyncScheduler,
+  stopSyncScheduler,
+  startMaintenanceScheduler,
+  stopMaintenanceScheduler,
+} from './services/scheduler.service';
+import { closeNotificationStreams } from './services/notification.service';
 
 const PORT = process.env.PORT || 3000;
 
@@ -12,6 +18,9 @@ const startServer = async (): Promise<void> => {
     // Start sync scheduler (runs daily at 07:15 AM Dubai time)
     startSyncScheduler();
 
+    // Start maintenance scheduler (purges soft-deleted users daily at 03:00 AM Dubai time)
+    startMaintenanceScheduler();
+
     // Start Express server
     const server = app.listen(PORT, () => {
       console.log(`🚀 Server is running on port ${PORT}`);
@@ -25,6 +34,10 @@ const startServer = async (): Promise<void> => {
       
       // Stop scheduler first
       stopSyncScheduler();
+      stopMaintenanceScheduler();
+
+      // Open notification streams would keep the server from closing
+      closeNotificationStreams();
       
       server.close(() => {
         console.log('✅ HTTP server closed');
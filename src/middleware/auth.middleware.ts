@@ -1,14 +1,96 @@
 import { Response, NextFunction } from 'express';
 import { verifyToken } from '../config/jwt';
-import { AuthRequest } from '../types';
+import { AuthRequest, JwtPayload } from '../types';
 import { AppError } from '../utils/errors';
+import { isTokenFamilyActive } from '../services/token.service';
+import { touchSession } from '../services/session.service';
+import { touchUserActivity } from '../services/loginActivity.service';
+import { isAccountBlocked } from '../services/accountStatus.service';
+import { findActiveApiKey, recordApiKeyUsage } from '../services/apiKey.service';
+import { SERVICE_ACCOUNT_ROLE } from '../config/permissions';
+import { getActiveImpersonation } from '../services/impersonation.service';
 
-export const authenticate = (
+// Impersonation sessions are read-only unless the admin allowed changes when starting them
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+// Read-only impersonation sessions can still end themselves
+const IMPERSONATION_LOGOUT_PATH = '/api/auth/logout';
+
+/**
+ * Authenticate a service account by its API key
+ * The key's own permissions and entity scope apply instead of a user's role
+ */
+const authenticateApiKey = async (req: AuthRequest, rawKey: string): Promise<void> => {
+  const apiKey = await findActiveApiKey(rawKey);
+  if (!apiKey) {
+    throw new Error('Invalid API key');
+  }
+
+  req.user = {
+    userId: apiKey._id.toString(),
+    email: '',
+    role: SERVICE_ACCOUNT_ROLE,
+  };
+  req.apiKey = {
+    id: apiKey._id.toString(),
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    permissions: apiKey.permissions,
+    allowedEntities: apiKey.allowedEntities,
+  };
+
+  await recordApiKeyUsage(apiKey, req.ip || req.socket.remoteAddress || 'unknown');
+};
+
+/**
+ * Authenticate an impersonation token
+ * req.user is the impersonated user; the admin is kept in req.user.impersonation for logging
+ */
+const authenticateImpersonation = async (req: AuthRequest, decoded: JwtPayload): Promise<void> => {
+  const session = await getActiveImpersonation(decoded.impersonationId as string);
+  if (!session || session.subjectId !== decoded.userId || session.actorId !== decoded.actorId) {
+    throw new AppError('This impersonation session has ended', 401);
+  }
+
+  // Either account being blocked ends access
+  if ((await isAccountBlocked(session.subjectId)) || (await isAccountBlocked(session.actorId))) {
+    throw new Error('Account blocked');
+  }
+
+  if (
+    !session.allowMutations &&
+    !READ_ONLY_METHODS.includes(req.method) &&
+    `${req.baseUrl}${req.path}` !== IMPERSONATION_LOGOUT_PATH
+  ) {
+    throw new AppError('This impersonation session is read-only', 403);
+  }
+
+  req.user = {
+    userId: decoded.userId,
+    email: decoded.email,
+    role: decoded.role,
+    impersonation: {
+      sessionId: decoded.impersonationId as string,
+      actorId: session.actorId,
+      actorEmail: session.actorEmail,
+      allowMutations: session.allowMutations,
+    },
+  };
+};
+
+export const authenticate = async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
   try {
+    // Service accounts authenticate with an API key instead of a Bearer JWT
+    const apiKeyHeader = req.headers['x-api-key'];
+    if (typeof apiKeyHeader === 'string' && apiKeyHeader) {
+      await authenticateApiKey(req, apiKeyHeader);
+      next();
+      return;
+    }
+
     const authHeader = req.headers.authorization;
 
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -22,13 +104,38 @@ export const authenticate = (
     }
 
     const decoded = verifyToken(token);
+
+    // Purpose-scoped tokens (e.g. password reset) cannot be used for API access
+    if (decoded.purpose) {
+      throw new Error('Invalid token');
+    }
+
+    if (decoded.impersonationId) {
+      await authenticateImpersonation(req, decoded);
+      next();
+      return;
+    }
+
+    // Reject tokens whose session was logged out or revoked
+    if (!decoded.familyId || !(await isTokenFamilyActive(decoded.familyId))) {
+      throw new AppError('Token revoked', 401);
+    }
     
+    // Suspended, deactivated and deleted accounts lose access immediately
+    if (await isAccountBlocked(decoded.userId)) {
+      throw new Error('Account blocked');
+    }
+
     req.user = {
       userId: decoded.userId,
       email: decoded.email,
       role: decoded.role,
+      familyId: decoded.familyId,
     };
 
+    await touchSession(decoded.familyId);
+    await touchUserActivity(decoded.userId);
+
     next();
   } catch (error) {
     if (error instanceof Error) {
@@ -46,6 +153,35 @@ export const authenticate = (
         });
         return;
       }
+      if (error.message === 'Invalid API key') {
+        res.status(401).json({
+          success: false,
+          message: 'Invalid, expired or revoked API key',
+        });
+        return;
+      }
+      if (error.message === 'Account blocked') {
+        res.status(403).json({
+          success: false,
+          message: 'Account is not active',
+        });
+        return;
+      }
+      if (error.message === 'Token revoked') {
+        res.status(401).json({
+          success: false,
+          message: 'Token has been revoked',
+        });
+        return;
+      }
+      if (error instanceof AppError && error.message.includes('impersonation session')) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message,
+          impersonation: true,
+        });
+        return;
+      }
     }
     
     res.status(401).json({
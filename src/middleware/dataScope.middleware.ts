@@ -0,0 +1,30 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../types';
+import { buildDataScope, getUserDataScope } from '../services/dataScope.service';
+
+/**
+ * Attach the authenticated user's (or API key's) entity/project scope to the request
+ * Must run after authenticate
+ */
+export const attachDataScope = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      message: 'Authentication required',
+    });
+    return;
+  }
+
+  try {
+    req.dataScope = req.apiKey
+      ? await buildDataScope(req.apiKey.allowedEntities)
+      : await getUserDataScope(req.user.userId);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,6 +1,13 @@
 import { Response, NextFunction } from 'express';
 import { AuthRequest } from '../types';
-import { checkLoginLockout } from '../services/rateLimit.service';
+import {
+  checkLoginLockout,
+  consumeRateLimit,
+  getRateLimitKey,
+  RateLimitResult,
+} from '../services/rateLimit.service';
+import { RATE_LIMIT_ENABLED, RateLimitKey, RateLimitRule } from '../config/rateLimits';
+import { getClientInfo } from '../utils/request';
 
 const LOGIN_LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '10', 10);
 
@@ -47,3 +54,76 @@ export const checkLoginRateLimit = async (
   }
 };
 
+/**
+ * Get the identifier a counter is keyed by, or null if the request has none
+ */
+const getRateLimitIdentifier = (req: AuthRequest, keyType: RateLimitKey): string | null => {
+  switch (keyType) {
+    case 'ip':
+      return getClientInfo(req).ipAddress;
+    case 'user':
+      return req.user?.userId || null;
+    case 'api-key':
+      return req.apiKey?.id || null;
+    case 'email': {
+      const email = req.body?.email;
+      return typeof email === 'string' && email.trim() ? email.trim().toLowerCase() : null;
+    }
+  }
+};
+
+/**
+ * Set the RateLimit-* headers, keeping the most restrictive values when several limiters apply
+ */
+const setRateLimitHeaders = (res: Response, rule: RateLimitRule, result: RateLimitResult): void => {
+  const current = res.getHeader('RateLimit-Remaining');
+  if (current !== undefined && Number(current) <= result.remaining) {
+    return;
+  }
+
+  res.setHeader('RateLimit-Limit', result.limit);
+  res.setHeader('RateLimit-Remaining', result.remaining);
+  res.setHeader('RateLimit-Reset', result.resetAfter);
+  res.setHeader('RateLimit-Policy', `${rule.limit};w=${rule.windowSeconds}`);
+};
+
+/**
+ * Middleware factory for a sliding-window rate limit
+ * Counts the request once per key type in the rule; place after authenticate for user and API key limits
+ */
+export const rateLimit = (rule: RateLimitRule) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    if (!RATE_LIMIT_ENABLED) {
+      next();
+      return;
+    }
+
+    try {
+      for (const keyType of rule.keyBy) {
+        const identifier = getRateLimitIdentifier(req, keyType);
+        if (!identifier) {
+          continue;
+        }
+
+        const result = await consumeRateLimit(getRateLimitKey(rule.name, keyType, identifier), rule);
+        setRateLimitHeaders(res, rule, result);
+
+        if (!result.allowed) {
+          res.setHeader('Retry-After', result.resetAfter);
+          res.status(429).json({
+            success: false,
+            message: `Too many requests. Please try again in ${result.resetAfter} second(s).`,
+            retryAfter: result.resetAfter,
+          });
+          return;
+        }
+      }
+
+      next();
+    } catch (error) {
+      // On error, allow request (fail open)
+      console.error('❌ Rate limit middleware error:', error);
+      next();
+    }
+  };
+};
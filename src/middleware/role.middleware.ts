@@ -1,6 +1,8 @@
 import { Response, NextFunction } from 'express';
 import { AuthRequest } from '../types';
 import { AppError } from '../utils/errors';
+import { Permission } from '../config/permissions';
+import { roleHasPermissions } from '../services/permission.service';
 
 export const requireAdmin = (
   req: AuthRequest,
@@ -59,3 +61,68 @@ export const requireUser = (
   next();
 };
 
+/**
+ * Require the user's own session rather than an API key or an impersonation token,
+ * for routes that act on the caller's own account
+ */
+export const requireUserSession = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      message: 'Authentication required',
+    });
+    return;
+  }
+
+  if (req.apiKey || req.user.impersonation) {
+    res.status(403).json({
+      success: false,
+      message: 'Access denied. Sign in as yourself to use this endpoint.',
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Require the authenticated user's role (or API key) to grant all of the given permissions
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+  return async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    try {
+      // API keys carry their own permission set
+      const allowed = req.apiKey
+        ? permissions.every((permission) => req.apiKey?.permissions.includes(permission))
+        : await roleHasPermissions(req.user.role, permissions);
+
+      if (!allowed) {
+        res.status(403).json({
+          success: false,
+          message: `Access denied. Required permission: ${permissions.join(', ')}`,
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
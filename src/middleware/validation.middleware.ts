@@ -1,34 +1,108 @@
 import { Request, Response, NextFunction } from 'express';
-import { body, validationResult } from 'express-validator';
+import { body, param, query, validationResult } from 'express-validator';
+import { PERMISSIONS, SERVICE_ACCOUNT_ROLE } from '../config/permissions';
+import { RATE_LIMITS } from '../config/rateLimits';
+import { LOCALES } from '../config/locales';
+import { DIGEST_SECTIONS } from '../models/digestSubscription.model';
+import {
+  ALERT_RULE_TYPES,
+  ALERT_KPI_METRICS,
+  ALERT_COLLECTION_TYPES,
+  ALERT_CHANNELS,
+} from '../models/alertRule.model';
+import { NOTIFICATION_CATEGORIES } from '../models/notification.model';
+import { roleExists } from '../services/permission.service';
+import { getMaxImpersonationMinutes } from '../services/impersonation.service';
+import { getFailedLoginHotspotRetentionHours } from '../services/rateLimit.service';
+
+/**
+ * Custom validator: role must exist in the Role collection
+ */
+const validateRoleExists = async (value: string): Promise<boolean> => {
+  if (!(await roleExists(value))) {
+    throw new Error('Role does not exist');
+  }
+  return true;
+};
+
+/**
+ * Username and email rules shared by registration and bulk user import
+ */
+const registerUsernameValidator = body('username')
+  .trim()
+  .notEmpty()
+  .withMessage('Username is required')
+  .isLength({ min: 3, max: 30 })
+  .withMessage('Username must be between 3 and 30 characters')
+  .matches(/^[a-zA-Z0-9_]+$/)
+  .withMessage('Username can only contain letters, numbers, and underscores');
+
+const registerEmailValidator = body('email')
+  .trim()
+  .notEmpty()
+  .withMessage('Email is required')
+  .isEmail()
+  .withMessage('Please provide a valid email')
+  .normalizeEmail();
 
 export const validateRegister = [
-  body('username')
-    .trim()
-    .notEmpty()
-    .withMessage('Username is required')
-    .isLength({ min: 3, max: 30 })
-    .withMessage('Username must be between 3 and 30 characters')
-    .matches(/^[a-zA-Z0-9_]+$/)
-    .withMessage('Username can only contain letters, numbers, and underscores'),
+  registerUsernameValidator,
   
-  body('email')
-    .trim()
-    .notEmpty()
-    .withMessage('Email is required')
-    .isEmail()
-    .withMessage('Please provide a valid email')
-    .normalizeEmail(),
+  registerEmailValidator,
   
   body('password')
     .notEmpty()
-    .withMessage('Password is required')
-    .isLength({ min: 6 })
-    .withMessage('Password must be at least 6 characters'),
-  
+    .withMessage('Password is required'),
+];
+
+/**
+ * Rules for one row of a bulk user import
+ * Registration's username and email rules, plus names, role and entity codes; imported users have no password yet
+ */
+const importUserRowValidators = [
+  registerUsernameValidator,
+
+  registerEmailValidator,
+
+  body(['firstName', 'lastName'])
+    .optional({ values: 'falsy' })
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('First and last name cannot exceed 50 characters'),
+
   body('role')
+    .optional({ values: 'falsy' })
+    .trim()
+    .toLowerCase()
+    .custom(validateRoleExists),
+
+  body('entityCodes')
+    .optional()
+    .isArray()
+    .withMessage('entityCodes must be a list of entity codes'),
+];
+
+/**
+ * Check one bulk import row against the import rules
+ * Returns the sanitized row and the error messages, if any
+ */
+export const checkUserImportRow = async (
+  row: Record<string, unknown>
+): Promise<{ values: Record<string, unknown>; errors: string[] }> => {
+  const req = { body: { ...row } };
+  for (const validator of importUserRowValidators) {
+    await validator.run(req);
+  }
+
+  const errors = validationResult(req).array().map((error) => String(error.msg));
+  return { values: req.body, errors: [...new Set(errors)] };
+};
+
+export const validateUserImport = [
+  query(['dryRun', 'sendInvitations'])
     .optional()
-    .isIn(['admin', 'user'])
-    .withMessage('Role must be either admin or user'),
+    .isIn(['true', 'false'])
+    .withMessage('dryRun and sendInvitations must be true or false'),
 ];
 
 export const validateLogin = [
@@ -45,7 +119,26 @@ export const validateLogin = [
     .withMessage('Password is required'),
 ];
 
-export const validateUpdateUser = [
+export const validateRefreshToken = [
+  body('refreshToken')
+    .notEmpty()
+    .withMessage('Refresh token is required')
+    .isString()
+    .withMessage('Refresh token must be a string'),
+];
+
+export const validateLogout = [
+  body('allSessions')
+    .optional()
+    .isBoolean()
+    .withMessage('allSessions must be a boolean')
+    .toBoolean(),
+];
+
+/**
+ * Profile fields users can change themselves
+ */
+const profileFieldValidators = [
   body('username')
     .optional()
     .trim()
@@ -111,7 +204,96 @@ export const validateUpdateUser = [
     .trim()
     .isLength({ min: 1, max: 50 })
     .withMessage('Country must be between 1 and 50 characters'),
-  
+
+  body('locale')
+    .optional()
+    .isIn(LOCALES)
+    .withMessage(`Locale must be one of: ${LOCALES.join(', ')}`),
+];
+
+/**
+ * Fields the user list can be sorted by
+ */
+const USER_SORT_FIELDS = [
+  'createdAt',
+  'updatedAt',
+  'username',
+  'email',
+  'firstName',
+  'lastName',
+  'age',
+  'city',
+  'state',
+  'country',
+  'role',
+  'status',
+  'emailVerified',
+  'lastLoginAt',
+  'lastSeenAt',
+];
+
+export const validateUserListQuery = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 200 })
+    .withMessage('Limit must be between 1 and 200'),
+
+  query('sortBy')
+    .optional()
+    .isIn(USER_SORT_FIELDS)
+    .withMessage(`sortBy must be one of: ${USER_SORT_FIELDS.join(', ')}`),
+
+  query('sortOrder')
+    .optional()
+    .isIn(['asc', 'desc'])
+    .withMessage('sortOrder must be asc or desc'),
+
+  query(['lastLoginFrom', 'lastLoginTo', 'lastSeenFrom', 'lastSeenTo'])
+    .optional()
+    .isISO8601()
+    .withMessage('Activity date filters must be ISO 8601 dates'),
+
+  query('neverLoggedIn')
+    .optional()
+    .isIn(['true', 'false'])
+    .withMessage('neverLoggedIn must be true or false'),
+
+  query('inactiveDays')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('inactiveDays must be a positive integer'),
+];
+
+export const validateActivityQuery = [
+  query('days')
+    .optional()
+    .isInt({ min: 1, max: 365 })
+    .withMessage('days must be between 1 and 365'),
+
+  query('hours')
+    .optional()
+    .isInt({ min: 1, max: getFailedLoginHotspotRetentionHours() })
+    .withMessage(`hours must be between 1 and ${getFailedLoginHotspotRetentionHours()}`),
+
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 200 })
+    .withMessage('Limit must be between 1 and 200'),
+];
+
+export const validateUpdateUser = [
+  ...profileFieldValidators,
+
   body('email')
     .optional()
     .trim()
@@ -121,13 +303,72 @@ export const validateUpdateUser = [
   
   body('password')
     .optional()
-    .isLength({ min: 6 })
-    .withMessage('Password must be at least 6 characters'),
-  
+    .isString()
+    .withMessage('Password must be a string'),
+];
+
+export const validateUpdateProfile = [
+  ...profileFieldValidators,
+];
+
+export const validateChangePassword = [
+  body('currentPassword')
+    .notEmpty()
+    .withMessage('Current password is required'),
+
+  body('newPassword')
+    .notEmpty()
+    .withMessage('New password is required'),
+];
+
+export const validateEmailChangeRequest = [
+  body('newEmail')
+    .trim()
+    .notEmpty()
+    .withMessage('New email is required')
+    .isEmail()
+    .withMessage('Please provide a valid email')
+    .normalizeEmail(),
+
+  body('password')
+    .notEmpty()
+    .withMessage('Current password is required'),
+];
+
+export const validateEmailChangeConfirm = [
+  body('newEmail')
+    .trim()
+    .notEmpty()
+    .withMessage('New email is required')
+    .isEmail()
+    .withMessage('Please provide a valid email')
+    .normalizeEmail(),
+
+  body('otp')
+    .trim()
+    .notEmpty()
+    .withMessage('OTP is required')
+    .isNumeric()
+    .withMessage('OTP must be numeric'),
+];
+
+export const validateUpdateUserRole = [
   body('role')
-    .optional()
-    .isIn(['admin', 'user'])
-    .withMessage('Role must be either admin or user'),
+    .trim()
+    .notEmpty()
+    .withMessage('Role is required')
+    .toLowerCase()
+    .custom(validateRoleExists),
+];
+
+export const validateUpdateUserEntities = [
+  body('entityIds')
+    .isArray()
+    .withMessage('entityIds must be an array'),
+
+  body('entityIds.*')
+    .isMongoId()
+    .withMessage('Each entity ID must be a valid ID'),
 ];
 
 export const validateForgotPassword = [
@@ -170,9 +411,7 @@ export const validateResetPassword = [
   
   body('newPassword')
     .notEmpty()
-    .withMessage('New password is required')
-    .isLength({ min: 6 })
-    .withMessage('Password must be at least 6 characters'),
+    .withMessage('New password is required'),
   
   body('resetToken')
     .notEmpty()
@@ -208,6 +447,54 @@ export const validateResendVerification = [
     .normalizeEmail(),
 ];
 
+export const validateLoginCodeRequest = [
+  body('email')
+    .trim()
+    .notEmpty()
+    .withMessage('Email is required')
+    .isEmail()
+    .withMessage('Please provide a valid email')
+    .normalizeEmail(),
+];
+
+export const validateLoginCodeVerify = [
+  body('email')
+    .trim()
+    .notEmpty()
+    .withMessage('Email is required')
+    .isEmail()
+    .withMessage('Please provide a valid email')
+    .normalizeEmail(),
+
+  body('code')
+    .trim()
+    .notEmpty()
+    .withMessage('Code is required')
+    .isNumeric()
+    .withMessage('Code must contain only numbers'),
+];
+
+export const validateSsoLogin = [
+  query('returnTo')
+    .optional()
+    .isString()
+    .matches(/^\/(?![/\\])/)
+    .withMessage('returnTo must be a path on this site'),
+
+  query('loginHint')
+    .optional()
+    .trim()
+    .isEmail()
+    .withMessage('loginHint must be an email address'),
+];
+
+export const validateSsoExchange = [
+  body('code')
+    .trim()
+    .notEmpty()
+    .withMessage('Code is required'),
+];
+
 export const validateGenerateOTP = [
   body('email')
     .trim()
@@ -219,8 +506,8 @@ export const validateGenerateOTP = [
   
   body('type')
     .optional()
-    .isIn(['password-reset', 'email-verification', 'generic'])
-    .withMessage('Type must be password-reset, email-verification, or generic'),
+    .isIn(['generic'])
+    .withMessage('Type must be generic; password reset and email verification have their own endpoints'),
   
   body('purpose')
     .optional()
@@ -249,8 +536,8 @@ export const validateVerifyOTP = [
   
   body('type')
     .optional()
-    .isIn(['password-reset', 'email-verification', 'generic'])
-    .withMessage('Type must be password-reset, email-verification, or generic'),
+    .isIn(['generic'])
+    .withMessage('Type must be generic; password reset and email verification have their own endpoints'),
 ];
 
 export const validateSyncFinanceReserve = [
@@ -310,6 +597,706 @@ export const validateSyncRevenueReservation = [
     }),
 ];
 
+export const validateCreateRole = [
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Role name is required')
+    .toLowerCase()
+    .matches(/^[a-z0-9-]+$/)
+    .withMessage('Role name can only contain lowercase letters, numbers, and hyphens')
+    .isLength({ min: 2, max: 30 })
+    .withMessage('Role name must be between 2 and 30 characters')
+    .not()
+    .equals(SERVICE_ACCOUNT_ROLE)
+    .withMessage(`Role name "${SERVICE_ACCOUNT_ROLE}" is reserved for API keys`),
+
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Description cannot exceed 200 characters'),
+
+  body('permissions')
+    .isArray()
+    .withMessage('Permissions must be an array'),
+
+  body('permissions.*')
+    .isIn([...PERMISSIONS])
+    .withMessage(`Permission must be one of: ${PERMISSIONS.join(', ')}`),
+
+  body('requireTwoFactor')
+    .optional()
+    .isBoolean()
+    .withMessage('requireTwoFactor must be a boolean'),
+
+  body('allowLoginCode')
+    .optional()
+    .isBoolean()
+    .withMessage('allowLoginCode must be a boolean'),
+];
+
+export const validateUpdateRole = [
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Description cannot exceed 200 characters'),
+
+  body('permissions')
+    .optional()
+    .isArray()
+    .withMessage('Permissions must be an array'),
+
+  body('permissions.*')
+    .isIn([...PERMISSIONS])
+    .withMessage(`Permission must be one of: ${PERMISSIONS.join(', ')}`),
+
+  body('requireTwoFactor')
+    .optional()
+    .isBoolean()
+    .withMessage('requireTwoFactor must be a boolean'),
+
+  body('allowLoginCode')
+    .optional()
+    .isBoolean()
+    .withMessage('allowLoginCode must be a boolean'),
+];
+
+export const validateCreateInvitation = [
+  body('email')
+    .trim()
+    .notEmpty()
+    .withMessage('Email is required')
+    .isEmail()
+    .withMessage('Please provide a valid email')
+    .normalizeEmail(),
+
+  body('role')
+    .trim()
+    .notEmpty()
+    .withMessage('Role is required')
+    .toLowerCase()
+    .custom(validateRoleExists),
+
+  body('entityIds')
+    .optional()
+    .isArray()
+    .withMessage('entityIds must be an array'),
+
+  body('entityIds.*')
+    .isMongoId()
+    .withMessage('Each entity ID must be a valid ID'),
+];
+
+export const validateAcceptInvitation = [
+  body('token')
+    .notEmpty()
+    .withMessage('Invitation token is required')
+    .isString()
+    .withMessage('Invitation token must be a string'),
+
+  body('username')
+    .trim()
+    .notEmpty()
+    .withMessage('Username is required')
+    .isLength({ min: 3, max: 30 })
+    .withMessage('Username must be between 3 and 30 characters')
+    .matches(/^[a-zA-Z0-9_]+$/)
+    .withMessage('Username can only contain letters, numbers, and underscores'),
+
+  body('password')
+    .notEmpty()
+    .withMessage('Password is required'),
+
+  body('firstName')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('First name must be between 1 and 50 characters'),
+
+  body('lastName')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Last name must be between 1 and 50 characters'),
+];
+
+/**
+ * Custom validator: date must be in the future
+ */
+const validateFutureDate = (value: string): boolean => {
+  if (new Date(value).getTime() <= Date.now()) {
+    throw new Error('expiresAt must be in the future');
+  }
+  return true;
+};
+
+export const validateCreateApiKey = [
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Name is required')
+    .isLength({ max: 100 })
+    .withMessage('Name cannot exceed 100 characters'),
+
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Description cannot exceed 200 characters'),
+
+  body('permissions')
+    .isArray({ min: 1 })
+    .withMessage('Permissions must be a non-empty array'),
+
+  body('permissions.*')
+    .isIn([...PERMISSIONS])
+    .withMessage(`Permission must be one of: ${PERMISSIONS.join(', ')}`),
+
+  body('entityIds')
+    .optional()
+    .isArray()
+    .withMessage('entityIds must be an array'),
+
+  body('entityIds.*')
+    .isMongoId()
+    .withMessage('Each entity ID must be a valid ID'),
+
+  body('expiresAt')
+    .optional()
+    .isISO8601()
+    .withMessage('expiresAt must be a valid ISO 8601 date')
+    .custom(validateFutureDate),
+];
+
+export const validateRotateApiKey = [
+  body('expiresAt')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('expiresAt must be a valid ISO 8601 date')
+    .custom(validateFutureDate),
+];
+
+/**
+ * Custom validator: exactly one of a TOTP code or a recovery code must be given
+ */
+const validateSecondFactorProvided = (_value: unknown, { req }: { req: any }): boolean => {
+  if (!req.body.code && !req.body.recoveryCode) {
+    throw new Error('A two-factor code or recovery code is required');
+  }
+  if (req.body.code && req.body.recoveryCode) {
+    throw new Error('Provide either a two-factor code or a recovery code, not both');
+  }
+  return true;
+};
+
+const totpCode = (field: string = 'code') =>
+  body(field)
+    .trim()
+    .matches(/^\d{6}$/)
+    .withMessage('Two-factor code must be 6 digits');
+
+export const validateTwoFactorCode = [
+  totpCode(),
+];
+
+export const validateTwoFactorLogin = [
+  body('challengeToken')
+    .notEmpty()
+    .withMessage('Challenge token is required')
+    .isString()
+    .withMessage('Challenge token must be a string'),
+
+  body('code')
+    .custom(validateSecondFactorProvided),
+
+  totpCode()
+    .optional(),
+
+  body('recoveryCode')
+    .optional()
+    .isString()
+    .withMessage('Recovery code must be a string'),
+];
+
+export const validateTwoFactorSetup = [
+  body('setupToken')
+    .notEmpty()
+    .withMessage('Setup token is required')
+    .isString()
+    .withMessage('Setup token must be a string'),
+];
+
+export const validateTwoFactorSetupConfirm = [
+  ...validateTwoFactorSetup,
+  totpCode(),
+];
+
+export const validateDisableTwoFactor = [
+  body('password')
+    .notEmpty()
+    .withMessage('Password is required'),
+
+  body('code')
+    .custom(validateSecondFactorProvided),
+
+  totpCode()
+    .optional(),
+
+  body('recoveryCode')
+    .optional()
+    .isString()
+    .withMessage('Recovery code must be a string'),
+];
+
+export const validateAccountStatusChange = [
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
+];
+
+export const validateSessionId = [
+  param('sessionId')
+    .isMongoId()
+    .withMessage('Session ID must be a valid ID'),
+];
+
+export const validateUpdatePasswordPolicy = [
+  body('minLength')
+    .optional()
+    .isInt({ min: 6, max: 128 })
+    .withMessage('minLength must be between 6 and 128'),
+
+  body('maxAgeDays')
+    .optional()
+    .isInt({ min: 0, max: 3650 })
+    .withMessage('maxAgeDays must be between 0 (never expires) and 3650'),
+
+  body('historyCount')
+    .optional()
+    .isInt({ min: 0, max: 24 })
+    .withMessage('historyCount must be between 0 and 24'),
+
+  body(['requireUppercase', 'requireLowercase', 'requireNumber', 'requireSymbol', 'blockCommonPasswords'])
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('Password policy flags must be booleans'),
+
+  body(['minLength', 'maxAgeDays', 'historyCount'])
+    .optional()
+    .toInt(),
+];
+
+export const validateStartImpersonation = [
+  body('userId')
+    .isMongoId()
+    .withMessage('User ID must be a valid ID'),
+
+  body('reason')
+    .trim()
+    .notEmpty()
+    .withMessage('Reason is required')
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
+
+  body('durationMinutes')
+    .optional()
+    .isInt({ min: 1, max: getMaxImpersonationMinutes() })
+    .withMessage(`Duration must be between 1 and ${getMaxImpersonationMinutes()} minutes`)
+    .toInt(),
+
+  body('allowMutations')
+    .optional()
+    .isBoolean()
+    .withMessage('allowMutations must be a boolean')
+    .toBoolean(),
+];
+
+export const validateImpersonationQuery = [
+  query('active')
+    .optional()
+    .isIn(['true', 'false'])
+    .withMessage('active must be true or false'),
+
+  query(['userId', 'actorId'])
+    .optional()
+    .isMongoId()
+    .withMessage('userId and actorId must be valid IDs'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 200 })
+    .withMessage('Limit must be between 1 and 200'),
+];
+
+export const validateImpersonationId = [
+  param('id')
+    .isMongoId()
+    .withMessage('Impersonation session ID must be a valid ID'),
+];
+
+export const validateEmailOutboxQuery = [
+  query('status')
+    .optional()
+    .isIn(['queued', 'sent', 'failed', 'bounced'])
+    .withMessage('Status must be one of: queued, sent, failed, bounced'),
+
+  query('to')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Recipient cannot be empty'),
+
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 200 })
+    .withMessage('Limit must be between 1 and 200'),
+];
+
+export const validateEmailOutboxId = [
+  param('id')
+    .isMongoId()
+    .withMessage('Email ID must be a valid ID'),
+];
+
+export const validateEmailTemplatePreview = [
+  param('name')
+    .matches(/^[a-z0-9]+(-[a-z0-9]+)*$/)
+    .withMessage('Template name must be lowercase letters, numbers and dashes'),
+
+  query('locale')
+    .optional()
+    .isIn(LOCALES)
+    .withMessage(`Locale must be one of: ${LOCALES.join(', ')}`),
+
+  body('locale')
+    .optional()
+    .isIn(LOCALES)
+    .withMessage(`Locale must be one of: ${LOCALES.join(', ')}`),
+
+  query('format')
+    .optional()
+    .isIn(['json', 'html', 'text'])
+    .withMessage('Format must be json, html or text'),
+
+  body('data')
+    .optional()
+    .isObject()
+    .withMessage('data must be an object'),
+];
+
+export const validateAuditQuery = [
+  query('outcome')
+    .optional()
+    .isIn(['success', 'failure'])
+    .withMessage('Outcome must be success or failure'),
+
+  query('actorType')
+    .optional()
+    .isIn(['user', 'api-key', 'anonymous', 'system'])
+    .withMessage('Actor type must be user, api-key, anonymous or system'),
+
+  query('actorId')
+    .optional()
+    .isMongoId()
+    .withMessage('Actor ID must be a valid ID'),
+
+  query(['from', 'to'])
+    .optional()
+    .isISO8601()
+    .withMessage('from and to must be ISO 8601 dates'),
+
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 200 })
+    .withMessage('Limit must be between 1 and 200'),
+];
+
+export const validateUpdateAuditRetention = [
+  body('days')
+    .isInt({ min: 1, max: 3650 })
+    .withMessage('days must be between 1 and 3650')
+    .toInt(),
+];
+
+const RATE_LIMIT_RULE_NAMES = Object.values(RATE_LIMITS).map((rule) => rule.name);
+
+export const validateRateLimitQuery = [
+  query('rule')
+    .optional()
+    .isIn(RATE_LIMIT_RULE_NAMES)
+    .withMessage(`Rule must be one of: ${RATE_LIMIT_RULE_NAMES.join(', ')}`),
+
+  query('identifier')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Identifier cannot be empty')
+    .customSanitizer((value: string) => value.toLowerCase()),
+];
+
+export const validateLockoutQuery = [
+  query('email')
+    .optional()
+    .trim()
+    .isEmail()
+    .withMessage('Please provide a valid email')
+    .normalizeEmail(),
+
+  query('scope')
+    .optional()
+    .isIn(['ip', 'account'])
+    .withMessage('Scope must be one of: ip, account'),
+];
+
+export const validateUnlockAccount = [
+  body('email')
+    .trim()
+    .notEmpty()
+    .withMessage('Email is required')
+    .isEmail()
+    .withMessage('Please provide a valid email')
+    .normalizeEmail(),
+
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
+];
+
+export const validateUpdateDigestSettings = [
+  body('enabled')
+    .optional()
+    .isBoolean()
+    .withMessage('enabled must be a boolean'),
+
+  body('sections')
+    .optional()
+    .isArray()
+    .withMessage('Sections must be an array'),
+
+  body('sections.*')
+    .isIn([...DIGEST_SECTIONS])
+    .withMessage(`Section must be one of: ${DIGEST_SECTIONS.join(', ')}`),
+
+  body('sendTime')
+    .optional()
+    .custom((value) => value === null || /^([01]\d|2[0-3]):[0-5]\d$/.test(value))
+    .withMessage('Send time must be HH:mm (Dubai time), or null to send right after the sync'),
+];
+
+export const validateDigestUserId = [
+  param('userId')
+    .isMongoId()
+    .withMessage('User ID must be a valid ID'),
+];
+
+export const validateDigestUnsubscribe = [
+  body('token')
+    .trim()
+    .notEmpty()
+    .withMessage('Unsubscribe token is required'),
+];
+
+/**
+ * Alert rule condition fields, checked for the rule type in the body
+ */
+const alertRuleConditionValidators = [
+  body('condition')
+    .if(body('type').exists())
+    .isObject()
+    .withMessage('Condition must be an object'),
+
+  body('condition.metric')
+    .if(body('type').equals('kpi-change'))
+    .isIn([...ALERT_KPI_METRICS])
+    .withMessage(`Metric must be one of: ${ALERT_KPI_METRICS.join(', ')}`),
+
+  body('condition.direction')
+    .if(body('type').equals('kpi-change'))
+    .isIn(['drop', 'rise'])
+    .withMessage('Direction must be drop or rise'),
+
+  body('condition.percent')
+    .if(body('type').equals('kpi-change'))
+    .isFloat({ gt: 0, max: 1000 })
+    .withMessage('Percent must be a number greater than 0'),
+
+  body('condition.businessDays')
+    .if(body('type').equals('zero-collection'))
+    .isInt({ min: 1, max: 30 })
+    .withMessage('Business days must be between 1 and 30'),
+
+  body('condition.collectionType')
+    .if(body('type').equals('zero-collection'))
+    .optional()
+    .isIn([...ALERT_COLLECTION_TYPES])
+    .withMessage(`Collection type must be one of: ${ALERT_COLLECTION_TYPES.join(', ')}`),
+
+  body('condition.project')
+    .if(body('type').equals('zero-collection'))
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Project must be a valid ID'),
+
+  body('condition.minAmount')
+    .if(body('type').equals('purchase-order-approved'))
+    .isFloat({ min: 0 })
+    .withMessage('Minimum amount must be a non-negative number'),
+
+  body('condition.maxRating')
+    .if(body('type').equals('google-review'))
+    .isInt({ min: 1, max: 5 })
+    .withMessage('Maximum rating must be between 1 and 5'),
+];
+
+/**
+ * Alert rule settings shared by create and update
+ */
+const alertRuleSettingValidators = [
+  body('channels')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('Channels must be a non-empty array'),
+
+  body('channels.*')
+    .isIn([...ALERT_CHANNELS])
+    .withMessage(`Channel must be one of: ${ALERT_CHANNELS.join(', ')}`),
+
+  body('enabled')
+    .optional()
+    .isBoolean()
+    .withMessage('enabled must be a boolean'),
+
+  body('cooldownMinutes')
+    .optional()
+    .isInt({ min: 0, max: 10080 })
+    .withMessage('Cooldown must be between 0 and 10080 minutes (one week)'),
+];
+
+export const validateCreateAlertRule = [
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Name is required')
+    .isLength({ max: 100 })
+    .withMessage('Name cannot exceed 100 characters'),
+
+  body('type')
+    .isIn([...ALERT_RULE_TYPES])
+    .withMessage(`Type must be one of: ${ALERT_RULE_TYPES.join(', ')}`),
+
+  ...alertRuleConditionValidators,
+  ...alertRuleSettingValidators,
+];
+
+export const validateUpdateAlertRule = [
+  body('name')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Name cannot be empty')
+    .isLength({ max: 100 })
+    .withMessage('Name cannot exceed 100 characters'),
+
+  body('type')
+    .if(body('condition').exists())
+    .exists()
+    .withMessage('Type is required when changing the condition'),
+
+  body('type')
+    .optional()
+    .isIn([...ALERT_RULE_TYPES])
+    .withMessage(`Type must be one of: ${ALERT_RULE_TYPES.join(', ')}`),
+
+  ...alertRuleConditionValidators,
+  ...alertRuleSettingValidators,
+];
+
+export const validateAlertRuleId = [
+  param('id')
+    .isMongoId()
+    .withMessage('Alert rule ID must be a valid ID'),
+];
+
+export const validateAlertEvaluationQuery = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 200 })
+    .withMessage('Limit must be between 1 and 200'),
+
+  query('ruleId')
+    .optional()
+    .isMongoId()
+    .withMessage('Rule ID must be a valid ID'),
+
+  query('status')
+    .optional()
+    .custom((value: string) =>
+      value.split(',').every((status) => ['triggered', 'suppressed', 'duplicate', 'clear', 'failed'].includes(status))
+    )
+    .withMessage('Status must be a comma-separated list of: triggered, suppressed, duplicate, clear, failed'),
+
+  query('all')
+    .optional()
+    .isBoolean()
+    .withMessage('all must be true or false'),
+];
+
+export const validateNotificationQuery = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+
+  query('unread')
+    .optional()
+    .isBoolean()
+    .withMessage('unread must be true or false'),
+
+  query('category')
+    .optional()
+    .isIn([...NOTIFICATION_CATEGORIES])
+    .withMessage(`Category must be one of: ${NOTIFICATION_CATEGORIES.join(', ')}`),
+];
+
+export const validateNotificationId = [
+  param('id')
+    .isMongoId()
+    .withMessage('Notification ID must be a valid ID'),
+];
+
+export const validateMarkAllNotificationsRead = [
+  body('category')
+    .optional()
+    .isIn([...NOTIFICATION_CATEGORIES])
+    .withMessage(`Category must be one of: ${NOTIFICATION_CATEGORIES.join(', ')}`),
+];
+
 export const handleValidationErrors = (
   req: Request,
   res: Response,
@@ -0,0 +1,100 @@
+import mongoose, { Schema } from 'mongoose';
+import { AlertChannel, AlertRuleType } from './alertRule.model';
+
+export const ALERT_HISTORY_RETENTION_DAYS = parseInt(process.env.ALERT_HISTORY_RETENTION_DAYS || '90', 10);
+
+/**
+ * Outcome of evaluating a rule
+ *
+ *   triggered   the condition was met with something new and the alert was delivered
+ *   suppressed  the condition was met but the rule is cooling down, so nothing was sent
+ *   duplicate   the condition was met, but only by things already alerted on
+ *   clear       the condition was not met
+ *   failed      the rule couldn't be evaluated
+ */
+export type AlertEvaluationStatus = 'triggered' | 'suppressed' | 'duplicate' | 'clear' | 'failed';
+
+export interface IAlertEvaluation extends mongoose.Document {
+  rule: mongoose.Types.ObjectId;
+  owner: mongoose.Types.ObjectId;
+  ruleName: string;
+  type: AlertRuleType;
+  source: string; // Dataset whose sync ran the evaluation, or 'manual'
+  status: AlertEvaluationStatus;
+  summary?: string;
+  value?: number; // Measured value, e.g. the percentage change
+  keys: string[]; // What the alert is about (a date, PO number or review), used to avoid repeat alerts
+  matches: Record<string, unknown>[];
+  deliveredVia: AlertChannel[];
+  deliveryErrors: string[];
+  error?: string;
+  createdAt: Date;
+}
+
+const alertEvaluationSchema = new Schema<IAlertEvaluation>(
+  {
+    rule: {
+      type: Schema.Types.ObjectId,
+      ref: 'AlertRule',
+      required: true,
+    },
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    ruleName: {
+      type: String,
+      required: true,
+    },
+    type: {
+      type: String,
+      required: true,
+    },
+    source: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['triggered', 'suppressed', 'duplicate', 'clear', 'failed'],
+      required: true,
+    },
+    summary: {
+      type: String,
+    },
+    value: {
+      type: Number,
+    },
+    keys: {
+      type: [String],
+      default: [],
+    },
+    matches: {
+      type: Schema.Types.Mixed, // Details of each new thing alerted on, e.g. the purchase orders
+      default: [],
+    },
+    deliveredVia: {
+      type: [String],
+      default: [],
+    },
+    deliveryErrors: {
+      type: [String],
+      default: [],
+    },
+    error: {
+      type: String,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+alertEvaluationSchema.index({ owner: 1, createdAt: -1 });
+alertEvaluationSchema.index({ rule: 1, keys: 1 });
+alertEvaluationSchema.index({ createdAt: 1 }, { expireAfterSeconds: ALERT_HISTORY_RETENTION_DAYS * 24 * 60 * 60 });
+
+const AlertEvaluation = mongoose.model<IAlertEvaluation>('AlertEvaluation', alertEvaluationSchema);
+
+export default AlertEvaluation;
@@ -0,0 +1,141 @@
+import mongoose, { Schema } from 'mongoose';
+
+/**
+ * Kinds of alert rule
+ *
+ *   kpi-change               a dashboard KPI rises or drops by more than a percentage day over day
+ *   zero-collection          collections (optionally for one project) are zero for a number of business days
+ *   purchase-order-approved  a purchase order above an amount is approved
+ *   google-review            a Google review at or below a star rating arrives
+ */
+export const ALERT_RULE_TYPES = ['kpi-change', 'zero-collection', 'purchase-order-approved', 'google-review'] as const;
+export type AlertRuleType = (typeof ALERT_RULE_TYPES)[number];
+
+export const ALERT_KPI_METRICS = ['liquidity', 'collections', 'net-reservations'] as const;
+export type AlertKpiMetric = (typeof ALERT_KPI_METRICS)[number];
+
+export const ALERT_COLLECTION_TYPES = ['escrow', 'non-escrow', 'total'] as const;
+export type AlertCollectionType = (typeof ALERT_COLLECTION_TYPES)[number];
+
+export const ALERT_CHANNELS = ['email', 'in-app'] as const;
+export type AlertChannel = (typeof ALERT_CHANNELS)[number];
+
+// Only the fields used by the rule's type are set
+export interface AlertRuleCondition {
+  metric?: AlertKpiMetric; // kpi-change
+  direction?: 'drop' | 'rise'; // kpi-change
+  percent?: number; // kpi-change
+  collectionType?: AlertCollectionType; // zero-collection
+  businessDays?: number; // zero-collection
+  project?: mongoose.Types.ObjectId; // zero-collection; all visible projects when unset
+  minAmount?: number; // purchase-order-approved (AED)
+  maxRating?: number; // google-review
+}
+
+export interface IAlertRule extends mongoose.Document {
+  owner: mongoose.Types.ObjectId;
+  name: string;
+  type: AlertRuleType;
+  condition: AlertRuleCondition;
+  channels: AlertChannel[];
+  enabled: boolean;
+  cooldownMinutes: number; // Triggers within this long of the last delivered alert are recorded but not sent
+  lastEvaluatedAt?: Date;
+  lastTriggeredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const alertRuleConditionSchema = new Schema<AlertRuleCondition>(
+  {
+    metric: {
+      type: String,
+      enum: ALERT_KPI_METRICS,
+    },
+    direction: {
+      type: String,
+      enum: ['drop', 'rise'],
+    },
+    percent: {
+      type: Number,
+      min: 0,
+    },
+    collectionType: {
+      type: String,
+      enum: ALERT_COLLECTION_TYPES,
+    },
+    businessDays: {
+      type: Number,
+      min: 1,
+    },
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+    },
+    minAmount: {
+      type: Number,
+      min: 0,
+    },
+    maxRating: {
+      type: Number,
+      min: 1,
+      max: 5,
+    },
+  },
+  { _id: false }
+);
+
+const alertRuleSchema = new Schema<IAlertRule>(
+  {
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Owner is required'],
+    },
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [100, 'Name cannot exceed 100 characters'],
+    },
+    type: {
+      type: String,
+      enum: ALERT_RULE_TYPES,
+      required: [true, 'Type is required'],
+    },
+    condition: {
+      type: alertRuleConditionSchema,
+      default: {},
+    },
+    channels: {
+      type: [String],
+      enum: ALERT_CHANNELS,
+      default: () => [...ALERT_CHANNELS],
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    cooldownMinutes: {
+      type: Number,
+      default: 60,
+      min: 0,
+    },
+    lastEvaluatedAt: {
+      type: Date,
+    },
+    lastTriggeredAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+alertRuleSchema.index({ owner: 1, createdAt: -1 });
+alertRuleSchema.index({ enabled: 1, type: 1 });
+
+const AlertRule = mongoose.model<IAlertRule>('AlertRule', alertRuleSchema);
+
+export default AlertRule;
@@ -0,0 +1,98 @@
+import mongoose, { Schema } from 'mongoose';
+import { PERMISSIONS } from '../config/permissions';
+
+export interface IApiKey extends mongoose.Document {
+  name: string;
+  description?: string;
+  prefix: string;
+  keyHash: string;
+  permissions: string[];
+  allowedEntities: mongoose.Types.ObjectId[];
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  createdBy: mongoose.Types.ObjectId;
+  rotatedAt?: Date;
+  revokedAt?: Date;
+  revokedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Methods
+  isActive(): boolean;
+}
+
+const apiKeySchema = new Schema<IApiKey>(
+  {
+    name: {
+      type: String,
+      required: [true, 'API key name is required'],
+      trim: true,
+      maxlength: [100, 'Name cannot exceed 100 characters'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Description cannot exceed 200 characters'],
+    },
+    prefix: {
+      type: String,
+      required: true, // Public part of the key, shown in listings to identify it
+    },
+    keyHash: {
+      type: String,
+      required: true,
+      select: false, // Only the SHA-256 hash of the full key is stored
+    },
+    permissions: {
+      type: [String],
+      enum: PERMISSIONS,
+      default: [],
+    },
+    allowedEntities: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Entity' }],
+      default: [], // Empty means the key can see all entities
+    },
+    expiresAt: {
+      type: Date, // No expiry when unset
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+    lastUsedIp: {
+      type: String,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    rotatedAt: {
+      type: Date,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+apiKeySchema.index({ prefix: 1 }, { unique: true });
+apiKeySchema.index({ keyHash: 1 }, { unique: true });
+
+apiKeySchema.methods.isActive = function (): boolean {
+  if (this.revokedAt) {
+    return false;
+  }
+  return !this.expiresAt || this.expiresAt.getTime() > Date.now();
+};
+
+const ApiKey = mongoose.model<IApiKey>('ApiKey', apiKeySchema);
+
+export default ApiKey;
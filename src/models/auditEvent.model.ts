@@ -0,0 +1,127 @@
+import mongoose, { Schema } from 'mongoose';
+import { AuditAction, AuditActorType, AuditChange, AuditOutcome } from '../types';
+
+const AUDIT_LOG_RETENTION_DAYS = parseInt(process.env.AUDIT_LOG_RETENTION_DAYS || '365', 10);
+
+export interface IAuditEvent extends mongoose.Document {
+  action: AuditAction;
+  outcome: AuditOutcome;
+  actorType: AuditActorType;
+  actorId?: mongoose.Types.ObjectId; // User or API key, depending on actorType
+  actorLabel?: string; // Email or API key name at the time of the event
+  targetType?: string;
+  targetId?: string;
+  targetLabel?: string;
+  ipAddress: string;
+  userAgent: string;
+  changes: AuditChange[];
+  reason?: string;
+  metadata?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+const auditChangeSchema = new Schema<AuditChange>(
+  {
+    field: {
+      type: String,
+      required: true,
+    },
+    from: {
+      type: Schema.Types.Mixed,
+    },
+    to: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  { _id: false }
+);
+
+const auditEventSchema = new Schema<IAuditEvent>(
+  {
+    action: {
+      type: String,
+      required: true,
+    },
+    outcome: {
+      type: String,
+      enum: ['success', 'failure'],
+      required: true,
+    },
+    actorType: {
+      type: String,
+      enum: ['user', 'api-key', 'anonymous', 'system'],
+      required: true,
+    },
+    actorId: {
+      type: Schema.Types.ObjectId,
+    },
+    actorLabel: {
+      type: String,
+    },
+    targetType: {
+      type: String,
+    },
+    targetId: {
+      type: String,
+    },
+    targetLabel: {
+      type: String,
+    },
+    ipAddress: {
+      type: String,
+      default: 'unknown',
+    },
+    userAgent: {
+      type: String,
+      default: 'unknown',
+    },
+    changes: {
+      type: [auditChangeSchema],
+      default: [],
+    },
+    reason: {
+      type: String,
+    },
+    metadata: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// Retention is enforced by MongoDB; admins can change it through /api/settings/audit-retention
+auditEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: AUDIT_LOG_RETENTION_DAYS * 24 * 60 * 60 });
+auditEventSchema.index({ action: 1, createdAt: -1 });
+auditEventSchema.index({ actorId: 1, createdAt: -1 });
+auditEventSchema.index({ targetId: 1, createdAt: -1 });
+
+/**
+ * Audit events are append-only - updates and deletes through the model are rejected
+ * Old events are only removed by the TTL index
+ */
+const rejectMutation = (next: (error?: Error) => void): void => {
+  next(new Error('Audit events are append-only'));
+};
+
+auditEventSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'findOneAndDelete', 'deleteMany'],
+  function (next) {
+    rejectMutation(next);
+  }
+);
+auditEventSchema.pre('deleteOne', { document: true, query: true }, function (next) {
+  rejectMutation(next);
+});
+auditEventSchema.pre('save', function (next) {
+  if (!this.isNew) {
+    rejectMutation(next);
+    return;
+  }
+  next();
+});
+
+const AuditEvent = mongoose.model<IAuditEvent>('AuditEvent', auditEventSchema);
+
+export default AuditEvent;
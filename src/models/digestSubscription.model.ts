@@ -0,0 +1,83 @@
+import mongoose, { Schema } from 'mongoose';
+import { generateSecureToken } from '../utils/crypto';
+
+/**
+ * Sections of the daily KPI digest, in the order they appear in the email
+ */
+export const DIGEST_SECTIONS = [
+  'liquidity',
+  'collections',
+  'reservations',
+  'expenses',
+  'procurement',
+  'instagram',
+  'googleReviews',
+] as const;
+
+export type DigestSection = (typeof DIGEST_SECTIONS)[number];
+
+export interface IDigestSubscription extends mongoose.Document {
+  user: mongoose.Types.ObjectId;
+  enabled: boolean;
+  sections: DigestSection[];
+  sendTime?: string; // HH:mm Dubai time; unset sends as soon as the morning sync finishes
+  unsubscribeToken: string;
+  lastSentOn?: string; // Dubai date (yyyy-mm-dd) the digest was last sent or skipped, so each day is handled once
+  lastSentAt?: Date; // When a digest was last queued for delivery
+  unsubscribedAt?: Date;
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const digestSubscriptionSchema = new Schema<IDigestSubscription>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User is required'],
+      unique: true,
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    sections: {
+      type: [String],
+      enum: DIGEST_SECTIONS,
+      default: () => [...DIGEST_SECTIONS],
+    },
+    sendTime: {
+      type: String,
+      match: [/^([01]\d|2[0-3]):[0-5]\d$/, 'Send time must be HH:mm'],
+    },
+    unsubscribeToken: {
+      type: String,
+      unique: true,
+      default: () => generateSecureToken(),
+      select: false, // Kept in plain text because every digest carries the same link; it only turns the digest off
+    },
+    lastSentOn: {
+      type: String,
+    },
+    lastSentAt: {
+      type: Date,
+    },
+    unsubscribedAt: {
+      type: Date,
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+digestSubscriptionSchema.index({ enabled: 1, lastSentOn: 1 });
+
+const DigestSubscription = mongoose.model<IDigestSubscription>('DigestSubscription', digestSubscriptionSchema);
+
+export default DigestSubscription;
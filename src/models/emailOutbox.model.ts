@@ -0,0 +1,99 @@
+import mongoose, { Schema } from 'mongoose';
+
+const EMAIL_OUTBOX_RETENTION_DAYS = parseInt(process.env.EMAIL_OUTBOX_RETENTION_DAYS || '30', 10);
+
+// 'failed' is the dead-letter state: every attempt failed and the message is no longer retried
+export type EmailOutboxStatus = 'queued' | 'sent' | 'failed' | 'bounced';
+
+export interface IEmailOutbox extends mongoose.Document {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  status: EmailOutboxStatus;
+  attempts: number;
+  nextAttemptAt: Date; // When a queued message is next due
+  lockedUntil?: Date; // Set while a worker is delivering the message
+  lastError?: string;
+  messageId?: string; // Message-ID assigned by the SMTP server
+  smtpResponse?: string;
+  sentAt?: Date;
+  failedAt?: Date;
+  bouncedAt?: Date;
+  resendCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const emailOutboxSchema = new Schema<IEmailOutbox>(
+  {
+    to: {
+      type: String,
+      required: [true, 'Recipient is required'],
+      lowercase: true,
+      trim: true,
+    },
+    subject: {
+      type: String,
+      required: [true, 'Subject is required'],
+    },
+    html: {
+      type: String,
+      required: true,
+      select: false, // Bodies carry codes and links, so they are only loaded for delivery
+    },
+    text: {
+      type: String,
+      select: false,
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'sent', 'failed', 'bounced'],
+      default: 'queued',
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lockedUntil: {
+      type: Date,
+    },
+    lastError: {
+      type: String,
+    },
+    messageId: {
+      type: String,
+    },
+    smtpResponse: {
+      type: String,
+    },
+    sentAt: {
+      type: Date,
+    },
+    failedAt: {
+      type: Date,
+    },
+    bouncedAt: {
+      type: Date,
+    },
+    resendCount: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+emailOutboxSchema.index({ status: 1, nextAttemptAt: 1 });
+emailOutboxSchema.index({ to: 1, createdAt: -1 });
+emailOutboxSchema.index({ createdAt: 1 }, { expireAfterSeconds: EMAIL_OUTBOX_RETENTION_DAYS * 24 * 60 * 60 });
+
+const EmailOutbox = mongoose.model<IEmailOutbox>('EmailOutbox', emailOutboxSchema);
+
+export default EmailOutbox;
@@ -0,0 +1,87 @@
+import mongoose, { Schema } from 'mongoose';
+
+export type ImpersonationEndReason = 'ended' | 'expired' | 'revoked';
+
+export interface IImpersonationSession extends mongoose.Document {
+  actorId: mongoose.Types.ObjectId; // Admin viewing the account
+  subjectId: mongoose.Types.ObjectId; // User being impersonated
+  reason: string;
+  allowMutations: boolean;
+  ipAddress: string;
+  userAgent: string;
+  expiresAt: Date;
+  endedAt?: Date;
+  endedBy?: mongoose.Types.ObjectId;
+  endReason?: ImpersonationEndReason;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Methods
+  isActive(): boolean;
+}
+
+const impersonationSessionSchema = new Schema<IImpersonationSession>(
+  {
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    subjectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    reason: {
+      type: String,
+      required: [true, 'Reason is required'],
+      trim: true,
+      maxlength: [500, 'Reason cannot exceed 500 characters'],
+    },
+    allowMutations: {
+      type: Boolean,
+      default: false, // Read-only unless the admin explicitly asks otherwise
+    },
+    ipAddress: {
+      type: String,
+      default: 'unknown',
+    },
+    userAgent: {
+      type: String,
+      default: 'unknown',
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    endedAt: {
+      type: Date,
+    },
+    endedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    endReason: {
+      type: String,
+      enum: ['ended', 'expired', 'revoked'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+impersonationSessionSchema.index({ endedAt: 1, expiresAt: 1 });
+impersonationSessionSchema.index({ subjectId: 1, createdAt: -1 });
+impersonationSessionSchema.index({ actorId: 1, createdAt: -1 });
+
+impersonationSessionSchema.methods.isActive = function (): boolean {
+  return !this.endedAt && this.expiresAt.getTime() > Date.now();
+};
+
+const ImpersonationSession = mongoose.model<IImpersonationSession>(
+  'ImpersonationSession',
+  impersonationSessionSchema
+);
+
+export default ImpersonationSession;
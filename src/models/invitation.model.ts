@@ -0,0 +1,100 @@
+import mongoose, { Schema } from 'mongoose';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked';
+
+export interface IInvitation extends mongoose.Document {
+  email: string;
+  role: string;
+  allowedEntities: mongoose.Types.ObjectId[];
+  tokenHash: string;
+  status: InvitationStatus;
+  expiresAt: Date;
+  invitedBy: mongoose.Types.ObjectId;
+  sentCount: number;
+  lastSentAt?: Date;
+  acceptedAt?: Date;
+  acceptedUser?: mongoose.Types.ObjectId;
+  revokedAt?: Date;
+  revokedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Methods
+  isExpired(): boolean;
+}
+
+const invitationSchema = new Schema<IInvitation>(
+  {
+    email: {
+      type: String,
+      required: [true, 'Email is required'],
+      lowercase: true,
+      trim: true,
+      match: [/^\S+@\S+\.\S+$/, 'Please provide a valid email'],
+    },
+    role: {
+      type: String,
+      required: [true, 'Role is required'],
+      trim: true,
+      lowercase: true,
+    },
+    allowedEntities: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Entity' }],
+      default: [],
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      select: false, // Only the SHA-256 hash of the invitation token is stored
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'accepted', 'revoked'],
+      default: 'pending',
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    sentCount: {
+      type: Number,
+      default: 0,
+    },
+    lastSentAt: {
+      type: Date,
+    },
+    acceptedAt: {
+      type: Date,
+    },
+    acceptedUser: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+invitationSchema.index({ tokenHash: 1 }, { unique: true });
+invitationSchema.index({ email: 1, status: 1 });
+
+invitationSchema.methods.isExpired = function (): boolean {
+  return this.expiresAt.getTime() < Date.now();
+};
+
+const Invitation = mongoose.model<IInvitation>('Invitation', invitationSchema);
+
+export default Invitation;
@@ -0,0 +1,71 @@
+import mongoose, { Schema } from 'mongoose';
+
+const NOTIFICATION_RETENTION_DAYS = parseInt(process.env.NOTIFICATION_RETENTION_DAYS || '90', 10);
+
+/**
+ * What a notification is about
+ *
+ *   sync    a scheduled dataset sync failed
+ *   alert   one of the user's alert rules triggered
+ *   export  a file export finished or was cut short
+ *   system  anything else
+ */
+export const NOTIFICATION_CATEGORIES = ['sync', 'alert', 'export', 'system'] as const;
+export type NotificationCategory = (typeof NOTIFICATION_CATEGORIES)[number];
+
+export interface INotification extends mongoose.Document {
+  user: mongoose.Types.ObjectId;
+  category: NotificationCategory;
+  title: string;
+  message?: string;
+  link?: string; // Frontend path to open, e.g. /alerts
+  data: Record<string, unknown>; // Deep-link details, e.g. the alert rule and evaluation IDs
+  readAt?: Date;
+  createdAt: Date;
+}
+
+const notificationSchema = new Schema<INotification>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    category: {
+      type: String,
+      enum: NOTIFICATION_CATEGORIES,
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      maxlength: 200,
+    },
+    message: {
+      type: String,
+      maxlength: 2000,
+    },
+    link: {
+      type: String,
+    },
+    data: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    readAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    minimize: false,
+  }
+);
+
+notificationSchema.index({ user: 1, createdAt: -1 });
+notificationSchema.index({ user: 1, readAt: 1 });
+notificationSchema.index({ createdAt: 1 }, { expireAfterSeconds: NOTIFICATION_RETENTION_DAYS * 24 * 60 * 60 });
+
+const Notification = mongoose.model<INotification>('Notification', notificationSchema);
+
+export default Notification;
@@ -32,7 +32,7 @@ export interface ProcurementPurchaseOrderStatics {
   getOrdersByApprovalStatus(approvalStatus: string): mongoose.Query<any[], IProcurementPurchaseOrder>;
   getOrdersByDateRange(startDate: Date, endDate: Date, dataAreaId?: string | null): mongoose.Query<any[], IProcurementPurchaseOrder>;
   getOrdersByAmountRange(minAmount: number, maxAmount: number): mongoose.Query<any[], IProcurementPurchaseOrder>;
-  getProcurementSummary(dataAreaId: string | null, startDate: Date | null, endDate: Date | null): Promise<any[]>;
+  getProcurementSummary(dataAreaId: string | null, startDate: Date | null, endDate: Date | null, entityIds?: mongoose.Types.ObjectId[] | null): Promise<any[]>;
   getProcurementSummary30Days(): Promise<any>;
 }
 
@@ -239,11 +239,13 @@ procurementPurchaseOrderSchema.statics.getOrdersByAmountRange = function (minAmo
 procurementPurchaseOrderSchema.statics.getProcurementSummary = function (
   dataAreaId: string | null = null,
   startDate: Date | null = null,
-  endDate: Date | null = null
+  endDate: Date | null = null,
+  entityIds: mongoose.Types.ObjectId[] | null = null
 ) {
   const matchQuery: any = {};
 
   if (dataAreaId) matchQuery.dataAreaId = dataAreaId;
+  if (entityIds) matchQuery.entityId = { $in: entityIds };
   if (startDate && endDate) {
     matchQuery.createdTimestamp = { $gte: startDate, $lte: endDate };
   }
@@ -0,0 +1,55 @@
+import mongoose, { Schema } from 'mongoose';
+import { PERMISSIONS } from '../config/permissions';
+
+export interface IRole extends mongoose.Document {
+  name: string;
+  description?: string;
+  permissions: string[];
+  isSystem: boolean;
+  requireTwoFactor: boolean;
+  allowLoginCode: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const roleSchema = new Schema<IRole>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Role name is required'],
+      unique: true,
+      trim: true,
+      lowercase: true,
+      match: [/^[a-z0-9-]+$/, 'Role name can only contain lowercase letters, numbers, and hyphens'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Description cannot exceed 200 characters'],
+    },
+    permissions: {
+      type: [String],
+      enum: PERMISSIONS,
+      default: [],
+    },
+    isSystem: {
+      type: Boolean,
+      default: false, // System roles are seeded on startup and cannot be deleted
+    },
+    requireTwoFactor: {
+      type: Boolean,
+      default: false, // Users with this role must enroll in TOTP 2FA before they can log in
+    },
+    allowLoginCode: {
+      type: Boolean,
+      default: false, // Users with this role may log in with an emailed code instead of a password
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const Role = mongoose.model<IRole>('Role', roleSchema);
+
+export default Role;
@@ -0,0 +1,67 @@
+import mongoose, { Schema } from 'mongoose';
+
+const SESSION_RETENTION_DAYS = parseInt(process.env.SESSION_RETENTION_DAYS || '90', 10);
+
+export interface ISession extends mongoose.Document {
+  userId: mongoose.Types.ObjectId;
+  familyId: string;
+  ipAddress: string;
+  userAgent: string;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Methods
+  isActive(): boolean;
+}
+
+const sessionSchema = new Schema<ISession>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    familyId: {
+      type: String,
+      required: true, // Refresh token family in Redis backing this session
+    },
+    ipAddress: {
+      type: String,
+      default: 'unknown',
+    },
+    userAgent: {
+      type: String,
+      default: 'unknown',
+    },
+    lastSeenAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: true, // Expiry of the current refresh token
+    },
+    revokedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+sessionSchema.index({ familyId: 1 }, { unique: true });
+sessionSchema.index({ userId: 1, ipAddress: 1, userAgent: 1 });
+// Old sessions are kept for a while so returning devices are still recognised
+sessionSchema.index({ lastSeenAt: 1 }, { expireAfterSeconds: SESSION_RETENTION_DAYS * 24 * 60 * 60 });
+
+sessionSchema.methods.isActive = function (): boolean {
+  return !this.revokedAt && this.expiresAt.getTime() > Date.now();
+};
+
+const Session = mongoose.model<ISession>('Session', sessionSchema);
+
+export default Session;
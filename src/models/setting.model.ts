@@ -0,0 +1,36 @@
+import mongoose, { Schema } from 'mongoose';
+
+export interface ISetting extends mongoose.Document {
+  key: string;
+  value: Record<string, unknown>;
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const settingSchema = new Schema<ISetting>(
+  {
+    key: {
+      type: String,
+      required: [true, 'Setting key is required'],
+      unique: true,
+      trim: true,
+    },
+    value: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+  }
+);
+
+const Setting = mongoose.model<ISetting>('Setting', settingSchema);
+
+export default Setting;
@@ -1,5 +1,35 @@
 import mongoose, { Schema } from 'mongoose';
-import { IUser } from '../types';
+import { IUser, ILoginHistoryEntry } from '../types';
+import { DEFAULT_USER_ROLE } from '../config/permissions';
+import { LOCALES } from '../config/locales';
+
+const loginHistoryEntrySchema = new Schema<ILoginHistoryEntry>(
+  {
+    at: {
+      type: Date,
+      required: true,
+    },
+    ipAddress: {
+      type: String,
+      default: 'unknown',
+    },
+    userAgent: {
+      type: String,
+      default: 'unknown',
+    },
+    method: {
+      type: String,
+    },
+    success: {
+      type: Boolean,
+      required: true,
+    },
+    reason: {
+      type: String,
+    },
+  },
+  { _id: false }
+);
 
 const userSchema = new Schema<IUser>(
   {
@@ -52,6 +82,10 @@ const userSchema = new Schema<IUser>(
       type: String,
       enum: ['male', 'female', 'other'],
     },
+    locale: {
+      type: String,
+      enum: LOCALES,
+    },
     email: {
       type: String,
       required: [true, 'Email is required'],
@@ -66,10 +100,23 @@ const userSchema = new Schema<IUser>(
       minlength: [6, 'Password must be at least 6 characters'],
       select: false, // Don't return password by default
     },
+    passwordHistory: {
+      type: [String],
+      default: [],
+      select: false,
+    },
+    passwordChangedAt: {
+      type: Date,
+    },
     role: {
       type: String,
-      enum: ['admin', 'user'],
-      default: 'user',
+      trim: true,
+      lowercase: true,
+      default: DEFAULT_USER_ROLE, // Must match a role in the Role collection
+    },
+    allowedEntities: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Entity' }],
+      default: [], // Empty means the user can see all entities
     },
     emailVerified: {
       type: Boolean,
@@ -78,12 +125,79 @@ const userSchema = new Schema<IUser>(
     emailVerifiedAt: {
       type: Date,
     },
+    lastLoginAt: {
+      type: Date,
+    },
+    lastSeenAt: {
+      type: Date,
+    },
+    loginHistory: {
+      type: [loginHistoryEntrySchema],
+      default: [],
+      select: false,
+    },
+    ssoSubject: {
+      type: String,
+      unique: true,
+      sparse: true, // Only SSO users have one
+    },
+    status: {
+      type: String,
+      enum: ['active', 'suspended', 'deactivated', 'deleted'],
+      default: 'active',
+    },
+    statusReason: {
+      type: String,
+      trim: true,
+    },
+    statusChangedAt: {
+      type: Date,
+    },
+    statusChangedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    deletedAt: {
+      type: Date,
+    },
+    purgeAfter: {
+      type: Date,
+    },
+    twoFactor: {
+      enabled: {
+        type: Boolean,
+        default: false,
+      },
+      secret: {
+        type: String,
+        select: false,
+      },
+      pendingSecret: {
+        type: String,
+        select: false,
+      },
+      recoveryCodes: {
+        type: [String],
+        default: [],
+        select: false,
+      },
+      lastUsedStep: {
+        type: Number,
+        select: false,
+      },
+      enabledAt: {
+        type: Date,
+      },
+    },
   },
   {
     timestamps: true,
   }
 );
 
+userSchema.index({ status: 1, purgeAfter: 1 });
+userSchema.index({ lastLoginAt: -1 });
+userSchema.index({ lastSeenAt: -1 });
 
 const User = mongoose.model<IUser>('User', userSchema);
 
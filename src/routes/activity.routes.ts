@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import {
+  getActiveUsers,
+  getNeverLoggedInUsers,
+  getDormantUsers,
+  getFailedLoginReport,
+} from '../controllers/activity.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireAdmin } from '../middleware/role.middleware';
+import { validateActivityQuery, handleValidationErrors } from '../middleware/validation.middleware';
+
+const router = Router();
+
+// All activity reports require an authenticated admin
+router.use(authenticate, requireAdmin, validateActivityQuery, handleValidationErrors);
+
+// Daily, weekly and monthly active users with a per-day series (?days=) - Admin only
+router.get('/active-users', getActiveUsers);
+
+// Accounts that have never logged in - Admin only
+router.get('/never-logged-in', getNeverLoggedInUsers);
+
+// Accounts not seen for ?days= days - Admin only
+router.get('/dormant', getDormantUsers);
+
+// IPs with the most failed logins over the last ?hours= hours - Admin only
+router.get('/failed-logins', getFailedLoginReport);
+
+export default router;
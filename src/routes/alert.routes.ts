@@ -0,0 +1,53 @@
+import { Router } from 'express';
+import {
+  getAlertRules,
+  getAlertRule,
+  createAlertRule,
+  updateAlertRule,
+  deleteAlertRule,
+  evaluateAlertRuleNow,
+  getAlertEvaluations,
+} from '../controllers/alert.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireUserSession } from '../middleware/role.middleware';
+import {
+  validateCreateAlertRule,
+  validateUpdateAlertRule,
+  validateAlertRuleId,
+  validateAlertEvaluationQuery,
+  handleValidationErrors,
+} from '../middleware/validation.middleware';
+
+const router = Router();
+
+// All alert routes require a signed-in user (not an API key); users manage their own rules, admins any rule
+router.use(authenticate, requireUserSession);
+
+// Get alert rules
+router.get('/rules', getAlertRules);
+
+// Create an alert rule
+router.post('/rules', validateCreateAlertRule, handleValidationErrors, createAlertRule);
+
+// Get an alert rule
+router.get('/rules/:id', validateAlertRuleId, handleValidationErrors, getAlertRule);
+
+// Update an alert rule
+router.put(
+  '/rules/:id',
+  validateAlertRuleId,
+  validateUpdateAlertRule,
+  handleValidationErrors,
+  updateAlertRule
+);
+
+// Delete an alert rule
+router.delete('/rules/:id', validateAlertRuleId, handleValidationErrors, deleteAlertRule);
+
+// Evaluate an alert rule now
+router.post('/rules/:id/evaluate', validateAlertRuleId, handleValidationErrors, evaluateAlertRuleNow);
+
+// Get alert evaluation history (triggered evaluations are the in-app alerts)
+router.get('/events', validateAlertEvaluationQuery, handleValidationErrors, getAlertEvaluations);
+
+export default router;
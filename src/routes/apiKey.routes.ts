@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import {
+  getApiKeys,
+  createApiKey,
+  rotateApiKey,
+  revokeApiKey,
+} from '../controllers/apiKey.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireAdmin } from '../middleware/role.middleware';
+import {
+  validateCreateApiKey,
+  validateRotateApiKey,
+  handleValidationErrors,
+} from '../middleware/validation.middleware';
+
+const router = Router();
+
+// All API key routes require an authenticated admin
+router.use(authenticate, requireAdmin);
+
+// Get all API keys (add ?includeRevoked=true for revoked keys) - Admin only
+router.get('/', getApiKeys);
+
+// Create API key - Admin only
+router.post(
+  '/',
+  validateCreateApiKey,
+  handleValidationErrors,
+  createApiKey
+);
+
+// Rotate API key - Admin only
+router.post(
+  '/:id/rotate',
+  validateRotateApiKey,
+  handleValidationErrors,
+  rotateApiKey
+);
+
+// Revoke API key - Admin only
+router.post('/:id/revoke', revokeApiKey);
+
+export default router;
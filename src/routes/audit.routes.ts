@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { getAuditEvents, exportAuditEvents } from '../controllers/audit.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireAdmin } from '../middleware/role.middleware';
+import {
+  validateAuditQuery,
+  handleValidationErrors,
+} from '../middleware/validation.middleware';
+
+const router = Router();
+
+// All audit routes require an authenticated admin
+router.use(authenticate, requireAdmin);
+
+// Get audit events with filters and pagination - Admin only
+router.get(
+  '/',
+  validateAuditQuery,
+  handleValidationErrors,
+  getAuditEvents
+);
+
+// Export audit events matching the filters as CSV - Admin only
+router.get(
+  '/export',
+  validateAuditQuery,
+  handleValidationErrors,
+  exportAuditEvents
+);
+
+export default router;
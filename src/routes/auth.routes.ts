@@ -2,14 +2,32 @@ import { Router } from 'express';
 import {
   register,
   login,
+  requestLoginCode,
+  verifyLoginCode,
+  startSsoLogin,
+  handleSsoCallback,
+  exchangeSsoCode,
   verifyEmail,
   resendVerificationEmail,
+  refreshToken,
+  logout,
 } from '../controllers/auth.controller';
+import { acceptInvitation } from '../controllers/invitation.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { rateLimit } from '../middleware/rateLimit.middleware';
+import { RATE_LIMITS } from '../config/rateLimits';
 import {
   validateRegister,
   validateLogin,
+  validateLoginCodeRequest,
+  validateLoginCodeVerify,
+  validateSsoLogin,
+  validateSsoExchange,
   validateVerifyEmail,
   validateResendVerification,
+  validateRefreshToken,
+  validateLogout,
+  validateAcceptInvitation,
   handleValidationErrors,
 } from '../middleware/validation.middleware';
 
@@ -17,6 +35,8 @@ const router = Router();
 
 router.post(
   '/register',
+  rateLimit(RATE_LIMITS.auth),
+  rateLimit(RATE_LIMITS.emailSend),
   validateRegister,
   handleValidationErrors,
   register
@@ -24,13 +44,59 @@ router.post(
 
 router.post(
   '/login',
+  rateLimit(RATE_LIMITS.auth),
   validateLogin,
   handleValidationErrors,
   login
 );
 
+// Passwordless login - email a one-time code (roles with allowLoginCode only)
+router.post(
+  '/login/code/request',
+  rateLimit(RATE_LIMITS.emailSend),
+  validateLoginCodeRequest,
+  handleValidationErrors,
+  requestLoginCode
+);
+
+// Passwordless login - exchange the emailed code for tokens
+router.post(
+  '/login/code/verify',
+  rateLimit(RATE_LIMITS.auth),
+  rateLimit(RATE_LIMITS.otpVerify),
+  validateLoginCodeVerify,
+  handleValidationErrors,
+  verifyLoginCode
+);
+
+// Single sign-on - redirect to the identity provider (authorization code + PKCE)
+router.get(
+  '/sso/login',
+  rateLimit(RATE_LIMITS.auth),
+  validateSsoLogin,
+  handleValidationErrors,
+  startSsoLogin
+);
+
+// Single sign-on - identity provider redirect target; forwards a one-time code to the frontend
+router.get(
+  '/sso/callback',
+  rateLimit(RATE_LIMITS.auth),
+  handleSsoCallback
+);
+
+// Single sign-on - exchange the one-time code from the callback for tokens
+router.post(
+  '/sso/exchange',
+  rateLimit(RATE_LIMITS.auth),
+  validateSsoExchange,
+  handleValidationErrors,
+  exchangeSsoCode
+);
+
 router.post(
   '/verify-email',
+  rateLimit(RATE_LIMITS.otpVerify),
   validateVerifyEmail,
   handleValidationErrors,
   verifyEmail
@@ -38,10 +104,34 @@ router.post(
 
 router.post(
   '/resend-verification',
+  rateLimit(RATE_LIMITS.emailSend),
   validateResendVerification,
   handleValidationErrors,
   resendVerificationEmail
 );
 
+router.post(
+  '/refresh',
+  validateRefreshToken,
+  handleValidationErrors,
+  refreshToken
+);
+
+router.post(
+  '/logout',
+  authenticate,
+  validateLogout,
+  handleValidationErrors,
+  logout
+);
+
+router.post(
+  '/accept-invitation',
+  rateLimit(RATE_LIMITS.auth),
+  validateAcceptInvitation,
+  handleValidationErrors,
+  acceptInvitation
+);
+
 export default router;
 
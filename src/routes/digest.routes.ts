@@ -0,0 +1,54 @@
+import { Router } from 'express';
+import {
+  unsubscribeFromDigest,
+  getDigestSubscriptions,
+  updateUserDigest,
+  sendUserDigest,
+} from '../controllers/digest.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireAdmin } from '../middleware/role.middleware';
+import { rateLimit } from '../middleware/rateLimit.middleware';
+import { RATE_LIMITS } from '../config/rateLimits';
+import {
+  validateUpdateDigestSettings,
+  validateDigestUserId,
+  validateDigestUnsubscribe,
+  handleValidationErrors,
+} from '../middleware/validation.middleware';
+
+const router = Router();
+
+// Unsubscribe with the token from a digest email - Public
+router.post(
+  '/unsubscribe',
+  rateLimit(RATE_LIMITS.auth),
+  validateDigestUnsubscribe,
+  handleValidationErrors,
+  unsubscribeFromDigest
+);
+
+// Get all digest subscriptions - Admin only
+router.get('/subscriptions', authenticate, requireAdmin, getDigestSubscriptions);
+
+// Subscribe a user or change their digest settings - Admin only
+router.put(
+  '/subscriptions/:userId',
+  authenticate,
+  requireAdmin,
+  validateDigestUserId,
+  validateUpdateDigestSettings,
+  handleValidationErrors,
+  updateUserDigest
+);
+
+// Send a user's digest now - Admin only
+router.post(
+  '/subscriptions/:userId/send',
+  authenticate,
+  requireAdmin,
+  validateDigestUserId,
+  handleValidationErrors,
+  sendUserDigest
+);
+
+export default router;
@@ -0,0 +1,44 @@
+import { Router } from 'express';
+import {
+  getEmailOutbox,
+  getEmailOutboxMessage,
+  resendEmailOutboxMessage,
+} from '../controllers/emailOutbox.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireAdmin } from '../middleware/role.middleware';
+import {
+  validateEmailOutboxQuery,
+  validateEmailOutboxId,
+  handleValidationErrors,
+} from '../middleware/validation.middleware';
+
+const router = Router();
+
+// All email outbox routes require an authenticated admin
+router.use(authenticate, requireAdmin);
+
+// Get queued and delivered emails with counts by status (filter by status and recipient) - Admin only
+router.get(
+  '/',
+  validateEmailOutboxQuery,
+  handleValidationErrors,
+  getEmailOutbox
+);
+
+// Get one email - Admin only
+router.get(
+  '/:id',
+  validateEmailOutboxId,
+  handleValidationErrors,
+  getEmailOutboxMessage
+);
+
+// Queue a sent, failed or bounced email to be delivered again - Admin only
+router.post(
+  '/:id/resend',
+  validateEmailOutboxId,
+  handleValidationErrors,
+  resendEmailOutboxMessage
+);
+
+export default router;
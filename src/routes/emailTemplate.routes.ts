@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import {
+  getEmailTemplates,
+  previewEmailTemplate,
+} from '../controllers/emailTemplate.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireAdmin } from '../middleware/role.middleware';
+import {
+  validateEmailTemplatePreview,
+  handleValidationErrors,
+} from '../middleware/validation.middleware';
+
+const router = Router();
+
+// All email template routes require an authenticated admin
+router.use(authenticate, requireAdmin);
+
+// Get the available templates and their locales - Admin only
+router.get('/', getEmailTemplates);
+
+// Render a template with its sample data - Admin only
+router.get(
+  '/:name/preview',
+  validateEmailTemplatePreview,
+  handleValidationErrors,
+  previewEmailTemplate
+);
+
+// Render a template with sample data overridden by the request body - Admin only
+router.post(
+  '/:name/preview',
+  validateEmailTemplatePreview,
+  handleValidationErrors,
+  previewEmailTemplate
+);
+
+export default router;
@@ -4,17 +4,23 @@ import {
   getEntityById,
 } from '../controllers/entities.controller';
 import { authenticate } from '../middleware/auth.middleware';
+import { rateLimit } from '../middleware/rateLimit.middleware';
+import { RATE_LIMITS } from '../config/rateLimits';
+import { attachDataScope } from '../middleware/dataScope.middleware';
+import { requirePermission } from '../middleware/role.middleware';
 
 const router = Router();
 
-// All routes require authentication
+// All routes require authentication and are limited to the user's allowed entities
 router.use(authenticate);
+router.use(rateLimit(RATE_LIMITS.data));
+router.use(attachDataScope);
 
-// Get all entities - Authenticated users
-router.get('/', getEntities);
+// Get all entities - Requires entities:read
+router.get('/', requirePermission('entities:read'), getEntities);
 
-// Get entity by ID - Authenticated users
-router.get('/:id', getEntityById);
+// Get entity by ID - Requires entities:read
+router.get('/:id', requirePermission('entities:read'), getEntityById);
 
 export default router;
 
@@ -7,7 +7,10 @@ import {
   getExpensePaidoutDetail,
 } from '../controllers/expensePaidout.controller';
 import { authenticate } from '../middleware/auth.middleware';
-import { requireAdmin } from '../middleware/role.middleware';
+import { rateLimit } from '../middleware/rateLimit.middleware';
+import { RATE_LIMITS } from '../config/rateLimits';
+import { attachDataScope } from '../middleware/dataScope.middleware';
+import { requirePermission } from '../middleware/role.middleware';
 import {
   validateSyncExpensePaidout,
   handleValidationErrors,
@@ -15,29 +18,32 @@ import {
 
 const router = Router();
 
-// All routes require authentication
+// All routes require authentication and are limited to the user's allowed entities
 router.use(authenticate);
+router.use(rateLimit(RATE_LIMITS.data));
+router.use(attachDataScope);
 
-// Sync expense paidout data - Admin only
+// Sync expense paidout data - Requires expense-paidout:sync
 router.post(
   '/sync',
-  requireAdmin,
+  rateLimit(RATE_LIMITS.sync),
+  requirePermission('expense-paidout:sync'),
   validateSyncExpensePaidout,
   handleValidationErrors,
   syncExpensePaidout
 );
 
-// Get expense paidout data - Authenticated users
-router.get('/', getExpensePaidoutData);
+// Get expense paidout data - Requires expense-paidout:read
+router.get('/', requirePermission('expense-paidout:read'), getExpensePaidoutData);
 
-// Get expense summary - Authenticated users
-router.get('/summary', getExpenseSummary);
+// Get expense summary - Requires expense-paidout:read
+router.get('/summary', requirePermission('expense-paidout:read'), getExpenseSummary);
 
-// Get expense category summary - Authenticated users
-router.get('/category-summary', getExpenseCategorySummary);
+// Get expense category summary - Requires expense-paidout:read
+router.get('/category-summary', requirePermission('expense-paidout:read'), getExpenseCategorySummary);
 
-// Get expense paidout detail with month grouping - Authenticated users
-router.get('/detail', getExpensePaidoutDetail);
+// Get expense paidout detail with month grouping - Requires expense-paidout:read
+router.get('/detail', requirePermission('expense-paidout:read'), getExpensePaidoutDetail);
 
 export default router;
 
@@ -9,7 +9,10 @@ import {
   getLiquidityDetail,
 } from '../controllers/financeReserve.controller';
 import { authenticate } from '../middleware/auth.middleware';
-import { requireAdmin } from '../middleware/role.middleware';
+import { rateLimit } from '../middleware/rateLimit.middleware';
+import { RATE_LIMITS } from '../config/rateLimits';
+import { attachDataScope } from '../middleware/dataScope.middleware';
+import { requirePermission } from '../middleware/role.middleware';
 import {
   validateSyncFinanceReserve,
   handleValidationErrors,
@@ -17,35 +20,38 @@ import {
 
 const router = Router();
 
-// All routes require authentication
+// All routes require authentication and are limited to the user's allowed entities
 router.use(authenticate);
+router.use(rateLimit(RATE_LIMITS.data));
+router.use(attachDataScope);
 
-// Sync finance reserve data - Admin only
+// Sync finance reserve data - Requires finance-reserve:sync
 router.post(
   '/sync',
-  requireAdmin,
+  rateLimit(RATE_LIMITS.sync),
+  requirePermission('finance-reserve:sync'),
   validateSyncFinanceReserve,
   handleValidationErrors,
   syncFinanceReserve
 );
 
-// Get finance reserve data - Authenticated users
-router.get('/', getFinanceReserveData);
+// Get finance reserve data - Requires finance-reserve:read
+router.get('/', requirePermission('finance-reserve:read'), getFinanceReserveData);
 
-// Get liquidity data for dashboard card - Authenticated users
-router.get('/liquidity', getLiquidityData);
+// Get liquidity data for dashboard card - Requires finance-reserve:read
+router.get('/liquidity', requirePermission('finance-reserve:read'), getLiquidityData);
 
-// Get liquidity summary for dashboard card - Authenticated users
-router.get('/summary', getLiquiditySummary);
+// Get liquidity summary for dashboard card - Requires finance-reserve:read
+router.get('/summary', requirePermission('finance-reserve:read'), getLiquiditySummary);
 
-// Get liquidity detail with date grouping - Authenticated users
-router.get('/detail', getLiquidityDetail);
+// Get liquidity detail with date grouping - Requires finance-reserve:read
+router.get('/detail', requirePermission('finance-reserve:read'), getLiquidityDetail);
 
-// Get all entities - Authenticated users
-router.get('/entities', getEntities);
+// Get all entities - Requires entities:read
+router.get('/entities', requirePermission('entities:read'), getEntities);
 
-// Get entity by ID - Authenticated users
-router.get('/entities/:id', getEntityById);
+// Get entity by ID - Requires entities:read
+router.get('/entities/:id', requirePermission('entities:read'), getEntityById);
 
 export default router;
 
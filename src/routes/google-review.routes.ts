@@ -6,24 +6,27 @@ import {
   getAllGoogleReviews,
 } from '../controllers/google-review.controller';
 import { authenticate } from '../middleware/auth.middleware';
-import { requireAdmin } from '../middleware/role.middleware';
+import { rateLimit } from '../middleware/rateLimit.middleware';
+import { RATE_LIMITS } from '../config/rateLimits';
+import { requirePermission } from '../middleware/role.middleware';
 
 const router = Router();
 
 // All routes require authentication
 router.use(authenticate);
+router.use(rateLimit(RATE_LIMITS.data));
 
-// Sync Google Reviews - Admin only
-router.post('/sync', requireAdmin, syncGoogleReviews);
+// Sync Google Reviews - Requires google-reviews:sync
+router.post('/sync', rateLimit(RATE_LIMITS.sync), requirePermission('google-reviews:sync'), syncGoogleReviews);
 
-// Get Google Reviews with filters - Authenticated users
-router.get('/', getGoogleReviews);
+// Get Google Reviews with filters - Requires google-reviews:read
+router.get('/', requirePermission('google-reviews:read'), getGoogleReviews);
 
-// Get review statistics - Authenticated users
-router.get('/statistics', getReviewStatistics);
+// Get review statistics - Requires google-reviews:read
+router.get('/statistics', requirePermission('google-reviews:read'), getReviewStatistics);
 
-// Get all reviews for dashboard - Authenticated users
-router.get('/dashboard', getAllGoogleReviews);
+// Get all reviews for dashboard - Requires google-reviews:read
+router.get('/dashboard', requirePermission('google-reviews:read'), getAllGoogleReviews);
 
 export default router;
 
@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import {
+  getImpersonationSessions,
+  startImpersonationSession,
+  endImpersonationSession,
+} from '../controllers/impersonation.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireAdmin } from '../middleware/role.middleware';
+import {
+  validateStartImpersonation,
+  validateImpersonationQuery,
+  validateImpersonationId,
+  handleValidationErrors,
+} from '../middleware/validation.middleware';
+
+const router = Router();
+
+// All impersonation routes require an authenticated admin
+router.use(authenticate, requireAdmin);
+
+// Get impersonation sessions (?active=true, ?userId=, ?actorId=) - Admin only
+router.get(
+  '/',
+  validateImpersonationQuery,
+  handleValidationErrors,
+  getImpersonationSessions
+);
+
+// Start impersonating a user - returns a time-boxed token (read-only unless allowMutations) - Admin only
+router.post(
+  '/',
+  validateStartImpersonation,
+  handleValidationErrors,
+  startImpersonationSession
+);
+
+// End an impersonation session (call with the admin's own token) - Admin only
+router.post(
+  '/:id/end',
+  validateImpersonationId,
+  handleValidationErrors,
+  endImpersonationSession
+);
+
+export default router;
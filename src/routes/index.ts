@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import authRoutes from './auth.routes';
+import twoFactorRoutes from './twoFactor.routes';
 import userRoutes from './user.routes';
 import passwordRoutes from './password.routes';
 import otpRoutes from './otp.routes';
@@ -11,6 +12,20 @@ import revenueReservationRoutes from './revenue-reservation.routes';
 import instagramInsightsRoutes from './instagram-insights.routes';
 import googleReviewRoutes from './google-review.routes';
 import entitiesRoutes from './entities.routes';
+import roleRoutes from './role.routes';
+import invitationRoutes from './invitation.routes';
+import apiKeyRoutes from './apiKey.routes';
+import settingsRoutes from './settings.routes';
+import auditRoutes from './audit.routes';
+import rateLimitRoutes from './rateLimit.routes';
+import impersonationRoutes from './impersonation.routes';
+import activityRoutes from './activity.routes';
+import lockoutRoutes from './lockout.routes';
+import emailOutboxRoutes from './emailOutbox.routes';
+import emailTemplateRoutes from './emailTemplate.routes';
+import digestRoutes from './digest.routes';
+import alertRoutes from './alert.routes';
+import notificationRoutes from './notification.routes';
 
 /**
  * Route configuration interface
@@ -25,6 +40,7 @@ interface RouteConfig {
  */
 export const routes: RouteConfig[] = [
   { path: '/api/auth', router: authRoutes },
+  { path: '/api/auth/2fa', router: twoFactorRoutes },
   { path: '/api/users', router: userRoutes },
   { path: '/api/password', router: passwordRoutes },
   { path: '/api/otp', router: otpRoutes },
@@ -36,6 +52,20 @@ export const routes: RouteConfig[] = [
   { path: '/api/instagram-insights', router: instagramInsightsRoutes },
   { path: '/api/google-reviews', router: googleReviewRoutes },
   { path: '/api/entities', router: entitiesRoutes },
+  { path: '/api/roles', router: roleRoutes },
+  { path: '/api/invitations', router: invitationRoutes },
+  { path: '/api/api-keys', router: apiKeyRoutes },
+  { path: '/api/settings', router: settingsRoutes },
+  { path: '/api/audit-events', router: auditRoutes },
+  { path: '/api/rate-limits', router: rateLimitRoutes },
+  { path: '/api/impersonation', router: impersonationRoutes },
+  { path: '/api/activity', router: activityRoutes },
+  { path: '/api/lockouts', router: lockoutRoutes },
+  { path: '/api/email-outbox', router: emailOutboxRoutes },
+  { path: '/api/email-templates', router: emailTemplateRoutes },
+  { path: '/api/digest', router: digestRoutes },
+  { path: '/api/alerts', router: alertRoutes },
+  { path: '/api/notifications', router: notificationRoutes },
 ];
 
 export default routes;
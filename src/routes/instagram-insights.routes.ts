@@ -6,27 +6,32 @@ import {
   getInstagramTrends,
 } from '../controllers/instagram-insights.controller';
 import { authenticate } from '../middleware/auth.middleware';
-import { requireAdmin } from '../middleware/role.middleware';
+import { rateLimit } from '../middleware/rateLimit.middleware';
+import { RATE_LIMITS } from '../config/rateLimits';
+import { attachDataScope } from '../middleware/dataScope.middleware';
+import { requirePermission } from '../middleware/role.middleware';
 
 const router = Router();
 
-// All routes require authentication
+// All routes require authentication and are limited to the user's allowed entities
 router.use(authenticate);
+router.use(rateLimit(RATE_LIMITS.data));
+router.use(attachDataScope);
 
-// Sync Instagram data - Admin only
-router.post('/sync', requireAdmin, syncInstagramInsights);
+// Sync Instagram data - Requires instagram-insights:sync
+router.post('/sync', rateLimit(RATE_LIMITS.sync), requirePermission('instagram-insights:sync'), syncInstagramInsights);
 
-// Get Instagram insights data - Authenticated users
-router.get('/', getInstagramInsights);
+// Get Instagram insights data - Requires instagram-insights:read
+router.get('/', requirePermission('instagram-insights:read'), getInstagramInsights);
 
-// Get summary stats for dashboard card - Authenticated users
-router.get('/summary', getInstagramDashboardStats);
+// Get summary stats for dashboard card - Requires instagram-insights:read
+router.get('/summary', requirePermission('instagram-insights:read'), getInstagramDashboardStats);
 
-// Get dashboard stats - Authenticated users (legacy endpoint)
-router.get('/dashboard', getInstagramDashboardStats);
+// Get dashboard stats - Requires instagram-insights:read (legacy endpoint)
+router.get('/dashboard', requirePermission('instagram-insights:read'), getInstagramDashboardStats);
 
-// Get trends data - Authenticated users
-router.get('/trends', getInstagramTrends);
+// Get trends data - Requires instagram-insights:read
+router.get('/trends', requirePermission('instagram-insights:read'), getInstagramTrends);
 
 export default router;
 
@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import {
+  createInvitation,
+  getInvitations,
+  resendInvitation,
+  revokeInvitation,
+} from '../controllers/invitation.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requirePermission, requireUserSession } from '../middleware/role.middleware';
+import {
+  validateCreateInvitation,
+  handleValidationErrors,
+} from '../middleware/validation.middleware';
+
+const router = Router();
+
+// All invitation routes require users:manage and the caller's own session
+router.use(authenticate, requireUserSession, requirePermission('users:manage'));
+
+// Get invitations (with status filter and pagination)
+router.get('/', getInvitations);
+
+// Create invitation and email it to the invitee
+router.post(
+  '/',
+  validateCreateInvitation,
+  handleValidationErrors,
+  createInvitation
+);
+
+// Resend invitation with a new link and expiry
+router.post('/:id/resend', resendInvitation);
+
+// Revoke pending invitation
+router.post('/:id/revoke', revokeInvitation);
+
+export default router;
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { getLockouts, unlockAccount } from '../controllers/lockout.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireAdmin } from '../middleware/role.middleware';
+import {
+  validateLockoutQuery,
+  validateUnlockAccount,
+  handleValidationErrors,
+} from '../middleware/validation.middleware';
+
+const router = Router();
+
+// All lockout routes require an authenticated admin
+router.use(authenticate, requireAdmin);
+
+// Get current login lockouts (filter by email and scope) - Admin only
+router.get(
+  '/',
+  validateLockoutQuery,
+  handleValidationErrors,
+  getLockouts
+);
+
+// Unlock an email and clear its failed attempts - Admin only
+router.post(
+  '/unlock',
+  validateUnlockAccount,
+  handleValidationErrors,
+  unlockAccount
+);
+
+export default router;
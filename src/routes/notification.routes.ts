@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+  streamNotifications,
+} from '../controllers/notification.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireUserSession } from '../middleware/role.middleware';
+import {
+  validateNotificationQuery,
+  validateNotificationId,
+  validateMarkAllNotificationsRead,
+  handleValidationErrors,
+} from '../middleware/validation.middleware';
+
+const router = Router();
+
+// All notification routes require a signed-in user (not an API key) and only reach their own notifications
+router.use(authenticate, requireUserSession);
+
+// Get notifications
+router.get('/', validateNotificationQuery, handleValidationErrors, getNotifications);
+
+// Stream new notifications and the unread count (Server-Sent Events)
+router.get('/stream', streamNotifications);
+
+// Mark all notifications read
+router.post('/read-all', validateMarkAllNotificationsRead, handleValidationErrors, markAllNotificationsRead);
+
+// Mark a notification read
+router.patch('/:id/read', validateNotificationId, handleValidationErrors, markNotificationRead);
+
+export default router;
@@ -3,6 +3,8 @@ import {
   generateOTPForPurpose,
   verifyOTPForPurpose,
 } from '../controllers/otp.controller';
+import { rateLimit } from '../middleware/rateLimit.middleware';
+import { RATE_LIMITS } from '../config/rateLimits';
 import {
   validateGenerateOTP,
   validateVerifyOTP,
@@ -13,6 +15,7 @@ const router = Router();
 
 router.post(
   '/generate',
+  rateLimit(RATE_LIMITS.emailSend),
   validateGenerateOTP,
   handleValidationErrors,
   generateOTPForPurpose
@@ -20,6 +23,7 @@ router.post(
 
 router.post(
   '/verify',
+  rateLimit(RATE_LIMITS.otpVerify),
   validateVerifyOTP,
   handleValidationErrors,
   verifyOTPForPurpose
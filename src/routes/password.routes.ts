@@ -4,6 +4,8 @@ import {
   verifyResetOTP,
   resetPassword,
 } from '../controllers/password.controller';
+import { rateLimit } from '../middleware/rateLimit.middleware';
+import { RATE_LIMITS } from '../config/rateLimits';
 import {
   validateForgotPassword,
   validateVerifyResetOTP,
@@ -15,6 +17,7 @@ const router = Router();
 
 router.post(
   '/forgot',
+  rateLimit(RATE_LIMITS.emailSend),
   validateForgotPassword,
   handleValidationErrors,
   forgotPassword
@@ -22,6 +25,7 @@ router.post(
 
 router.post(
   '/verify-otp',
+  rateLimit(RATE_LIMITS.otpVerify),
   validateVerifyResetOTP,
   handleValidationErrors,
   verifyResetOTP
@@ -29,6 +33,7 @@ router.post(
 
 router.post(
   '/reset',
+  rateLimit(RATE_LIMITS.auth),
   validateResetPassword,
   handleValidationErrors,
   resetPassword
@@ -8,30 +8,35 @@ import {
   getProcurementDetail,
 } from '../controllers/procurement.controller';
 import { authenticate } from '../middleware/auth.middleware';
-import { requireAdmin } from '../middleware/role.middleware';
+import { rateLimit } from '../middleware/rateLimit.middleware';
+import { RATE_LIMITS } from '../config/rateLimits';
+import { attachDataScope } from '../middleware/dataScope.middleware';
+import { requirePermission } from '../middleware/role.middleware';
 
 const router = Router();
 
-// All routes require authentication
+// All routes require authentication and are limited to the user's allowed entities
 router.use(authenticate);
+router.use(rateLimit(RATE_LIMITS.data));
+router.use(attachDataScope);
 
-// Sync procurement purchase order data - Admin only
-router.post('/sync', requireAdmin, syncProcurement);
+// Sync procurement purchase order data - Requires procurement:sync
+router.post('/sync', rateLimit(RATE_LIMITS.sync), requirePermission('procurement:sync'), syncProcurement);
 
-// Get procurement summary - Authenticated users (must come before /:purchId)
-router.get('/summary', getProcurementSummary);
+// Get procurement summary - Requires procurement:read (must come before /:purchId)
+router.get('/summary', requirePermission('procurement:read'), getProcurementSummary);
 
-// Get procurement card data - Authenticated users (must come before /:purchId)
-router.get('/card-data', getProcurementCardData);
+// Get procurement card data - Requires procurement:read (must come before /:purchId)
+router.get('/card-data', requirePermission('procurement:read'), getProcurementCardData);
 
-// Get procurement detail with date grouping - Authenticated users (must come before /:purchId)
-router.get('/detail', getProcurementDetail);
+// Get procurement detail with date grouping - Requires procurement:read (must come before /:purchId)
+router.get('/detail', requirePermission('procurement:read'), getProcurementDetail);
 
-// Get procurement purchase orders - Authenticated users
-router.get('/', getProcurementOrders);
+// Get procurement purchase orders - Requires procurement:read
+router.get('/', requirePermission('procurement:read'), getProcurementOrders);
 
-// Get procurement purchase order by ID - Authenticated users
-router.get('/:purchId', getProcurementOrderById);
+// Get procurement purchase order by ID - Requires procurement:read
+router.get('/:purchId', requirePermission('procurement:read'), getProcurementOrderById);
 
 export default router;
 
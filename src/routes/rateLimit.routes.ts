@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { getRateLimits, clearRateLimits } from '../controllers/rateLimit.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireAdmin } from '../middleware/role.middleware';
+import {
+  validateRateLimitQuery,
+  handleValidationErrors,
+} from '../middleware/validation.middleware';
+
+const router = Router();
+
+// All rate limit routes require an authenticated admin
+router.use(authenticate, requireAdmin);
+
+// Get rules and current counters (filter by rule and identifier) - Admin only
+router.get(
+  '/',
+  validateRateLimitQuery,
+  handleValidationErrors,
+  getRateLimits
+);
+
+// Clear counters (filter by rule and identifier) - Admin only
+router.delete(
+  '/',
+  validateRateLimitQuery,
+  handleValidationErrors,
+  clearRateLimits
+);
+
+export default router;
@@ -9,7 +9,10 @@ import {
   getRevenueReservationByProject,
 } from '../controllers/revenue-reservation.controller';
 import { authenticate } from '../middleware/auth.middleware';
-import { requireAdmin } from '../middleware/role.middleware';
+import { rateLimit } from '../middleware/rateLimit.middleware';
+import { RATE_LIMITS } from '../config/rateLimits';
+import { attachDataScope } from '../middleware/dataScope.middleware';
+import { requirePermission } from '../middleware/role.middleware';
 import {
   validateSyncRevenueReservation,
   handleValidationErrors,
@@ -17,35 +20,38 @@ import {
 
 const router = Router();
 
-// All routes require authentication
+// All routes require authentication and are limited to the user's allowed entities
 router.use(authenticate);
+router.use(rateLimit(RATE_LIMITS.data));
+router.use(attachDataScope);
 
-// Sync revenue reservation data - Admin only
+// Sync revenue reservation data - Requires revenue-reservation:sync
 router.post(
   '/sync',
-  requireAdmin,
+  rateLimit(RATE_LIMITS.sync),
+  requirePermission('revenue-reservation:sync'),
   validateSyncRevenueReservation,
   handleValidationErrors,
   syncRevenueReservation
 );
 
-// Get revenue reservation data - Authenticated users
-router.get('/', getRevenueReservationData);
+// Get revenue reservation data - Requires revenue-reservation:read
+router.get('/', requirePermission('revenue-reservation:read'), getRevenueReservationData);
 
-// Get revenue reservation summary - Authenticated users
-router.get('/summary', getRevenueReservationSummary);
+// Get revenue reservation summary - Requires revenue-reservation:read
+router.get('/summary', requirePermission('revenue-reservation:read'), getRevenueReservationSummary);
 
-// Get revenue reservation detail with date grouping - Authenticated users
-router.get('/detail', getRevenueReservationDetail);
+// Get revenue reservation detail with date grouping - Requires revenue-reservation:read
+router.get('/detail', requirePermission('revenue-reservation:read'), getRevenueReservationDetail);
 
-// Get revenue reservation data aggregated by manager - Authenticated users
-router.get('/by-manager', getRevenueReservationByManager);
+// Get revenue reservation data aggregated by manager - Requires revenue-reservation:read
+router.get('/by-manager', requirePermission('revenue-reservation:read'), getRevenueReservationByManager);
 
-// Get revenue reservation data aggregated by director - Authenticated users
-router.get('/by-director', getRevenueReservationByDirector);
+// Get revenue reservation data aggregated by director - Requires revenue-reservation:read
+router.get('/by-director', requirePermission('revenue-reservation:read'), getRevenueReservationByDirector);
 
-// Get revenue reservation data aggregated by project - Authenticated users
-router.get('/by-project', getRevenueReservationByProject);
+// Get revenue reservation data aggregated by project - Requires revenue-reservation:read
+router.get('/by-project', requirePermission('revenue-reservation:read'), getRevenueReservationByProject);
 
 export default router;
 
@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import {
+  getRoles,
+  getPermissions,
+  createRole,
+  updateRole,
+  deleteRole,
+} from '../controllers/role.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requirePermission, requireUserSession } from '../middleware/role.middleware';
+import {
+  validateCreateRole,
+  validateUpdateRole,
+  handleValidationErrors,
+} from '../middleware/validation.middleware';
+
+const router = Router();
+
+// All role routes require roles:manage and the caller's own session
+router.use(authenticate, requireUserSession, requirePermission('roles:manage'));
+
+// Get all roles with their permissions
+router.get('/', getRoles);
+
+// Get all available permissions
+router.get('/permissions', getPermissions);
+
+// Create role with permissions the caller has
+router.post(
+  '/',
+  validateCreateRole,
+  handleValidationErrors,
+  createRole
+);
+
+// Update role permissions
+router.put(
+  '/:name',
+  validateUpdateRole,
+  handleValidationErrors,
+  updateRole
+);
+
+// Delete role
+router.delete('/:name', deleteRole);
+
+export default router;
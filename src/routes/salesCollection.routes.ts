@@ -7,7 +7,10 @@ import {
   getSalesCollectionChartData,
 } from '../controllers/salesCollection.controller';
 import { authenticate } from '../middleware/auth.middleware';
-import { requireAdmin } from '../middleware/role.middleware';
+import { rateLimit } from '../middleware/rateLimit.middleware';
+import { RATE_LIMITS } from '../config/rateLimits';
+import { attachDataScope } from '../middleware/dataScope.middleware';
+import { requirePermission } from '../middleware/role.middleware';
 import {
   validateSyncSalesCollection,
   handleValidationErrors,
@@ -15,29 +18,32 @@ import {
 
 const router = Router();
 
-// All routes require authentication
+// All routes require authentication and are limited to the user's allowed entities
 router.use(authenticate);
+router.use(rateLimit(RATE_LIMITS.data));
+router.use(attachDataScope);
 
-// Sync sales collection data - Admin only
+// Sync sales collection data - Requires sales-collection:sync
 router.post(
   '/sync',
-  requireAdmin,
+  rateLimit(RATE_LIMITS.sync),
+  requirePermission('sales-collection:sync'),
   validateSyncSalesCollection,
   handleValidationErrors,
   syncSalesCollection
 );
 
-// Get sales collection data - Authenticated users
-router.get('/', getSalesCollectionData);
+// Get sales collection data - Requires sales-collection:read
+router.get('/', requirePermission('sales-collection:read'), getSalesCollectionData);
 
-// Get sales collection summary - Authenticated users
-router.get('/summary', getSalesCollectionSummary);
+// Get sales collection summary - Requires sales-collection:read
+router.get('/summary', requirePermission('sales-collection:read'), getSalesCollectionSummary);
 
-// Get sales collection detail with date grouping - Authenticated users
-router.get('/detail', getSalesCollectionDetail);
+// Get sales collection detail with date grouping - Requires sales-collection:read
+router.get('/detail', requirePermission('sales-collection:read'), getSalesCollectionDetail);
 
-// Get sales collection chart data - Authenticated users
-router.get('/chart-data', getSalesCollectionChartData);
+// Get sales collection chart data - Requires sales-collection:read
+router.get('/chart-data', requirePermission('sales-collection:read'), getSalesCollectionChartData);
 
 export default router;
 
@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import {
+  getPasswordPolicySettings,
+  updatePasswordPolicySettings,
+  resetPasswordPolicySettings,
+  getAuditRetentionSettings,
+  updateAuditRetentionSettings,
+} from '../controllers/settings.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireAdmin } from '../middleware/role.middleware';
+import {
+  validateUpdatePasswordPolicy,
+  validateUpdateAuditRetention,
+  handleValidationErrors,
+} from '../middleware/validation.middleware';
+
+const router = Router();
+
+// All settings routes require an authenticated admin
+router.use(authenticate, requireAdmin);
+
+// Get the effective password policy - Admin only
+router.get('/password-policy', getPasswordPolicySettings);
+
+// Override password policy fields - Admin only
+router.put(
+  '/password-policy',
+  validateUpdatePasswordPolicy,
+  handleValidationErrors,
+  updatePasswordPolicySettings
+);
+
+// Reset the password policy to the environment defaults - Admin only
+router.delete('/password-policy', resetPasswordPolicySettings);
+
+// Get audit log retention in days - Admin only
+router.get('/audit-retention', getAuditRetentionSettings);
+
+// Change audit log retention - Admin only
+router.put(
+  '/audit-retention',
+  validateUpdateAuditRetention,
+  handleValidationErrors,
+  updateAuditRetentionSettings
+);
+
+export default router;
@@ -0,0 +1,89 @@
+import { Router } from 'express';
+import {
+  verifyTwoFactorLogin,
+  startTwoFactorSetup,
+  confirmTwoFactorSetup,
+  getTwoFactorStatus,
+  enrollTwoFactor,
+  confirmTwoFactor,
+  disableOwnTwoFactor,
+  regenerateOwnRecoveryCodes,
+} from '../controllers/twoFactor.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { requireUserSession } from '../middleware/role.middleware';
+import { rateLimit } from '../middleware/rateLimit.middleware';
+import { RATE_LIMITS } from '../config/rateLimits';
+import {
+  validateTwoFactorCode,
+  validateTwoFactorLogin,
+  validateTwoFactorSetup,
+  validateTwoFactorSetupConfirm,
+  validateDisableTwoFactor,
+  handleValidationErrors,
+} from '../middleware/validation.middleware';
+
+const router = Router();
+
+// Second login step - exchange the challenge token and a TOTP or recovery code for tokens
+router.post(
+  '/verify',
+  rateLimit(RATE_LIMITS.auth),
+  validateTwoFactorLogin,
+  handleValidationErrors,
+  verifyTwoFactorLogin
+);
+
+// Mandatory enrollment during login - uses the setup token returned by login
+router.post(
+  '/setup',
+  rateLimit(RATE_LIMITS.auth),
+  validateTwoFactorSetup,
+  handleValidationErrors,
+  startTwoFactorSetup
+);
+
+router.post(
+  '/setup/confirm',
+  rateLimit(RATE_LIMITS.auth),
+  validateTwoFactorSetupConfirm,
+  handleValidationErrors,
+  confirmTwoFactorSetup
+);
+
+// Get 2FA status (protected)
+router.get('/', authenticate, requireUserSession, getTwoFactorStatus);
+
+// Start enrollment - returns the secret and otpauth URI (protected)
+router.post('/enroll', authenticate, requireUserSession, enrollTwoFactor);
+
+// Confirm enrollment with a TOTP code - returns recovery codes (protected)
+router.post(
+  '/confirm',
+  authenticate,
+  requireUserSession,
+  validateTwoFactorCode,
+  handleValidationErrors,
+  confirmTwoFactor
+);
+
+// Disable 2FA - requires password and a TOTP or recovery code (protected)
+router.post(
+  '/disable',
+  authenticate,
+  requireUserSession,
+  validateDisableTwoFactor,
+  handleValidationErrors,
+  disableOwnTwoFactor
+);
+
+// Regenerate recovery codes - requires a TOTP code (protected)
+router.post(
+  '/recovery-codes',
+  authenticate,
+  requireUserSession,
+  validateTwoFactorCode,
+  handleValidationErrors,
+  regenerateOwnRecoveryCodes
+);
+
+export default router;
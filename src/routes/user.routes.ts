@@ -1,14 +1,60 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import {
   getAllUsers,
   getUserById,
   updateUser,
   deleteUser,
+  updateUserEntities,
+  suspendUser,
+  deactivateUser,
+  reactivateUser,
+  restoreUser,
+  purgeDeletedUser,
+  updateUserRole,
+  exportUsers,
+  importUsers,
 } from '../controllers/user.controller';
+import {
+  getMyProfile,
+  updateMyProfile,
+  changeMyPassword,
+  requestEmailChange,
+  confirmEmailChange,
+} from '../controllers/profile.controller';
+import { resetUserTwoFactor } from '../controllers/twoFactor.controller';
+import {
+  getMySessions,
+  revokeMySession,
+  revokeMyOtherSessions,
+  getUserSessions,
+  revokeUserSession,
+  revokeAllUserSessions,
+} from '../controllers/session.controller';
+import {
+  getMyLoginHistory,
+  getUserLoginHistory,
+} from '../controllers/activity.controller';
+import { getMyDigest, updateMyDigest } from '../controllers/digest.controller';
 import { authenticate } from '../middleware/auth.middleware';
-import { requireAdmin, requireUser } from '../middleware/role.middleware';
+import {
+  requireAdmin,
+  requirePermission,
+  requireUser,
+  requireUserSession,
+} from '../middleware/role.middleware';
 import {
   validateUpdateUser,
+  validateUpdateUserEntities,
+  validateSessionId,
+  validateAccountStatusChange,
+  validateUpdateProfile,
+  validateChangePassword,
+  validateEmailChangeRequest,
+  validateEmailChangeConfirm,
+  validateUpdateUserRole,
+  validateUserListQuery,
+  validateUserImport,
+  validateUpdateDigestSettings,
   handleValidationErrors,
 } from '../middleware/validation.middleware';
 
@@ -17,8 +63,99 @@ const router = Router();
 // All user routes require authentication
 router.use(authenticate);
 
-// Get all users - Admin only
-router.get('/', requireAdmin, getAllUsers);
+// Own-account routes need the user's own session, not an API key or impersonation token
+router.use('/me', requireUserSession);
+
+// Get own profile
+router.get('/me', getMyProfile);
+
+// Update own profile fields (email, password and role have their own flows)
+router.patch(
+  '/me',
+  validateUpdateProfile,
+  handleValidationErrors,
+  updateMyProfile
+);
+
+// Change own password - requires the current password
+router.post(
+  '/me/password',
+  validateChangePassword,
+  handleValidationErrors,
+  changeMyPassword
+);
+
+// Request email change - sends an OTP to the new address
+router.post(
+  '/me/email',
+  validateEmailChangeRequest,
+  handleValidationErrors,
+  requestEmailChange
+);
+
+// Confirm email change with the OTP
+router.post(
+  '/me/email/verify',
+  validateEmailChangeConfirm,
+  handleValidationErrors,
+  confirmEmailChange
+);
+
+// Get own active sessions
+router.get('/me/sessions', getMySessions);
+
+// Get own recent login attempts
+router.get('/me/login-history', getMyLoginHistory);
+
+// Get own daily KPI digest settings
+router.get('/me/digest', getMyDigest);
+
+// Subscribe to the daily KPI digest or change its sections and send time
+router.put(
+  '/me/digest',
+  validateUpdateDigestSettings,
+  handleValidationErrors,
+  updateMyDigest
+);
+
+// Revoke all own sessions except the current one
+router.delete('/me/sessions', revokeMyOtherSessions);
+
+// Revoke one own session
+router.delete(
+  '/me/sessions/:sessionId',
+  validateSessionId,
+  handleValidationErrors,
+  revokeMySession
+);
+
+// Get all users (filter and sort by profile and activity fields) - Requires users:read
+router.get(
+  '/',
+  requirePermission('users:read'),
+  validateUserListQuery,
+  handleValidationErrors,
+  getAllUsers
+);
+
+// Export users matching the list filters as CSV - Admin only
+router.get(
+  '/export',
+  requireAdmin,
+  validateUserListQuery,
+  handleValidationErrors,
+  exportUsers
+);
+
+// Import users from CSV (text/csv) or JSON - dry run unless ?dryRun=false - Admin only
+router.post(
+  '/import',
+  requireAdmin,
+  express.text({ type: ['text/csv', 'text/plain'], limit: '2mb' }),
+  validateUserImport,
+  handleValidationErrors,
+  importUsers
+);
 
 // Get user by ID - Admin can get any, User can get own
 router.get('/:id', requireUser, getUserById);
@@ -32,8 +169,93 @@ router.put(
   updateUser
 );
 
-// Delete user - Admin only
-router.delete('/:id', requireAdmin, deleteUser);
+// Change user's role - Admin only
+router.put(
+  '/:id/role',
+  requireAdmin,
+  validateUpdateUserRole,
+  handleValidationErrors,
+  updateUserRole
+);
+
+// Set entities the user can access - Requires users:manage and the caller's own session
+router.put(
+  '/:id/entities',
+  requireUserSession,
+  requirePermission('users:manage'),
+  validateUpdateUserEntities,
+  handleValidationErrors,
+  updateUserEntities
+);
+
+// Get user's recent login attempts - Requires users:read
+router.get('/:id/login-history', requirePermission('users:read'), getUserLoginHistory);
+
+// Get user's active sessions - Requires users:read
+router.get('/:id/sessions', requirePermission('users:read'), getUserSessions);
+
+// Revoke all of a user's sessions - Requires users:manage
+router.delete('/:id/sessions', requirePermission('users:manage'), revokeAllUserSessions);
+
+// Revoke one of a user's sessions - Requires users:manage
+router.delete(
+  '/:id/sessions/:sessionId',
+  requirePermission('users:manage'),
+  validateSessionId,
+  handleValidationErrors,
+  revokeUserSession
+);
+
+// Reset user's two-factor authentication - Admin only
+router.delete('/:id/2fa', requireAdmin, resetUserTwoFactor);
+
+// Suspend user - Requires users:manage
+router.post(
+  '/:id/suspend',
+  requirePermission('users:manage'),
+  validateAccountStatusChange,
+  handleValidationErrors,
+  suspendUser
+);
+
+// Deactivate user - Requires users:manage
+router.post(
+  '/:id/deactivate',
+  requirePermission('users:manage'),
+  validateAccountStatusChange,
+  handleValidationErrors,
+  deactivateUser
+);
+
+// Reactivate suspended or deactivated user - Requires users:manage
+router.post(
+  '/:id/reactivate',
+  requirePermission('users:manage'),
+  validateAccountStatusChange,
+  handleValidationErrors,
+  reactivateUser
+);
+
+// Restore soft-deleted user within the restore window - Requires users:manage
+router.post(
+  '/:id/restore',
+  requirePermission('users:manage'),
+  validateAccountStatusChange,
+  handleValidationErrors,
+  restoreUser
+);
+
+// Permanently delete a soft-deleted user - Admin only
+router.delete('/:id/purge', requireAdmin, purgeDeletedUser);
+
+// Soft-delete user - Requires users:manage
+router.delete(
+  '/:id',
+  requirePermission('users:manage'),
+  validateAccountStatusChange,
+  handleValidationErrors,
+  deleteUser
+);
 
 export default router;
 
@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Minimal OpenID Connect provider for testing single sign-on locally
+ * Every authorization request is approved straight away for the login_hint (or MOCK_OIDC_EMAIL).
+ *
+ * Run: npx ts-node src/scripts/mockOidcProvider.ts
+ * Then start the API with SSO_ENABLED=true SSO_ISSUER=http://localhost:4010 SSO_CLIENT_ID=mock-client
+ */
+
+const PORT = parseInt(process.env.MOCK_OIDC_PORT || '4010', 10);
+const ISSUER = process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`;
+const DEFAULT_EMAIL = process.env.MOCK_OIDC_EMAIL || 'mock.user@example.com';
+const GROUPS = (process.env.MOCK_OIDC_GROUPS || '').split(',').map((group) => group.trim()).filter(Boolean);
+const KEY_ID = 'mock-oidc-key';
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge: string;
+  email: string;
+}
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const codes = new Map<string, PendingCode>();
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get('/.well-known/openid-configuration', (_req, res) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+  });
+});
+
+app.get('/jwks', (_req, res) => {
+  res.json({
+    keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }],
+  });
+});
+
+app.get('/authorize', (req, res) => {
+  const query = req.query as Record<string, string | undefined>;
+
+  if (!query.redirect_uri || !query.client_id || !query.state) {
+    res.status(400).send('client_id, redirect_uri and state are required');
+    return;
+  }
+  if (query.code_challenge_method !== 'S256' || !query.code_challenge) {
+    res.status(400).send('PKCE with S256 is required');
+    return;
+  }
+
+  const code = crypto.randomBytes(24).toString('base64url');
+  codes.set(code, {
+    clientId: query.client_id,
+    redirectUri: query.redirect_uri,
+    nonce: query.nonce,
+    codeChallenge: query.code_challenge,
+    email: (query.login_hint || DEFAULT_EMAIL).toLowerCase(),
+  });
+
+  const redirect = new URL(query.redirect_uri);
+  redirect.searchParams.set('code', code);
+  redirect.searchParams.set('state', query.state);
+  res.redirect(302, redirect.toString());
+});
+
+app.post('/token', (req, res) => {
+  const { grant_type: grantType, code, redirect_uri: redirectUri, client_id: clientId, code_verifier: codeVerifier } =
+    req.body;
+
+  const pending = codes.get(code);
+  codes.delete(code);
+
+  if (grantType !== 'authorization_code' || !pending) {
+    res.status(400).json({ error: 'invalid_grant', error_description: 'Unknown or used authorization code' });
+    return;
+  }
+  if (pending.clientId !== clientId || pending.redirectUri !== redirectUri) {
+    res.status(400).json({ error: 'invalid_grant', error_description: 'client_id or redirect_uri mismatch' });
+    return;
+  }
+
+  const challenge = crypto.createHash('sha256').update(codeVerifier || '').digest('base64url');
+  if (challenge !== pending.codeChallenge) {
+    res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    return;
+  }
+
+  const subject = crypto.createHash('sha256').update(pending.email).digest('hex').slice(0, 32);
+  const [localPart] = pending.email.split('@');
+
+  const idToken = jwt.sign(
+    {
+      sub: subject,
+      oid: subject,
+      email: pending.email,
+      preferred_username: pending.email,
+      name: localPart,
+      groups: GROUPS,
+      ...(pending.nonce && { nonce: pending.nonce }),
+    },
+    privateKey,
+    { algorithm: 'RS256', keyid: KEY_ID, issuer: ISSUER, audience: clientId, expiresIn: '10m' }
+  );
+
+  res.json({
+    token_type: 'Bearer',
+    access_token: crypto.randomBytes(24).toString('base64url'),
+    id_token: idToken,
+    expires_in: 600,
+  });
+});
+
+app.listen(PORT, () => {
+  console.log(`🔐 Mock OIDC provider running at ${ISSUER}`);
+  console.log(`   Default user: ${DEFAULT_EMAIL}${GROUPS.length ? ` (groups: ${GROUPS.join(', ')})` : ''}`);
+});
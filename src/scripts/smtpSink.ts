@@ -0,0 +1,133 @@
+import crypto from 'crypto';
+import net from 'net';
+
+/**
+ * Minimal SMTP server for testing email delivery locally
+ * Accepts every message and prints it instead of delivering it. Recipients whose address starts with
+ * "bounce" are refused with 550, and SMTP_SINK_TEMPFAIL=true answers every message with 451 to exercise retries.
+ *
+ * Run: npx ts-node src/scripts/smtpSink.ts
+ * Then start the API with EMAIL_HOST=localhost EMAIL_PORT=2525 EMAIL_SECURE=false
+ */
+
+const PORT = parseInt(process.env.SMTP_SINK_PORT || '2525', 10);
+const TEMPFAIL = process.env.SMTP_SINK_TEMPFAIL === 'true';
+const PRINT_BODY = process.env.SMTP_SINK_PRINT_BODY === 'true';
+
+/**
+ * Get the address from a MAIL FROM / RCPT TO argument
+ */
+const parseAddress = (argument: string): string => {
+  const match = argument.match(/<([^>]*)>/);
+  return (match ? match[1] : argument.split(':').slice(1).join(':')).trim().toLowerCase();
+};
+
+const server = net.createServer((socket) => {
+  let buffer = '';
+  let readingData = false;
+  let data: string[] = [];
+  let from = '';
+  let recipients: string[] = [];
+
+  const reply = (line: string) => socket.write(`${line}\r\n`);
+
+  const reset = () => {
+    from = '';
+    recipients = [];
+    data = [];
+  };
+
+  const finishMessage = () => {
+    readingData = false;
+    const message = data.join('\r\n');
+    const subject = message.match(/^Subject: (.*)$/im)?.[1] || '(no subject)';
+
+    if (TEMPFAIL) {
+      reply('451 4.3.0 Temporary failure, try again later');
+    } else {
+      const id = crypto.randomBytes(6).toString('hex');
+      console.log(`📨 ${id} from ${from} to ${recipients.join(', ')}: ${subject}`);
+      if (PRINT_BODY) {
+        console.log(message);
+      }
+      reply(`250 2.0.0 OK queued as ${id}`);
+    }
+    reset();
+  };
+
+  const handleCommand = (line: string) => {
+    const [command] = line.split(' ');
+    switch (command.toUpperCase()) {
+      case 'EHLO':
+        reply('250-smtp-sink');
+        reply('250 8BITMIME');
+        break;
+      case 'HELO':
+        reply('250 smtp-sink');
+        break;
+      case 'MAIL':
+        from = parseAddress(line);
+        reply('250 2.1.0 OK');
+        break;
+      case 'RCPT': {
+        const recipient = parseAddress(line);
+        if (recipient.startsWith('bounce')) {
+          reply(`550 5.1.1 <${recipient}>: Recipient address rejected`);
+        } else {
+          recipients.push(recipient);
+          reply('250 2.1.5 OK');
+        }
+        break;
+      }
+      case 'DATA':
+        if (recipients.length === 0) {
+          reply('554 5.5.1 No valid recipients');
+        } else {
+          readingData = true;
+          reply('354 End data with <CR><LF>.<CR><LF>');
+        }
+        break;
+      case 'RSET':
+        reset();
+        reply('250 2.0.0 OK');
+        break;
+      case 'NOOP':
+        reply('250 2.0.0 OK');
+        break;
+      case 'QUIT':
+        reply('221 2.0.0 Bye');
+        socket.end();
+        break;
+      default:
+        reply('502 5.5.2 Command not implemented');
+    }
+  };
+
+  reply('220 smtp-sink ESMTP');
+
+  socket.on('data', (chunk) => {
+    buffer += chunk.toString('utf8');
+
+    let index: number;
+    while ((index = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+
+      if (readingData) {
+        if (line === '.') {
+          finishMessage();
+        } else {
+          data.push(line.startsWith('..') ? line.slice(1) : line);
+        }
+      } else {
+        handleCommand(line);
+      }
+    }
+  });
+
+  socket.on('error', () => socket.destroy());
+});
+
+server.listen(PORT, () => {
+  console.log(`📭 SMTP sink listening on port ${PORT}${TEMPFAIL ? ' (rejecting every message with 451)' : ''}`);
+});
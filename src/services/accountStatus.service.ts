@@ -0,0 +1,124 @@
+import mongoose from 'mongoose';
+import { redisClient } from '../config/redis';
+import User from '../models/user.model';
+import Session from '../models/session.model';
+import { AccountStatus, IUser } from '../types';
+import { AppError } from '../utils/errors';
+import { revokeAllUserTokens } from './token.service';
+
+const ACCOUNT_RESTORE_WINDOW_DAYS = parseInt(process.env.ACCOUNT_RESTORE_WINDOW_DAYS || '30', 10);
+const REQUIRE_EMAIL_VERIFICATION = process.env.REQUIRE_EMAIL_VERIFICATION === 'true';
+
+const STATUS_MESSAGES: Record<Exclude<AccountStatus, 'active'>, string> = {
+  suspended: 'Your account has been suspended. Please contact an administrator.',
+  deactivated: 'Your account has been deactivated. Please contact an administrator.',
+  deleted: 'Invalid email or password',
+};
+
+/**
+ * Get Redis key marking a user whose account is not active
+ * Lets authenticate reject tokens without a MongoDB lookup per request
+ */
+const getBlockedUserKey = (userId: string): string => {
+  return `auth:blocked:${userId}`;
+};
+
+/**
+ * Ensure a user is allowed to log in
+ * Throws a 403 AppError for inactive accounts (and unverified emails when required)
+ */
+export const assertCanLogin = (user: IUser): void => {
+  const status = user.status || 'active';
+
+  if (status === 'deleted') {
+    // Deleted accounts look like unknown accounts
+    throw new AppError(STATUS_MESSAGES.deleted, 401);
+  }
+
+  if (status !== 'active') {
+    throw new AppError(STATUS_MESSAGES[status], 403);
+  }
+
+  if (REQUIRE_EMAIL_VERIFICATION && !user.emailVerified) {
+    throw new AppError('Please verify your email address before logging in', 403);
+  }
+};
+
+/**
+ * Check if a user's account has been suspended, deactivated or deleted
+ */
+export const isAccountBlocked = async (userId: string): Promise<boolean> => {
+  const exists = await redisClient.exists(getBlockedUserKey(userId));
+  return exists === 1;
+};
+
+/**
+ * Change a user's account status
+ * Any status other than active revokes all sessions and blocks existing access tokens
+ */
+export const changeAccountStatus = async (
+  user: IUser,
+  status: AccountStatus,
+  actorId: string | undefined,
+  reason?: string
+): Promise<IUser> => {
+  const now = new Date();
+
+  user.status = status;
+  user.statusReason = reason;
+  user.statusChangedAt = now;
+  user.statusChangedBy = actorId ? new mongoose.Types.ObjectId(actorId) : undefined;
+
+  if (status === 'deleted') {
+    user.deletedAt = now;
+    user.purgeAfter = new Date(now.getTime() + ACCOUNT_RESTORE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  } else {
+    user.deletedAt = undefined;
+    user.purgeAfter = undefined;
+  }
+
+  await user.save();
+
+  const userId = user._id.toString();
+  if (status === 'active') {
+    await redisClient.del(getBlockedUserKey(userId));
+  } else {
+    await redisClient.set(getBlockedUserKey(userId), status);
+    await revokeAllUserTokens(userId);
+  }
+
+  return user;
+};
+
+/**
+ * Permanently delete a soft-deleted user and their session records
+ */
+export const purgeUser = async (userId: string): Promise<void> => {
+  await User.deleteOne({ _id: userId, status: 'deleted' });
+  await Session.deleteMany({ userId });
+  await redisClient.del(getBlockedUserKey(userId));
+};
+
+/**
+ * Permanently delete users whose restore window has passed
+ * Returns the number of users purged
+ */
+export const purgeExpiredDeletedUsers = async (): Promise<number> => {
+  const users = await User.find({
+    status: 'deleted',
+    purgeAfter: { $lte: new Date() },
+  }).select('_id');
+
+  for (const user of users) {
+    await purgeUser(user._id.toString());
+  }
+
+  return users.length;
+};
+
+/**
+ * Get the number of days a soft-deleted account can be restored
+ */
+export const getRestoreWindowDays = (): number => {
+  return ACCOUNT_RESTORE_WINDOW_DAYS;
+};
@@ -0,0 +1,539 @@
+import AlertRule, {
+  IAlertRule,
+  AlertRuleType,
+  AlertRuleCondition,
+  AlertKpiMetric,
+} from '../models/alertRule.model';
+import AlertEvaluation, {
+  IAlertEvaluation,
+  AlertEvaluationStatus,
+  ALERT_HISTORY_RETENTION_DAYS,
+} from '../models/alertEvaluation.model';
+import User from '../models/user.model';
+import Project from '../models/project.model';
+import ProcurementPurchaseOrder from '../models/procurement-purchase-order.model';
+import GoogleReview from '../models/google-review.model';
+import { Permission } from '../config/permissions';
+import { DEFAULT_LOCALE, LOCALE_SETTINGS, Locale } from '../config/locales';
+import { IUser } from '../types';
+import { AppError } from '../utils/errors';
+import { applyEntityScope, applyProjectScope, assertProjectAllowed } from '../utils/dataScope';
+import { roleHasPermissions } from './permission.service';
+import { getUserDataScope } from './dataScope.service';
+import { sendTemplatedEmail } from './emailTemplate.service';
+import { publishNotification } from './notification.service';
+import {
+  getLiquiditySummaryData,
+  getSalesCollectionSummaryData,
+  getReservationSummaryData,
+  getCollectionForDate,
+} from './kpi.service';
+
+/**
+ * Alert rules are checked after the syncs of the datasets they watch, using the same figures as the dashboard
+ * and the owner's data scope. Each thing a rule fires on (a day's figures, a purchase order, a review) is
+ * alerted on once; triggers during the rule's cooldown are recorded without being sent.
+ */
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+const ALERT_TEMPLATE = 'alert-triggered';
+const MAX_ALERT_MATCHES = 20;
+const REVIEW_EXCERPT_LENGTH = 200;
+
+// Business days for collection streaks are Monday to Friday
+const WEEKEND_DAYS = [0, 6];
+
+// Purchase orders count as approved from approval on, so a sync that misses the 'Approved' step still alerts
+const APPROVED_STATUSES = ['Approved', 'Confirmed', 'Finalized'];
+
+export const ALERT_DATASETS = [
+  'finance-reserve',
+  'sales-collection',
+  'revenue-reservation',
+  'procurement',
+  'expense-paidout',
+  'instagram-insights',
+  'google-reviews',
+] as const;
+
+export type AlertDataset = (typeof ALERT_DATASETS)[number];
+
+const KPI_METRIC_DATASETS: Record<AlertKpiMetric, AlertDataset> = {
+  liquidity: 'finance-reserve',
+  collections: 'sales-collection',
+  'net-reservations': 'revenue-reservation',
+};
+
+interface AlertMatch {
+  key: string;
+  [field: string]: unknown;
+}
+
+interface RuleResult {
+  matches: AlertMatch[]; // Empty when the condition isn't met
+  value?: number;
+  summary: (matches: AlertMatch[]) => string;
+}
+
+const evaluationsInProgress = new Set<AlertDataset>();
+
+/**
+ * Get the dataset a rule watches
+ */
+export const getRuleDataset = (rule: Pick<IAlertRule, 'type' | 'condition'>): AlertDataset => {
+  switch (rule.type) {
+    case 'kpi-change':
+      return KPI_METRIC_DATASETS[rule.condition.metric as AlertKpiMetric];
+    case 'zero-collection':
+      return 'sales-collection';
+    case 'purchase-order-approved':
+      return 'procurement';
+    case 'google-review':
+      return 'google-reviews';
+  }
+};
+
+/**
+ * Check that a user may watch a rule's dataset (and project) before it is saved
+ */
+export const assertCanWatch = async (
+  userId: string,
+  role: string,
+  rule: Pick<IAlertRule, 'type' | 'condition'>
+): Promise<void> => {
+  const permission = `${getRuleDataset(rule)}:read` as Permission;
+  if (!(await roleHasPermissions(role, [permission]))) {
+    throw new AppError(`Access denied. Alerts on this data require the ${permission} permission.`, 403);
+  }
+
+  if (rule.condition.project) {
+    if (!(await Project.exists({ _id: rule.condition.project }))) {
+      throw new AppError('Project not found', 400);
+    }
+    assertProjectAllowed(await getUserDataScope(userId), rule.condition.project);
+  }
+};
+
+/**
+ * Keep only the condition fields used by a rule type
+ */
+export const pickRuleCondition = (type: AlertRuleType, input: Record<string, any> = {}): AlertRuleCondition => {
+  switch (type) {
+    case 'kpi-change':
+      return { metric: input.metric, direction: input.direction, percent: input.percent };
+    case 'zero-collection':
+      return {
+        collectionType: input.collectionType || 'total',
+        businessDays: input.businessDays,
+        ...(input.project && { project: input.project }),
+      };
+    case 'purchase-order-approved':
+      return { minAmount: input.minAmount };
+    case 'google-review':
+      return { maxRating: input.maxRating };
+  }
+};
+
+/**
+ * Format a yyyy-mm-dd string of a UTC date
+ */
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * Get the last business days before today (UTC), most recent first
+ */
+const getPreviousBusinessDays = (count: number): Date[] => {
+  const days: Date[] = [];
+  const day = new Date();
+  day.setUTCHours(0, 0, 0, 0);
+
+  while (days.length < count) {
+    day.setUTCDate(day.getUTCDate() - 1);
+    if (!WEEKEND_DAYS.includes(day.getUTCDay())) {
+      days.push(new Date(day));
+    }
+  }
+  return days;
+};
+
+/**
+ * Get the keys a rule has already alerted on (sent or suppressed)
+ */
+const getAlertedKeys = async (rule: IAlertRule, prefix: string): Promise<string[]> => {
+  const keys: string[] = await AlertEvaluation.distinct('keys', {
+    rule: rule._id,
+    status: { $in: ['triggered', 'suppressed'] },
+  });
+  return keys.filter((key) => key.startsWith(prefix)).map((key) => key.slice(prefix.length));
+};
+
+/**
+ * Get the earliest time a rule looks back to for purchase orders and reviews
+ * Never before the alert history starts, so nothing is alerted on again once its evaluation expires
+ */
+const getAlertWindowStart = (from: Date): Date => {
+  const historyStart = Date.now() - ALERT_HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  return new Date(Math.max(from.getTime(), historyStart));
+};
+
+/**
+ * kpi-change: the day-over-day change of a dashboard KPI passes the threshold
+ */
+const evaluateKpiChange = async (rule: IAlertRule): Promise<RuleResult> => {
+  const { metric, direction, percent = 0 } = rule.condition;
+  const scope = await getUserDataScope(rule.owner.toString());
+
+  let date: string;
+  let current: number;
+  let previous: number;
+  let change: { percentage: number; percentageFormatted: string };
+
+  if (metric === 'liquidity') {
+    const data = await getLiquiditySummaryData(scope);
+    ({ date } = data.yesterday);
+    current = data.yesterday.totalReserve;
+    previous = data.previousDay.totalReserve;
+    change = data.change;
+  } else if (metric === 'collections') {
+    const data = await getSalesCollectionSummaryData(scope);
+    ({ date } = data.yesterday);
+    current = data.yesterday.totalCollection;
+    previous = data.previousDay.totalCollection;
+    change = data.change;
+  } else {
+    const match: Record<string, any> = {};
+    applyProjectScope(match, 'projectId', scope);
+    const data = await getReservationSummaryData(match);
+    ({ date } = data.yesterday);
+    current = data.yesterday.netReservedAmount;
+    previous = data.previousDay.netReservedAmount;
+    change = data.change;
+  }
+
+  const met = direction === 'drop' ? change.percentage < -percent : change.percentage > percent;
+
+  return {
+    value: change.percentage,
+    matches: met ? [{ key: `${metric}:${date}`, metric, direction, date, current, previous, change: change.percentageFormatted, percent }] : [],
+    summary: () =>
+      `${metric} ${direction === 'drop' ? 'dropped' : 'rose'} ${change.percentageFormatted} on ${date} ` +
+      `(${previous.toLocaleString('en-US')} to ${current.toLocaleString('en-US')})`,
+  };
+};
+
+/**
+ * zero-collection: nothing was collected on each of the last business days
+ */
+const evaluateZeroCollection = async (rule: IAlertRule): Promise<RuleResult> => {
+  const { collectionType = 'total', businessDays = 1, project } = rule.condition;
+  const scope = await getUserDataScope(rule.owner.toString());
+  const projectId = project?.toString();
+
+  const days = getPreviousBusinessDays(businessDays);
+  let total = 0;
+  for (const day of days) {
+    const end = new Date(day);
+    end.setUTCHours(23, 59, 59, 999);
+
+    const collection = await getCollectionForDate(day, end, scope, projectId);
+    total += collectionType === 'escrow'
+      ? collection.escrowCollection
+      : collectionType === 'non-escrow'
+        ? collection.nonEscrowCollection
+        : collection.totalCollection;
+
+    if (total !== 0) {
+      break;
+    }
+  }
+
+  const projectName = project ? (await Project.findById(project).select('projectName').lean())?.projectName : undefined;
+  const from = toDateString(days[days.length - 1]);
+  const to = toDateString(days[0]);
+
+  return {
+    value: total,
+    matches: total === 0 ? [{ key: `collection:${to}`, collectionType, projectName, businessDays, from, to }] : [],
+    summary: () =>
+      `No ${collectionType} collection${projectName ? ` for ${projectName}` : ''} ` +
+      `for ${businessDays} business day(s) (${from} to ${to})`,
+  };
+};
+
+/**
+ * purchase-order-approved: purchase orders above the amount that were approved when first synced after the rule
+ * was created. The procurement sync only inserts new purchase orders, so approvals after their first sync are not seen.
+ */
+const evaluatePurchaseOrders = async (rule: IAlertRule): Promise<RuleResult> => {
+  const { minAmount = 0 } = rule.condition;
+  const scope = await getUserDataScope(rule.owner.toString());
+
+  const match: Record<string, any> = {
+    approvalStatus: { $in: APPROVED_STATUSES },
+    totalAmount: { $gte: minAmount },
+    createdAt: { $gte: getAlertWindowStart(rule.createdAt) }, // When the sync inserted it
+    purchId: { $nin: await getAlertedKeys(rule, 'po:') },
+  };
+  applyEntityScope(match, 'entityId', scope);
+
+  const orders = await ProcurementPurchaseOrder.find(match)
+    .sort({ createdAt: -1 })
+    .limit(MAX_ALERT_MATCHES)
+    .select('purchId venderName totalAmount currency approvalStatus dataAreaId')
+    .lean();
+
+  return {
+    value: orders.length,
+    matches: orders.map((order) => ({
+      key: `po:${order.purchId}`,
+      purchId: order.purchId,
+      vendor: order.venderName,
+      amount: order.totalAmount,
+      currency: order.currency || 'AED',
+      status: order.approvalStatus,
+    })),
+    summary: (matches) =>
+      `${matches.length} purchase order(s) of ${minAmount.toLocaleString('en-US')} or more approved: ` +
+      matches.map((order) => `${order.purchId} (${order.vendor}, ${Number(order.amount).toLocaleString('en-US')})`).join(', '),
+  };
+};
+
+/**
+ * google-review: reviews at or below the rating dated since the day the rule was created
+ * The review sync replaces every review, so reviews are told apart by their Google review ID
+ */
+const evaluateGoogleReviews = async (rule: IAlertRule): Promise<RuleResult> => {
+  const { maxRating = 1 } = rule.condition;
+
+  // Review dates may have no time of day, so the rule's creation day counts
+  const createdDay = new Date(rule.createdAt);
+  createdDay.setUTCHours(0, 0, 0, 0);
+
+  const reviews = await GoogleReview.find({
+    starRating: { $lte: maxRating },
+    date: { $gte: getAlertWindowStart(createdDay) },
+    reviewId: { $nin: await getAlertedKeys(rule, 'review:') },
+  })
+    .sort({ date: -1 })
+    .limit(MAX_ALERT_MATCHES)
+    .select('reviewId reviewer comment starRating date')
+    .lean();
+
+  return {
+    value: reviews.length,
+    matches: reviews.map((review) => ({
+      key: `review:${review.reviewId || `${review.reviewer}:${review.date?.toISOString()}`}`,
+      reviewer: review.reviewer,
+      starRating: review.starRating,
+      comment: review.comment && review.comment.length > REVIEW_EXCERPT_LENGTH
+        ? `${review.comment.slice(0, REVIEW_EXCERPT_LENGTH)}…`
+        : review.comment,
+      date: review.date,
+    })),
+    summary: (matches) =>
+      `${matches.length} Google review(s) of ${maxRating} star(s) or fewer: ` +
+      matches.map((review) => `${review.starRating}★ from ${review.reviewer}`).join(', '),
+  };
+};
+
+const RULE_EVALUATORS: Record<AlertRuleType, (rule: IAlertRule) => Promise<RuleResult>> = {
+  'kpi-change': evaluateKpiChange,
+  'zero-collection': evaluateZeroCollection,
+  'purchase-order-approved': evaluatePurchaseOrders,
+  'google-review': evaluateGoogleReviews,
+};
+
+/**
+ * Build the values for the alert email in the owner's language
+ */
+const buildEmailData = (rule: IAlertRule, matches: AlertMatch[], locale: Locale): Record<string, unknown> => {
+  const intl = LOCALE_SETTINGS[locale].intl;
+  const amount = (value: unknown) =>
+    new Intl.NumberFormat(intl, { notation: 'compact', maximumFractionDigits: 1 }).format(Number(value) || 0);
+  const date = (value: unknown) =>
+    new Intl.DateTimeFormat(intl, { dateStyle: 'long', timeZone: 'UTC' })
+      .format(value instanceof Date ? value : new Date(`${value}T00:00:00Z`));
+
+  const data: Record<string, unknown> = {
+    ruleName: rule.name,
+    alertsUrl: `${APP_URL}/alerts`,
+  };
+
+  const [first] = matches;
+  switch (rule.type) {
+    case 'kpi-change':
+      data.kpiChange = {
+        [String(first.metric).replace(/-(\w)/g, (_match, letter: string) => letter.toUpperCase())]: true,
+        drop: first.direction === 'drop',
+        change: first.change,
+        percent: first.percent,
+        current: amount(first.current),
+        previous: amount(first.previous),
+        date: date(first.date),
+      };
+      break;
+    case 'zero-collection':
+      data.zeroCollection = {
+        [String(first.collectionType).replace(/-(\w)/g, (_match, letter: string) => letter.toUpperCase())]: true,
+        projectName: first.projectName,
+        businessDays: first.businessDays,
+        from: date(first.from),
+        to: date(first.to),
+      };
+      break;
+    case 'purchase-order-approved':
+      data.purchaseOrders = {
+        minAmount: amount(rule.condition.minAmount),
+        orders: matches.map((order) => ({ ...order, amount: amount(order.amount) })),
+      };
+      break;
+    case 'google-review':
+      data.googleReviews = {
+        maxRating: rule.condition.maxRating,
+        reviews: matches.map((review) => ({ ...review, date: review.date ? date(review.date) : '' })),
+      };
+      break;
+  }
+
+  return data;
+};
+
+/**
+ * Send a triggered alert through the rule's channels
+ */
+const deliverAlert = async (
+  rule: IAlertRule,
+  owner: IUser,
+  matches: AlertMatch[],
+  evaluation: IAlertEvaluation
+): Promise<void> => {
+  for (const channel of rule.channels) {
+    try {
+      if (channel === 'email') {
+        const locale = owner.locale || DEFAULT_LOCALE;
+        await sendTemplatedEmail(owner.email, ALERT_TEMPLATE, buildEmailData(rule, matches, locale), locale);
+      } else if (channel === 'in-app') {
+        await publishNotification(owner._id, {
+          category: 'alert',
+          title: rule.name,
+          message: evaluation.summary,
+          link: '/alerts',
+          data: { ruleId: rule._id, evaluationId: evaluation._id, type: rule.type },
+        });
+      }
+      evaluation.deliveredVia.push(channel);
+    } catch (error) {
+      evaluation.deliveryErrors.push(`${channel}: ${(error as Error).message}`);
+    }
+  }
+};
+
+/**
+ * Evaluate one rule and record the outcome
+ * Returns null for rules whose owner is no longer active (nothing is recorded)
+ */
+export const evaluateAlertRule = async (
+  rule: IAlertRule,
+  source: AlertDataset | 'manual'
+): Promise<IAlertEvaluation | null> => {
+  const owner = await User.findById(rule.owner);
+  if (!owner || owner.status !== 'active') {
+    return null;
+  }
+
+  const evaluation = new AlertEvaluation({
+    rule: rule._id,
+    owner: rule.owner,
+    ruleName: rule.name,
+    type: rule.type,
+    source,
+  });
+  const now = new Date();
+
+  try {
+    const permission = `${getRuleDataset(rule)}:read` as Permission;
+    if (!(await roleHasPermissions(owner.role, [permission]))) {
+      throw new AppError(`Owner no longer has the ${permission} permission`, 403);
+    }
+
+    const result = await RULE_EVALUATORS[rule.type](rule);
+    evaluation.value = result.value;
+
+    let status: AlertEvaluationStatus = 'clear';
+    if (result.matches.length > 0) {
+      const alertedKeys = new Set<string>(
+        await AlertEvaluation.distinct('keys', {
+          rule: rule._id,
+          keys: { $in: result.matches.map((match) => match.key) },
+          status: { $in: ['triggered', 'suppressed'] },
+        })
+      );
+      const fresh = result.matches.filter((match) => !alertedKeys.has(match.key));
+
+      if (fresh.length === 0) {
+        status = 'duplicate';
+        evaluation.summary = result.summary(result.matches);
+      } else {
+        const coolingDown = !!rule.lastTriggeredAt &&
+          now.getTime() - rule.lastTriggeredAt.getTime() < rule.cooldownMinutes * 60 * 1000;
+
+        status = coolingDown ? 'suppressed' : 'triggered';
+        evaluation.summary = result.summary(fresh);
+        evaluation.keys = fresh.map((match) => match.key);
+        evaluation.matches = fresh;
+
+        if (!coolingDown) {
+          await deliverAlert(rule, owner, fresh, evaluation);
+          rule.lastTriggeredAt = now;
+        }
+      }
+    }
+    evaluation.status = status;
+  } catch (error) {
+    evaluation.status = 'failed';
+    evaluation.error = (error as Error).message;
+  }
+
+  rule.lastEvaluatedAt = now;
+  await Promise.all([evaluation.save(), rule.save()]);
+  return evaluation;
+};
+
+/**
+ * Evaluate the enabled rules watching a dataset, after its sync
+ * A dataset's rules are not evaluated twice at the same time
+ */
+export const evaluateAlertRules = async (dataset: AlertDataset): Promise<number> => {
+  if (evaluationsInProgress.has(dataset)) {
+    return 0;
+  }
+  evaluationsInProgress.add(dataset);
+
+  try {
+    const rules = (await AlertRule.find({ enabled: true })).filter((rule) => getRuleDataset(rule) === dataset);
+
+    let triggered = 0;
+    for (const rule of rules) {
+      try {
+        const evaluation = await evaluateAlertRule(rule, dataset);
+        if (evaluation?.status === 'triggered') {
+          triggered++;
+        }
+      } catch (error) {
+        console.error(`❌ Error evaluating alert rule ${rule._id}:`, error);
+      }
+    }
+    return triggered;
+  } finally {
+    evaluationsInProgress.delete(dataset);
+  }
+};
+
+/**
+ * Evaluate a dataset's rules without holding up the caller, e.g. after a manual sync
+ */
+export const evaluateAlertRulesInBackground = (dataset: AlertDataset): void => {
+  evaluateAlertRules(dataset).catch((error) => {
+    console.error(`❌ Error evaluating ${dataset} alert rules:`, error);
+  });
+};
+
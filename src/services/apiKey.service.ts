@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+import ApiKey, { IApiKey } from '../models/apiKey.model';
+import { generateSecureToken, hashToken } from '../utils/crypto';
+
+const API_KEY_PREFIX = 'dsk';
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+export interface ApiKeyCredentials {
+  key: string;
+  prefix: string;
+  keyHash: string;
+}
+
+/**
+ * Generate a new API key
+ * Format: dsk_<8 hex chars>_<secret>; the part before the secret is stored as the public prefix
+ */
+export const generateApiKeyCredentials = (): ApiKeyCredentials => {
+  const prefix = `${API_KEY_PREFIX}_${crypto.randomBytes(4).toString('hex')}`;
+  const key = `${prefix}_${generateSecureToken()}`;
+
+  return {
+    key,
+    prefix,
+    keyHash: hashToken(key),
+  };
+};
+
+/**
+ * Find the active API key matching a raw key
+ * Returns null for unknown, revoked or expired keys
+ */
+export const findActiveApiKey = async (rawKey: string): Promise<IApiKey | null> => {
+  if (!rawKey.startsWith(`${API_KEY_PREFIX}_`)) {
+    return null;
+  }
+
+  const apiKey = await ApiKey.findOne({ keyHash: hashToken(rawKey) });
+  if (!apiKey || !apiKey.isActive()) {
+    return null;
+  }
+
+  return apiKey;
+};
+
+/**
+ * Record API key usage
+ * Writes at most once per minute per key to keep hot keys from hammering MongoDB
+ */
+export const recordApiKeyUsage = async (apiKey: IApiKey, ip: string): Promise<void> => {
+  const lastUsedAt = apiKey.lastUsedAt?.getTime() || 0;
+  if (Date.now() - lastUsedAt < LAST_USED_UPDATE_INTERVAL_MS && apiKey.lastUsedIp === ip) {
+    return;
+  }
+
+  try {
+    await ApiKey.updateOne(
+      { _id: apiKey._id },
+      { $set: { lastUsedAt: new Date(), lastUsedIp: ip } }
+    );
+  } catch (error) {
+    console.error('❌ Error recording API key usage:', error);
+  }
+};
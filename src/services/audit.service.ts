@@ -0,0 +1,167 @@
+import mongoose from 'mongoose';
+import AuditEvent from '../models/auditEvent.model';
+import Setting from '../models/setting.model';
+import { AuditAction, AuditChange, AuditOutcome, AuthRequest, IUser } from '../types';
+import { getClientInfo } from '../utils/request';
+
+const AUDIT_RETENTION_SETTING_KEY = 'audit-retention';
+const DEFAULT_AUDIT_LOG_RETENTION_DAYS = parseInt(process.env.AUDIT_LOG_RETENTION_DAYS || '365', 10);
+
+// Values of these fields never end up in the audit log
+const REDACTED_FIELDS = ['password', 'passwordHistory'];
+const REDACTED_VALUE = '[redacted]';
+
+export interface AuditTarget {
+  type: string;
+  id?: string | mongoose.Types.ObjectId;
+  label?: string;
+}
+
+export interface AuditEventInput {
+  action: AuditAction;
+  outcome?: AuditOutcome; // Default: success
+  actor?: AuditTarget; // Overrides the authenticated caller, e.g. for login where the user is known but not yet authenticated
+  target?: AuditTarget;
+  changes?: AuditChange[];
+  reason?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Build an audit target for a user
+ */
+export const auditUser = (user: IUser): AuditTarget => ({
+  type: 'user',
+  id: user._id,
+  label: user.email,
+});
+
+/**
+ * Record an audit event for a request (pass null for background jobs, which are recorded as the system)
+ * Failures are logged and never fail the request
+ */
+export const recordAuditEvent = async (
+  req: AuthRequest | null,
+  event: AuditEventInput
+): Promise<void> => {
+  try {
+    const { ipAddress, userAgent } = req ? getClientInfo(req) : { ipAddress: undefined, userAgent: undefined };
+    const impersonation = req?.user?.impersonation;
+
+    let actor: Record<string, unknown> = { actorType: req ? 'anonymous' : 'system' };
+    if (event.actor) {
+      actor = { actorType: event.actor.type, actorId: event.actor.id, actorLabel: event.actor.label };
+    } else if (req?.apiKey) {
+      actor = { actorType: 'api-key', actorId: req.apiKey.id, actorLabel: req.apiKey.name };
+    } else if (impersonation) {
+      // Changes made while impersonating are attributed to the admin, not the user they were viewing as
+      actor = { actorType: 'user', actorId: impersonation.actorId, actorLabel: impersonation.actorEmail };
+    } else if (req?.user) {
+      actor = { actorType: 'user', actorId: req.user.userId, actorLabel: req.user.email };
+    }
+
+    await AuditEvent.create({
+      action: event.action,
+      outcome: event.outcome || 'success',
+      ...actor,
+      targetType: event.target?.type,
+      targetId: event.target?.id?.toString(),
+      targetLabel: event.target?.label,
+      ipAddress,
+      userAgent,
+      changes: event.changes || [],
+      reason: event.reason,
+      metadata: impersonation
+        ? {
+            ...event.metadata,
+            impersonationId: impersonation.sessionId,
+            impersonatedUserId: req?.user?.userId,
+          }
+        : event.metadata,
+    });
+  } catch (error) {
+    console.error(`❌ Error recording audit event ${event.action}:`, error);
+  }
+};
+
+/**
+ * Copy the given fields of a document so they can be compared after an update
+ */
+export const snapshotFields = (
+  doc: mongoose.Document,
+  fields: readonly string[]
+): Record<string, unknown> => {
+  const snapshot: Record<string, unknown> = {};
+  for (const field of fields) {
+    const value = doc.get(field);
+    snapshot[field] = value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+  }
+  return snapshot;
+};
+
+/**
+ * List the fields that differ between two snapshots
+ * Sensitive fields are reported as changed without their values
+ */
+export const diffSnapshots = (
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): AuditChange[] => {
+  const changes: AuditChange[] = [];
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const field of fields) {
+    if (JSON.stringify(before[field]) === JSON.stringify(after[field])) {
+      continue;
+    }
+
+    changes.push(
+      REDACTED_FIELDS.includes(field)
+        ? { field, from: REDACTED_VALUE, to: REDACTED_VALUE }
+        : { field, from: before[field], to: after[field] }
+    );
+  }
+
+  return changes;
+};
+
+/**
+ * Get how many days audit events are kept
+ */
+export const getAuditRetentionDays = async (): Promise<number> => {
+  const setting = await Setting.findOne({ key: AUDIT_RETENTION_SETTING_KEY }).lean();
+  const days = (setting?.value as { days?: number } | undefined)?.days;
+  return days || DEFAULT_AUDIT_LOG_RETENTION_DAYS;
+};
+
+/**
+ * Point the TTL index at the configured retention
+ * MongoDB keeps the TTL of an existing index, so changes are applied with collMod
+ */
+export const applyAuditRetention = async (): Promise<number> => {
+  const days = await getAuditRetentionDays();
+
+  await AuditEvent.init();
+  await mongoose.connection.db?.command({
+    collMod: AuditEvent.collection.collectionName,
+    index: {
+      keyPattern: { createdAt: 1 },
+      expireAfterSeconds: days * 24 * 60 * 60,
+    },
+  });
+
+  return days;
+};
+
+/**
+ * Change how many days audit events are kept
+ */
+export const updateAuditRetention = async (days: number, actorId?: string): Promise<number> => {
+  await Setting.updateOne(
+    { key: AUDIT_RETENTION_SETTING_KEY },
+    { $set: { value: { days }, updatedBy: actorId } },
+    { upsert: true }
+  );
+
+  return applyAuditRetention();
+};
@@ -0,0 +1,166 @@
+import { AuthRequest, ClientInfo, IUser, LoginMethod } from '../types';
+import Role from '../models/role.model';
+import User from '../models/user.model';
+import { DEFAULT_LOCALE } from '../config/locales';
+import { AppError } from '../utils/errors';
+import { getRolePermissions } from './permission.service';
+import { issueTokenPair, issuePurposeToken } from './token.service';
+import { createSession } from './session.service';
+import { isPasswordExpired } from './passwordPolicy.service';
+import { recordLoginSuccess } from './loginActivity.service';
+import { recordAuditEvent, auditUser } from './audit.service';
+import { sendTemplatedEmail } from './emailTemplate.service';
+import { getLoginLockoutMinutes, LoginLockout } from './rateLimit.service';
+
+const PASSWORD_RESET_TOKEN_EXPIRY_MINUTES = parseInt(
+  process.env.PASSWORD_RESET_TOKEN_EXPIRY_MINUTES || '15',
+  10
+);
+const LOGIN_LOCKOUT_NOTIFY = process.env.LOGIN_LOCKOUT_NOTIFY === 'true';
+
+/**
+ * Issue a single-use token that can only be used to reset the user's password
+ * Pass a longer expiry for links emailed to new accounts to set their first password
+ */
+export const issuePasswordResetToken = async (
+  user: IUser,
+  expiresInMinutes: number = PASSWORD_RESET_TOKEN_EXPIRY_MINUTES
+): Promise<{ resetToken: string; expiresIn: number }> => {
+  const resetToken = await issuePurposeToken(
+    {
+      userId: user._id.toString(),
+      email: user.email,
+      purpose: 'password-reset',
+    },
+    expiresInMinutes
+  );
+
+  return { resetToken, expiresIn: expiresInMinutes }; // minutes
+};
+
+/**
+ * Ensure the user's password has not passed the policy's maximum age
+ * Throws a 403 AppError carrying a reset token so the client can go straight to /api/password/reset
+ * Call after every other login factor has been verified
+ */
+export const assertPasswordNotExpired = async (user: IUser): Promise<void> => {
+  if (!(await isPasswordExpired(user))) {
+    return;
+  }
+
+  const { resetToken, expiresIn } = await issuePasswordResetToken(user);
+  throw new AppError('Your password has expired. Please choose a new password.', 403, {
+    data: {
+      passwordExpired: true,
+      resetToken,
+      expiresIn,
+    },
+  });
+};
+
+/**
+ * Build the 429 error for a request from a locked-out email and IP
+ */
+export const createLoginLockoutError = (retryAfter?: number): AppError => {
+  const retryAfterSeconds = retryAfter || getLoginLockoutMinutes() * 60;
+  return new AppError(
+    `Too many failed login attempts. Please try again after ${Math.ceil(retryAfterSeconds / 60)} minute(s).`,
+    429,
+    {
+      lockout: true,
+      retryAfter: retryAfterSeconds,
+    }
+  );
+};
+
+/**
+ * Record a new lockout in the audit log and, with LOGIN_LOCKOUT_NOTIFY=true, email the account owner
+ */
+export const recordLoginLockout = async (
+  req: AuthRequest,
+  email: string,
+  lockout: LoginLockout
+): Promise<void> => {
+  const user = await User.findOne({ email });
+
+  await recordAuditEvent(req, {
+    action: 'auth.lockout',
+    target: user ? auditUser(user) : { type: 'user', label: email },
+    reason: lockout.scope === 'account' ? 'account-attempts-exceeded' : 'ip-attempts-exceeded',
+    metadata: {
+      scope: lockout.scope,
+      level: lockout.level,
+      failures: lockout.failures,
+      expiresAt: lockout.expiresAt,
+    },
+  });
+
+  if (user && LOGIN_LOCKOUT_NOTIFY) {
+    try {
+      await sendTemplatedEmail(
+        email,
+        'account-locked',
+        {
+          accountWide: lockout.scope === 'account',
+          ipAddress: lockout.ipAddress,
+          lockedUntil: new Date(lockout.expiresAt),
+        },
+        user.locale || DEFAULT_LOCALE
+      );
+    } catch (emailError) {
+      console.error('Failed to send lockout notification:', emailError);
+      // Don't fail the request if the notification can't be sent
+    }
+  }
+};
+
+/**
+ * Check if a role may log in with an emailed code instead of a password
+ */
+export const isLoginCodeAllowedForRole = async (role: string): Promise<boolean> => {
+  const exists = await Role.exists({ name: role, allowLoginCode: true });
+  return exists !== null;
+};
+
+/**
+ * Start a session for a fully authenticated user
+ * Issues a token pair, records the session and login activity, and returns the login response payload
+ */
+export const buildLoginResponse = async (user: IUser, client: ClientInfo, method: LoginMethod) => {
+  const permissions = await getRolePermissions(user.role);
+
+  // Generate access and refresh tokens
+  const { token, refreshToken, familyId, refreshExpiresAt } = await issueTokenPair({
+    userId: user._id.toString(),
+    email: user.email,
+    role: user.role,
+  });
+
+  const session = await createSession(user, familyId, refreshExpiresAt, client);
+  await recordLoginSuccess(user, client, method);
+
+  return {
+    user: {
+      id: user._id,
+      username: user.username,
+      email: user.email,
+      role: user.role,
+      permissions,
+      allowedEntities: user.allowedEntities,
+      twoFactorEnabled: user.twoFactor?.enabled || false,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      age: user.age,
+      gender: user.gender,
+      phoneNumber: user.phoneNumber,
+      address: user.address,
+      city: user.city,
+      state: user.state,
+      zip: user.zip,
+      country: user.country,
+    },
+    token,
+    refreshToken,
+    sessionId: session._id,
+  };
+};
@@ -0,0 +1,48 @@
+import mongoose from 'mongoose';
+import User from '../models/user.model';
+import Project from '../models/project.model';
+import { ADMIN_ROLE } from '../config/permissions';
+import { DataScope } from '../types';
+
+/**
+ * Scope that grants access to all entities and projects
+ */
+export const UNRESTRICTED_SCOPE: DataScope = {
+  restricted: false,
+  entityIds: [],
+  projectIds: [],
+};
+
+/**
+ * Build a data scope from a list of allowed entity IDs
+ * Projects are resolved through Project.entity
+ */
+export const buildDataScope = async (
+  allowedEntities: mongoose.Types.ObjectId[] | undefined
+): Promise<DataScope> => {
+  if (!allowedEntities || allowedEntities.length === 0) {
+    return UNRESTRICTED_SCOPE;
+  }
+
+  const projects = await Project.find({ entity: { $in: allowedEntities } }).select('_id').lean();
+
+  return {
+    restricted: true,
+    entityIds: allowedEntities.map((id) => new mongoose.Types.ObjectId(id)),
+    projectIds: projects.map((project) => project._id as mongoose.Types.ObjectId),
+  };
+};
+
+/**
+ * Get the data scope of a user
+ * Admins always see all entities
+ */
+export const getUserDataScope = async (userId: string): Promise<DataScope> => {
+  const user = await User.findById(userId).select('role allowedEntities').lean();
+
+  if (!user || user.role === ADMIN_ROLE) {
+    return UNRESTRICTED_SCOPE;
+  }
+
+  return buildDataScope(user.allowedEntities);
+};
@@ -0,0 +1,193 @@
+import { deliverEmail } from '../config/email';
+import EmailOutbox, { IEmailOutbox } from '../models/emailOutbox.model';
+import { AppError } from '../utils/errors';
+
+const EMAIL_MAX_ATTEMPTS = parseInt(process.env.EMAIL_MAX_ATTEMPTS || '6', 10);
+const EMAIL_RETRY_BASE_SECONDS = parseInt(process.env.EMAIL_RETRY_BASE_SECONDS || '30', 10);
+const EMAIL_RETRY_MAX_SECONDS = 60 * 60;
+const EMAIL_DELIVERY_LOCK_SECONDS = 120; // A worker that dies mid-delivery releases the message after this
+const EMAIL_OUTBOX_BATCH_SIZE = 50;
+
+let draining = false;
+
+/**
+ * Get the wait before the next attempt: EMAIL_RETRY_BASE_SECONDS doubled after each failure, up to an hour
+ */
+const getRetryDelaySeconds = (attempts: number): number => {
+  return Math.min(EMAIL_RETRY_BASE_SECONDS * 2 ** (attempts - 1), EMAIL_RETRY_MAX_SECONDS);
+};
+
+/**
+ * Check if an SMTP error means the recipient was refused (5xx), so retrying won't help
+ */
+const isRecipientRejected = (error: unknown): boolean => {
+  const smtpError = error as { code?: string; responseCode?: number };
+  return smtpError.code === 'EENVELOPE' && (smtpError.responseCode ?? 0) >= 500;
+};
+
+/**
+ * Claim the next due message so no other worker delivers it at the same time
+ */
+const claimNextMessage = async (): Promise<IEmailOutbox | null> => {
+  const now = new Date();
+  return EmailOutbox.findOneAndUpdate(
+    {
+      status: 'queued',
+      nextAttemptAt: { $lte: now },
+      $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lte: now } }],
+    },
+    {
+      $set: { lockedUntil: new Date(now.getTime() + EMAIL_DELIVERY_LOCK_SECONDS * 1000) },
+      $inc: { attempts: 1 },
+    },
+    { new: true, sort: { nextAttemptAt: 1 } }
+  ).select('+html +text');
+};
+
+/**
+ * Try to deliver a claimed message and record the outcome
+ * Temporary failures are retried with exponential backoff until EMAIL_MAX_ATTEMPTS, then dead-lettered as failed
+ */
+const deliverOutboxMessage = async (message: IEmailOutbox): Promise<void> => {
+  const now = new Date();
+
+  try {
+    const result = await deliverEmail({
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+    });
+
+    const rejected = result.accepted.length === 0 && result.rejected.length > 0;
+    await EmailOutbox.updateOne(
+      { _id: message._id },
+      {
+        $set: {
+          status: rejected ? 'bounced' : 'sent',
+          messageId: result.messageId,
+          smtpResponse: result.response,
+          ...(rejected ? { bouncedAt: now, lastError: 'Recipient rejected' } : { sentAt: now }),
+        },
+        $unset: { lockedUntil: 1, ...(!rejected && { lastError: 1 }) },
+      }
+    );
+  } catch (error) {
+    const lastError = (error as Error).message;
+
+    let update: Record<string, unknown>;
+    if (isRecipientRejected(error)) {
+      update = { status: 'bounced', bouncedAt: now, lastError };
+    } else if (message.attempts >= EMAIL_MAX_ATTEMPTS) {
+      update = { status: 'failed', failedAt: now, lastError };
+    } else {
+      update = {
+        nextAttemptAt: new Date(now.getTime() + getRetryDelaySeconds(message.attempts) * 1000),
+        lastError,
+      };
+    }
+
+    console.error(`❌ Email to ${message.to} not delivered (attempt ${message.attempts}):`, lastError);
+    await EmailOutbox.updateOne({ _id: message._id }, { $set: update, $unset: { lockedUntil: 1 } });
+  }
+};
+
+/**
+ * Deliver due messages until none are left or a batch has been sent
+ * Returns the number of messages attempted; runs at most once at a time per process
+ */
+export const processEmailOutbox = async (): Promise<number> => {
+  if (draining) {
+    return 0;
+  }
+
+  draining = true;
+  let processed = 0;
+  try {
+    while (processed < EMAIL_OUTBOX_BATCH_SIZE) {
+      const message = await claimNextMessage();
+      if (!message) {
+        break;
+      }
+
+      await deliverOutboxMessage(message);
+      processed++;
+    }
+  } finally {
+    draining = false;
+  }
+
+  return processed;
+};
+
+/**
+ * Start delivering due messages in the background
+ */
+const kickEmailOutbox = (): void => {
+  processEmailOutbox().catch((error) => {
+    console.error('❌ Error processing email outbox:', error);
+  });
+};
+
+/**
+ * Queue an email for delivery
+ * The message is stored before anything is sent, so an SMTP outage delays mail instead of losing it
+ */
+export const sendEmail = async (
+  to: string,
+  subject: string,
+  html: string,
+  text?: string
+): Promise<IEmailOutbox> => {
+  const message = await EmailOutbox.create({ to, subject, html, text });
+  console.log('📧 Email queued:', message._id.toString());
+
+  // Deliver straight away when possible; the worker retries anything that fails
+  kickEmailOutbox();
+
+  return message;
+};
+
+/**
+ * Queue a sent, failed or bounced message to be delivered again
+ */
+export const resendEmail = async (id: string): Promise<IEmailOutbox | null> => {
+  const existing = await EmailOutbox.findById(id);
+  if (!existing) {
+    return null;
+  }
+  if (existing.status === 'queued') {
+    throw new AppError('Email is already queued for delivery', 400);
+  }
+
+  const message = await EmailOutbox.findOneAndUpdate(
+    { _id: id, status: existing.status },
+    {
+      $set: { status: 'queued', attempts: 0, nextAttemptAt: new Date() },
+      $inc: { resendCount: 1 },
+      $unset: { lastError: 1, lockedUntil: 1, failedAt: 1, bouncedAt: 1 },
+    },
+    { new: true }
+  );
+  if (!message) {
+    throw new AppError('Email status changed while resending. Please try again.', 409);
+  }
+
+  kickEmailOutbox();
+  return message;
+};
+
+/**
+ * Count messages by status
+ */
+export const getEmailOutboxCounts = async (): Promise<Record<string, number>> => {
+  const groups = await EmailOutbox.aggregate<{ _id: string; count: number }>([
+    { $group: { _id: '$status', count: { $sum: 1 } } },
+  ]);
+
+  const counts: Record<string, number> = { queued: 0, sent: 0, failed: 0, bounced: 0 };
+  for (const { _id, count } of groups) {
+    counts[_id] = count;
+  }
+  return counts;
+};
@@ -0,0 +1,342 @@
+import fs from 'fs/promises';
+import path from 'path';
+import User from '../models/user.model';
+import { IEmailOutbox } from '../models/emailOutbox.model';
+import { sendEmail } from './emailOutbox.service';
+import { DEFAULT_LOCALE, LOCALES, LOCALE_SETTINGS, Locale, isLocale } from '../config/locales';
+import { AppError } from '../utils/errors';
+import { renderTemplate } from '../utils/templateEngine';
+
+/**
+ * Email templates are read from disk when used, so edits on the server apply without a deploy or restart
+ *
+ *   <dir>/<template>/<locale>.html   front matter (subject, heading, accent, …) followed by the content
+ *   <dir>/<template>/<locale>.txt    plain text content (optional; generated from the HTML when missing)
+ *   <dir>/<template>/sample.json     values used by the admin preview
+ *   <dir>/layouts/<name>[.<locale>].html|txt   wraps the content ({{{body}}}); chosen with `layout:` in the front matter
+ *   <dir>/partials/<name>[.<locale>].html|txt  included with {{> name}}
+ *
+ * Locale-specific layouts and partials are preferred over shared ones; a template without a variant for the
+ * requested locale is sent in DEFAULT_LOCALE.
+ */
+const EMAIL_TEMPLATES_DIR = path.resolve(process.cwd(), process.env.EMAIL_TEMPLATES_DIR || 'templates/email');
+const EMAIL_APP_NAME = process.env.EMAIL_APP_NAME || 'Dashboard';
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+const LAYOUTS_DIR = 'layouts';
+const PARTIALS_DIR = 'partials';
+const DEFAULT_LAYOUT = 'default';
+const TEMPLATE_NAME_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+type TemplateFormat = 'html' | 'txt';
+
+export interface RenderedEmail {
+  template: string;
+  locale: Locale;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTemplateInfo {
+  name: string;
+  locales: Locale[];
+  textLocales: Locale[]; // Locales with a hand-written text version
+  hasSample: boolean;
+}
+
+const fileCache = new Map<string, { mtimeMs: number; source: string }>();
+
+/**
+ * Read a template file, reusing the cached copy until the file changes
+ * Returns undefined if the file doesn't exist
+ */
+const readTemplateFile = async (relativePath: string): Promise<string | undefined> => {
+  const filePath = path.join(EMAIL_TEMPLATES_DIR, relativePath);
+  try {
+    const { mtimeMs } = await fs.stat(filePath);
+    const cached = fileCache.get(filePath);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.source;
+    }
+
+    const source = await fs.readFile(filePath, 'utf8');
+    fileCache.set(filePath, { mtimeMs, source });
+    return source;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      fileCache.delete(filePath);
+      return undefined;
+    }
+    throw error;
+  }
+};
+
+/**
+ * List the names of the files in a template directory (empty if it doesn't exist)
+ */
+const listTemplateFiles = async (relativePath: string): Promise<string[]> => {
+  try {
+    return await fs.readdir(path.join(EMAIL_TEMPLATES_DIR, relativePath));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+};
+
+/**
+ * Read a layout or partial, preferring the locale-specific variant
+ */
+const readSharedFile = async (
+  directory: string,
+  name: string,
+  locale: Locale,
+  format: TemplateFormat
+): Promise<string | undefined> => {
+  return (
+    (await readTemplateFile(path.join(directory, `${name}.${locale}.${format}`))) ??
+    (await readTemplateFile(path.join(directory, `${name}.${format}`)))
+  );
+};
+
+/**
+ * Load every partial available in a locale and format, keyed by name
+ * Partials are looked up while rendering, so they are all read up front
+ */
+const loadPartials = async (locale: Locale, format: TemplateFormat): Promise<Map<string, string>> => {
+  const names = new Set(
+    (await listTemplateFiles(PARTIALS_DIR))
+      .filter((file) => file.endsWith(`.${format}`))
+      .map((file) => file.split('.')[0])
+  );
+
+  const partials = new Map<string, string>();
+  for (const name of names) {
+    const source = await readSharedFile(PARTIALS_DIR, name, locale, format);
+    if (source !== undefined) {
+      partials.set(name, source);
+    }
+  }
+  return partials;
+};
+
+/**
+ * Split "---" front matter (one `key: value` per line) from the template content
+ */
+const parseFrontMatter = (source: string): { attributes: Record<string, string>; content: string } => {
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) {
+    return { attributes: {}, content: source };
+  }
+
+  const attributes: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      attributes[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  }
+  return { attributes, content: source.slice(match[0].length) };
+};
+
+/**
+ * Decode the HTML entities used in templates and escaped values
+ */
+const decodeEntities = (text: string): string => {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+};
+
+/**
+ * Turn rendered HTML content into readable plain text, for templates without a text version
+ * Links keep their address, list items become bullets and paragraphs are separated by blank lines
+ */
+const htmlToText = (html: string): string => {
+  const text = html
+    .replace(/<(style|head|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_match, href: string, label: string) => {
+      const labelText = label.replace(/<[^>]*>/g, '').trim();
+      return labelText && labelText !== href ? `${labelText} (${href})` : href;
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/(p|div|h[1-6]|ul|ol|table|tr)>/gi, '\n\n')
+    .replace(/<[^>]*>/g, '');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+/**
+ * Find the locale to render a template in: the requested one if the template has it, otherwise DEFAULT_LOCALE
+ */
+const resolveTemplateLocale = async (name: string, locale: Locale): Promise<{ locale: Locale; source: string }> => {
+  for (const candidate of [locale, DEFAULT_LOCALE]) {
+    const source = await readTemplateFile(path.join(name, `${candidate}.html`));
+    if (source !== undefined) {
+      return { locale: candidate, source };
+    }
+  }
+
+  throw new AppError(`Email template "${name}" not found`, 404);
+};
+
+/**
+ * Render one format of a template's content inside its layout
+ */
+const renderWithLayout = async (
+  content: string,
+  layout: string,
+  values: Record<string, unknown>,
+  locale: Locale,
+  format: TemplateFormat
+): Promise<string> => {
+  const partials = await loadPartials(locale, format);
+  const options = {
+    escape: format === 'html',
+    locale: LOCALE_SETTINGS[locale].intl,
+    partial: (partialName: string) => partials.get(partialName),
+  };
+
+  const body = renderTemplate(content, values, options);
+  if (layout === 'none') {
+    return body;
+  }
+
+  const layoutSource = await readSharedFile(LAYOUTS_DIR, layout, locale, format);
+  if (layoutSource === undefined) {
+    throw new AppError(`Email layout "${layout}" not found`, 422);
+  }
+  return renderTemplate(layoutSource, { ...values, body }, options);
+};
+
+/**
+ * Render a template's subject, HTML and text in a locale
+ * Front matter values are available to the content and layout, e.g. {{heading}} and {{accent}}
+ */
+export const renderEmailTemplate = async (
+  name: string,
+  data: Record<string, unknown>,
+  requestedLocale: Locale = DEFAULT_LOCALE
+): Promise<RenderedEmail> => {
+  if (!TEMPLATE_NAME_PATTERN.test(name)) {
+    throw new AppError(`Email template "${name}" not found`, 404);
+  }
+
+  const { locale, source } = await resolveTemplateLocale(name, requestedLocale);
+  const { attributes, content } = parseFrontMatter(source);
+
+  // Front matter may use values too, e.g. "subject: OTP for {{purpose}}"
+  const values: Record<string, unknown> = {
+    appName: EMAIL_APP_NAME,
+    appUrl: APP_URL,
+    lang: locale,
+    dir: LOCALE_SETTINGS[locale].dir,
+    year: new Date().getUTCFullYear(),
+    ...data,
+  };
+  for (const [key, value] of Object.entries(attributes)) {
+    values[key] = renderTemplate(value, values, { escape: false, partial: () => undefined });
+  }
+
+  const layout = attributes.layout || DEFAULT_LAYOUT;
+  if (layout !== 'none' && !TEMPLATE_NAME_PATTERN.test(layout)) {
+    throw new AppError(`Email layout "${layout}" not found`, 422);
+  }
+  const html = await renderWithLayout(content, layout, values, locale, 'html');
+
+  const textSource = await readTemplateFile(path.join(name, `${locale}.txt`));
+  const text = textSource !== undefined
+    ? await renderWithLayout(textSource, layout, values, locale, 'txt')
+    : htmlToText(await renderWithLayout(content, 'none', values, locale, 'html'));
+
+  if (!values.subject) {
+    throw new AppError(`Email template "${name}" has no subject`, 422);
+  }
+
+  return {
+    template: name,
+    locale,
+    subject: String(values.subject),
+    html,
+    text: text.replace(/\n{3,}/g, '\n\n').trim() + '\n', // Blocks skipped by {{#if}} leave extra blank lines
+  };
+};
+
+/**
+ * Get the preferred locale of the account with an email address, or DEFAULT_LOCALE
+ */
+const getRecipientLocale = async (email: string): Promise<Locale> => {
+  const user = await User.findOne({ email: email.toLowerCase() }).select('locale');
+  return isLocale(user?.locale) ? user.locale : DEFAULT_LOCALE;
+};
+
+/**
+ * Render a template and queue it for delivery
+ * Without a locale, the recipient's account preference is used (DEFAULT_LOCALE for unknown addresses)
+ */
+export const sendTemplatedEmail = async (
+  to: string,
+  name: string,
+  data: Record<string, unknown>,
+  locale?: Locale
+): Promise<IEmailOutbox> => {
+  const email = await renderEmailTemplate(name, data, locale || (await getRecipientLocale(to)));
+  return sendEmail(to, email.subject, email.html, email.text);
+};
+
+/**
+ * List the templates in the template directory with the locales each one is available in
+ */
+export const listEmailTemplates = async (): Promise<EmailTemplateInfo[]> => {
+  const entries = await fs.readdir(EMAIL_TEMPLATES_DIR, { withFileTypes: true });
+  const names = entries
+    .filter((entry) => entry.isDirectory() && TEMPLATE_NAME_PATTERN.test(entry.name))
+    .filter((entry) => entry.name !== LAYOUTS_DIR && entry.name !== PARTIALS_DIR)
+    .map((entry) => entry.name)
+    .sort();
+
+  return Promise.all(
+    names.map(async (name) => {
+      const files = await listTemplateFiles(name);
+      return {
+        name,
+        locales: LOCALES.filter((locale) => files.includes(`${locale}.html`)),
+        textLocales: LOCALES.filter((locale) => files.includes(`${locale}.txt`)),
+        hasSample: files.includes('sample.json'),
+      };
+    })
+  );
+};
+
+/**
+ * Get a template's sample values for previews
+ * ISO date strings are turned into dates so they are formatted like real values
+ */
+export const getEmailTemplateSample = async (name: string): Promise<Record<string, unknown>> => {
+  const source = TEMPLATE_NAME_PATTERN.test(name)
+    ? await readTemplateFile(path.join(name, 'sample.json'))
+    : undefined;
+  if (source === undefined) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(source, (_key, value) =>
+      typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T[\d:.]+Z$/.test(value) ? new Date(value) : value
+    );
+  } catch (error) {
+    throw new AppError(`Sample data for "${name}" is not valid JSON: ${(error as Error).message}`, 422);
+  }
+};
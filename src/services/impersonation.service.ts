@@ -0,0 +1,212 @@
+import { redisClient } from '../config/redis';
+import { sendTemplatedEmail } from './emailTemplate.service';
+import { generateImpersonationToken } from '../config/jwt';
+import { ADMIN_ROLE } from '../config/permissions';
+import { DEFAULT_LOCALE } from '../config/locales';
+import ImpersonationSession, {
+  IImpersonationSession,
+  ImpersonationEndReason,
+} from '../models/impersonationSession.model';
+import User from '../models/user.model';
+import { ClientInfo, IUser } from '../types';
+import { AppError } from '../utils/errors';
+import { recordAuditEvent } from './audit.service';
+
+const IMPERSONATION_DEFAULT_MINUTES = parseInt(process.env.IMPERSONATION_DEFAULT_MINUTES || '30', 10);
+const IMPERSONATION_MAX_MINUTES = parseInt(process.env.IMPERSONATION_MAX_MINUTES || '60', 10);
+
+interface StoredImpersonation {
+  actorId: string;
+  actorEmail: string;
+  subjectId: string;
+  allowMutations: boolean;
+}
+
+export interface ImpersonationOptions {
+  reason: string;
+  durationMinutes?: number;
+  allowMutations?: boolean;
+}
+
+/**
+ * Get Redis key marking an impersonation session as active
+ * The key expires with the session, so ended or expired sessions stop working immediately
+ */
+const getImpersonationKey = (sessionId: string): string => {
+  return `auth:impersonation:${sessionId}`;
+};
+
+/**
+ * Email the impersonated user that a session started or ended
+ */
+const notifySubject = async (
+  subject: Pick<IUser, 'email' | 'locale'>,
+  template: string,
+  data: Record<string, unknown>
+): Promise<void> => {
+  try {
+    await sendTemplatedEmail(subject.email, template, data, subject.locale || DEFAULT_LOCALE);
+  } catch (emailError) {
+    console.error('Failed to send impersonation notification:', emailError);
+    // Don't fail the session change if the notification can't be sent
+  }
+};
+
+/**
+ * Get the longest allowed impersonation session in minutes
+ */
+export const getMaxImpersonationMinutes = (): number => {
+  return IMPERSONATION_MAX_MINUTES;
+};
+
+/**
+ * Start a time-boxed impersonation session
+ * Returns the session and an access token that authenticates as the subject but carries the actor
+ */
+export const startImpersonation = async (
+  actor: IUser,
+  subject: IUser,
+  options: ImpersonationOptions,
+  client: ClientInfo
+): Promise<{ session: IImpersonationSession; token: string }> => {
+  if (actor._id.toString() === subject._id.toString()) {
+    throw new AppError('You cannot impersonate yourself', 400);
+  }
+  if (subject.role === ADMIN_ROLE) {
+    throw new AppError('Administrators cannot be impersonated', 403);
+  }
+  if ((subject.status || 'active') !== 'active') {
+    throw new AppError('Only active accounts can be impersonated', 400);
+  }
+
+  const durationMinutes = Math.min(
+    options.durationMinutes || IMPERSONATION_DEFAULT_MINUTES,
+    IMPERSONATION_MAX_MINUTES
+  );
+  const allowMutations = options.allowMutations === true;
+
+  const session = await ImpersonationSession.create({
+    actorId: actor._id,
+    subjectId: subject._id,
+    reason: options.reason,
+    allowMutations,
+    ipAddress: client.ipAddress,
+    userAgent: client.userAgent,
+    expiresAt: new Date(Date.now() + durationMinutes * 60 * 1000),
+  });
+  const sessionId = session._id.toString();
+
+  const stored: StoredImpersonation = {
+    actorId: actor._id.toString(),
+    actorEmail: actor.email,
+    subjectId: subject._id.toString(),
+    allowMutations,
+  };
+  await redisClient.setEx(getImpersonationKey(sessionId), durationMinutes * 60, JSON.stringify(stored));
+
+  const token = generateImpersonationToken(
+    {
+      userId: subject._id.toString(),
+      email: subject.email,
+      role: subject.role,
+      impersonationId: sessionId,
+      actorId: actor._id.toString(),
+      actorEmail: actor.email,
+      subjectId: subject._id.toString(),
+    },
+    durationMinutes * 60
+  );
+
+  await notifySubject(subject, 'impersonation-started', {
+    adminEmail: actor.email,
+    reason: options.reason,
+    expiresAt: session.expiresAt,
+    allowMutations,
+  });
+
+  return { session, token };
+};
+
+/**
+ * Get an active impersonation session from Redis
+ * Returns null once the session has ended or expired
+ */
+export const getActiveImpersonation = async (
+  sessionId: string
+): Promise<StoredImpersonation | null> => {
+  const stored = await redisClient.get(getImpersonationKey(sessionId));
+  return stored ? JSON.parse(stored) : null;
+};
+
+/**
+ * Close an impersonation session and notify the subject
+ * Returns null if the session was already closed
+ */
+const closeImpersonation = async (
+  filter: Record<string, unknown>,
+  endReason: ImpersonationEndReason,
+  endedAt: Date,
+  endedBy?: string
+): Promise<IImpersonationSession | null> => {
+  // Only one caller can close a session, so the notification is sent once
+  const session = await ImpersonationSession.findOneAndUpdate(
+    { ...filter, endedAt: { $exists: false } },
+    { $set: { endedAt, endReason, ...(endedBy && { endedBy }) } },
+    { new: true }
+  );
+  if (!session) {
+    return null;
+  }
+
+  await redisClient.del(getImpersonationKey(session._id.toString()));
+
+  const [actor, subject] = await Promise.all([
+    User.findById(session.actorId).select('email'),
+    User.findById(session.subjectId).select('email locale'),
+  ]);
+  if (subject) {
+    await notifySubject(subject, 'impersonation-ended', { adminEmail: actor?.email, endedAt });
+  }
+
+  return session;
+};
+
+/**
+ * End an impersonation session early
+ * Pass endReason 'revoked' when someone other than the admin who started it ends it
+ */
+export const endImpersonation = async (
+  sessionId: string,
+  endedBy: string,
+  endReason: ImpersonationEndReason = 'ended'
+): Promise<IImpersonationSession | null> => {
+  return closeImpersonation({ _id: sessionId }, endReason, new Date(), endedBy);
+};
+
+/**
+ * Close sessions that ran out without being ended, so the subject is told and the end is audited
+ */
+export const closeExpiredImpersonations = async (): Promise<number> => {
+  const expired = await ImpersonationSession.find({
+    endedAt: { $exists: false },
+    expiresAt: { $lte: new Date() },
+  }).select('_id expiresAt');
+
+  let closed = 0;
+  for (const { _id, expiresAt } of expired) {
+    const session = await closeImpersonation({ _id }, 'expired', expiresAt);
+    if (!session) {
+      continue;
+    }
+
+    closed++;
+    await recordAuditEvent(null, {
+      action: 'impersonation.end',
+      target: { type: 'user', id: session.subjectId },
+      reason: 'expired',
+      metadata: { impersonationId: session._id.toString(), actorId: session.actorId.toString() },
+    });
+  }
+
+  return closed;
+};
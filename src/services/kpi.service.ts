@@ -0,0 +1,578 @@
+import mongoose from 'mongoose';
+import FinanceReserveBank from '../models/finance-reserve-bank.model';
+import SalesCollection from '../models/sales-collection.model';
+import RevenueReservation from '../models/revenue-reservation.model';
+import FinanceExpensePaidout from '../models/finance-expense-paidout.model';
+import ProcurementPurchaseOrder from '../models/procurement-purchase-order.model';
+import InstagramInsights from '../models/instagram-insights.model';
+import GoogleReview from '../models/google-review.model';
+import { DataScope } from '../types';
+import { applyProjectScope } from '../utils/dataScope';
+import { getYesterdayDate, getDayBeforeYesterdayDate } from '../utils/dateUtils';
+
+/**
+ * Dashboard KPI aggregations shared by the summary endpoints and the daily digest
+ * Each function returns the same figures as the dashboard card it backs
+ */
+
+const BANK_GROUP_DATA_SOURCE = 'MSD Bank Group Summary sync';
+const RESERVATION_TARGET_AMOUNT = 1000000000; // 1 Billion AED
+const RESERVATION_YEAR_START = new Date(2026, 0, 1); // Year-to-date reservations count from January 1, 2026
+
+export interface KpiChange {
+  amount: number;
+  percentage: number;
+  percentageFormatted: string;
+}
+
+export interface CollectionTotals {
+  escrowCollection: number;
+  nonEscrowCollection: number;
+  totalCollection: number;
+}
+
+/**
+ * Compare a value with the previous period
+ * A rise from zero counts as +100%
+ */
+export const getChange = (current: number, previous: number): KpiChange => {
+  let percentage = 0;
+  if (previous === 0) {
+    percentage = current > 0 ? 100 : 0;
+  } else {
+    percentage = ((current - previous) / previous) * 100;
+  }
+
+  return {
+    amount: current - previous,
+    percentage,
+    percentageFormatted: percentage >= 0 ? `+${percentage.toFixed(1)}%` : `${percentage.toFixed(1)}%`,
+  };
+};
+
+/**
+ * Get the start and end (UTC) of the day a number of days before today
+ */
+const getUtcDayRange = (daysAgo: number): { start: Date; end: Date } => {
+  const start = new Date();
+  start.setUTCHours(0, 0, 0, 0);
+  start.setUTCDate(start.getUTCDate() - daysAgo);
+
+  const end = new Date(start);
+  end.setUTCHours(23, 59, 59, 999);
+
+  return { start, end };
+};
+
+/**
+ * Get total reserves for a date
+ * Unrestricted users read the aggregate record (entity = null);
+ * entity-scoped users get the sum of their allowed entities
+ */
+export const getReserveTotalsForDate = async (
+  date: string,
+  scope: DataScope | undefined
+): Promise<{
+  TotalReserve: number;
+  EscrowReserve: number;
+  NonEscrowReserve: number;
+  OtherReserve: number;
+  Currency?: string;
+} | null> => {
+  if (!scope?.restricted) {
+    return FinanceReserveBank.findOne({
+      entity: null,
+      date,
+      dataSource: BANK_GROUP_DATA_SOURCE,
+    });
+  }
+
+  const result = await FinanceReserveBank.aggregate([
+    {
+      $match: {
+        entity: { $in: scope.entityIds },
+        date,
+        dataSource: BANK_GROUP_DATA_SOURCE,
+      },
+    },
+    {
+      $group: {
+        _id: null,
+        TotalReserve: { $sum: '$TotalReserve' },
+        EscrowReserve: { $sum: '$EscrowReserve' },
+        NonEscrowReserve: { $sum: '$NonEscrowReserve' },
+        OtherReserve: { $sum: '$OtherReserve' },
+        Currency: { $first: '$Currency' },
+      },
+    },
+  ]);
+
+  return result[0] || null;
+};
+
+/**
+ * Get yesterday's total liquidity with its change from the day before (liquidity card)
+ */
+export const getLiquiditySummaryData = async (scope: DataScope | undefined) => {
+  const yesterday = getYesterdayDate();
+  const dayBeforeYesterday = getDayBeforeYesterdayDate();
+
+  const [yesterdayData, previousDayData] = await Promise.all([
+    getReserveTotalsForDate(yesterday, scope),
+    getReserveTotalsForDate(dayBeforeYesterday, scope),
+  ]);
+
+  const yesterdayTotal = yesterdayData?.TotalReserve || 0;
+  const previousDayTotal = previousDayData?.TotalReserve || 0;
+
+  return {
+    yesterday: {
+      date: yesterday,
+      totalReserve: yesterdayTotal,
+      escrowReserve: yesterdayData?.EscrowReserve || 0,
+      nonEscrowReserve: yesterdayData?.NonEscrowReserve || 0,
+      otherReserve: yesterdayData?.OtherReserve || 0,
+    },
+    previousDay: {
+      date: dayBeforeYesterday,
+      totalReserve: previousDayTotal,
+      escrowReserve: previousDayData?.EscrowReserve || 0,
+      nonEscrowReserve: previousDayData?.NonEscrowReserve || 0,
+      otherReserve: previousDayData?.OtherReserve || 0,
+    },
+    change: getChange(yesterdayTotal, previousDayTotal),
+  };
+};
+
+/**
+ * Get collections for a day
+ * Uses the Grand Summary record when the figures aren't filtered; otherwise sums the regular records
+ */
+export const getCollectionForDate = async (
+  start: Date,
+  end: Date,
+  scope: DataScope | undefined,
+  projectId?: string
+): Promise<CollectionTotals> => {
+  const hasProjectFilter = !!projectId && mongoose.Types.ObjectId.isValid(projectId);
+
+  // The Grand Summary is an aggregate, so it can't be used with a project filter or entity scope
+  if (!hasProjectFilter && !scope?.restricted) {
+    const grandSummary = await SalesCollection.findOne({
+      specialType: 'Grand Summary',
+      date: { $gte: start, $lte: end },
+    });
+    if (grandSummary) {
+      return {
+        escrowCollection: grandSummary.escrowCollection || 0,
+        nonEscrowCollection: grandSummary.nonEscrowCollection || 0,
+        totalCollection: (grandSummary.escrowCollection || 0) + (grandSummary.nonEscrowCollection || 0),
+      };
+    }
+  }
+
+  return sumRegularCollections(start, end, scope, hasProjectFilter ? projectId : undefined);
+};
+
+/**
+ * Sum the regular (non-summary) collection records in a date range
+ */
+const sumRegularCollections = async (
+  start: Date,
+  end: Date,
+  scope: DataScope | undefined,
+  projectId?: string
+): Promise<CollectionTotals> => {
+  const match: Record<string, any> = {
+    $or: [
+      { specialType: { $exists: false } },
+      { specialType: null },
+      { specialType: { $nin: ['Grand Summary', 'No Value'] } },
+    ],
+    date: { $gte: start, $lte: end },
+  };
+
+  if (projectId) {
+    match.project = new mongoose.Types.ObjectId(projectId);
+  }
+
+  applyProjectScope(match, 'project', scope);
+
+  const result = await SalesCollection.aggregate([
+    { $match: match },
+    {
+      $group: {
+        _id: null,
+        escrowCollection: { $sum: '$escrowCollection' },
+        nonEscrowCollection: { $sum: '$nonEscrowCollection' },
+        totalCollection: {
+          $sum: { $add: ['$escrowCollection', '$nonEscrowCollection'] },
+        },
+      },
+    },
+  ]);
+
+  return result[0] || {
+    escrowCollection: 0,
+    nonEscrowCollection: 0,
+    totalCollection: 0,
+  };
+};
+
+/**
+ * Get yesterday's collections with the change from the day before (sales collection card)
+ */
+export const getSalesCollectionSummaryData = async (scope: DataScope | undefined, projectId?: string) => {
+  const yesterday = getUtcDayRange(1);
+  const dayBeforeYesterday = getUtcDayRange(2);
+
+  const [yesterdayData, previousDayData] = await Promise.all([
+    getCollectionForDate(yesterday.start, yesterday.end, scope, projectId),
+    getCollectionForDate(dayBeforeYesterday.start, dayBeforeYesterday.end, scope, projectId),
+  ]);
+
+  return {
+    yesterday: {
+      date: yesterday.start.toISOString().split('T')[0],
+      totalCollection: yesterdayData.totalCollection,
+      escrowCollection: yesterdayData.escrowCollection,
+      nonEscrowCollection: yesterdayData.nonEscrowCollection,
+    },
+    previousDay: {
+      date: dayBeforeYesterday.start.toISOString().split('T')[0],
+      totalCollection: previousDayData.totalCollection,
+      escrowCollection: previousDayData.escrowCollection,
+      nonEscrowCollection: previousDayData.nonEscrowCollection,
+    },
+    change: getChange(yesterdayData.totalCollection, previousDayData.totalCollection),
+  };
+};
+
+/**
+ * Get collections from the start of the month (UTC) to the end of yesterday
+ * Summed from the regular records, as the Grand Summary is only kept per day
+ */
+export const getMonthToDateCollection = async (scope: DataScope | undefined): Promise<CollectionTotals> => {
+  const { end } = getUtcDayRange(1);
+  const start = new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), 1));
+
+  return sumRegularCollections(start, end, scope);
+};
+
+/**
+ * Sum net reservations (reserved minus cancelled) matching a query
+ */
+const sumNetReservations = async (match: Record<string, any>): Promise<number> => {
+  const result = await RevenueReservation.aggregate([
+    { $match: match },
+    {
+      $group: {
+        _id: null,
+        totalNetReservedAmount: {
+          $sum: { $subtract: ['$reservedAmount', '$cancelledAmount'] },
+        },
+      },
+    },
+  ]);
+
+  return result[0]?.totalNetReservedAmount || 0;
+};
+
+/**
+ * Get reservation totals for one day
+ */
+const getReservationsForDay = async (baseMatch: Record<string, any>, start: Date, end: Date) => {
+  const result = await RevenueReservation.aggregate([
+    { $match: { ...baseMatch, date: { $gte: start, $lte: end } } },
+    {
+      $group: {
+        _id: null,
+        reservedAmount: { $sum: '$reservedAmount' },
+        cancelledAmount: { $sum: '$cancelledAmount' },
+        reservedUnits: { $sum: '$reservedUnits' },
+        cancelledUnits: { $sum: '$cancelledUnits' },
+      },
+    },
+  ]);
+
+  return result[0] || {
+    reservedAmount: 0,
+    cancelledAmount: 0,
+    reservedUnits: 0,
+    cancelledUnits: 0,
+  };
+};
+
+/**
+ * Get yesterday's net reservations with the change from the day before, plus all-time, month-to-date and
+ * year-to-date totals and the target (revenue reservation card)
+ * baseMatch holds the caller's filters and data scope
+ */
+export const getReservationSummaryData = async (baseMatch: Record<string, any>) => {
+  const today = new Date();
+  const yesterday = getUtcDayRange(1);
+  const previousDay = getUtcDayRange(2);
+
+  const [yesterdayData, previousDayData] = await Promise.all([
+    getReservationsForDay(baseMatch, yesterday.start, yesterday.end),
+    getReservationsForDay(baseMatch, previousDay.start, previousDay.end),
+  ]);
+
+  const yesterdayNetAmount = yesterdayData.reservedAmount - yesterdayData.cancelledAmount;
+  const previousDayNetAmount = previousDayData.reservedAmount - previousDayData.cancelledAmount;
+
+  // Month and year to date run to the end of today
+  const currentMonthStart = new Date(today.getFullYear(), today.getMonth(), 1);
+  currentMonthStart.setUTCHours(0, 0, 0, 0);
+  const currentMonthEnd = new Date(today);
+  currentMonthEnd.setUTCHours(23, 59, 59, 999);
+
+  const yearStart = new Date(RESERVATION_YEAR_START);
+  yearStart.setUTCHours(0, 0, 0, 0);
+
+  const [totalRevenue, monthToDate, yearToDate] = await Promise.all([
+    sumNetReservations(baseMatch),
+    sumNetReservations({ ...baseMatch, date: { $gte: currentMonthStart, $lte: currentMonthEnd } }),
+    sumNetReservations({ ...baseMatch, date: { $gte: yearStart, $lte: currentMonthEnd } }),
+  ]);
+
+  return {
+    yesterday: {
+      date: yesterday.start.toISOString().split('T')[0],
+      netReservedAmount: yesterdayNetAmount,
+      reservedAmount: yesterdayData.reservedAmount,
+      cancelledAmount: yesterdayData.cancelledAmount,
+      reservedUnits: yesterdayData.reservedUnits,
+      cancelledUnits: yesterdayData.cancelledUnits,
+    },
+    previousDay: {
+      date: previousDay.start.toISOString().split('T')[0],
+      netReservedAmount: previousDayNetAmount,
+      reservedAmount: previousDayData.reservedAmount,
+      cancelledAmount: previousDayData.cancelledAmount,
+      reservedUnits: previousDayData.reservedUnits,
+      cancelledUnits: previousDayData.cancelledUnits,
+    },
+    change: getChange(yesterdayNetAmount, previousDayNetAmount),
+    totalRevenue,
+    monthToDate,
+    yearToDate,
+    targetAmount: RESERVATION_TARGET_AMOUNT,
+  };
+};
+
+/**
+ * Sum expense payouts by category in a date range
+ */
+const aggregateExpenses = async (match: Record<string, any>, from: Date, to: Date) => {
+  const result = await FinanceExpensePaidout.aggregate([
+    {
+      $match: {
+        ...match,
+        date: { $gte: from, $lte: to },
+      },
+    },
+    {
+      $group: {
+        _id: null,
+        opsExpenses: { $sum: '$Ops_Expenses' },
+        landExpenses: { $sum: '$Land_Expenses' },
+        constructionExpenses: { $sum: '$Construction_Expenses' },
+        cashExpenses: { $sum: '$cash_expense' },
+        totalPayout: {
+          $sum: {
+            $add: ['$Ops_Expenses', '$Land_Expenses', '$Construction_Expenses', '$cash_expense'],
+          },
+        },
+      },
+    },
+  ]);
+
+  return result[0] || {
+    opsExpenses: 0,
+    landExpenses: 0,
+    constructionExpenses: 0,
+    cashExpenses: 0,
+    totalPayout: 0,
+  };
+};
+
+/**
+ * Get this month's expense payout so far with the change from last month (expense card)
+ * match holds the caller's filters and data scope
+ */
+export const getExpenseSummaryData = async (match: Record<string, any>) => {
+  const today = new Date();
+
+  const currentMonthStart = new Date(today.getFullYear(), today.getMonth(), 1);
+  currentMonthStart.setUTCHours(0, 0, 0, 0);
+  const currentMonthEnd = new Date(today);
+  currentMonthEnd.setUTCHours(23, 59, 59, 999);
+
+  const previousMonthStart = new Date(today.getFullYear(), today.getMonth() - 1, 1);
+  previousMonthStart.setUTCHours(0, 0, 0, 0);
+  const previousMonthEnd = new Date(today.getFullYear(), today.getMonth(), 0);
+  previousMonthEnd.setUTCHours(23, 59, 59, 999);
+
+  const [currentMonthData, previousMonthData] = await Promise.all([
+    aggregateExpenses(match, currentMonthStart, currentMonthEnd),
+    aggregateExpenses(match, previousMonthStart, previousMonthEnd),
+  ]);
+
+  const formatMonth = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+  const formatTotals = (month: Date, data: typeof currentMonthData) => ({
+    month: formatMonth(month),
+    totalPayout: data.totalPayout,
+    opsExpenses: data.opsExpenses,
+    landExpenses: data.landExpenses,
+    constructionExpenses: data.constructionExpenses,
+    cashExpenses: data.cashExpenses,
+  });
+
+  return {
+    currentMonth: formatTotals(currentMonthStart, currentMonthData),
+    previousMonth: formatTotals(previousMonthStart, previousMonthData),
+    change: getChange(currentMonthData.totalPayout, previousMonthData.totalPayout),
+  };
+};
+
+/**
+ * Get this month's procurement total with the change from last month (procurement card)
+ * Drafts are excluded; match holds the caller's filters and data scope
+ */
+export const getProcurementSummaryData = async (match: Record<string, any>) => {
+  const today = new Date();
+  const currentMonthStart = new Date(today.getFullYear(), today.getMonth(), 1);
+  currentMonthStart.setHours(0, 0, 0, 0);
+  const currentMonthEnd = new Date(today.getFullYear(), today.getMonth() + 1, 0);
+  currentMonthEnd.setHours(23, 59, 59, 999);
+
+  const previousMonthStart = new Date(today.getFullYear(), today.getMonth() - 1, 1);
+  previousMonthStart.setHours(0, 0, 0, 0);
+  const previousMonthEnd = new Date(today.getFullYear(), today.getMonth(), 0);
+  previousMonthEnd.setHours(23, 59, 59, 999);
+
+  const sumOrders = async (from: Date, to: Date): Promise<number> => {
+    const result = await ProcurementPurchaseOrder.aggregate([
+      { $match: { ...match, approvalStatus: { $ne: 'Draft' }, createdTimestamp: { $gte: from, $lte: to } } },
+      { $group: { _id: null, total: { $sum: '$totalAmount' } } },
+    ]);
+    return result[0]?.total || 0;
+  };
+
+  const [currentMonthTotal, previousMonthTotal] = await Promise.all([
+    sumOrders(currentMonthStart, currentMonthEnd),
+    sumOrders(previousMonthStart, previousMonthEnd),
+  ]);
+
+  const formatMonth = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+  return {
+    currentMonth: {
+      month: formatMonth(currentMonthStart),
+      totalProcurement: currentMonthTotal,
+    },
+    previousMonth: {
+      month: formatMonth(previousMonthStart),
+      totalProcurement: previousMonthTotal,
+    },
+    change: getChange(currentMonthTotal, previousMonthTotal),
+  };
+};
+
+/**
+ * Get purchase orders created yesterday (UTC), excluding drafts, with the largest ones first
+ */
+export const getNewPurchaseOrders = async (match: Record<string, any>, largestCount: number = 3) => {
+  const { start, end } = getUtcDayRange(1);
+  const orderMatch = { ...match, approvalStatus: { $ne: 'Draft' }, createdTimestamp: { $gte: start, $lte: end } };
+
+  const [totals, largest] = await Promise.all([
+    ProcurementPurchaseOrder.aggregate([
+      { $match: orderMatch },
+      { $group: { _id: null, count: { $sum: 1 }, totalAmount: { $sum: '$totalAmount' } } },
+    ]),
+    ProcurementPurchaseOrder.find(orderMatch)
+      .sort({ totalAmount: -1 })
+      .limit(largestCount)
+      .select('purchId venderName totalAmount currency approvalStatus dataAreaId')
+      .lean(),
+  ]);
+
+  return {
+    date: start.toISOString().split('T')[0],
+    count: totals[0]?.count || 0,
+    totalAmount: totals[0]?.totalAmount || 0,
+    largest,
+  };
+};
+
+/**
+ * Get total followers, yesterday's new followers and reach, and month-to-date new followers (Instagram card)
+ * baseMatch may narrow the records to an entity
+ */
+export const getInstagramStatsData = async (baseMatch: Record<string, any> = {}) => {
+  const match = { platform: 'INSTAGRAM', ...baseMatch };
+  const { start, end } = getUtcDayRange(1);
+
+  const now = new Date();
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1, 0, 0, 0, 0));
+
+  const [latest, yesterdayRecord, monthToDateResult] = await Promise.all([
+    InstagramInsights.findOne(match).sort({ date: -1, updatedAt: -1 }),
+    InstagramInsights.findOne({ ...match, date: { $gte: start, $lte: end } }),
+    InstagramInsights.aggregate([
+      { $match: { ...match, date: { $gte: monthStart, $lte: now } } },
+      { $group: { _id: null, totalNewFollowers: { $sum: '$newFollowers' } } },
+    ]),
+  ]);
+
+  return {
+    totalFollowers: latest?.totalFollower || 0,
+    yesterday: {
+      newFollowers: yesterdayRecord?.newFollowers || 0,
+      newReach: yesterdayRecord?.newReach || 0,
+    },
+    monthToDate: monthToDateResult[0]?.totalNewFollowers || 0,
+    lastSync: latest?.lastSyncDateTime || null,
+  };
+};
+
+/**
+ * Get yesterday's Google reviews: count, average rating and the lowest-rated ones, plus the month-to-date count
+ * Days follow server time, like the reviews dashboard
+ */
+export const getGoogleReviewHighlights = async (lowRatingMax: number = 2, lowRatedCount: number = 3) => {
+  const now = new Date();
+  const yesterdayStart = new Date(now);
+  yesterdayStart.setDate(yesterdayStart.getDate() - 1);
+  yesterdayStart.setHours(0, 0, 0, 0);
+  const yesterdayEnd = new Date(yesterdayStart);
+  yesterdayEnd.setHours(23, 59, 59, 999);
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+
+  const yesterdayMatch = { date: { $gte: yesterdayStart, $lte: yesterdayEnd } };
+
+  const [yesterdayStats, monthToDate, lowRated] = await Promise.all([
+    GoogleReview.aggregate([
+      { $match: yesterdayMatch },
+      { $group: { _id: null, count: { $sum: 1 }, averageRating: { $avg: '$starRating' } } },
+    ]),
+    GoogleReview.countDocuments({ date: { $gte: monthStart, $lte: now } }),
+    GoogleReview.find({ ...yesterdayMatch, starRating: { $lte: lowRatingMax } })
+      .sort({ starRating: 1, date: -1 })
+      .limit(lowRatedCount)
+      .select('reviewer comment starRating date')
+      .lean(),
+  ]);
+
+  return {
+    yesterday: {
+      count: yesterdayStats[0]?.count || 0,
+      averageRating: yesterdayStats[0]?.averageRating ? Number(yesterdayStats[0].averageRating.toFixed(2)) : 0,
+    },
+    monthToDate,
+    lowRated,
+  };
+};
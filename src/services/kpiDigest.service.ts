@@ -0,0 +1,451 @@
+import mongoose from 'mongoose';
+import DigestSubscription, {
+  IDigestSubscription,
+  DigestSection,
+  DIGEST_SECTIONS,
+} from '../models/digestSubscription.model';
+import User from '../models/user.model';
+import { Permission } from '../config/permissions';
+import { DEFAULT_LOCALE, LOCALE_SETTINGS, Locale } from '../config/locales';
+import { DataScope, IUser } from '../types';
+import { AppError } from '../utils/errors';
+import { getDubaiDateTime } from '../utils/dateUtils';
+import { applyEntityScope, applyProjectScope } from '../utils/dataScope';
+import { roleHasPermissions } from './permission.service';
+import { getUserDataScope } from './dataScope.service';
+import { sendTemplatedEmail } from './emailTemplate.service';
+import { getLastSyncRun, SyncRun } from './syncHealth.service';
+import {
+  KpiChange,
+  getLiquiditySummaryData,
+  getSalesCollectionSummaryData,
+  getMonthToDateCollection,
+  getReservationSummaryData,
+  getExpenseSummaryData,
+  getNewPurchaseOrders,
+  getInstagramStatsData,
+  getGoogleReviewHighlights,
+} from './kpi.service';
+
+/**
+ * Daily executive digest: yesterday's dashboard KPIs emailed to subscribers once the morning sync has run
+ * Subscribers choose their sections and a send time (Dubai); sections they can't read on the dashboard are left out
+ */
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+const DIGEST_TEMPLATE = 'kpi-digest';
+const REVIEW_EXCERPT_LENGTH = 160;
+
+const SECTION_PERMISSIONS: Record<DigestSection, Permission> = {
+  liquidity: 'finance-reserve:read',
+  collections: 'sales-collection:read',
+  reservations: 'revenue-reservation:read',
+  expenses: 'expense-paidout:read',
+  procurement: 'procurement:read',
+  instagram: 'instagram-insights:read',
+  googleReviews: 'google-reviews:read',
+};
+
+export interface DigestSettings {
+  enabled: boolean;
+  sections: DigestSection[];
+  sendTime: string | null;
+  lastSentAt: Date | null;
+  unsubscribedAt: Date | null;
+}
+
+export interface DigestSettingsUpdate {
+  enabled?: boolean;
+  sections?: DigestSection[];
+  sendTime?: string | null; // null sends right after the sync again
+}
+
+/**
+ * KPI figures are the same for everyone with the same data scope, so each digest run
+ * computes them once per scope and section
+ */
+type KpiCache = Map<string, Promise<unknown>>;
+
+let digestRunInProgress = false;
+
+/**
+ * Format the settings a subscription holds (defaults for users without one)
+ */
+const formatSettings = (subscription: IDigestSubscription | null): DigestSettings => ({
+  enabled: subscription?.enabled ?? false,
+  sections: subscription?.sections ?? [...DIGEST_SECTIONS],
+  sendTime: subscription?.sendTime ?? null,
+  lastSentAt: subscription?.lastSentAt ?? null,
+  unsubscribedAt: subscription?.unsubscribedAt ?? null,
+});
+
+/**
+ * Get a user's digest settings
+ * Users without a subscription are not sent the digest
+ */
+export const getDigestSettings = async (userId: string): Promise<DigestSettings> => {
+  return formatSettings(await DigestSubscription.findOne({ user: userId }));
+};
+
+/**
+ * Create or change a user's digest subscription
+ * Turning the digest back on clears an earlier unsubscribe
+ */
+export const updateDigestSettings = async (
+  userId: string,
+  update: DigestSettingsUpdate,
+  actorId?: string
+): Promise<DigestSettings> => {
+  const $set: Record<string, unknown> = { updatedBy: actorId };
+  const $unset: Record<string, ''> = {};
+
+  if (update.enabled !== undefined) {
+    $set.enabled = update.enabled;
+    if (update.enabled) {
+      $unset.unsubscribedAt = '';
+    }
+  }
+  if (update.sections !== undefined) {
+    $set.sections = DIGEST_SECTIONS.filter((section) => update.sections!.includes(section));
+  }
+  if (update.sendTime === null) {
+    $unset.sendTime = '';
+  } else if (update.sendTime !== undefined) {
+    $set.sendTime = update.sendTime;
+  }
+
+  const subscription = await DigestSubscription.findOneAndUpdate(
+    { user: userId },
+    { $set, ...(Object.keys($unset).length > 0 && { $unset }) },
+    { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+  );
+
+  return formatSettings(subscription);
+};
+
+/**
+ * List digest subscriptions with their users (admin overview)
+ */
+export const listDigestSubscriptions = async (): Promise<Array<DigestSettings & { user: unknown }>> => {
+  const subscriptions = await DigestSubscription.find()
+    .populate('user', 'username email role status')
+    .sort({ createdAt: 1 });
+
+  return subscriptions.map((subscription) => ({
+    user: subscription.user,
+    ...formatSettings(subscription),
+  }));
+};
+
+/**
+ * Turn off the digest for the subscription an unsubscribe link belongs to
+ * Returns false if the token doesn't match a subscription
+ */
+export const unsubscribeDigest = async (token: string): Promise<boolean> => {
+  const subscription = await DigestSubscription.findOneAndUpdate(
+    { unsubscribeToken: token },
+    { $set: { enabled: false, unsubscribedAt: new Date() } }
+  );
+  return subscription !== null;
+};
+
+/**
+ * Cache key for a data scope
+ */
+const getScopeKey = (scope: DataScope): string => {
+  return scope.restricted ? scope.entityIds.map(String).sort().join(',') : 'all';
+};
+
+/**
+ * Compute a section's figures for a scope, reusing the result within a run
+ */
+const getCached = <T>(cache: KpiCache, key: string, load: () => Promise<T>): Promise<T> => {
+  if (!cache.has(key)) {
+    cache.set(key, load());
+  }
+  return cache.get(key) as Promise<T>;
+};
+
+/**
+ * Formatters for amounts (compact, e.g. 12.4M), percentages and signed changes in a locale
+ */
+const createFormatters = (locale: Locale) => {
+  const intl = LOCALE_SETTINGS[locale].intl;
+  const compact = new Intl.NumberFormat(intl, { notation: 'compact', maximumFractionDigits: 1 });
+  const signedCompact = new Intl.NumberFormat(intl, {
+    notation: 'compact',
+    maximumFractionDigits: 1,
+    signDisplay: 'exceptZero',
+  });
+
+  return {
+    amount: (value: number) => compact.format(value),
+    change: (change: KpiChange) => ({
+      amount: signedCompact.format(change.amount),
+      percentage: change.percentageFormatted,
+      up: change.amount > 0,
+      down: change.amount < 0,
+    }),
+    date: (date: string) =>
+      new Intl.DateTimeFormat(intl, { dateStyle: 'long', timeZone: 'UTC' }).format(new Date(`${date}T00:00:00Z`)),
+    time: (date: Date) =>
+      new Intl.DateTimeFormat(intl, { timeStyle: 'short', timeZone: 'Asia/Dubai' }).format(date),
+  };
+};
+
+/**
+ * Build one section of the digest for a scope
+ */
+const buildSection = async (
+  section: DigestSection,
+  scope: DataScope,
+  cache: KpiCache,
+  format: ReturnType<typeof createFormatters>
+): Promise<Record<string, unknown>> => {
+  const key = `${section}:${getScopeKey(scope)}`;
+
+  switch (section) {
+    case 'liquidity': {
+      const data = await getCached(cache, key, () => getLiquiditySummaryData(scope));
+      return {
+        total: format.amount(data.yesterday.totalReserve),
+        escrow: format.amount(data.yesterday.escrowReserve),
+        nonEscrow: format.amount(data.yesterday.nonEscrowReserve),
+        change: format.change(data.change),
+      };
+    }
+    case 'collections': {
+      const [yesterday, monthToDate] = await getCached(cache, key, () =>
+        Promise.all([getSalesCollectionSummaryData(scope), getMonthToDateCollection(scope)])
+      );
+      return {
+        total: format.amount(yesterday.yesterday.totalCollection),
+        escrow: format.amount(yesterday.yesterday.escrowCollection),
+        nonEscrow: format.amount(yesterday.yesterday.nonEscrowCollection),
+        change: format.change(yesterday.change),
+        monthToDate: format.amount(monthToDate.totalCollection),
+      };
+    }
+    case 'reservations': {
+      const data = await getCached(cache, key, () => {
+        const match: Record<string, any> = {};
+        applyProjectScope(match, 'projectId', scope);
+        return getReservationSummaryData(match);
+      });
+      return {
+        net: format.amount(data.yesterday.netReservedAmount),
+        change: format.change(data.change),
+        monthToDate: format.amount(data.monthToDate),
+        yearToDate: format.amount(data.yearToDate),
+        target: format.amount(data.targetAmount),
+        targetProgress: `${((data.yearToDate / data.targetAmount) * 100).toFixed(1)}%`,
+      };
+    }
+    case 'expenses': {
+      const data = await getCached(cache, key, () => {
+        const match: Record<string, any> = {};
+        applyEntityScope(match, 'entity', scope);
+        return getExpenseSummaryData(match);
+      });
+      return {
+        monthToDate: format.amount(data.currentMonth.totalPayout),
+        previousMonth: format.amount(data.previousMonth.totalPayout),
+        change: format.change(data.change),
+      };
+    }
+    case 'procurement': {
+      const data = await getCached(cache, key, () => {
+        const match: Record<string, any> = {};
+        applyEntityScope(match, 'entityId', scope);
+        return getNewPurchaseOrders(match);
+      });
+      return {
+        count: data.count,
+        total: format.amount(data.totalAmount),
+        largest: data.largest.map((order) => ({
+          purchId: order.purchId,
+          vendor: order.venderName,
+          amount: format.amount(order.totalAmount || 0),
+          currency: order.currency || 'AED',
+        })),
+      };
+    }
+    case 'instagram': {
+      // Social figures are company-wide, so every subscriber shares them
+      const data = await getCached(cache, section, () => getInstagramStatsData());
+      return {
+        totalFollowers: data.totalFollowers,
+        newFollowers: data.yesterday.newFollowers,
+        newReach: data.yesterday.newReach,
+        monthToDate: data.monthToDate,
+      };
+    }
+    case 'googleReviews': {
+      const data = await getCached(cache, section, () => getGoogleReviewHighlights());
+      return {
+        count: data.yesterday.count,
+        averageRating: data.yesterday.averageRating,
+        monthToDate: data.monthToDate,
+        lowRated: data.lowRated.map((review) => ({
+          reviewer: review.reviewer,
+          starRating: review.starRating,
+          comment: review.comment && review.comment.length > REVIEW_EXCERPT_LENGTH
+            ? `${review.comment.slice(0, REVIEW_EXCERPT_LENGTH)}…`
+            : review.comment,
+        })),
+      };
+    }
+  }
+};
+
+/**
+ * Get the sections a user receives: the ones they chose that their role can read
+ */
+const getPermittedSections = async (user: IUser, sections: DigestSection[]): Promise<DigestSection[]> => {
+  const permitted: DigestSection[] = [];
+  for (const section of sections) {
+    if (await roleHasPermissions(user.role, [SECTION_PERMISSIONS[section]])) {
+      permitted.push(section);
+    }
+  }
+  return permitted;
+};
+
+/**
+ * Render and queue one subscriber's digest
+ * Returns false if none of their sections are visible to them
+ */
+const deliverDigest = async (
+  subscription: IDigestSubscription,
+  user: IUser,
+  run: SyncRun | null,
+  cache: KpiCache
+): Promise<boolean> => {
+  const sections = await getPermittedSections(user, subscription.sections);
+  if (sections.length === 0) {
+    return false;
+  }
+
+  const locale = user.locale || DEFAULT_LOCALE;
+  const format = createFormatters(locale);
+  const scope = await getUserDataScope(user._id.toString());
+
+  const data: Record<string, unknown> = {
+    username: user.username,
+    reportDate: format.date(getDubaiDateTime(new Date(Date.now() - 24 * 60 * 60 * 1000)).date),
+    currency: 'AED',
+    unsubscribeUrl: `${APP_URL}/digest/unsubscribe?token=${encodeURIComponent(subscription.unsubscribeToken)}`,
+    settingsUrl: `${APP_URL}/profile`,
+  };
+  for (const section of sections) {
+    data[section] = await buildSection(section, scope, cache, format);
+  }
+
+  // Footnotes on the sync the figures come from
+  if (run) {
+    const failed = run.results.filter((result) => !result.success);
+    data.sync = {
+      finishedAt: format.time(run.finishedAt),
+      healthy: failed.length === 0,
+      failed: failed.map((result) => ({ name: result.name, error: result.errors[0] || '' })),
+    };
+  }
+
+  await sendTemplatedEmail(user.email, DIGEST_TEMPLATE, data, locale);
+  return true;
+};
+
+/**
+ * Send the digests that are due
+ * Runs every minute; nothing goes out until today's scheduled sync has finished, then each subscriber
+ * is sent one digest a day at (or after) their send time
+ */
+export const sendDueDigests = async (): Promise<number> => {
+  if (digestRunInProgress) {
+    return 0;
+  }
+  digestRunInProgress = true;
+
+  try {
+    const now = getDubaiDateTime();
+    const run = await getLastSyncRun();
+    if (!run || run.date !== now.date) {
+      return 0;
+    }
+
+    const subscriptions = await DigestSubscription.find({
+      enabled: true,
+      lastSentOn: { $ne: now.date },
+      $or: [{ sendTime: { $exists: false } }, { sendTime: { $lte: now.time } }],
+    }).select('+unsubscribeToken');
+
+    const cache: KpiCache = new Map();
+    let sent = 0;
+
+    for (const subscription of subscriptions) {
+      // Claim the subscription so another instance doesn't send the same digest
+      // Inactive users and subscribers without a visible section are skipped for the day
+      const claimed = await DigestSubscription.findOneAndUpdate(
+        { _id: subscription._id, lastSentOn: { $ne: now.date } },
+        { $set: { lastSentOn: now.date } }
+      );
+      if (!claimed) {
+        continue;
+      }
+
+      try {
+        const user = await User.findById(subscription.user);
+        if (!user || user.status !== 'active') {
+          continue;
+        }
+        if (await deliverDigest(subscription, user, run, cache)) {
+          await DigestSubscription.updateOne({ _id: subscription._id }, { $set: { lastSentAt: new Date() } });
+          sent++;
+        }
+      } catch (error) {
+        console.error(`❌ Error sending KPI digest to user ${subscription.user}:`, error);
+
+        // Release the claim so the next run tries again
+        await DigestSubscription.updateOne(
+          { _id: subscription._id, lastSentOn: now.date },
+          { $unset: { lastSentOn: 1 } }
+        ).catch((releaseError) => {
+          console.error(`❌ Error releasing KPI digest claim for user ${subscription.user}:`, releaseError);
+        });
+      }
+    }
+
+    return sent;
+  } finally {
+    digestRunInProgress = false;
+  }
+};
+
+/**
+ * Send a user's digest now, whatever their send time (admin)
+ */
+export const sendDigestNow = async (userId: string): Promise<void> => {
+  if (!mongoose.Types.ObjectId.isValid(userId)) {
+    throw new AppError('Invalid user ID', 400);
+  }
+
+  const user = await User.findById(userId);
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+  if (user.status !== 'active') {
+    throw new AppError('Digests are only sent to active users', 400);
+  }
+
+  const subscription = await DigestSubscription.findOne({ user: userId }).select('+unsubscribeToken');
+  if (!subscription) {
+    throw new AppError('User is not subscribed to the digest', 404);
+  }
+
+  const delivered = await deliverDigest(subscription, user, await getLastSyncRun(), new Map());
+  if (!delivered) {
+    throw new AppError("None of the user's digest sections are visible to their role", 400);
+  }
+
+  subscription.lastSentAt = new Date();
+  await subscription.save();
+};
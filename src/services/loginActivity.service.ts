@@ -0,0 +1,196 @@
+import mongoose from 'mongoose';
+import { redisClient } from '../config/redis';
+import User from '../models/user.model';
+import { ClientInfo, ILoginHistoryEntry, IUser, LoginMethod } from '../types';
+
+const LOGIN_HISTORY_LIMIT = parseInt(process.env.LOGIN_HISTORY_LIMIT || '50', 10);
+const ACTIVITY_RETENTION_DAYS = parseInt(process.env.ACTIVITY_RETENTION_DAYS || '400', 10);
+const USER_SEEN_INTERVAL_SECONDS = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ActiveUserStats {
+  dailyActiveUsers: number; // Distinct users seen today (UTC)
+  weeklyActiveUsers: number; // Distinct users seen in the last 7 days, including today
+  monthlyActiveUsers: number; // Distinct users seen in the last 30 days, including today
+  daily: Array<{ date: string; activeUsers: number }>;
+}
+
+/**
+ * Get the UTC day (YYYY-MM-DD) for a date
+ */
+const getDay = (date: Date): string => {
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Get Redis key for the set of users active on a day (HyperLogLog)
+ */
+const getActiveUsersKey = (day: string): string => {
+  return `activity:active:${day}`;
+};
+
+/**
+ * Get Redis key that throttles last-seen updates for a user
+ */
+const getUserSeenKey = (userId: string): string => {
+  return `activity:seen:${userId}`;
+};
+
+/**
+ * Get the last N UTC days, oldest first
+ */
+const getRecentDays = (days: number): string[] => {
+  const now = Date.now();
+  return Array.from({ length: days }, (_, index) => getDay(new Date(now - (days - 1 - index) * DAY_MS)));
+};
+
+/**
+ * Count a user as active today
+ */
+const markActive = async (userId: string): Promise<void> => {
+  const key = getActiveUsersKey(getDay(new Date()));
+  await redisClient
+    .multi()
+    .pfAdd(key, userId)
+    .expire(key, ACTIVITY_RETENTION_DAYS * 24 * 60 * 60)
+    .exec();
+};
+
+/**
+ * Add an entry to a user's login history, keeping only the most recent entries
+ */
+const pushLoginHistory = async (
+  userId: string | mongoose.Types.ObjectId,
+  entry: ILoginHistoryEntry,
+  set: Record<string, unknown> = {}
+): Promise<void> => {
+  await User.updateOne(
+    { _id: userId },
+    {
+      ...(Object.keys(set).length > 0 && { $set: set }),
+      $push: {
+        loginHistory: { $each: [entry], $position: 0, $slice: LOGIN_HISTORY_LIMIT },
+      },
+    }
+  );
+};
+
+/**
+ * Record a successful login
+ * Failures are logged and never fail the login
+ */
+export const recordLoginSuccess = async (
+  user: IUser,
+  client: ClientInfo,
+  method: LoginMethod
+): Promise<void> => {
+  try {
+    const now = new Date();
+    await pushLoginHistory(
+      user._id,
+      { at: now, ipAddress: client.ipAddress, userAgent: client.userAgent, method, success: true },
+      { lastLoginAt: now, lastSeenAt: now }
+    );
+    await markActive(user._id.toString());
+  } catch (error) {
+    console.error('❌ Error recording login activity:', error);
+  }
+};
+
+/**
+ * Record a failed login attempt against a known account
+ * Failures are logged and never fail the request
+ */
+export const recordLoginAttemptFailure = async (
+  userId: string | mongoose.Types.ObjectId,
+  client: ClientInfo,
+  reason: string,
+  method?: LoginMethod
+): Promise<void> => {
+  try {
+    await pushLoginHistory(userId, {
+      at: new Date(),
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+      method,
+      success: false,
+      reason,
+    });
+  } catch (error) {
+    console.error('❌ Error recording failed login activity:', error);
+  }
+};
+
+/**
+ * Update a user's last-seen time and count them as active today
+ * Throttled through Redis so only one write per user per minute reaches MongoDB
+ */
+export const touchUserActivity = async (userId: string): Promise<void> => {
+  try {
+    const acquired = await redisClient.set(getUserSeenKey(userId), '1', {
+      EX: USER_SEEN_INTERVAL_SECONDS,
+      NX: true,
+    });
+
+    if (acquired) {
+      await markActive(userId);
+      await User.updateOne({ _id: userId }, { $set: { lastSeenAt: new Date() } });
+    }
+  } catch (error) {
+    console.error('❌ Error updating user last seen:', error);
+  }
+};
+
+/**
+ * Get a user's login history, most recent first
+ */
+export const getLoginHistory = async (userId: string): Promise<ILoginHistoryEntry[] | null> => {
+  const user = await User.findById(userId).select('+loginHistory');
+  return user ? user.loginHistory : null;
+};
+
+/**
+ * Get daily, weekly and monthly active users, plus a per-day series for the last N days
+ * Counts come from Redis HyperLogLogs, so they are estimates (within about 1%)
+ */
+export const getActiveUserStats = async (days: number): Promise<ActiveUserStats> => {
+  const seriesDays = getRecentDays(days);
+  const monthKeys = getRecentDays(30).map(getActiveUsersKey);
+
+  const [dailyActiveUsers, weeklyActiveUsers, monthlyActiveUsers, ...daily] = await Promise.all([
+    redisClient.pfCount(monthKeys[monthKeys.length - 1]),
+    redisClient.pfCount(monthKeys.slice(-7)),
+    redisClient.pfCount(monthKeys),
+    ...seriesDays.map((day) => redisClient.pfCount(getActiveUsersKey(day))),
+  ]);
+
+  return {
+    dailyActiveUsers,
+    weeklyActiveUsers,
+    monthlyActiveUsers,
+    daily: seriesDays.map((date, index) => ({ date, activeUsers: daily[index] })),
+  };
+};
+
+/**
+ * Build a query for accounts that have never logged in
+ */
+export const getNeverLoggedInQuery = (): Record<string, unknown> => ({
+  lastLoginAt: { $exists: false },
+  status: { $ne: 'deleted' },
+});
+
+/**
+ * Build a query for accounts that have logged in before but not been seen for the given number of days
+ */
+export const getDormantQuery = (days: number): Record<string, unknown> => {
+  const cutoff = new Date(Date.now() - days * DAY_MS);
+  return {
+    lastLoginAt: { $exists: true },
+    status: { $ne: 'deleted' },
+    $or: [
+      { lastSeenAt: { $lt: cutoff } },
+      { lastSeenAt: { $exists: false }, lastLoginAt: { $lt: cutoff } },
+    ],
+  };
+};
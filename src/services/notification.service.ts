@@ -0,0 +1,168 @@
+import { EventEmitter } from 'events';
+import mongoose from 'mongoose';
+import Notification, { INotification, NotificationCategory } from '../models/notification.model';
+import User from '../models/user.model';
+import Role from '../models/role.model';
+import { ADMIN_ROLE, Permission } from '../config/permissions';
+import { AuthRequest } from '../types';
+
+/**
+ * In-app notifications are stored per user and pushed to that user's open streams. Streams are held by
+ * this process, so with several API instances a stream only hears about notifications published on its
+ * own instance straight away; the others show up in the unread count the stream refreshes periodically.
+ */
+export interface NotificationInput {
+  category: NotificationCategory;
+  title: string;
+  message?: string;
+  link?: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Events sent to a user's streams
+ *
+ *   created  a notification was published to the user
+ *   read     notifications were marked read, so the unread count changed
+ *   closing  the server is shutting down
+ */
+export type NotificationEvent =
+  | { type: 'created'; notification: INotification }
+  | { type: 'read' }
+  | { type: 'closing' };
+
+const streams = new EventEmitter();
+streams.setMaxListeners(0); // One listener per open stream
+
+/**
+ * Publish a notification to one or more users
+ * Returns the stored notifications
+ */
+export const publishNotification = async (
+  userIds: (string | mongoose.Types.ObjectId)[] | string | mongoose.Types.ObjectId,
+  input: NotificationInput
+): Promise<INotification[]> => {
+  const recipients = [...new Set((Array.isArray(userIds) ? userIds : [userIds]).map((id) => id.toString()))];
+  if (recipients.length === 0) {
+    return [];
+  }
+
+  const notifications = await Notification.insertMany(
+    recipients.map((user) => ({
+      user: new mongoose.Types.ObjectId(user),
+      category: input.category,
+      title: input.title.slice(0, 200),
+      message: input.message?.slice(0, 2000),
+      link: input.link,
+      data: input.data || {},
+    }))
+  );
+
+  for (const notification of notifications) {
+    streams.emit(notification.user.toString(), { type: 'created', notification } as NotificationEvent);
+  }
+
+  return notifications;
+};
+
+/**
+ * Publish a notification to every active user whose role has a permission (admins always do)
+ */
+export const publishToPermission = async (
+  permission: Permission,
+  input: NotificationInput
+): Promise<INotification[]> => {
+  const roles = await Role.find({ permissions: permission }).select('name').lean();
+  const users = await User.find({
+    role: { $in: [ADMIN_ROLE, ...roles.map((role) => role.name)] },
+    status: 'active',
+  })
+    .select('_id')
+    .lean();
+
+  return publishNotification(users.map((user) => user._id), input);
+};
+
+/**
+ * Tell the user who ran a streamed export that it finished, or that it was cut short after the download began
+ * Never throws; exports by API keys or during impersonation notify no one
+ */
+export const notifyExportFinished = async (
+  req: AuthRequest,
+  exportName: string,
+  result: { filename: string; rows: number; error?: Error }
+): Promise<void> => {
+  if (!req.user || req.apiKey || req.user.impersonation) {
+    return;
+  }
+
+  const { filename, rows, error } = result;
+  try {
+    await publishNotification(req.user.userId, {
+      category: 'export',
+      title: error ? `${exportName} export failed` : `${exportName} export ready`,
+      message: error
+        ? `${filename} is incomplete: ${rows} row(s) were written before an error (${error.message})`
+        : `${filename} was downloaded with ${rows} row(s)`,
+      data: { filename, rows, complete: !error },
+    });
+  } catch (publishError) {
+    console.error('❌ Error publishing export notification:', publishError);
+  }
+};
+
+/**
+ * Count a user's unread notifications
+ */
+export const getUnreadCount = async (userId: string): Promise<number> => {
+  return Notification.countDocuments({ user: userId, readAt: null });
+};
+
+/**
+ * Mark some or all of a user's unread notifications read
+ * Returns how many were marked
+ */
+export const markNotificationsRead = async (
+  userId: string,
+  filter: Record<string, unknown> = {}
+): Promise<number> => {
+  const result = await Notification.updateMany(
+    { ...filter, user: userId, readAt: null },
+    { $set: { readAt: new Date() } }
+  );
+
+  if (result.modifiedCount > 0) {
+    streams.emit(userId, { type: 'read' } as NotificationEvent);
+  }
+  return result.modifiedCount;
+};
+
+/**
+ * Listen for a user's notification events
+ * Returns a function that stops listening
+ */
+export const subscribeToNotifications = (
+  userId: string,
+  listener: (event: NotificationEvent) => void
+): (() => void) => {
+  streams.on(userId, listener);
+  return () => {
+    streams.off(userId, listener);
+  };
+};
+
+/**
+ * Count a user's open streams
+ */
+export const countNotificationStreams = (userId: string): number => {
+  return streams.listenerCount(userId);
+};
+
+/**
+ * Tell every open stream to close, so the HTTP server can shut down
+ */
+export const closeNotificationStreams = (): void => {
+  for (const userId of streams.eventNames()) {
+    streams.emit(userId, { type: 'closing' } as NotificationEvent);
+  }
+};
@@ -1,68 +1,160 @@
+import crypto from 'crypto';
 import { redisClient } from '../config/redis';
+import { AppError } from '../utils/errors';
 
 const OTP_EXPIRY_MINUTES = parseInt(process.env.OTP_EXPIRY_MINUTES || '10', 10);
 const OTP_LENGTH = parseInt(process.env.OTP_LENGTH || '6', 10);
+const OTP_MAX_ATTEMPTS = parseInt(process.env.OTP_MAX_ATTEMPTS || '5', 10);
+const OTP_RESEND_COOLDOWN_SECONDS = parseInt(process.env.OTP_RESEND_COOLDOWN_SECONDS || '60', 10);
+// Codes are short, so they are keyed with a server secret rather than plainly hashed
+const OTP_SECRET =
+  process.env.OTP_SECRET || process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-this-in-production';
 
-export type OTPType = 'password-reset' | 'email-verification' | 'generic';
+export type OTPType =
+  | 'password-reset'
+  | 'email-verification'
+  | 'email-change'
+  | 'login-code'
+  | 'generic';
+
+export interface OTPIssueInfo {
+  expiresIn: number; // Minutes until the code expires
+  resendAfter: number; // Seconds until a new code can be requested
+  maxAttempts: number;
+}
+
+export interface OTPVerifyResult {
+  valid: boolean;
+  remainingAttempts: number; // Attempts left on the current code (0 once it is used up or expired)
+}
+
+/**
+ * Get Redis key for a stored OTP
+ */
+const getOTPKey = (type: OTPType, identifier: string): string => {
+  return `otp:${type}:${identifier}`;
+};
+
+/**
+ * Get Redis key blocking new codes for an identifier until the cooldown passes
+ */
+const getOTPCooldownKey = (type: OTPType, identifier: string): string => {
+  return `otp:cooldown:${type}:${identifier}`;
+};
+
+/**
+ * Hash an OTP for storage, bound to its type and identifier
+ */
+const hashOTP = (type: OTPType, identifier: string, otp: string): string => {
+  return crypto
+    .createHmac('sha256', OTP_SECRET)
+    .update(`${type}:${identifier}:${otp}`)
+    .digest('hex');
+};
 
 /**
  * Generate a random OTP
  */
 export const generateOTP = (): string => {
-  const min = Math.pow(10, OTP_LENGTH - 1);
-  const max = Math.pow(10, OTP_LENGTH) - 1;
-  return Math.floor(Math.random() * (max - min + 1) + min).toString();
+  return crypto.randomInt(0, Math.pow(10, OTP_LENGTH)).toString().padStart(OTP_LENGTH, '0');
 };
 
 /**
- * Store OTP in Redis with expiry
+ * Store a hashed OTP in Redis with expiry
+ * Throws a 429 AppError (with retryAfter) while the resend cooldown for the identifier is running
  */
 export const storeOTP = async (
   type: OTPType,
   identifier: string,
   otp: string
-): Promise<void> => {
+): Promise<OTPIssueInfo> => {
+  // Claim the cooldown first so concurrent requests can't both replace the code
+  const cooldownKey = getOTPCooldownKey(type, identifier);
+  const claimed = await redisClient.set(cooldownKey, '1', {
+    EX: OTP_RESEND_COOLDOWN_SECONDS,
+    NX: true,
+  });
+  if (!claimed) {
+    const ttl = await redisClient.ttl(cooldownKey);
+    const retryAfter = ttl > 0 ? ttl : OTP_RESEND_COOLDOWN_SECONDS;
+    throw new AppError(
+      `Please wait ${retryAfter} second(s) before requesting a new code`,
+      429,
+      { retryAfter }
+    );
+  }
+
   try {
-    const key = `otp:${type}:${identifier}`;
-    const expirySeconds = OTP_EXPIRY_MINUTES * 60;
+    const key = getOTPKey(type, identifier);
 
-    await redisClient.setEx(key, expirySeconds, otp);
+    await redisClient
+      .multi()
+      .del(key)
+      .hSet(key, { hash: hashOTP(type, identifier, otp), attempts: '0' })
+      .expire(key, OTP_EXPIRY_MINUTES * 60)
+      .exec();
     console.log(`✅ OTP stored for ${type}:${identifier}`);
   } catch (error) {
     console.error('❌ Error storing OTP:', error);
+    await redisClient.del(cooldownKey).catch(() => undefined);
     throw new Error('Failed to store OTP');
   }
+
+  return {
+    expiresIn: OTP_EXPIRY_MINUTES,
+    resendAfter: OTP_RESEND_COOLDOWN_SECONDS,
+    maxAttempts: OTP_MAX_ATTEMPTS,
+  };
 };
 
 /**
  * Verify OTP from Redis
+ * Each wrong guess uses up an attempt; the code is deleted once verified or out of attempts
  */
 export const verifyOTP = async (
   type: OTPType,
   identifier: string,
   otp: string
-): Promise<boolean> => {
+): Promise<OTPVerifyResult> => {
   try {
-    const key = `otp:${type}:${identifier}`;
-    const storedOTP = await redisClient.get(key);
+    const key = getOTPKey(type, identifier);
+    const storedHash = await redisClient.hGet(key, 'hash');
 
-    if (!storedOTP) {
-      return false; // OTP not found or expired
+    if (!storedHash) {
+      return { valid: false, remainingAttempts: 0 }; // OTP not found or expired
     }
 
-    if (storedOTP !== otp) {
-      return false; // OTP mismatch
+    const expected = Buffer.from(storedHash, 'hex');
+    const actual = Buffer.from(hashOTP(type, identifier, otp), 'hex');
+
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      const attempts = await redisClient.hIncrBy(key, 'attempts', 1);
+      const remainingAttempts = Math.max(0, OTP_MAX_ATTEMPTS - attempts);
+      if (remainingAttempts === 0) {
+        await redisClient.del(key);
+      }
+      return { valid: false, remainingAttempts };
     }
 
     // Delete OTP after successful verification (one-time use)
-    await redisClient.del(key);
-    return true;
+    // Only the request that deletes the key succeeds, so a code can't be used twice concurrently
+    const deleted = await redisClient.del(key);
+    return { valid: deleted === 1, remainingAttempts: 0 };
   } catch (error) {
     console.error('❌ Error verifying OTP:', error);
-    return false;
+    return { valid: false, remainingAttempts: 0 };
   }
 };
 
+/**
+ * Get the error message for a failed OTP verification
+ */
+export const getOTPFailureMessage = (result: OTPVerifyResult): string => {
+  return result.remainingAttempts > 0
+    ? 'Invalid OTP'
+    : 'Invalid or expired OTP. Please request a new code.';
+};
+
 /**
  * Check if OTP exists (without verifying)
  */
@@ -71,7 +163,7 @@ export const checkOTPExists = async (
   identifier: string
 ): Promise<boolean> => {
   try {
-    const key = `otp:${type}:${identifier}`;
+    const key = getOTPKey(type, identifier);
     const exists = await redisClient.exists(key);
     return exists === 1;
   } catch (error) {
@@ -88,7 +180,7 @@ export const deleteOTP = async (
   identifier: string
 ): Promise<void> => {
   try {
-    const key = `otp:${type}:${identifier}`;
+    const key = getOTPKey(type, identifier);
     await redisClient.del(key);
   } catch (error) {
     console.error('❌ Error deleting OTP:', error);
@@ -101,4 +193,3 @@ export const deleteOTP = async (
 export const getOTPExpiryMinutes = (): number => {
   return OTP_EXPIRY_MINUTES;
 };
-
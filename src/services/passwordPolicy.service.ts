@@ -0,0 +1,232 @@
+import fs from 'fs';
+import Setting from '../models/setting.model';
+import { IUser } from '../types';
+import { AppError } from '../utils/errors';
+import { hashPassword, comparePassword } from '../utils/password';
+import { COMMON_PASSWORDS } from '../config/commonPasswords';
+
+const PASSWORD_POLICY_SETTING_KEY = 'password-policy';
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  maxAgeDays: number; // 0 disables password expiry
+  historyCount: number; // Number of previous passwords that cannot be reused
+  blockCommonPasswords: boolean;
+}
+
+export type PasswordPolicyReason =
+  | 'too-short'
+  | 'missing-uppercase'
+  | 'missing-lowercase'
+  | 'missing-number'
+  | 'missing-symbol'
+  | 'common-password'
+  | 'recently-used';
+
+export interface PasswordPolicyViolation {
+  reason: PasswordPolicyReason;
+  message: string;
+}
+
+/**
+ * Policy defaults from the environment
+ * Admins can override any field through /api/settings/password-policy
+ */
+const ENV_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || '8', 10),
+  requireUppercase: process.env.PASSWORD_REQUIRE_UPPERCASE !== 'false',
+  requireLowercase: process.env.PASSWORD_REQUIRE_LOWERCASE !== 'false',
+  requireNumber: process.env.PASSWORD_REQUIRE_NUMBER !== 'false',
+  requireSymbol: process.env.PASSWORD_REQUIRE_SYMBOL === 'true',
+  maxAgeDays: parseInt(process.env.PASSWORD_MAX_AGE_DAYS || '0', 10),
+  historyCount: parseInt(process.env.PASSWORD_HISTORY_COUNT || '5', 10),
+  blockCommonPasswords: process.env.PASSWORD_BLOCK_COMMON !== 'false',
+};
+
+let commonPasswords: Set<string> | null = null;
+
+/**
+ * Load the common password list once
+ * COMMON_PASSWORDS_FILE can point at a larger newline-separated list
+ */
+const getCommonPasswords = (): Set<string> => {
+  if (commonPasswords) {
+    return commonPasswords;
+  }
+
+  commonPasswords = new Set(COMMON_PASSWORDS);
+
+  const file = process.env.COMMON_PASSWORDS_FILE;
+  if (file) {
+    try {
+      fs.readFileSync(file, 'utf8')
+        .split(/\r?\n/)
+        .map((line) => line.trim().toLowerCase())
+        .filter(Boolean)
+        .forEach((password) => commonPasswords?.add(password));
+      console.log(`✅ Loaded common password list from ${file} (${commonPasswords.size} entries)`);
+    } catch (error) {
+      console.error(`❌ Error loading common password list from ${file}:`, error);
+    }
+  }
+
+  return commonPasswords;
+};
+
+/**
+ * Get the effective password policy (environment defaults with admin overrides)
+ */
+export const getPasswordPolicy = async (): Promise<PasswordPolicy> => {
+  const setting = await Setting.findOne({ key: PASSWORD_POLICY_SETTING_KEY }).lean();
+  return {
+    ...ENV_PASSWORD_POLICY,
+    ...(setting?.value as Partial<PasswordPolicy> | undefined),
+  };
+};
+
+/**
+ * Save admin overrides for the password policy
+ */
+export const updatePasswordPolicy = async (
+  overrides: Partial<PasswordPolicy>,
+  actorId?: string
+): Promise<PasswordPolicy> => {
+  const existing = await Setting.findOne({ key: PASSWORD_POLICY_SETTING_KEY }).lean();
+
+  await Setting.updateOne(
+    { key: PASSWORD_POLICY_SETTING_KEY },
+    {
+      $set: {
+        value: { ...(existing?.value || {}), ...overrides },
+        updatedBy: actorId,
+      },
+    },
+    { upsert: true }
+  );
+
+  return getPasswordPolicy();
+};
+
+/**
+ * Drop admin overrides so the environment defaults apply again
+ */
+export const resetPasswordPolicy = async (): Promise<PasswordPolicy> => {
+  await Setting.deleteOne({ key: PASSWORD_POLICY_SETTING_KEY });
+  return getPasswordPolicy();
+};
+
+/**
+ * Check a password against the policy
+ * Pass the user (loaded with +password +passwordHistory) to also check reuse
+ */
+export const checkPassword = async (
+  password: string,
+  user?: IUser
+): Promise<PasswordPolicyViolation[]> => {
+  const policy = await getPasswordPolicy();
+  const violations: PasswordPolicyViolation[] = [];
+
+  if (password.length < policy.minLength) {
+    violations.push({
+      reason: 'too-short',
+      message: `Password must be at least ${policy.minLength} characters`,
+    });
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    violations.push({
+      reason: 'missing-uppercase',
+      message: 'Password must contain an uppercase letter',
+    });
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    violations.push({
+      reason: 'missing-lowercase',
+      message: 'Password must contain a lowercase letter',
+    });
+  }
+  if (policy.requireNumber && !/[0-9]/.test(password)) {
+    violations.push({
+      reason: 'missing-number',
+      message: 'Password must contain a number',
+    });
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    violations.push({
+      reason: 'missing-symbol',
+      message: 'Password must contain a symbol',
+    });
+  }
+  if (policy.blockCommonPasswords && getCommonPasswords().has(password.toLowerCase())) {
+    violations.push({
+      reason: 'common-password',
+      message: 'Password is too common or has appeared in a data breach',
+    });
+  }
+
+  if (user && policy.historyCount > 0) {
+    const previousHashes = [user.password, ...(user.passwordHistory || [])]
+      .filter(Boolean)
+      .slice(0, policy.historyCount);
+
+    for (const hash of previousHashes) {
+      if (await comparePassword(password, hash)) {
+        violations.push({
+          reason: 'recently-used',
+          message: `Password cannot be one of your last ${policy.historyCount} passwords`,
+        });
+        break;
+      }
+    }
+  }
+
+  return violations;
+};
+
+/**
+ * Ensure a password satisfies the policy
+ * Throws a 400 AppError listing every violated rule
+ */
+export const assertPasswordAllowed = async (password: string, user?: IUser): Promise<void> => {
+  const violations = await checkPassword(password, user);
+
+  if (violations.length > 0) {
+    throw new AppError('Password does not meet the password policy', 400, {
+      reasons: violations,
+    });
+  }
+};
+
+/**
+ * Set a new password on a user (does not save)
+ * The user must be loaded with +password +passwordHistory; the old hash moves into the history
+ */
+export const applyNewPassword = async (user: IUser, password: string): Promise<void> => {
+  const policy = await getPasswordPolicy();
+
+  if (user.password) {
+    user.passwordHistory = [user.password, ...(user.passwordHistory || [])].slice(
+      0,
+      Math.max(policy.historyCount - 1, 0)
+    );
+  }
+
+  user.password = await hashPassword(password);
+  user.passwordChangedAt = new Date();
+};
+
+/**
+ * Check if a user's password is older than the policy's maximum age
+ */
+export const isPasswordExpired = async (user: IUser): Promise<boolean> => {
+  const policy = await getPasswordPolicy();
+  if (policy.maxAgeDays <= 0) {
+    return false;
+  }
+
+  const changedAt = user.passwordChangedAt || user.createdAt;
+  return Date.now() - changedAt.getTime() > policy.maxAgeDays * 24 * 60 * 60 * 1000;
+};
@@ -0,0 +1,103 @@
+import { redisClient } from '../config/redis';
+import { ADMIN_ROLE, DEFAULT_ROLES, PERMISSIONS, Permission } from '../config/permissions';
+import Role from '../models/role.model';
+
+const ROLE_CACHE_SECONDS = parseInt(process.env.ROLE_CACHE_SECONDS || '300', 10);
+
+/**
+ * Get Redis key for cached role permissions
+ */
+const getRoleCacheKey = (role: string): string => {
+  return `rbac:role:${role}`;
+};
+
+/**
+ * Get permissions granted to a role
+ * Reads through a Redis cache; falls back to MongoDB if Redis is unavailable
+ */
+export const getRolePermissions = async (role: string): Promise<string[]> => {
+  if (role === ADMIN_ROLE) {
+    return [...PERMISSIONS];
+  }
+
+  const key = getRoleCacheKey(role);
+
+  try {
+    const cached = await redisClient.get(key);
+    if (cached) {
+      return JSON.parse(cached);
+    }
+  } catch (error) {
+    console.error('❌ Error reading role cache:', error);
+  }
+
+  const roleDoc = await Role.findOne({ name: role });
+  const permissions = roleDoc?.permissions || [];
+
+  try {
+    await redisClient.setEx(key, ROLE_CACHE_SECONDS, JSON.stringify(permissions));
+  } catch (error) {
+    console.error('❌ Error writing role cache:', error);
+  }
+
+  return permissions;
+};
+
+/**
+ * Check if a role has all of the given permissions
+ */
+export const roleHasPermissions = async (
+  role: string,
+  permissions: Permission[]
+): Promise<boolean> => {
+  if (role === ADMIN_ROLE) {
+    return true;
+  }
+
+  const granted = await getRolePermissions(role);
+  return permissions.every((permission) => granted.includes(permission));
+};
+
+/**
+ * Check if a role exists
+ */
+export const roleExists = async (role: string): Promise<boolean> => {
+  const exists = await Role.exists({ name: role });
+  return exists !== null;
+};
+
+/**
+ * Drop cached permissions after the role matrix changes
+ */
+export const invalidateRoleCache = async (role: string): Promise<void> => {
+  try {
+    await redisClient.del(getRoleCacheKey(role));
+  } catch (error) {
+    console.error('❌ Error invalidating role cache:', error);
+  }
+};
+
+/**
+ * Seed default roles that don't exist yet
+ * Existing roles are left untouched so admin changes survive restarts
+ */
+export const seedDefaultRoles = async (): Promise<void> => {
+  for (const defaultRole of DEFAULT_ROLES) {
+    const result = await Role.updateOne(
+      { name: defaultRole.name },
+      {
+        $setOnInsert: {
+          name: defaultRole.name,
+          description: defaultRole.description,
+          permissions: defaultRole.permissions,
+          isSystem: true,
+        },
+      },
+      { upsert: true }
+    );
+
+    if (result.upsertedCount > 0) {
+      console.log(`✅ Seeded role: ${defaultRole.name}`);
+    }
+  }
+};
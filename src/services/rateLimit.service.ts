@@ -1,8 +1,44 @@
+import crypto from 'crypto';
 import { redisClient } from '../config/redis';
+import { RateLimitKey, RateLimitRule, getRateLimitRule } from '../config/rateLimits';
 
 const MAX_LOGIN_ATTEMPTS = parseInt(process.env.MAX_LOGIN_ATTEMPTS || '5', 10);
+const MAX_ACCOUNT_LOGIN_ATTEMPTS = parseInt(process.env.MAX_ACCOUNT_LOGIN_ATTEMPTS || '20', 10);
+const ACCOUNT_ATTEMPT_WINDOW_MINUTES = parseInt(process.env.ACCOUNT_ATTEMPT_WINDOW_MINUTES || '60', 10);
 const LOGIN_LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '10', 10);
+const LOGIN_LOCKOUT_MAX_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MAX_MINUTES || '1440', 10);
+const LOGIN_LOCKOUT_RESET_HOURS = parseInt(process.env.LOGIN_LOCKOUT_RESET_HOURS || '24', 10);
 const LOCKOUT_SECONDS = LOGIN_LOCKOUT_MINUTES * 60;
+const LOCKOUT_KEY_PREFIX = 'login:lockout';
+const MAX_LISTED_LOCKOUTS = 500;
+const FAILED_LOGIN_HOTSPOT_RETENTION_HOURS = 7 * 24;
+
+// 'ip' locks an email out from one IP, 'account' locks it out from every IP
+export type LoginLockoutScope = 'ip' | 'account';
+
+export interface LoginLockout {
+  email: string;
+  scope: LoginLockoutScope;
+  ipAddress: string; // IP of the attempt that triggered the lockout
+  failures: number;
+  level: number; // 1 for a first lockout, higher for repeat offenders
+  lockedAt: string;
+  expiresAt: string;
+  retryAfter: number; // Seconds until the lockout ends
+}
+
+export interface FailedAttemptResult {
+  attempts: number;
+  remaining: number;
+  locked: boolean;
+  lockout?: LoginLockout; // Set when this attempt started a lockout
+}
+
+export interface FailedLoginHotspot {
+  ipAddress: string;
+  failures: number;
+  accounts: number; // Distinct email addresses tried from the IP (estimate)
+}
 
 /**
  * Get Redis key for login attempts
@@ -12,33 +48,157 @@ const getAttemptKey = (email: string, ip: string): string => {
 };
 
 /**
- * Check if user is locked out
+ * Get Redis key for login attempts on an account from any IP
+ */
+const getAccountAttemptKey = (email: string): string => {
+  return `login:account-attempts:${email}`;
+};
+
+/**
+ * Get Redis key marking an email as locked out, from one IP or from every IP
+ */
+const getLockoutKey = (email: string, scope: LoginLockoutScope, ip?: string): string => {
+  return scope === 'account'
+    ? `${LOCKOUT_KEY_PREFIX}:account:${email}`
+    : `${LOCKOUT_KEY_PREFIX}:ip:${email}:${ip}`;
+};
+
+/**
+ * Get Redis key counting recent lockouts of an email, used to escalate repeat lockouts
+ */
+const getLockoutLevelKey = (email: string): string => {
+  return `login:lockout-level:${email}`;
+};
+
+/**
+ * Get the lockout duration in seconds for a lockout level
+ * Each repeat lockout doubles the duration, up to LOGIN_LOCKOUT_MAX_MINUTES
+ */
+const getLockoutSeconds = (level: number): number => {
+  return Math.min(LOCKOUT_SECONDS * 2 ** (level - 1), Math.max(LOGIN_LOCKOUT_MAX_MINUTES * 60, LOCKOUT_SECONDS));
+};
+
+/**
+ * Get the UTC hour bucket (YYYY-MM-DDTHH) failed logins are counted in
+ */
+const getFailureBucket = (date: Date): string => {
+  return date.toISOString().slice(0, 13);
+};
+
+/**
+ * Get Redis key for failed login counts per IP in an hour (sorted set)
+ */
+const getFailedLoginIpKey = (bucket: string): string => {
+  return `login:failures:ip:${bucket}`;
+};
+
+/**
+ * Get Redis key for the email addresses tried from an IP in an hour (HyperLogLog)
+ */
+const getFailedLoginAccountsKey = (bucket: string, ip: string): string => {
+  return `login:failures:accounts:${bucket}:${ip}`;
+};
+
+/**
+ * Count a failed login towards the IP's hotspot totals for the current hour
+ */
+const recordFailedLoginSource = async (email: string, ip: string): Promise<void> => {
+  const bucket = getFailureBucket(new Date());
+  const ipKey = getFailedLoginIpKey(bucket);
+  const accountsKey = getFailedLoginAccountsKey(bucket, ip);
+  const ttl = (FAILED_LOGIN_HOTSPOT_RETENTION_HOURS + 1) * 60 * 60;
+
+  await redisClient
+    .multi()
+    .zIncrBy(ipKey, 1, ip)
+    .expire(ipKey, ttl)
+    .pfAdd(accountsKey, email)
+    .expire(accountsKey, ttl)
+    .exec();
+};
+
+/**
+ * Read a lockout record and the time left on it
+ */
+const readLockout = async (key: string): Promise<LoginLockout | null> => {
+  const [stored, ttl] = await Promise.all([redisClient.get(key), redisClient.ttl(key)]);
+  if (!stored || ttl <= 0) {
+    return null;
+  }
+
+  const lockout = JSON.parse(stored) as Omit<LoginLockout, 'expiresAt' | 'retryAfter'>;
+  return {
+    ...lockout,
+    expiresAt: new Date(Date.now() + ttl * 1000).toISOString(),
+    retryAfter: ttl,
+  };
+};
+
+/**
+ * Lock an email out, escalating the duration for repeat lockouts
+ * Returns null if a concurrent attempt already started the same lockout
+ */
+const startLockout = async (
+  email: string,
+  scope: LoginLockoutScope,
+  ip: string,
+  failures: number
+): Promise<LoginLockout | null> => {
+  const levelKey = getLockoutLevelKey(email);
+  const level = parseInt((await redisClient.get(levelKey)) || '0', 10) + 1;
+  const duration = getLockoutSeconds(level);
+  const lockedAt = new Date();
+
+  const stored = { email, scope, ipAddress: ip, failures, level, lockedAt: lockedAt.toISOString() };
+  const acquired = await redisClient.set(getLockoutKey(email, scope, ip), JSON.stringify(stored), {
+    EX: duration,
+    NX: true,
+  });
+  if (!acquired) {
+    return null;
+  }
+
+  // Counting starts over once the lockout ends; an account lockout covers every IP
+  const multi = redisClient
+    .multi()
+    .incr(levelKey)
+    .expire(levelKey, Math.max(LOGIN_LOCKOUT_RESET_HOURS * 60 * 60, duration))
+    .del(getAttemptKey(email, ip));
+  if (scope === 'account') {
+    multi.del(getAccountAttemptKey(email));
+  }
+  await multi.exec();
+
+  return {
+    ...stored,
+    expiresAt: new Date(lockedAt.getTime() + duration * 1000).toISOString(),
+    retryAfter: duration,
+  };
+};
+
+/**
+ * Check if user is locked out, either from this IP or on the account as a whole
  * Returns lockout info if locked, null if not locked
  */
 export const checkLoginLockout = async (
   email: string,
   ip: string
-): Promise<{ locked: boolean; retryAfter?: number } | null> => {
+): Promise<{ locked: boolean; retryAfter?: number; scope?: LoginLockoutScope } | null> => {
   try {
-    const key = getAttemptKey(email, ip);
-    const attempts = await redisClient.get(key);
-
-    if (!attempts) {
-      return null; // No attempts recorded
-    }
-
-    const attemptCount = parseInt(attempts, 10);
+    const [accountTtl, ipTtl] = await Promise.all([
+      redisClient.ttl(getLockoutKey(email, 'account')),
+      redisClient.ttl(getLockoutKey(email, 'ip', ip)),
+    ]);
 
-    if (attemptCount >= MAX_LOGIN_ATTEMPTS) {
-      // Check TTL to get remaining lockout time
-      const ttl = await redisClient.ttl(key);
+    if (accountTtl > 0 || ipTtl > 0) {
       return {
         locked: true,
-        retryAfter: ttl > 0 ? ttl : LOCKOUT_SECONDS,
+        retryAfter: Math.max(accountTtl, ipTtl),
+        scope: accountTtl >= ipTtl ? 'account' : 'ip',
       };
     }
 
-    return null; // Not locked out yet
+    return null; // Not locked out
   } catch (error) {
     console.error('❌ Error checking login lockout:', error);
     return null; // On error, allow attempt (fail open)
@@ -47,30 +207,49 @@ export const checkLoginLockout = async (
 
 /**
  * Increment failed login attempt
+ * Counts towards the email + IP limit (MAX_LOGIN_ATTEMPTS) and the account-wide limit across
+ * all IPs (MAX_ACCOUNT_LOGIN_ATTEMPTS within ACCOUNT_ATTEMPT_WINDOW_MINUTES)
  */
 export const incrementFailedAttempt = async (
   email: string,
   ip: string
-): Promise<{ attempts: number; remaining: number; locked: boolean }> => {
+): Promise<FailedAttemptResult> => {
   try {
     const key = getAttemptKey(email, ip);
-    
-    // Get current attempts or start at 0
-    const currentAttempts = await redisClient.get(key);
-    const attemptCount = currentAttempts ? parseInt(currentAttempts, 10) : 0;
-    const newAttemptCount = attemptCount + 1;
+    const accountKey = getAccountAttemptKey(email);
+
+    // Each failure extends the per-IP window; the account window is fixed from the first failure
+    const replies = await redisClient
+      .multi()
+      .incr(key)
+      .expire(key, LOCKOUT_SECONDS)
+      .set(accountKey, '0', { EX: ACCOUNT_ATTEMPT_WINDOW_MINUTES * 60, NX: true })
+      .incr(accountKey)
+      .exec();
+    const attempts = Number(replies[0]);
+    const accountAttempts = Number(replies[3]);
 
-    // Set new count with TTL (lockout period)
-    // If this is the 5th attempt, the key will expire after lockout period
-    await redisClient.setEx(key, LOCKOUT_SECONDS, newAttemptCount.toString());
+    await recordFailedLoginSource(email, ip).catch((error) => {
+      console.error('❌ Error recording failed login source:', error);
+    });
+
+    let lockout: LoginLockout | null = null;
+    if (accountAttempts >= MAX_ACCOUNT_LOGIN_ATTEMPTS) {
+      lockout = await startLockout(email, 'account', ip, accountAttempts);
+    } else if (attempts >= MAX_LOGIN_ATTEMPTS) {
+      lockout = await startLockout(email, 'ip', ip, attempts);
+    }
 
-    const remaining = Math.max(0, MAX_LOGIN_ATTEMPTS - newAttemptCount);
-    const locked = newAttemptCount >= MAX_LOGIN_ATTEMPTS;
+    const remaining = Math.max(
+      0,
+      Math.min(MAX_LOGIN_ATTEMPTS - attempts, MAX_ACCOUNT_LOGIN_ATTEMPTS - accountAttempts)
+    );
 
     return {
-      attempts: newAttemptCount,
+      attempts,
       remaining,
-      locked,
+      locked: remaining === 0,
+      ...(lockout && { lockout }),
     };
   } catch (error) {
     console.error('❌ Error incrementing failed attempt:', error);
@@ -84,6 +263,8 @@ export const incrementFailedAttempt = async (
 
 /**
  * Reset login attempts (on successful login)
+ * The account-wide counter and lockout level are left to expire, so a distributed attack
+ * doesn't start over every time the owner signs in
  */
 export const resetLoginAttempts = async (
   email: string,
@@ -106,15 +287,18 @@ export const getRemainingAttempts = async (
   ip: string
 ): Promise<number> => {
   try {
-    const key = getAttemptKey(email, ip);
-    const attempts = await redisClient.get(key);
-
-    if (!attempts) {
-      return MAX_LOGIN_ATTEMPTS;
-    }
+    const [attempts, accountAttempts] = await Promise.all([
+      redisClient.get(getAttemptKey(email, ip)),
+      redisClient.get(getAccountAttemptKey(email)),
+    ]);
 
-    const attemptCount = parseInt(attempts, 10);
-    return Math.max(0, MAX_LOGIN_ATTEMPTS - attemptCount);
+    return Math.max(
+      0,
+      Math.min(
+        MAX_LOGIN_ATTEMPTS - parseInt(attempts || '0', 10),
+        MAX_ACCOUNT_LOGIN_ATTEMPTS - parseInt(accountAttempts || '0', 10)
+      )
+    );
   } catch (error) {
     console.error('❌ Error getting remaining attempts:', error);
     return MAX_LOGIN_ATTEMPTS; // Fail open
@@ -128,18 +312,235 @@ export const getLockoutTimeRemaining = async (
   email: string,
   ip: string
 ): Promise<number | null> => {
-  try {
-    const key = getAttemptKey(email, ip);
-    const ttl = await redisClient.ttl(key);
-    
-    if (ttl > 0) {
-      return ttl;
+  const lockout = await checkLoginLockout(email, ip);
+  return lockout?.retryAfter ?? null; // Null when not locked out
+};
+
+/**
+ * List current login lockouts, most recent first, optionally for one email
+ */
+export const getLoginLockouts = async (email?: string): Promise<LoginLockout[]> => {
+  const lockouts: LoginLockout[] = [];
+  const pattern = `${LOCKOUT_KEY_PREFIX}:*`;
+
+  for await (const key of redisClient.scanIterator({ MATCH: pattern, COUNT: 100 })) {
+    const lockout = await readLockout(key);
+    if (!lockout || (email && lockout.email !== email)) {
+      continue;
+    }
+
+    lockouts.push(lockout);
+    if (lockouts.length >= MAX_LISTED_LOCKOUTS) {
+      break;
+    }
+  }
+
+  return lockouts.sort((a, b) => b.lockedAt.localeCompare(a.lockedAt));
+};
+
+/**
+ * Lift every lockout on an email and clear its failed attempts and lockout level
+ * Returns the lockouts that were lifted
+ */
+export const unlockLogin = async (email: string): Promise<LoginLockout[]> => {
+  const lifted = await getLoginLockouts(email);
+
+  const keys = [getAccountAttemptKey(email), getLockoutLevelKey(email), getLockoutKey(email, 'account')];
+  const patterns = [
+    `login:attempts:${escapeScanPattern(email)}:*`,
+    `${LOCKOUT_KEY_PREFIX}:ip:${escapeScanPattern(email)}:*`,
+  ];
+  for (const pattern of patterns) {
+    for await (const key of redisClient.scanIterator({ MATCH: pattern, COUNT: 100 })) {
+      keys.push(key);
+    }
+  }
+
+  await redisClient.del(keys);
+  return lifted;
+};
+
+/**
+ * Get the base lockout duration in minutes (the first lockout of an email)
+ */
+export const getLoginLockoutMinutes = (): number => {
+  return LOGIN_LOCKOUT_MINUTES;
+};
+
+/**
+ * Get the IPs with the most failed logins over the last N hours
+ */
+export const getFailedLoginHotspots = async (
+  hours: number,
+  limit: number
+): Promise<FailedLoginHotspot[]> => {
+  const now = Date.now();
+  const buckets = Array.from({ length: Math.min(hours, FAILED_LOGIN_HOTSPOT_RETENTION_HOURS) }, (_, index) =>
+    getFailureBucket(new Date(now - index * 60 * 60 * 1000))
+  );
+
+  const totals = await redisClient.zUnionWithScores(buckets.map(getFailedLoginIpKey));
+  const top = totals.sort((a, b) => b.score - a.score).slice(0, limit);
+
+  return Promise.all(
+    top.map(async ({ value, score }) => ({
+      ipAddress: value,
+      failures: score,
+      accounts: await redisClient.pfCount(
+        buckets.map((bucket) => getFailedLoginAccountsKey(bucket, value))
+      ),
+    }))
+  );
+};
+
+/**
+ * Get the number of hours of failed login history kept for hotspot reports
+ */
+export const getFailedLoginHotspotRetentionHours = (): number => {
+  return FAILED_LOGIN_HOTSPOT_RETENTION_HOURS;
+};
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAfter: number; // Seconds until the oldest request leaves the window
+}
+
+export interface RateLimitCounter {
+  key: string;
+  rule: string;
+  keyType: string;
+  identifier: string;
+  count: number;
+  limit?: number;
+  resetAfter: number; // Seconds until the counter expires
+}
+
+const RATE_LIMIT_KEY_PREFIX = 'ratelimit';
+const MAX_LISTED_COUNTERS = 500;
+
+/**
+ * Get Redis key for a sliding-window counter
+ */
+export const getRateLimitKey = (
+  ruleName: string,
+  keyType: RateLimitKey,
+  identifier: string
+): string => {
+  return `${RATE_LIMIT_KEY_PREFIX}:${ruleName}:${keyType}:${identifier}`;
+};
+
+/**
+ * Escape glob characters so identifiers can be used in SCAN patterns
+ */
+const escapeScanPattern = (value: string): string => {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+};
+
+/**
+ * Get SCAN pattern matching the counters of a rule and/or identifier
+ */
+const getRateLimitScanPattern = (ruleName?: string, identifier?: string): string => {
+  return [
+    RATE_LIMIT_KEY_PREFIX,
+    ruleName ? escapeScanPattern(ruleName) : '*',
+    '*',
+    identifier ? escapeScanPattern(identifier) : '*',
+  ].join(':');
+};
+
+/**
+ * Count a request against a sliding window
+ * Each request is a sorted set member scored by its timestamp; rejected requests are not counted
+ */
+export const consumeRateLimit = async (
+  key: string,
+  rule: RateLimitRule
+): Promise<RateLimitResult> => {
+  const now = Date.now();
+  const windowMs = rule.windowSeconds * 1000;
+  const member = `${now}:${crypto.randomBytes(4).toString('hex')}`;
+
+  const replies = await redisClient
+    .multi()
+    .zRemRangeByScore(key, 0, now - windowMs)
+    .zAdd(key, { score: now, value: member })
+    .zCard(key)
+    .zRangeWithScores(key, 0, 0)
+    .pExpire(key, windowMs)
+    .exec();
+
+  const count = Number(replies[2]);
+  const oldest = (replies[3] as unknown as { score: number }[])[0]?.score ?? now;
+  const resetAfter = Math.max(1, Math.ceil((oldest + windowMs - now) / 1000));
+
+  if (count > rule.limit) {
+    await redisClient.zRem(key, member);
+    return { allowed: false, limit: rule.limit, remaining: 0, resetAfter };
+  }
+
+  return {
+    allowed: true,
+    limit: rule.limit,
+    remaining: rule.limit - count,
+    resetAfter,
+  };
+};
+
+/**
+ * List sliding-window counters, optionally for one rule and/or identifier
+ */
+export const getRateLimitCounters = async (
+  ruleName?: string,
+  identifier?: string
+): Promise<RateLimitCounter[]> => {
+  const pattern = getRateLimitScanPattern(ruleName, identifier);
+
+  const counters: RateLimitCounter[] = [];
+  const now = Date.now();
+
+  for await (const key of redisClient.scanIterator({ MATCH: pattern, COUNT: 100 })) {
+    const [, rule, keyType, ...rest] = key.split(':');
+    const ruleConfig = getRateLimitRule(rule);
+
+    const count = ruleConfig
+      ? await redisClient.zCount(key, now - ruleConfig.windowSeconds * 1000, '+inf')
+      : await redisClient.zCard(key);
+    const ttl = await redisClient.pTTL(key);
+
+    counters.push({
+      key,
+      rule,
+      keyType,
+      identifier: rest.join(':'),
+      count,
+      limit: ruleConfig?.limit,
+      resetAfter: ttl > 0 ? Math.ceil(ttl / 1000) : 0,
+    });
+
+    if (counters.length >= MAX_LISTED_COUNTERS) {
+      break;
     }
-    
-    return null; // Not locked out
-  } catch (error) {
-    console.error('❌ Error getting lockout time:', error);
-    return null;
   }
+
+  return counters.sort((a, b) => b.count - a.count);
 };
 
+/**
+ * Delete sliding-window counters, optionally for one rule and/or identifier
+ * Returns the number of counters removed
+ */
+export const clearRateLimitCounters = async (
+  ruleName?: string,
+  identifier?: string
+): Promise<number> => {
+  const pattern = getRateLimitScanPattern(ruleName, identifier);
+
+  let cleared = 0;
+  for await (const key of redisClient.scanIterator({ MATCH: pattern, COUNT: 100 })) {
+    cleared += await redisClient.del(key);
+  }
+
+  return cleared;
+};
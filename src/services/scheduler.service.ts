@@ -1,22 +1,34 @@
 import cron from 'node-cron';
+import { Permission } from '../config/permissions';
 import { syncFinanceReserveData } from './financeReserveSync.service';
 import { syncYesterdayCollectionData } from './sales-collection.service';
 import { syncYesterdayRevenueData } from './revenue-reservation.service';
 import { syncProcurementData } from './procurement-sync.service';
 import { syncExpensePaidoutData } from './expense-paidout-sync.service';
 import { syncInstagramData } from './instagram-sync.service';
-
-interface SyncResult {
-  name: string;
-  success: boolean;
-  duration: number;
-  recordsSaved?: number;
-  recordsSkipped?: number;
-  entitiesProcessed?: number;
-  errors: string[];
-}
+import { purgeExpiredDeletedUsers } from './accountStatus.service';
+import { closeExpiredImpersonations } from './impersonation.service';
+import { processEmailOutbox } from './emailOutbox.service';
+import { recordSyncRun, SyncResult } from './syncHealth.service';
+import { sendDueDigests } from './kpiDigest.service';
+import { evaluateAlertRules, AlertDataset } from './alert.service';
+import { publishToPermission } from './notification.service';
 
 let syncJob: cron.ScheduledTask | null = null;
+let digestJob: cron.ScheduledTask | null = null;
+let maintenanceJob: cron.ScheduledTask | null = null;
+let impersonationJob: cron.ScheduledTask | null = null;
+let emailOutboxJob: cron.ScheduledTask | null = null;
+
+// Datasets of the scheduled syncs, for their alert rules and failure notifications
+const SYNC_DATASETS: Record<string, AlertDataset> = {
+  'Finance Reserve': 'finance-reserve',
+  'Sales Collection': 'sales-collection',
+  'Revenue Reservation': 'revenue-reservation',
+  'Procurement': 'procurement',
+  'Expense Paidout': 'expense-paidout',
+  'Instagram': 'instagram-insights',
+};
 
 /**
  * Log summary of all sync results
@@ -284,6 +296,43 @@ export const startSyncScheduler = (): void => {
       
       // Log summary
       logSyncSummary(results, overallStartTime);
+
+      // Tell the users who can run a failed sync about it
+      for (const result of results.filter((r) => !r.success && SYNC_DATASETS[r.name])) {
+        const dataset = SYNC_DATASETS[result.name];
+        try {
+          await publishToPermission(`${dataset}:sync` as Permission, {
+            category: 'sync',
+            title: `${result.name} sync failed`,
+            message: result.errors.slice(0, 3).join('; ') || undefined,
+            link: `/${dataset}`,
+            data: { dataset, startedAt: overallStartTime, errors: result.errors.slice(0, 3) },
+          });
+        } catch (error) {
+          console.error(`❌ Error notifying about the ${result.name} sync failure:`, error);
+        }
+      }
+
+      // Evaluate alert rules on the datasets that synced
+      for (const result of results.filter((r) => r.success && SYNC_DATASETS[r.name])) {
+        try {
+          const triggered = await evaluateAlertRules(SYNC_DATASETS[result.name]);
+          if (triggered > 0) {
+            console.log(`🔔 ${triggered} ${result.name} alert(s) triggered`);
+          }
+        } catch (error) {
+          console.error(`❌ Error evaluating ${result.name} alert rules:`, error);
+        }
+      }
+
+      // Record the run for the digest footnotes; digests that are due go out straight away
+      try {
+        await recordSyncRun(results, overallStartTime);
+        const sent = await sendDueDigests();
+        console.log(`📬 Sent ${sent} KPI digest(s)`);
+      } catch (error) {
+        console.error('❌ Error sending KPI digests:', error);
+      }
     },
     {
       scheduled: true,
@@ -291,13 +340,25 @@ export const startSyncScheduler = (): void => {
     }
   );
 
+  // Digests with a later send time are picked up within a minute of it
+  digestJob = cron.schedule('* * * * *', async () => {
+    try {
+      const sent = await sendDueDigests();
+      if (sent > 0) {
+        console.log(`📬 Sent ${sent} KPI digest(s)`);
+      }
+    } catch (error) {
+      console.error('❌ Error sending KPI digests:', error);
+    }
+  });
+
   // Log next scheduled run time
   const now = new Date();
   const dubaiTime = new Date(now.toLocaleString('en-US', { timeZone: 'Asia/Dubai' }));
   const nextRun = new Date(dubaiTime);
   nextRun.setHours(9, 30, 0, 0);
   
-  console.log('📅 Sync scheduler started: Daily at 09:30 AM (Dubai time)');
+  console.log('📅 Sync scheduler started: Daily at 09:30 AM (Dubai time), KPI digests checked every minute');
   console.log(`   Next scheduled run: ${nextRun.toLocaleString('en-US', { timeZone: 'Asia/Dubai', dateStyle: 'full', timeStyle: 'short' })}`);
 };
 
@@ -310,6 +371,10 @@ export const stopSyncScheduler = (): void => {
     syncJob = null;
     console.log('🛑 Sync scheduler stopped');
   }
+  if (digestJob) {
+    digestJob.stop();
+    digestJob = null;
+  }
 };
 
 /**
@@ -319,3 +384,66 @@ export const isSchedulerRunning = (): boolean => {
   return syncJob !== null;
 };
 
+
+/**
+ * Start the maintenance scheduler
+ * Runs daily at 03:00 AM Dubai time (Asia/Dubai) and purges soft-deleted users past their restore window
+ */
+export const startMaintenanceScheduler = (): void => {
+  maintenanceJob = cron.schedule(
+    '0 3 * * *',
+    async () => {
+      try {
+        const purged = await purgeExpiredDeletedUsers();
+        console.log(`🧹 Purged ${purged} deleted user(s) past their restore window`);
+      } catch (error) {
+        console.error('❌ Error purging deleted users:', error);
+      }
+    },
+    {
+      timezone: 'Asia/Dubai',
+    }
+  );
+
+  // Impersonation sessions that ran out are closed within a minute so the user is told promptly
+  impersonationJob = cron.schedule('* * * * *', async () => {
+    try {
+      const closed = await closeExpiredImpersonations();
+      if (closed > 0) {
+        console.log(`🕵️ Closed ${closed} expired impersonation session(s)`);
+      }
+    } catch (error) {
+      console.error('❌ Error closing expired impersonation sessions:', error);
+    }
+  });
+
+  // Queued emails are normally sent straight away; this picks up retries and anything left by a restart
+  emailOutboxJob = cron.schedule('*/15 * * * * *', async () => {
+    try {
+      await processEmailOutbox();
+    } catch (error) {
+      console.error('❌ Error processing email outbox:', error);
+    }
+  });
+
+  console.log('📅 Maintenance scheduler started: Daily at 03:00 AM (Dubai time), impersonation expiry every minute, email outbox every 15 seconds');
+};
+
+/**
+ * Stop the maintenance scheduler
+ */
+export const stopMaintenanceScheduler = (): void => {
+  if (maintenanceJob) {
+    maintenanceJob.stop();
+    maintenanceJob = null;
+    console.log('🛑 Maintenance scheduler stopped');
+  }
+  if (impersonationJob) {
+    impersonationJob.stop();
+    impersonationJob = null;
+  }
+  if (emailOutboxJob) {
+    emailOutboxJob.stop();
+    emailOutboxJob = null;
+  }
+};
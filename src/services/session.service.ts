@@ -0,0 +1,139 @@
+import { redisClient } from '../config/redis';
+import { sendTemplatedEmail } from './emailTemplate.service';
+import Session, { ISession } from '../models/session.model';
+import { ClientInfo, IUser } from '../types';
+import { DEFAULT_LOCALE } from '../config/locales';
+import { revokeTokenFamily } from './token.service';
+
+const SESSION_TOUCH_INTERVAL_SECONDS = 60;
+
+/**
+ * Get Redis key that throttles last-seen updates for a session
+ */
+const getSessionTouchKey = (familyId: string): string => {
+  return `auth:session:seen:${familyId}`;
+};
+
+/**
+ * Email the user about a login from a device/IP combination not seen before
+ */
+const sendNewLoginAlert = async (user: IUser, client: ClientInfo): Promise<void> => {
+  try {
+    await sendTemplatedEmail(
+      user.email,
+      'new-login-alert',
+      { ipAddress: client.ipAddress, userAgent: client.userAgent, loginTime: new Date() },
+      user.locale || DEFAULT_LOCALE
+    );
+  } catch (emailError) {
+    console.error('Failed to send new login alert:', emailError);
+    // Don't fail the login if the alert can't be sent
+  }
+};
+
+/**
+ * Record a new login session for a refresh token family
+ * Alerts the user when the device/IP combination is new (except on their first session)
+ */
+export const createSession = async (
+  user: IUser,
+  familyId: string,
+  expiresAt: Date,
+  client: ClientInfo
+): Promise<ISession> => {
+  const [hasPreviousSessions, isKnownDevice] = await Promise.all([
+    Session.exists({ userId: user._id }),
+    Session.exists({
+      userId: user._id,
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+    }),
+  ]);
+
+  const session = await Session.create({
+    userId: user._id,
+    familyId,
+    ipAddress: client.ipAddress,
+    userAgent: client.userAgent,
+    lastSeenAt: new Date(),
+    expiresAt,
+  });
+
+  if (hasPreviousSessions && !isKnownDevice) {
+    await sendNewLoginAlert(user, client);
+  }
+
+  return session;
+};
+
+/**
+ * Update a session after its refresh token was rotated
+ */
+export const extendSession = async (familyId: string, expiresAt: Date): Promise<void> => {
+  await Session.updateOne(
+    { familyId },
+    { $set: { lastSeenAt: new Date(), expiresAt } }
+  );
+};
+
+/**
+ * Update a session's last-seen time
+ * Throttled through Redis so only one write per session per minute reaches MongoDB
+ */
+export const touchSession = async (familyId: string): Promise<void> => {
+  try {
+    const acquired = await redisClient.set(getSessionTouchKey(familyId), '1', {
+      EX: SESSION_TOUCH_INTERVAL_SECONDS,
+      NX: true,
+    });
+
+    if (acquired) {
+      await Session.updateOne({ familyId }, { $set: { lastSeenAt: new Date() } });
+    }
+  } catch (error) {
+    console.error('❌ Error updating session last seen:', error);
+  }
+};
+
+/**
+ * Get a user's active sessions, most recently seen first
+ */
+export const getActiveSessions = async (userId: string): Promise<ISession[]> => {
+  return Session.find({
+    userId,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+  }).sort({ lastSeenAt: -1 });
+};
+
+/**
+ * Revoke one of a user's sessions
+ * Returns false if the session doesn't exist, belongs to another user or is already inactive
+ */
+export const revokeSession = async (userId: string, sessionId: string): Promise<boolean> => {
+  const session = await Session.findOne({ _id: sessionId, userId });
+  if (!session || !session.isActive()) {
+    return false;
+  }
+
+  await revokeTokenFamily(session.familyId);
+  return true;
+};
+
+/**
+ * Revoke all of a user's sessions except the given one
+ * Returns the number of sessions revoked
+ */
+export const revokeOtherSessions = async (
+  userId: string,
+  currentFamilyId?: string
+): Promise<number> => {
+  const sessions = await getActiveSessions(userId);
+  const others = sessions.filter((session) => session.familyId !== currentFamilyId);
+
+  for (const session of others) {
+    await revokeTokenFamily(session.familyId);
+  }
+
+  return others.length;
+};
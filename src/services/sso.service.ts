@@ -0,0 +1,491 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import jwt from 'jsonwebtoken';
+import { config } from '../config/config';
+import { redisClient } from '../config/redis';
+import { DEFAULT_USER_ROLE } from '../config/permissions';
+import User from '../models/user.model';
+import Role from '../models/role.model';
+import Invitation from '../models/invitation.model';
+import { IUser } from '../types';
+import { AppError } from '../utils/errors';
+import { generateSecureToken, hashToken } from '../utils/crypto';
+import { hashPassword } from '../utils/password';
+import { revokeAllUserTokens } from './token.service';
+
+const SSO_STATE_EXPIRY_MINUTES = parseInt(process.env.SSO_STATE_EXPIRY_MINUTES || '10', 10);
+const SSO_RESULT_EXPIRY_SECONDS = parseInt(process.env.SSO_RESULT_EXPIRY_SECONDS || '60', 10);
+const SSO_METADATA_CACHE_MINUTES = parseInt(process.env.SSO_METADATA_CACHE_MINUTES || '60', 10);
+const SSO_CLOCK_TOLERANCE_SECONDS = 60;
+const SSO_JWKS_REFRESH_COOLDOWN_MS = 60 * 1000; // Unknown key ids can't force a JWKS fetch more often than this
+
+export interface SsoIdentity {
+  subject: string; // Entra object id (oid), or sub for other providers
+  email: string;
+  name?: string;
+  firstName?: string;
+  lastName?: string;
+  groups: string[];
+}
+
+export interface SsoUserResolution {
+  user: IUser;
+  provisioned: boolean;
+  roleChange?: { from: string; to: string };
+}
+
+interface SsoLoginState {
+  codeVerifier: string;
+  nonce: string;
+  returnTo?: string;
+}
+
+interface OidcMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface CachedValue<T> {
+  value: T;
+  fetchedAt: number;
+}
+
+let metadataCache: CachedValue<OidcMetadata> | null = null;
+let jwksCache: CachedValue<crypto.JsonWebKey[]> | null = null;
+
+/**
+ * Parse SSO_GROUP_ROLE_MAP ("groupId=role,groupId=role") into ordered pairs
+ * Earlier pairs win when a user is in several mapped groups
+ */
+const getGroupRoleMap = (): Array<{ group: string; role: string }> => {
+  return (config.sso.groupRoleMap || '')
+    .split(',')
+    .map((pair) => pair.split('=').map((part) => part.trim()))
+    .filter(([group, role]) => group && role)
+    .map(([group, role]) => ({ group, role: role.toLowerCase() }));
+};
+
+/**
+ * Get the email domains that must sign in with SSO
+ */
+const getEnforcedDomains = (): string[] => {
+  return (config.sso.enforcedDomains || '')
+    .split(',')
+    .map((domain) => domain.trim().toLowerCase().replace(/^@/, ''))
+    .filter(Boolean);
+};
+
+/**
+ * Get Redis key for a pending SSO login (keyed by the OAuth state)
+ */
+const getSsoStateKey = (state: string): string => {
+  return `auth:sso:state:${state}`;
+};
+
+/**
+ * Get Redis key for a finished SSO login waiting to be picked up by the frontend
+ */
+const getSsoResultKey = (code: string): string => {
+  return `auth:sso:result:${hashToken(code)}`;
+};
+
+/**
+ * Check if SSO is switched on and configured
+ */
+export const isSsoEnabled = (): boolean => {
+  return config.sso.enabled && Boolean(config.sso.issuer && config.sso.clientId);
+};
+
+/**
+ * Ensure SSO is available before starting or finishing a login
+ */
+const assertSsoEnabled = (): void => {
+  if (!isSsoEnabled()) {
+    throw new AppError('Single sign-on is not enabled', 404);
+  }
+};
+
+/**
+ * Check if an email address belongs to a domain that can only sign in with SSO
+ */
+export const isSsoRequiredForEmail = (email: string): boolean => {
+  if (!isSsoEnabled()) {
+    return false;
+  }
+
+  const domain = email.split('@').pop()?.toLowerCase();
+  return Boolean(domain) && getEnforcedDomains().includes(domain as string);
+};
+
+/**
+ * Block password, login-code and self-service account flows for SSO-only domains
+ * Throws a 403 AppError pointing the client at the SSO login
+ */
+export const assertPasswordLoginAllowed = (email: string): void => {
+  if (isSsoRequiredForEmail(email)) {
+    throw new AppError('This account signs in with single sign-on', 403, {
+      ssoRequired: true,
+      ssoLoginUrl: '/api/auth/sso/login',
+    });
+  }
+};
+
+/**
+ * Fetch the provider's discovery document (cached)
+ */
+const getOidcMetadata = async (): Promise<OidcMetadata> => {
+  if (metadataCache && Date.now() - metadataCache.fetchedAt < SSO_METADATA_CACHE_MINUTES * 60 * 1000) {
+    return metadataCache.value;
+  }
+
+  const issuer = (config.sso.issuer as string).replace(/\/$/, '');
+  const response = await axios.get<OidcMetadata>(`${issuer}/.well-known/openid-configuration`, {
+    timeout: 10000,
+  });
+
+  metadataCache = { value: response.data, fetchedAt: Date.now() };
+  return response.data;
+};
+
+/**
+ * Get the provider's signing key for a key id
+ * The JWKS is cached and refetched when the provider rotates to a key we haven't seen
+ */
+const getSigningKey = async (kid: string | undefined): Promise<crypto.KeyObject> => {
+  const findKey = () =>
+    jwksCache?.value.find((key) => key.use !== 'enc' && (!kid || key.kid === kid));
+  const cacheAge = jwksCache ? Date.now() - jwksCache.fetchedAt : Infinity;
+
+  let jwk = findKey();
+
+  if (cacheAge > SSO_METADATA_CACHE_MINUTES * 60 * 1000 || (!jwk && cacheAge > SSO_JWKS_REFRESH_COOLDOWN_MS)) {
+    const metadata = await getOidcMetadata();
+    const response = await axios.get<{ keys: crypto.JsonWebKey[] }>(metadata.jwks_uri, {
+      timeout: 10000,
+    });
+    jwksCache = { value: response.data.keys || [], fetchedAt: Date.now() };
+    jwk = findKey();
+  }
+
+  if (!jwk) {
+    throw new AppError('Identity provider signing key not found', 401);
+  }
+
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+};
+
+/**
+ * Create a PKCE verifier and its S256 challenge
+ */
+const createPkcePair = (): { codeVerifier: string; codeChallenge: string } => {
+  const codeVerifier = generateSecureToken(32);
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+  return { codeVerifier, codeChallenge };
+};
+
+/**
+ * Only same-site paths may be used as a post-login destination
+ */
+const sanitizeReturnTo = (returnTo?: string): string | undefined => {
+  if (!returnTo || !returnTo.startsWith('/') || returnTo.startsWith('//') || returnTo.includes('\\')) {
+    return undefined;
+  }
+  return returnTo;
+};
+
+/**
+ * Start an authorization code + PKCE login
+ * Returns the provider URL to redirect the browser to
+ */
+export const createSsoAuthorizationUrl = async (options: {
+  returnTo?: string;
+  loginHint?: string;
+}): Promise<string> => {
+  assertSsoEnabled();
+
+  const metadata = await getOidcMetadata();
+  const state = generateSecureToken(24);
+  const nonce = generateSecureToken(24);
+  const { codeVerifier, codeChallenge } = createPkcePair();
+
+  const loginState: SsoLoginState = {
+    codeVerifier,
+    nonce,
+    returnTo: sanitizeReturnTo(options.returnTo),
+  };
+  await redisClient.set(getSsoStateKey(state), JSON.stringify(loginState), {
+    EX: SSO_STATE_EXPIRY_MINUTES * 60,
+  });
+
+  const params = new URLSearchParams({
+    client_id: config.sso.clientId as string,
+    response_type: 'code',
+    redirect_uri: config.sso.redirectUri,
+    response_mode: 'query',
+    scope: config.sso.scope,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+  });
+  if (options.loginHint) {
+    params.set('login_hint', options.loginHint);
+  }
+
+  return `${metadata.authorization_endpoint}?${params.toString()}`;
+};
+
+/**
+ * Validate an ID token's signature and claims and extract the identity
+ */
+const validateIdToken = async (idToken: string, nonce: string): Promise<SsoIdentity> => {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new AppError('Invalid ID token', 401);
+  }
+
+  const metadata = await getOidcMetadata();
+  const key = await getSigningKey(decoded.header.kid);
+
+  let claims: jwt.JwtPayload;
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: ['RS256'],
+      issuer: metadata.issuer,
+      audience: config.sso.clientId as string,
+      clockTolerance: SSO_CLOCK_TOLERANCE_SECONDS,
+    }) as jwt.JwtPayload;
+  } catch (error) {
+    throw new AppError(`Invalid ID token: ${(error as Error).message}`, 401);
+  }
+
+  if (claims.nonce !== nonce) {
+    throw new AppError('Invalid ID token: nonce mismatch', 401);
+  }
+
+  // Accounts are matched by address, so only directory-controlled claims are used: the sign-in name, or the
+  // email claim when Entra ID marks its domain as verified (xms_edov). A user can set an unverified email claim
+  // to anyone's address.
+  const emailVerified = claims.xms_edov === true || claims.xms_edov === 'true' || claims.xms_edov === 1;
+  const email = (claims.preferred_username || claims.upn || (emailVerified ? claims.email : '') || '')
+    .toString()
+    .trim()
+    .toLowerCase();
+  if (!/^\S+@\S+\.\S+$/.test(email)) {
+    throw new AppError('The identity provider did not return an email address', 401);
+  }
+
+  // Users in too many groups get a _claim_names overage marker instead of the list
+  if (!claims.groups && claims._claim_names?.groups) {
+    console.warn(`⚠️ SSO group claim overage for ${email}; group role mapping skipped`);
+  }
+
+  return {
+    subject: (claims.oid || claims.sub) as string,
+    email,
+    name: claims.name,
+    firstName: claims.given_name,
+    lastName: claims.family_name,
+    groups: Array.isArray(claims.groups) ? claims.groups.map(String) : [],
+  };
+};
+
+/**
+ * Exchange an authorization code (with its PKCE verifier) and validate the returned ID token
+ */
+export const redeemAuthorizationCode = async (
+  code: string,
+  codeVerifier: string,
+  nonce: string
+): Promise<SsoIdentity> => {
+  const metadata = await getOidcMetadata();
+
+  const params = new URLSearchParams({
+    grant_type: 'authorization_code',
+    client_id: config.sso.clientId as string,
+    code,
+    redirect_uri: config.sso.redirectUri,
+    code_verifier: codeVerifier,
+  });
+  if (config.sso.clientSecret) {
+    params.set('client_secret', config.sso.clientSecret);
+  }
+
+  let idToken: string | undefined;
+  try {
+    const response = await axios.post<{ id_token?: string }>(metadata.token_endpoint, params.toString(), {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      timeout: 10000,
+    });
+    idToken = response.data.id_token;
+  } catch (error) {
+    const description = axios.isAxiosError(error)
+      ? error.response?.data?.error_description || error.response?.data?.error || error.message
+      : (error as Error).message;
+    throw new AppError(`Authorization code exchange failed: ${description}`, 401);
+  }
+
+  if (!idToken) {
+    throw new AppError('The identity provider did not return an ID token', 401);
+  }
+
+  return validateIdToken(idToken, nonce);
+};
+
+/**
+ * Finish an SSO login from the provider callback
+ * The state is single-use, so a replayed callback fails
+ */
+export const completeSsoAuthorization = async (
+  code: string,
+  state: string
+): Promise<{ identity: SsoIdentity; returnTo?: string }> => {
+  assertSsoEnabled();
+
+  const stored = await redisClient.getDel(getSsoStateKey(state));
+  if (!stored) {
+    throw new AppError('Invalid or expired login state. Please start the login again.', 400);
+  }
+
+  const loginState: SsoLoginState = JSON.parse(stored);
+  const identity = await redeemAuthorizationCode(code, loginState.codeVerifier, loginState.nonce);
+
+  return { identity, returnTo: loginState.returnTo };
+};
+
+/**
+ * Pick the role for a user from their group claims (first matching mapping wins)
+ * Mapped roles that don't exist are skipped
+ */
+const getRoleForGroups = async (groups: string[]): Promise<string | undefined> => {
+  for (const { group, role } of getGroupRoleMap()) {
+    if (groups.includes(group) && (await Role.exists({ name: role }))) {
+      return role;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Build a unique username from the email's local part
+ */
+const generateUsername = async (email: string): Promise<string> => {
+  const base = email.split('@')[0].replace(/[^a-zA-Z0-9._-]/g, '').slice(0, 22).padEnd(3, '0');
+
+  let username = base;
+  while (await User.exists({ username })) {
+    username = `${base}${crypto.randomInt(1000, 10000)}`;
+  }
+  return username;
+};
+
+/**
+ * Find (or create) the local account for an SSO identity
+ * Accounts already linked are found by provider subject; others are matched by email and then pinned to it.
+ * Unknown users are created from a pending invitation, or when SSO_AUTO_PROVISION is on
+ */
+export const resolveSsoUser = async (identity: SsoIdentity): Promise<SsoUserResolution> => {
+  const mappedRole = await getRoleForGroups(identity.groups);
+  let user = (await User.findOne({ ssoSubject: identity.subject })) || (await User.findOne({ email: identity.email }));
+
+  if (user) {
+    // Suspended, deactivated and deleted accounts are left untouched; the login is refused afterwards
+    if ((user.status || 'active') !== 'active') {
+      return { user, provisioned: false };
+    }
+
+    // Another directory account reusing a recycled address must not take over this one
+    if (user.ssoSubject && user.ssoSubject !== identity.subject) {
+      throw new AppError('This account is linked to a different single sign-on identity', 403);
+    }
+
+    user.ssoSubject = identity.subject;
+    if (!user.emailVerified) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+    }
+
+    let roleChange: SsoUserResolution['roleChange'];
+    if (mappedRole && mappedRole !== user.role) {
+      roleChange = { from: user.role, to: mappedRole };
+      user.role = mappedRole;
+    }
+
+    await user.save();
+
+    // Access tokens carry the role
+    if (roleChange) {
+      await revokeAllUserTokens(user._id.toString());
+    }
+
+    return { user, provisioned: false, roleChange };
+  }
+
+  const invitation = await Invitation.findOne({ email: identity.email, status: 'pending' }).sort({
+    createdAt: -1,
+  });
+  const hasInvitation = invitation && !invitation.isExpired();
+
+  if (!hasInvitation && !config.sso.autoProvision) {
+    throw new AppError('No account exists for this email. Please ask an administrator for access.', 403);
+  }
+
+  // The provider already verified the address; the local password is random and never shared
+  user = await User.create({
+    username: await generateUsername(identity.email),
+    email: identity.email,
+    password: await hashPassword(generateSecureToken(32)),
+    passwordChangedAt: new Date(),
+    firstName: identity.firstName || identity.name?.split(' ')[0],
+    lastName: identity.lastName || identity.name?.split(' ').slice(1).join(' ') || undefined,
+    role: mappedRole || (hasInvitation ? invitation.role : config.sso.defaultRole || DEFAULT_USER_ROLE),
+    allowedEntities: hasInvitation ? invitation.allowedEntities : [],
+    emailVerified: true,
+    emailVerifiedAt: new Date(),
+    ssoSubject: identity.subject,
+  });
+
+  if (hasInvitation) {
+    invitation.status = 'accepted';
+    invitation.acceptedAt = new Date();
+    invitation.acceptedUser = user._id;
+    await invitation.save();
+  }
+
+  return { user, provisioned: true };
+};
+
+/**
+ * Hold a finished login's response for the frontend to pick up with a one-time code
+ * Tokens never appear in the redirect URL
+ */
+export const storeSsoLoginResult = async (payload: unknown): Promise<string> => {
+  const code = generateSecureToken(32);
+  await redisClient.set(getSsoResultKey(code), JSON.stringify(payload), {
+    EX: SSO_RESULT_EXPIRY_SECONDS,
+  });
+  return code;
+};
+
+/**
+ * Redeem a one-time code from storeSsoLoginResult
+ */
+export const consumeSsoLoginResult = async (code: string): Promise<unknown | null> => {
+  const stored = await redisClient.getDel(getSsoResultKey(code));
+  return stored ? JSON.parse(stored) : null;
+};
+
+/**
+ * Build the frontend URL the callback redirects to
+ */
+export const getSsoRedirectUrl = (params: Record<string, string | undefined>): string => {
+  const url = new URL(config.sso.successRedirect);
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      url.searchParams.set(name, value);
+    }
+  }
+  return url.toString();
+};
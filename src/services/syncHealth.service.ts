@@ -0,0 +1,63 @@
+import Setting from '../models/setting.model';
+import { getDubaiDateTime } from '../utils/dateUtils';
+
+const SYNC_RUN_SETTING_KEY = 'sync-run';
+
+export interface SyncResult {
+  name: string;
+  success: boolean;
+  duration: number;
+  recordsSaved?: number;
+  recordsSkipped?: number;
+  entitiesProcessed?: number;
+  errors: string[];
+}
+
+export interface SyncRun {
+  date: string; // Dubai date (yyyy-mm-dd) the run started on
+  startedAt: Date;
+  finishedAt: Date;
+  results: SyncResult[];
+}
+
+/**
+ * Keep the outcome of the latest scheduled sync, for the digest footnotes
+ * Only the first few errors of each dataset are stored
+ */
+export const recordSyncRun = async (
+  results: SyncResult[],
+  startedAt: Date,
+  finishedAt: Date = new Date()
+): Promise<SyncRun> => {
+  const run: SyncRun = {
+    date: getDubaiDateTime(startedAt).date,
+    startedAt,
+    finishedAt,
+    results: results.map((result) => ({ ...result, errors: result.errors.slice(0, 3) })),
+  };
+
+  await Setting.updateOne(
+    { key: SYNC_RUN_SETTING_KEY },
+    { $set: { value: run } },
+    { upsert: true }
+  );
+
+  return run;
+};
+
+/**
+ * Get the latest scheduled sync run, if one has been recorded
+ */
+export const getLastSyncRun = async (): Promise<SyncRun | null> => {
+  const setting = await Setting.findOne({ key: SYNC_RUN_SETTING_KEY }).lean();
+  if (!setting?.value?.date) {
+    return null;
+  }
+
+  const run = setting.value as unknown as SyncRun;
+  return {
+    ...run,
+    startedAt: new Date(run.startedAt),
+    finishedAt: new Date(run.finishedAt),
+  };
+};
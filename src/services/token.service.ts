@@ -0,0 +1,259 @@
+import crypto from 'crypto';
+import { redisClient } from '../config/redis';
+import {
+  generateToken,
+  generateRefreshToken,
+  verifyRefreshToken,
+  generatePurposeToken,
+  getTokenTtlSeconds,
+} from '../config/jwt';
+import { JwtPayload, RefreshTokenPayload, PurposeTokenPayload } from '../types';
+import { AppError } from '../utils/errors';
+import Session from '../models/session.model';
+
+export interface TokenPair {
+  token: string;
+  refreshToken: string;
+  familyId: string;
+  refreshExpiresAt: Date;
+}
+
+export interface RotatedRefreshToken extends RefreshTokenPayload {
+  nextJti: string; // Id reserved for the family's next refresh token
+}
+
+interface StoredTokenFamily {
+  userId: string;
+  jti: string;
+  previousJti?: string;
+  rotatedAt?: number; // Epoch milliseconds of the last rotation
+}
+
+// A token presented again this soon after its rotation lost a race with a concurrent refresh (e.g. two tabs)
+// rather than being stolen, so it is refused without revoking the family
+const REFRESH_ROTATION_GRACE_MS = 10 * 1000;
+
+/**
+ * Compare-and-rotate a family's current refresh token id in one step, so concurrent refreshes
+ * with the same token can't both succeed
+ * KEYS[1] family key; ARGV presented jti, user id, next jti, now (ms), grace (ms)
+ * Returns 1 when rotated, 0 when the family is gone, -1 for reuse and -2 for a token rotated within the grace period
+ */
+const ROTATE_FAMILY_SCRIPT = `
+local stored = redis.call('GET', KEYS[1])
+if not stored then
+  return 0
+end
+local family = cjson.decode(stored)
+if family.userId ~= ARGV[2] then
+  return -1
+end
+if family.jti ~= ARGV[1] then
+  if family.previousJti == ARGV[1] and tonumber(ARGV[4]) - (tonumber(family.rotatedAt) or 0) <= tonumber(ARGV[5]) then
+    return -2
+  end
+  return -1
+end
+family.previousJti = family.jti
+family.jti = ARGV[3]
+family.rotatedAt = tonumber(ARGV[4])
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl > 0 then
+  redis.call('SET', KEYS[1], cjson.encode(family), 'PX', ttl)
+else
+  redis.call('SET', KEYS[1], cjson.encode(family))
+end
+return 1
+`;
+
+/**
+ * Get Redis key for a refresh token family
+ */
+const getFamilyKey = (familyId: string): string => {
+  return `auth:refresh:family:${familyId}`;
+};
+
+/**
+ * Get Redis key for the set of token families owned by a user
+ */
+const getUserFamiliesKey = (userId: string): string => {
+  return `auth:refresh:user:${userId}`;
+};
+
+/**
+ * Get Redis key for the one-time-use marker of a purpose-scoped token
+ */
+const getPurposeTokenKey = (purpose: string, jti: string): string => {
+  return `auth:${purpose}:${jti}`;
+};
+
+/**
+ * Issue an access token and refresh token pair
+ * Starts a new token family, unless rotating one whose next token id was reserved by consumeRefreshToken
+ */
+export const issueTokenPair = async (
+  payload: Omit<JwtPayload, 'familyId'>,
+  rotation?: { familyId: string; jti: string }
+): Promise<TokenPair> => {
+  const familyId = rotation?.familyId || crypto.randomUUID();
+  const jti = rotation?.jti || crypto.randomUUID();
+
+  const token = generateToken({ ...payload, familyId });
+  const refreshToken = generateRefreshToken({
+    userId: payload.userId,
+    familyId,
+    jti,
+  });
+
+  // Only the latest refresh token of a family is valid
+  const ttl = getTokenTtlSeconds(refreshToken);
+  const familyKey = getFamilyKey(familyId);
+  const userFamiliesKey = getUserFamiliesKey(payload.userId);
+
+  if (rotation) {
+    // The family already holds the new token id; a family revoked meanwhile must stay revoked
+    if (!(await redisClient.expire(familyKey, ttl))) {
+      throw new AppError('Refresh token has been revoked', 401);
+    }
+  } else {
+    const family: StoredTokenFamily = { userId: payload.userId, jti };
+    await redisClient.setEx(familyKey, ttl, JSON.stringify(family));
+  }
+  await redisClient.sAdd(userFamiliesKey, familyId);
+  await redisClient.expire(userFamiliesKey, ttl);
+
+  return {
+    token,
+    refreshToken,
+    familyId,
+    refreshExpiresAt: new Date(Date.now() + ttl * 1000),
+  };
+};
+
+/**
+ * Consume a refresh token
+ * Returns its payload and the id reserved for the next token if it is the current token of an active family.
+ * Presenting an already rotated token revokes the whole family, unless it was rotated moments ago by a
+ * concurrent refresh.
+ */
+export const consumeRefreshToken = async (
+  refreshToken: string
+): Promise<RotatedRefreshToken> => {
+  let decoded: RefreshTokenPayload;
+  try {
+    decoded = verifyRefreshToken(refreshToken);
+  } catch (error) {
+    throw new AppError('Invalid or expired refresh token', 401);
+  }
+
+  const nextJti = crypto.randomUUID();
+  const result = Number(
+    await redisClient.eval(ROTATE_FAMILY_SCRIPT, {
+      keys: [getFamilyKey(decoded.familyId)],
+      arguments: [decoded.jti, decoded.userId, nextJti, Date.now().toString(), REFRESH_ROTATION_GRACE_MS.toString()],
+    })
+  );
+
+  if (result === 0) {
+    throw new AppError('Refresh token has been revoked', 401);
+  }
+  if (result === -2) {
+    throw new AppError('Refresh token was already used by another request. Please use the latest refresh token.', 409);
+  }
+  if (result !== 1) {
+    console.warn(`⚠️  Refresh token reuse detected for user ${decoded.userId}, revoking family ${decoded.familyId}`);
+    await revokeTokenFamily(decoded.familyId);
+    throw new AppError('Refresh token reuse detected. Please log in again.', 401);
+  }
+
+  return { ...decoded, nextJti };
+};
+
+/**
+ * Check if a token family is still active
+ */
+export const isTokenFamilyActive = async (familyId: string): Promise<boolean> => {
+  const exists = await redisClient.exists(getFamilyKey(familyId));
+  return exists === 1;
+};
+
+/**
+ * Revoke a single token family (one login session)
+ */
+export const revokeTokenFamily = async (familyId: string): Promise<void> => {
+  const key = getFamilyKey(familyId);
+  const stored = await redisClient.get(key);
+
+  await redisClient.del(key);
+
+  if (stored) {
+    const family: StoredTokenFamily = JSON.parse(stored);
+    await redisClient.sRem(getUserFamiliesKey(family.userId), familyId);
+  }
+
+  await Session.updateOne(
+    { familyId, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date() } }
+  );
+};
+
+/**
+ * Revoke every token family of a user (all sessions on all devices)
+ */
+export const revokeAllUserTokens = async (userId: string): Promise<void> => {
+  const userFamiliesKey = getUserFamiliesKey(userId);
+  const familyIds = await redisClient.sMembers(userFamiliesKey);
+
+  if (familyIds.length > 0) {
+    await redisClient.del(familyIds.map(getFamilyKey));
+  }
+  await redisClient.del(userFamiliesKey);
+
+  await Session.updateMany(
+    { userId, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date() } }
+  );
+
+  console.log(`🔒 Revoked ${familyIds.length} token family(ies) for user ${userId}`);
+};
+
+/**
+ * Issue a single-use, purpose-scoped token (e.g. password reset)
+ * A marker is stored in Redis until the token is used or expires
+ */
+export const issuePurposeToken = async (
+  payload: Omit<PurposeTokenPayload, 'jti'>,
+  expiresInMinutes: number
+): Promise<string> => {
+  const jti = crypto.randomUUID();
+  const token = generatePurposeToken({ ...payload, jti }, expiresInMinutes);
+
+  await redisClient.setEx(
+    getPurposeTokenKey(payload.purpose, jti),
+    expiresInMinutes * 60,
+    payload.userId
+  );
+
+  return token;
+};
+
+/**
+ * Mark a purpose-scoped token as used
+ * Returns false if the token was already used or its marker expired
+ */
+export const markPurposeTokenUsed = async (
+  payload: PurposeTokenPayload
+): Promise<boolean> => {
+  const deleted = await redisClient.del(getPurposeTokenKey(payload.purpose, payload.jti));
+  return deleted === 1;
+};
+
+/**
+ * Check if a purpose-scoped token is still unused without consuming it
+ */
+export const isPurposeTokenActive = async (
+  payload: PurposeTokenPayload
+): Promise<boolean> => {
+  const exists = await redisClient.exists(getPurposeTokenKey(payload.purpose, payload.jti));
+  return exists === 1;
+};
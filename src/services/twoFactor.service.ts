@@ -0,0 +1,233 @@
+import crypto from 'crypto';
+import { redisClient } from '../config/redis';
+import User from '../models/user.model';
+import Role from '../models/role.model';
+import { AppError } from '../utils/errors';
+import { hashToken } from '../utils/crypto';
+import { generateTotpSecret, verifyTotpCode, buildOtpauthUri } from '../utils/totp';
+
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'Dashboard';
+const RECOVERY_CODE_COUNT = 10;
+const TWO_FACTOR_MAX_ATTEMPTS = parseInt(process.env.TWO_FACTOR_MAX_ATTEMPTS || '5', 10);
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface SecondFactor {
+  code?: string;
+  recoveryCode?: string;
+}
+
+/**
+ * Get Redis key for failed second-factor attempts on a login challenge
+ */
+const getChallengeAttemptsKey = (jti: string): string => {
+  return `auth:2fa-attempts:${jti}`;
+};
+
+/**
+ * Normalize a recovery code as typed by the user (case and whitespace insensitive)
+ */
+const normalizeRecoveryCode = (code: string): string => {
+  return code.trim().toLowerCase().replace(/\s+/g, '');
+};
+
+/**
+ * Generate a set of one-time recovery codes
+ * Returns the plaintext codes (shown to the user once) and their hashes (stored)
+ */
+const generateRecoveryCodes = (): { codes: string[]; hashes: string[] } => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+
+  return {
+    codes,
+    hashes: codes.map((code) => hashToken(normalizeRecoveryCode(code))),
+  };
+};
+
+/**
+ * Check if a role requires users to enroll in two-factor authentication
+ */
+export const isTwoFactorRequiredForRole = async (role: string): Promise<boolean> => {
+  const exists = await Role.exists({ name: role, requireTwoFactor: true });
+  return exists !== null;
+};
+
+/**
+ * Start TOTP enrollment - generates a pending secret that must be confirmed with a code
+ */
+export const startTwoFactorEnrollment = async (userId: string): Promise<TwoFactorEnrollment> => {
+  const user = await User.findById(userId);
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  if (user.twoFactor?.enabled) {
+    throw new AppError('Two-factor authentication is already enabled', 400);
+  }
+
+  const secret = generateTotpSecret();
+
+  await User.updateOne({ _id: user._id }, { $set: { 'twoFactor.pendingSecret': secret } });
+
+  return {
+    secret,
+    otpauthUri: buildOtpauthUri(secret, user.email, TOTP_ISSUER),
+  };
+};
+
+/**
+ * Confirm TOTP enrollment with a code from the authenticator app
+ * Returns the plaintext recovery codes, which are never shown again
+ */
+export const confirmTwoFactorEnrollment = async (
+  userId: string,
+  code: string
+): Promise<string[]> => {
+  const user = await User.findById(userId).select('+twoFactor.pendingSecret');
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  if (user.twoFactor?.enabled) {
+    throw new AppError('Two-factor authentication is already enabled', 400);
+  }
+
+  const pendingSecret = user.twoFactor?.pendingSecret;
+  if (!pendingSecret) {
+    throw new AppError('No pending two-factor enrollment. Start enrollment first.', 400);
+  }
+
+  const step = verifyTotpCode(pendingSecret, code);
+  if (step === null) {
+    throw new AppError('Invalid verification code', 400);
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+
+  await User.updateOne(
+    { _id: user._id },
+    {
+      $set: {
+        'twoFactor.enabled': true,
+        'twoFactor.secret': pendingSecret,
+        'twoFactor.recoveryCodes': hashes,
+        'twoFactor.lastUsedStep': step,
+        'twoFactor.enabledAt': new Date(),
+      },
+      $unset: { 'twoFactor.pendingSecret': '' },
+    }
+  );
+
+  return codes;
+};
+
+/**
+ * Verify a TOTP code or a one-time recovery code for a user
+ * Accepted TOTP steps and recovery codes cannot be used again
+ */
+export const verifySecondFactor = async (
+  userId: string,
+  { code, recoveryCode }: SecondFactor
+): Promise<boolean> => {
+  const user = await User.findById(userId).select('+twoFactor.secret');
+  if (!user?.twoFactor?.enabled || !user.twoFactor.secret) {
+    return false;
+  }
+
+  if (code) {
+    const step = verifyTotpCode(user.twoFactor.secret, code);
+    if (step === null) {
+      return false;
+    }
+
+    // Conditional update so the same code can't be replayed, even concurrently
+    const result = await User.updateOne(
+      {
+        _id: user._id,
+        $or: [
+          { 'twoFactor.lastUsedStep': { $exists: false } },
+          { 'twoFactor.lastUsedStep': { $lt: step } },
+        ],
+      },
+      { $set: { 'twoFactor.lastUsedStep': step } }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  if (recoveryCode) {
+    const result = await User.updateOne(
+      { _id: user._id, 'twoFactor.recoveryCodes': hashToken(normalizeRecoveryCode(recoveryCode)) },
+      { $pull: { 'twoFactor.recoveryCodes': hashToken(normalizeRecoveryCode(recoveryCode)) } }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  return false;
+};
+
+/**
+ * Replace a user's recovery codes with a fresh set
+ */
+export const regenerateRecoveryCodes = async (userId: string): Promise<string[]> => {
+  const { codes, hashes } = generateRecoveryCodes();
+
+  await User.updateOne(
+    { _id: userId, 'twoFactor.enabled': true },
+    { $set: { 'twoFactor.recoveryCodes': hashes } }
+  );
+
+  return codes;
+};
+
+/**
+ * Count a user's unused recovery codes
+ */
+export const getRemainingRecoveryCodes = async (userId: string): Promise<number> => {
+  const user = await User.findById(userId).select('+twoFactor.recoveryCodes');
+  return user?.twoFactor?.recoveryCodes?.length || 0;
+};
+
+/**
+ * Remove a user's TOTP secret and recovery codes
+ */
+export const disableTwoFactor = async (userId: string): Promise<void> => {
+  await User.updateOne(
+    { _id: userId },
+    {
+      $set: {
+        'twoFactor.enabled': false,
+        'twoFactor.recoveryCodes': [],
+      },
+      $unset: {
+        'twoFactor.secret': '',
+        'twoFactor.pendingSecret': '',
+        'twoFactor.lastUsedStep': '',
+        'twoFactor.enabledAt': '',
+      },
+    }
+  );
+};
+
+/**
+ * Record a failed second-factor attempt on a login challenge
+ * Returns the number of attempts left before the challenge is invalidated
+ */
+export const recordChallengeFailure = async (
+  jti: string,
+  ttlSeconds: number
+): Promise<number> => {
+  const key = getChallengeAttemptsKey(jti);
+  const attempts = await redisClient.incr(key);
+
+  if (attempts === 1) {
+    await redisClient.expire(key, Math.max(ttlSeconds, 1));
+  }
+
+  return Math.max(0, TWO_FACTOR_MAX_ATTEMPTS - attempts);
+};
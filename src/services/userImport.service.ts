@@ -0,0 +1,259 @@
+import mongoose from 'mongoose';
+import User from '../models/user.model';
+import Entity from '../models/entities.model';
+import { sendTemplatedEmail } from './emailTemplate.service';
+import { DEFAULT_USER_ROLE } from '../config/permissions';
+import { AuthRequest, IUser } from '../types';
+import { AppError } from '../utils/errors';
+import { parseCsv } from '../utils/csv';
+import { generateSecureToken } from '../utils/crypto';
+import { hashPassword } from '../utils/password';
+import { checkUserImportRow } from '../middleware/validation.middleware';
+import { issuePasswordResetToken } from './auth.service';
+import { isSsoRequiredForEmail } from './sso.service';
+import { recordAuditEvent, auditUser } from './audit.service';
+
+const USER_IMPORT_MAX_ROWS = parseInt(process.env.USER_IMPORT_MAX_ROWS || '500', 10);
+const INVITATION_EXPIRY_HOURS = parseInt(process.env.INVITATION_EXPIRY_HOURS || '72', 10);
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+/**
+ * Import columns by their normalized header (lowercase, without spaces, dashes or underscores)
+ * Other columns are ignored
+ */
+const IMPORT_COLUMNS: Record<string, string> = {
+  username: 'username',
+  email: 'email',
+  firstname: 'firstName',
+  lastname: 'lastName',
+  role: 'role',
+  entitycodes: 'entityCodes',
+  entities: 'entityCodes',
+};
+
+export type UserImportRowStatus = 'valid' | 'invalid' | 'created' | 'failed';
+
+export interface UserImportRow {
+  row: number; // 1-based, not counting the CSV header
+  username?: string;
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  role: string;
+  entityCodes: string[];
+  status: UserImportRowStatus;
+  errors: string[];
+  userId?: string;
+  invitationSent?: boolean;
+}
+
+interface ValidatedImportRow extends UserImportRow {
+  allowedEntities: mongoose.Types.ObjectId[];
+}
+
+/**
+ * Split an entity code list ("DXB;AUH" or an array) into upper-case codes
+ */
+const toEntityCodes = (value: unknown): unknown => {
+  if (value === undefined || value === null || value === '') {
+    return [];
+  }
+  if (typeof value === 'string') {
+    return value
+      .split(/[;|]/)
+      .map((code) => code.trim().toUpperCase())
+      .filter(Boolean);
+  }
+  if (Array.isArray(value)) {
+    return value.map((code) => String(code).trim().toUpperCase()).filter(Boolean);
+  }
+  return value; // Rejected by the row validation
+};
+
+/**
+ * Map a raw row onto the import columns
+ */
+const toImportFields = (raw: Record<string, unknown>): Record<string, unknown> => {
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const column = IMPORT_COLUMNS[key.toLowerCase().replace(/[\s_-]/g, '')];
+    if (column) {
+      fields[column] = typeof value === 'string' ? value.trim() : value;
+    }
+  }
+
+  fields.entityCodes = toEntityCodes(fields.entityCodes);
+  return fields;
+};
+
+/**
+ * Read CSV text into raw rows keyed by the header row
+ */
+const readCsvRows = (text: string): Record<string, unknown>[] => {
+  const [header, ...lines] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    return [];
+  }
+
+  return lines.map((cells) =>
+    Object.fromEntries(header.map((column, index) => [column, cells[index] ?? '']))
+  );
+};
+
+/**
+ * Read the rows of an import request
+ * Accepts CSV text (Content-Type: text/csv), a JSON array of users or a JSON object with a `users` array
+ */
+export const parseUserImport = (body: unknown): Record<string, unknown>[] => {
+  let rows: unknown[];
+  if (typeof body === 'string') {
+    rows = readCsvRows(body);
+  } else if (Array.isArray(body)) {
+    rows = body;
+  } else if (body && typeof body === 'object' && Array.isArray((body as { users?: unknown }).users)) {
+    rows = (body as { users: unknown[] }).users;
+  } else {
+    throw new AppError('Send users as CSV (Content-Type: text/csv) or as a JSON array', 400);
+  }
+
+  if (rows.length === 0) {
+    throw new AppError('The import contains no users', 400);
+  }
+  if (rows.length > USER_IMPORT_MAX_ROWS) {
+    throw new AppError(`An import can contain at most ${USER_IMPORT_MAX_ROWS} users`, 400);
+  }
+
+  return rows.map((row) => (row && typeof row === 'object' ? toImportFields(row as Record<string, unknown>) : {}));
+};
+
+/**
+ * Validate import rows with the registration rules, plus checks against the file itself and the database:
+ * duplicate emails and usernames, existing accounts and unknown entity codes
+ */
+export const validateUserImportRows = async (
+  rows: Record<string, unknown>[]
+): Promise<ValidatedImportRow[]> => {
+  const checked = await Promise.all(rows.map(checkUserImportRow));
+
+  const emails = checked.map(({ values }) => values.email).filter((value): value is string => typeof value === 'string');
+  const usernames = checked.map(({ values }) => values.username).filter((value): value is string => typeof value === 'string');
+  const codes = [...new Set(checked.flatMap(({ values }) => (Array.isArray(values.entityCodes) ? values.entityCodes : [])))];
+
+  const [existingUsers, entities] = await Promise.all([
+    User.find({ $or: [{ email: { $in: emails } }, { username: { $in: usernames } }] }).select('email username'),
+    Entity.find({ entityCode: { $in: codes } }).select('entityCode'),
+  ]);
+  const existingEmails = new Set(existingUsers.map((user) => user.email));
+  const existingUsernames = new Set(existingUsers.map((user) => user.username));
+  const entityIds = new Map(entities.map((entity) => [entity.entityCode, entity._id as mongoose.Types.ObjectId]));
+
+  const seenEmails = new Set<string>();
+  const seenUsernames = new Set<string>();
+
+  return checked.map(({ values, errors }, index) => {
+    const email = typeof values.email === 'string' ? values.email : undefined;
+    const username = typeof values.username === 'string' ? values.username : undefined;
+    const entityCodes = Array.isArray(values.entityCodes) ? (values.entityCodes as string[]) : [];
+    const rowErrors = [...errors];
+
+    if (email && existingEmails.has(email)) {
+      rowErrors.push('User with this email already exists');
+    } else if (email && seenEmails.has(email)) {
+      rowErrors.push('Email appears more than once in the import');
+    }
+    if (username && existingUsernames.has(username)) {
+      rowErrors.push('Username already taken');
+    } else if (username && seenUsernames.has(username)) {
+      rowErrors.push('Username appears more than once in the import');
+    }
+
+    const unknownCodes = entityCodes.filter((code) => !entityIds.has(code));
+    if (unknownCodes.length > 0) {
+      rowErrors.push(`Unknown entity code(s): ${unknownCodes.join(', ')}`);
+    }
+
+    if (email) seenEmails.add(email);
+    if (username) seenUsernames.add(username);
+
+    return {
+      row: index + 1,
+      username,
+      email,
+      firstName: (values.firstName as string) || undefined,
+      lastName: (values.lastName as string) || undefined,
+      role: (values.role as string) || DEFAULT_USER_ROLE,
+      entityCodes,
+      allowedEntities: entityCodes.filter((code) => entityIds.has(code)).map((code) => entityIds.get(code) as mongoose.Types.ObjectId),
+      status: rowErrors.length > 0 ? 'invalid' : 'valid',
+      errors: rowErrors,
+    };
+  });
+};
+
+/**
+ * Email an imported user that their account exists
+ * Password users get a single-use link to choose a password; SSO-only users are told to sign in with SSO
+ */
+const sendImportInvitation = async (user: IUser): Promise<boolean> => {
+  try {
+    let setPasswordUrl: string | undefined;
+    if (!isSsoRequiredForEmail(user.email)) {
+      const { resetToken } = await issuePasswordResetToken(user, INVITATION_EXPIRY_HOURS * 60);
+      setPasswordUrl = `${APP_URL}/reset-password?email=${encodeURIComponent(user.email)}&token=${encodeURIComponent(resetToken)}`;
+    }
+
+    await sendTemplatedEmail(user.email, 'imported-account', {
+      username: user.username,
+      role: user.role,
+      setPasswordUrl,
+      expiryHours: INVITATION_EXPIRY_HOURS,
+    });
+    return true;
+  } catch (emailError) {
+    console.error('Failed to send import invitation email:', emailError);
+    // Don't fail the import - the user can still reset their password
+    return false;
+  }
+};
+
+/**
+ * Create the users of a validated import, one at a time
+ * Accounts get a random password nobody knows; users set their own through the invitation or password reset
+ */
+export const commitUserImport = async (
+  req: AuthRequest,
+  rows: ValidatedImportRow[],
+  sendInvitations: boolean
+): Promise<UserImportRow[]> => {
+  const results: UserImportRow[] = [];
+
+  for (const { allowedEntities, ...row } of rows) {
+    try {
+      const user = await User.create({
+        username: row.username,
+        email: row.email,
+        password: await hashPassword(generateSecureToken(32)),
+        passwordChangedAt: new Date(),
+        firstName: row.firstName,
+        lastName: row.lastName,
+        role: row.role,
+        allowedEntities,
+      });
+
+      const invitationSent = sendInvitations ? await sendImportInvitation(user) : undefined;
+
+      await recordAuditEvent(req, {
+        action: 'user.import',
+        target: auditUser(user),
+        metadata: { row: row.row, role: user.role, entityCodes: row.entityCodes, invitationSent },
+      });
+
+      results.push({ ...row, status: 'created', userId: user._id.toString(), invitationSent });
+    } catch (error) {
+      // Another request may have taken the email or username since validation
+      results.push({ ...row, status: 'failed', errors: [(error as Error).message] });
+    }
+  }
+
+  return results;
+};
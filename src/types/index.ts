@@ -1,5 +1,6 @@
 import { Request } from 'express';
-import { Document } from 'mongoose';
+import mongoose, { Document } from 'mongoose';
+import { Locale } from '../config/locales';
 
 export interface IUser extends Document {
   username: string;
@@ -13,34 +14,167 @@ export interface IUser extends Document {
   zip?: string;
   country?: string;
   gender?: 'male' | 'female' | 'other';
+  locale?: Locale; // Language of emails sent to the user; unset means DEFAULT_LOCALE
   email: string;
   password: string;
-  role: 'admin' | 'user';
+  passwordHistory: string[]; // Hashes of previous passwords, most recent first
+  passwordChangedAt?: Date;
+  role: string; // Name of a role in the Role collection
+  allowedEntities: mongoose.Types.ObjectId[]; // Empty means access to all entities
   emailVerified: boolean;
   emailVerifiedAt?: Date;
+  twoFactor: ITwoFactor;
+  ssoSubject?: string; // Identity provider subject (Entra object id) the account is linked to
+  lastLoginAt?: Date;
+  lastSeenAt?: Date; // Last authenticated request, updated at most once a minute
+  loginHistory: ILoginHistoryEntry[]; // Most recent first, capped at LOGIN_HISTORY_LIMIT
+  status: AccountStatus;
+  statusReason?: string;
+  statusChangedAt?: Date;
+  statusChangedBy?: mongoose.Types.ObjectId;
+  deletedAt?: Date;
+  purgeAfter?: Date; // Soft-deleted accounts can be restored until this date
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type AccountStatus = 'active' | 'suspended' | 'deactivated' | 'deleted';
+
+export type LoginMethod =
+  | 'password'
+  | 'login-code'
+  | 'sso'
+  | '2fa'
+  | 'recovery-code'
+  | 'registration'
+  | 'invitation';
+
+export interface ILoginHistoryEntry {
+  at: Date;
+  ipAddress: string;
+  userAgent: string;
+  method?: LoginMethod;
+  success: boolean;
+  reason?: string; // Why a failed attempt was rejected
+}
+
+export interface ITwoFactor {
+  enabled: boolean;
+  secret?: string; // Base32 TOTP secret, only set once enrollment is confirmed
+  pendingSecret?: string; // Secret awaiting confirmation during enrollment
+  recoveryCodes: string[]; // SHA-256 hashes of unused recovery codes
+  lastUsedStep?: number; // Last accepted TOTP time step, prevents code replay
+  enabledAt?: Date;
+}
+
 export interface JwtPayload {
   userId: string;
   email: string;
-  role: 'admin' | 'user';
+  role: string;
+  familyId?: string; // Refresh token family this access token belongs to
+  purpose?: TokenPurpose; // Only set on purpose-scoped tokens, never on access tokens
+  impersonationId?: string; // Only set on impersonation tokens, whose userId is the subject
+  actorId?: string; // Admin who started the impersonation session
+  actorEmail?: string;
+  subjectId?: string; // User being impersonated
+}
+
+export type TokenPurpose = 'password-reset' | '2fa-challenge' | '2fa-setup';
+
+export interface PurposeTokenPayload {
+  userId: string;
+  email: string;
+  purpose: TokenPurpose;
+  jti: string;
+}
+
+export interface RefreshTokenPayload {
+  userId: string;
+  familyId: string;
+  jti: string;
+}
+
+export interface ClientInfo {
+  ipAddress: string;
+  userAgent: string;
+}
+
+export interface DataScope {
+  restricted: boolean; // False means access to all entities and projects
+  entityIds: mongoose.Types.ObjectId[];
+  projectIds: mongoose.Types.ObjectId[];
+}
+
+export type AuditOutcome = 'success' | 'failure';
+
+export type AuditActorType = 'user' | 'api-key' | 'anonymous' | 'system';
+
+export type AuditAction =
+  | 'auth.register'
+  | 'auth.login'
+  | 'auth.login-code-request'
+  | 'auth.lockout'
+  | 'auth.unlock'
+  | 'auth.logout'
+  | 'auth.email-verify'
+  | 'auth.email-verification-resend'
+  | 'password.reset-request'
+  | 'password.reset-otp-verify'
+  | 'password.reset'
+  | 'otp.send'
+  | 'otp.verify'
+  | 'email.resend'
+  | 'user.import'
+  | 'user.update'
+  | 'user.role-change'
+  | 'user.entities-change'
+  | 'user.suspend'
+  | 'user.deactivate'
+  | 'user.reactivate'
+  | 'user.restore'
+  | 'user.delete'
+  | 'user.purge'
+  | 'digest.update'
+  | 'impersonation.start'
+  | 'impersonation.end';
+
+export interface AuditChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface ApiKeyContext {
+  id: string;
+  name: string;
+  prefix: string;
+  permissions: string[];
+  allowedEntities: mongoose.Types.ObjectId[]; // Empty means access to all entities
+}
+
+export interface ImpersonationContext {
+  sessionId: string;
+  actorId: string;
+  actorEmail: string;
+  allowMutations: boolean;
 }
 
 export interface AuthRequest extends Request {
   user?: {
     userId: string;
     email: string;
-    role: 'admin' | 'user';
+    role: string;
+    familyId?: string;
+    impersonation?: ImpersonationContext; // Set when an admin is viewing the API as this user
   };
+  apiKey?: ApiKeyContext; // Set when the request was authenticated with an X-API-Key header
+  dataScope?: DataScope;
 }
 
 export interface RegisterRequest {
   username: string;
   email: string;
   password: string;
-  role?: 'admin' | 'user';
 }
 
 export interface LoginRequest {
@@ -0,0 +1,16 @@
+import crypto from 'crypto';
+
+/**
+ * Generate a URL-safe random token
+ */
+export const generateSecureToken = (bytes: number = 32): string => {
+  return crypto.randomBytes(bytes).toString('base64url');
+};
+
+/**
+ * Hash a token for storage (SHA-256, hex)
+ * Tokens are high-entropy, so a fast hash is sufficient for lookups
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
@@ -0,0 +1,85 @@
+/**
+ * Format a single CSV cell
+ * Quotes values containing separators and neutralises spreadsheet formulas
+ */
+const formatCsvValue = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  let text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object'
+      ? JSON.stringify(value)
+      : String(value);
+
+  // Cells starting with these characters are evaluated as formulas by spreadsheet apps
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+/**
+ * Format a row of values as a CSV line (including the trailing newline)
+ */
+export const toCsvRow = (values: unknown[]): string => {
+  return `${values.map(formatCsvValue).join(',')}\r\n`;
+};
+
+/**
+ * Parse CSV text into rows of cells
+ * Handles quoted cells with escaped quotes and line breaks; blank lines are skipped
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index++;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
@@ -0,0 +1,86 @@
+import mongoose from 'mongoose';
+import { DataScope } from '../types';
+import { AppError } from './errors';
+
+type IdLike = string | mongoose.Types.ObjectId | null | undefined;
+
+const includesId = (ids: mongoose.Types.ObjectId[], id: IdLike): boolean => {
+  return !!id && ids.some((allowedId) => allowedId.toString() === id.toString());
+};
+
+/**
+ * Check if an entity is within the scope
+ */
+export const isEntityAllowed = (scope: DataScope | undefined, entityId: IdLike): boolean => {
+  return !scope?.restricted || includesId(scope.entityIds, entityId);
+};
+
+/**
+ * Check if a project is within the scope
+ */
+export const isProjectAllowed = (scope: DataScope | undefined, projectId: IdLike): boolean => {
+  return !scope?.restricted || includesId(scope.projectIds, projectId);
+};
+
+/**
+ * Throw 403 if the entity is outside the scope
+ */
+export const assertEntityAllowed = (scope: DataScope | undefined, entityId: IdLike): void => {
+  if (!isEntityAllowed(scope, entityId)) {
+    throw new AppError('Access denied. You do not have access to this entity.', 403);
+  }
+};
+
+/**
+ * Throw 403 if the project is outside the scope
+ */
+export const assertProjectAllowed = (scope: DataScope | undefined, projectId: IdLike): void => {
+  if (!isProjectAllowed(scope, projectId)) {
+    throw new AppError('Access denied. You do not have access to this project.', 403);
+  }
+};
+
+/**
+ * Restrict an entity field of a match/query object to the scope
+ * A specific entity already in the match must be allowed (403 otherwise);
+ * without one, the field is limited to the allowed entities.
+ */
+export const applyEntityScope = (
+  match: Record<string, any>,
+  field: string,
+  scope: DataScope | undefined
+): Record<string, any> => {
+  if (!scope?.restricted) {
+    return match;
+  }
+
+  if (match[field] !== undefined) {
+    assertEntityAllowed(scope, match[field]);
+  } else {
+    match[field] = { $in: scope.entityIds };
+  }
+
+  return match;
+};
+
+/**
+ * Restrict a project field of a match/query object to the scope
+ * Same rules as applyEntityScope, using projects of the allowed entities
+ */
+export const applyProjectScope = (
+  match: Record<string, any>,
+  field: string,
+  scope: DataScope | undefined
+): Record<string, any> => {
+  if (!scope?.restricted) {
+    return match;
+  }
+
+  if (match[field] !== undefined) {
+    assertProjectAllowed(scope, match[field]);
+  } else {
+    match[field] = { $in: scope.projectIds };
+  }
+
+  return match;
+};
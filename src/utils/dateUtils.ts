@@ -45,3 +45,24 @@ export const isValidDateFormat = (date: string): boolean => {
   return regex.test(date);
 };
 
+
+/**
+ * Get the date (yyyy-mm-dd) and time (HH:mm) of a moment in Dubai time (Asia/Dubai)
+ */
+export const getDubaiDateTime = (date: Date = new Date()): { date: string; time: string } => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: 'Asia/Dubai',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value || '';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    time: `${part('hour')}:${part('minute')}`,
+  };
+};
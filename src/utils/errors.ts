@@ -3,11 +3,13 @@ import { Response } from 'express';
 export class AppError extends Error {
   statusCode: number;
   isOperational: boolean;
+  details?: Record<string, unknown>; // Extra fields merged into the error response
 
-  constructor(message: string, statusCode: number = 500) {
+  constructor(message: string, statusCode: number = 500, details?: Record<string, unknown>) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = true;
+    this.details = details;
     Error.captureStackTrace(this, this.constructor);
   }
 }
@@ -17,6 +19,7 @@ export const sendErrorResponse = (res: Response, error: Error | AppError): void
     res.status(error.statusCode).json({
       success: false,
       message: error.message,
+      ...error.details,
     });
   } else {
     // Log error details in development mode for debugging
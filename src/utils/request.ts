@@ -0,0 +1,12 @@
+import { Request } from 'express';
+import { ClientInfo } from '../types';
+
+/**
+ * Get the client's IP address and user agent from a request
+ */
+export const getClientInfo = (req: Request): ClientInfo => {
+  return {
+    ipAddress: req.ip || req.socket.remoteAddress || 'unknown',
+    userAgent: req.get('user-agent') || 'unknown',
+  };
+};
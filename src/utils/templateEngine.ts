@@ -0,0 +1,234 @@
+import { AppError } from './errors';
+
+/**
+ * Minimal logic-less template language used for email templates
+ *
+ *   {{name}}                  value of `name` (dotted paths allowed), HTML-escaped when rendering HTML
+ *   {{{name}}}                value without escaping
+ *   {{> partial}}             another template, rendered with the current values
+ *   {{#if name}}…{{else}}…{{/if}}, {{#unless name}}…{{/unless}}
+ *   {{#each list}}…{{/each}}  repeated for each item; `this` is the item and its fields can be used directly
+ *   {{! comment}}             left out of the output
+ */
+
+type SectionKind = 'if' | 'unless' | 'each';
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'value'; path: string; raw: boolean }
+  | { type: 'partial'; name: string }
+  | { type: 'section'; kind: SectionKind; path: string; children: TemplateNode[]; inverse: TemplateNode[] };
+
+export interface TemplateRenderOptions {
+  escape: boolean; // HTML-escape {{values}}; off for plain text
+  locale?: string; // Used to format dates and numbers
+  partial: (name: string) => string | undefined;
+}
+
+const TAG_PATTERN = /\{\{(\{?)\s*([\s\S]*?)\s*\}?\}\}/g;
+const PATH_PATTERN = /^(this|[A-Za-z_][\w-]*(\.[A-Za-z_][\w-]*)*)$/;
+const STANDALONE_TAG_PATTERN = /^[ \t]*(\{\{\s*(?:[#/!][^}]*|else)\s*\}\})[ \t]*\r?\n/gm;
+const MAX_PARTIAL_DEPTH = 10;
+
+const parsedTemplates = new Map<string, TemplateNode[]>();
+
+/**
+ * Escape a value before embedding it in HTML
+ */
+export const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+const templateError = (message: string): AppError => new AppError(`Template error: ${message}`, 422);
+
+/**
+ * Check a value path used in a tag
+ */
+const toPath = (path: string, tag: string): string => {
+  if (!PATH_PATTERN.test(path)) {
+    throw templateError(`invalid tag {{${tag}}}`);
+  }
+  return path;
+};
+
+/**
+ * Parse template source into a tree of text, values, partials and sections
+ * A section, {{else}} or comment tag on a line of its own doesn't leave the line behind
+ */
+const parseTemplate = (template: string): TemplateNode[] => {
+  const source = template.replace(STANDALONE_TAG_PATTERN, '$1');
+  const root: TemplateNode[] = [];
+  const open: { kind: SectionKind; node: Extract<TemplateNode, { type: 'section' }>; inElse: boolean }[] = [];
+  const current = (): TemplateNode[] => {
+    const top = open[open.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.inverse : top.node.children;
+  };
+
+  let lastIndex = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const [tag, triple, content] = match;
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      current().push({ type: 'text', value: source.slice(lastIndex, index) });
+    }
+    lastIndex = index + tag.length;
+
+    if (triple) {
+      current().push({ type: 'value', path: toPath(content, content), raw: true });
+      continue;
+    }
+
+    const sectionMatch = content.match(/^#(if|unless|each)\s+(\S+)$/);
+    if (sectionMatch) {
+      const kind = sectionMatch[1] as SectionKind;
+      const node = { type: 'section' as const, kind, path: toPath(sectionMatch[2], content), children: [], inverse: [] };
+      current().push(node);
+      open.push({ kind, node, inElse: false });
+    } else if (content.startsWith('/')) {
+      const top = open.pop();
+      if (!top || top.kind !== content.slice(1).trim()) {
+        throw templateError(`unexpected {{${content}}}`);
+      }
+    } else if (content === 'else') {
+      const top = open[open.length - 1];
+      if (!top || top.inElse) {
+        throw templateError('unexpected {{else}}');
+      }
+      top.inElse = true;
+    } else if (content.startsWith('>')) {
+      current().push({ type: 'partial', name: content.slice(1).trim() });
+    } else if (!content.startsWith('!')) {
+      current().push({ type: 'value', path: toPath(content, content), raw: false });
+    }
+  }
+
+  if (open.length > 0) {
+    throw templateError(`{{#${open[open.length - 1].kind}}} is never closed`);
+  }
+  if (lastIndex < source.length) {
+    root.push({ type: 'text', value: source.slice(lastIndex) });
+  }
+  return root;
+};
+
+/**
+ * Parse a template once and reuse the tree for later renders
+ */
+const getParsedTemplate = (source: string): TemplateNode[] => {
+  let nodes = parsedTemplates.get(source);
+  if (!nodes) {
+    nodes = parseTemplate(source);
+    parsedTemplates.set(source, nodes);
+  }
+  return nodes;
+};
+
+/**
+ * Look up a value path, starting with the innermost {{#each}} item
+ */
+const lookup = (scopes: unknown[], path: string): unknown => {
+  if (path === 'this') {
+    return scopes[scopes.length - 1];
+  }
+
+  const [first, ...rest] = path.split('.');
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i];
+    if (scope && typeof scope === 'object' && first in scope) {
+      return rest.reduce<unknown>(
+        (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+        (scope as Record<string, unknown>)[first]
+      );
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Check if a value counts as set for {{#if}} (empty lists don't)
+ */
+const isTruthy = (value: unknown): boolean => {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+};
+
+/**
+ * Format a value for output; dates are shown in UTC in the template's locale
+ */
+const formatValue = (value: unknown, locale?: string): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return new Intl.DateTimeFormat(locale, { dateStyle: 'full', timeStyle: 'long', timeZone: 'UTC' }).format(value);
+  }
+  if (typeof value === 'number') {
+    return value.toLocaleString(locale);
+  }
+  return String(value);
+};
+
+const renderNodes = (
+  nodes: TemplateNode[],
+  scopes: unknown[],
+  options: TemplateRenderOptions,
+  depth: number
+): string => {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+      case 'value': {
+        const text = formatValue(lookup(scopes, node.path), options.locale);
+        output += options.escape && !node.raw ? escapeHtml(text) : text;
+        break;
+      }
+      case 'partial': {
+        const source = options.partial(node.name);
+        if (source === undefined) {
+          throw templateError(`partial "${node.name}" not found`);
+        }
+        if (depth >= MAX_PARTIAL_DEPTH) {
+          throw templateError(`partials nested more than ${MAX_PARTIAL_DEPTH} levels deep`);
+        }
+        output += renderNodes(getParsedTemplate(source), scopes, options, depth + 1);
+        break;
+      }
+      case 'section': {
+        const value = lookup(scopes, node.path);
+        if (node.kind === 'each') {
+          const items = Array.isArray(value) ? value : [];
+          output += items.length > 0
+            ? items.map((item) => renderNodes(node.children, [...scopes, item], options, depth)).join('')
+            : renderNodes(node.inverse, scopes, options, depth);
+        } else {
+          const show = node.kind === 'if' ? isTruthy(value) : !isTruthy(value);
+          output += renderNodes(show ? node.children : node.inverse, scopes, options, depth);
+        }
+        break;
+      }
+    }
+  }
+
+  return output;
+};
+
+/**
+ * Render template source with the given values
+ * Syntax errors and missing partials throw a 422 AppError
+ */
+export const renderTemplate = (
+  source: string,
+  data: Record<string, unknown>,
+  options: TemplateRenderOptions
+): string => {
+  return renderNodes(getParsedTemplate(source), [data], options, 0);
+};